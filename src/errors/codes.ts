@@ -9,6 +9,14 @@ export const OcpErrorCodes = {
   INVALID_TYPE: 'INVALID_TYPE',
   INVALID_FORMAT: 'INVALID_FORMAT',
   OUT_OF_RANGE: 'OUT_OF_RANGE',
+  DEPRECATED_FIELD: 'DEPRECATED_FIELD',
+  RULE_VIOLATION: 'RULE_VIOLATION',
+  CURRENCY_MISMATCH: 'CURRENCY_MISMATCH',
+
+  // Cap table ledger errors
+  UNKNOWN_SECURITY: 'UNKNOWN_SECURITY',
+  INVALID_SECURITY_STATE: 'INVALID_SECURITY_STATE',
+  UNKNOWN_REFERENCE: 'UNKNOWN_REFERENCE',
 
   // Contract errors
   CONTRACT_NOT_FOUND: 'CONTRACT_NOT_FOUND',
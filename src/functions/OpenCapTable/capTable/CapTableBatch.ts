@@ -15,6 +15,19 @@ import {
   type CommandObservabilityOptions,
 } from '../../../observability';
 import type { CommandWithDisclosedContracts } from '../../../types/common';
+import { assertAuthorizedSharesHeadroom } from '../../../utils/authorizedShares';
+import type { OcfManifest } from '../../../utils/cantonOcfExtractor';
+import { findIsoLimitViolations, type IsoLimitYear } from '../../../utils/isoLimit';
+import {
+  danglingReferenceCode,
+  findPendingDanglingReferences,
+  type DanglingReference,
+} from '../../../utils/referentialIntegrity';
+import { findSecurityLifecycleViolations, type SecurityLifecycleViolation } from '../../../utils/securityLifecycle';
+import { findStockPlanPoolOverages, type StockPlanPoolOverage } from '../../../utils/stockPlanPool';
+import { findTemporalConsistencyIssues } from '../../../utils/temporalConsistency';
+import type { ValidationIssue, ValidationReport } from '../../../utils/validationReport';
+import type { ValidationRuleRegistry } from '../../../utils/validationRules';
 import { type OcfCreateData, type OcfDeleteData, type OcfEditData, type UpdateCapTableResult } from './batchTypes';
 import {
   isOcfDeletableEntityType,
@@ -36,6 +49,7 @@ import {
   buildOcfEditData,
   buildOcfEditDataFromOperation,
 } from './generatedBatchOperations';
+import type { CapTableState } from './getCapTableState';
 
 /** Parameters for initializing a batch update. */
 export interface CapTableBatchParams extends CommandObservabilityOptions {
@@ -52,12 +66,51 @@ export interface CapTableBatchParams extends CommandObservabilityOptions {
   actAs: string[];
   /** Optional additional party IDs for read access */
   readAs?: string[];
+  /**
+   * Optional current cap table used for pre-flight checks in execute(). Pending issuances that would over-grant a
+   * stock plan pool or push an optionholder over the ISO $100,000 limit are reported through `logger.warn` before the
+   * command is submitted. Include `vestingTerms` so ISO grants with vesting terms can be checked.
+   */
+  preflightManifest?: Pick<OcfManifest, 'issuer' | 'stockClasses' | 'stockPlans' | 'transactions'> &
+    Partial<Pick<OcfManifest, 'vestingTerms'>>;
+  /**
+   * Reject the batch in execute() when pending stock issuances would exceed the authorized shares of their stock class
+   * or of the issuer. Requires `preflightManifest`.
+   */
+  enforceAuthorizedShares?: boolean;
+  /**
+   * Reject the batch in execute() when pending transactions break the lifecycle of a security (e.g. exercising a
+   * cancelled option or transferring more than is outstanding). Requires `preflightManifest`.
+   */
+  enforceSecurityLifecycle?: boolean;
+  /**
+   * Reject the batch in execute() when the dates of pending transactions contradict the cap table (e.g. an issuance
+   * dated before the issuer's formation date). Without it, such inconsistencies are only reported through
+   * `logger.warn`. Requires `preflightManifest`.
+   */
+  enforceTemporalConsistency?: boolean;
+  /**
+   * Optional current cap table state used to reject, in execute(), pending creates and edits that reference objects or
+   * securities that would not exist once the batch is applied.
+   */
+  preflightState?: Pick<CapTableState, 'entities' | 'securityIds'>;
+  /**
+   * Optional custom rules run on the pending operations, with `preflightState` as their state. Rule errors reject the
+   * batch in build() and execute(); rule warnings are reported through `logger.warn`. build() cannot await, so async
+   * rules are only supported by execute().
+   */
+  validationRules?: ValidationRuleRegistry;
 }
 
 function createUpdateCapTableCommandId(): string {
   return `update-captable-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
+/** Native payload of a pending create or edit, as the plain record the manifest-based checks read. */
+function operationData(operation: OcfCreateOperation | OcfEditOperation): Record<string, unknown> {
+  return operation.data as unknown as Record<string, unknown>;
+}
+
 /** Metadata for a batch operation item, used for debugging and error reporting. */
 export interface BatchItemMeta {
   /** The OCF entity type (e.g., 'stockIssuance', 'stakeholder') */
@@ -91,6 +144,9 @@ export class CapTableBatch {
   private creates: OcfCreateData[] = [];
   private edits: OcfEditData[] = [];
   private deletes: OcfDeleteData[] = [];
+  // Native create and edit payloads, kept for pre-flight checks against the current cap table
+  private createOperations: OcfCreateOperation[] = [];
+  private editOperations: OcfEditOperation[] = [];
 
   // Metadata arrays track per-item details for debugging/error reporting
   private createMetas: BatchItemMeta[] = [];
@@ -114,6 +170,7 @@ export class CapTableBatch {
     const [type, data] = args;
     this.creates.push(buildOcfCreateData(...args));
     this.createMetas.push(extractBatchItemMeta(type, data));
+    this.createOperations.push({ type, data } as OcfCreateOperation);
     return this;
   }
 
@@ -121,6 +178,7 @@ export class CapTableBatch {
   createOperation(operation: OcfCreateOperation): this {
     this.creates.push(buildOcfCreateDataFromOperation(operation));
     this.createMetas.push(extractBatchItemMeta(operation.type, operation.data));
+    this.createOperations.push(operation);
     return this;
   }
 
@@ -135,6 +193,7 @@ export class CapTableBatch {
     const [type, data] = args;
     this.edits.push(buildOcfEditData(...args));
     this.editMetas.push(extractBatchItemMeta(type, data));
+    this.editOperations.push({ type, data } as OcfEditOperation);
     return this;
   }
 
@@ -142,6 +201,7 @@ export class CapTableBatch {
   editOperation(operation: OcfEditOperation): this {
     this.edits.push(buildOcfEditDataFromOperation(operation));
     this.editMetas.push(extractBatchItemMeta(operation.type, operation.data));
+    this.editOperations.push(operation);
     return this;
   }
 
@@ -180,6 +240,164 @@ export class CapTableBatch {
     return this.size === 0;
   }
 
+  /**
+   * Check pending equity compensation and plan stock issuances against the stock plan pools of the current cap table.
+   *
+   * Stock plans and transactions created in this batch are replayed on top of `manifest`, so pending pool adjustments
+   * are taken into account. Pending edits and deletes are not.
+   *
+   * @param manifest - Current cap table (e.g. from extractCantonOcfManifest)
+   * @returns Plans that would be over-granted by this batch; empty when every pending issuance fits
+   */
+  checkStockPlanPools(manifest: Pick<OcfManifest, 'stockPlans' | 'transactions'>): StockPlanPoolOverage[] {
+    return findStockPlanPoolOverages(manifest, {
+      stockPlans: this.pendingObjects('STOCK_PLAN'),
+      transactions: this.pendingTransactions(),
+    });
+  }
+
+  /**
+   * Check pending stock issuances against the authorized shares of their stock class and of the issuer.
+   *
+   * Stock classes, authorized share adjustments and splits created in this batch are replayed on top of `manifest`.
+   * Pending edits and deletes are not.
+   *
+   * @param manifest - Current cap table (e.g. from extractCantonOcfManifest)
+   * @throws OcpValidationError (`OUT_OF_RANGE`) naming the stock class, or the issuer, that would be exceeded
+   */
+  checkAuthorizedShares(manifest: Pick<OcfManifest, 'issuer' | 'stockClasses' | 'transactions'>): void {
+    assertAuthorizedSharesHeadroom(manifest, {
+      stockClasses: this.pendingObjects('STOCK_CLASS'),
+      transactions: this.pendingTransactions(),
+    });
+  }
+
+  /**
+   * Check pending ISO grants against the $100,000 first-exercisable limit of each optionholder.
+   *
+   * Vesting terms and transactions created in this batch are replayed on top of `manifest`. Pending edits and deletes
+   * are not.
+   *
+   * @param manifest - Current cap table (e.g. from extractCantonOcfManifest)
+   * @returns Stakeholder years this batch would push above the limit; empty when every pending grant fits
+   */
+  checkIsoLimits(
+    manifest: Pick<OcfManifest, 'transactions'> & Partial<Pick<OcfManifest, 'vestingTerms'>>
+  ): IsoLimitYear[] {
+    return findIsoLimitViolations(manifest, {
+      vestingTerms: this.pendingObjects('VESTING_TERMS'),
+      transactions: this.pendingTransactions(),
+    });
+  }
+
+  /**
+   * Check pending transactions against the lifecycle of the securities they touch.
+   *
+   * Transactions created in this batch are replayed on top of `manifest`. Pending edits and deletes are not.
+   *
+   * @param manifest - Current cap table (e.g. from extractCantonOcfManifest)
+   * @returns Violations introduced by this batch, in ledger order; empty when every pending transaction is legal
+   */
+  checkSecurityLifecycle(manifest: Pick<OcfManifest, 'transactions'>): SecurityLifecycleViolation[] {
+    return findSecurityLifecycleViolations(manifest, { transactions: this.pendingTransactions() });
+  }
+
+  /**
+   * Check the dates of pending transactions against the cap table and against each other.
+   *
+   * Transactions created in this batch are checked together with `manifest`, against the edited issuer when the batch
+   * edits it. Pending transaction edits and deletes are not taken into account.
+   *
+   * @param manifest - Current cap table (e.g. from extractCantonOcfManifest)
+   * @returns Date inconsistencies introduced by this batch; empty when its dates agree with the cap table
+   */
+  checkTemporalConsistency(manifest: Pick<OcfManifest, 'issuer' | 'transactions'>): ValidationIssue[] {
+    const issuerEdit = this.editOperations.find((operation) => operation.type === 'issuer');
+    return findTemporalConsistencyIssues(manifest, {
+      issuer: issuerEdit ? operationData(issuerEdit) : undefined,
+      transactions: this.pendingTransactions(),
+    });
+  }
+
+  /**
+   * Check that the references of pending creates and edits resolve once the batch is applied.
+   *
+   * Stakeholder, stock class, stock plan, vesting terms, stock legend, security and document object references are
+   * resolved against `state`, plus the objects created in this batch, minus the objects it deletes.
+   *
+   * @param state - Current cap table state (from getCapTableState)
+   * @returns Dangling references in batch order; empty when every reference resolves
+   */
+  checkReferences(state: Pick<CapTableState, 'entities' | 'securityIds'>): DanglingReference[] {
+    return findPendingDanglingReferences(state, {
+      creates: this.createOperations.map(operationData),
+      edits: this.editOperations.map(operationData),
+      deletes: this.deleteMetas.map(({ entityType, id }) => ({ entityType, id })),
+    });
+  }
+
+  /**
+   * Run the `validationRules` of the batch on the pending operations.
+   *
+   * @returns Issues reported by the rules; valid when no rules are configured
+   */
+  async checkValidationRules(): Promise<ValidationReport> {
+    const rules = this.params.validationRules;
+    if (!rules) return { valid: true, errorCount: 0, warningCount: 0, issues: [] };
+    return rules.validate(this.pendingOperations(), this.params.preflightState ?? null);
+  }
+
+  /** Pending operations, as passed to custom validation rules. */
+  private pendingOperations(): CapTableBatchOperations {
+    return {
+      creates: this.createOperations,
+      edits: this.editOperations,
+      deletes: this.deleteMetas.map(({ entityType, id }) => ({ type: entityType, id }) as OcfDeleteOperation),
+    };
+  }
+
+  /** Reject a rule report with errors and log its warnings. */
+  private assertValidationRules(report: ValidationReport): void {
+    for (const issue of report.issues.filter((candidate) => candidate.severity === 'warning')) {
+      this.params.logger?.warn(`Validation rule '${issue.rule}' warning on ${issue.fieldPath}: ${issue.message}`, {
+        ...issue,
+      });
+    }
+    if (report.valid) return;
+    const [first] = report.issues.filter((issue) => issue.severity === 'error');
+    throw new OcpValidationError(
+      `${first.entityType ?? 'batch'}.${first.fieldPath}`,
+      `${report.errorCount} validation rule error(s); first: rule '${first.rule}'` +
+        `${first.entityId ? ` on ${first.entityType} '${first.entityId}'` : ''}: ${first.message}`,
+      { code: first.code, context: { issues: report.issues } }
+    );
+  }
+
+  /** Run a warn-only pre-flight check, logging a check that cannot complete instead of rejecting the batch. */
+  private runWarningCheck<T>(name: string, check: () => T[]): T[] {
+    try {
+      return check();
+    } catch (error) {
+      this.params.logger?.warn(
+        `Skipped the ${name} pre-flight check: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof OcpValidationError ? { fieldPath: error.fieldPath, code: error.code } : {}
+      );
+      return [];
+    }
+  }
+
+  /** Native payloads of pending creates with the given object type. */
+  private pendingObjects(objectType: string): Array<Record<string, unknown>> {
+    return this.createOperations.map(operationData).filter((data) => data.object_type === objectType);
+  }
+
+  /** Native payloads of pending transaction and change event creates. */
+  private pendingTransactions(): Array<Record<string, unknown>> {
+    return this.createOperations
+      .map(operationData)
+      .filter((data) => typeof data.object_type === 'string' && /^(TX|CE)_/.test(data.object_type));
+  }
+
   /**
    * Build the UpdateCapTable command without executing it.
    *
@@ -188,8 +406,19 @@ export class CapTableBatch {
    * errors from the Canton JSON API parameter validation.
    *
    * @returns The command and disclosed contracts for manual submission
+   * @throws OcpValidationError if the batch is empty, or if a `validationRules` rule reports an error or is async
    */
   build(): CommandWithDisclosedContracts {
+    const command = this.buildCommand();
+    if (this.params.validationRules) {
+      this.assertValidationRules(
+        this.params.validationRules.validateSync(this.pendingOperations(), this.params.preflightState ?? null)
+      );
+    }
+    return command;
+  }
+
+  private buildCommand(): CommandWithDisclosedContracts {
     if (this.isEmpty) {
       throw new OcpValidationError(
         'batch',
@@ -231,8 +460,20 @@ export class CapTableBatch {
   /**
    * Build and execute the batch update.
    *
+   * When `preflightManifest` is set, stock plan over-grants found by {@link checkStockPlanPools} and ISO limit excesses
+   * found by {@link checkIsoLimits} are logged as warnings before the command is submitted; they do not block
+   * execution, and a check that fails on an inconsistent manifest is logged and skipped. With `enforceAuthorizedShares`, issuances that exceed authorized shares are rejected by
+   * {@link checkAuthorizedShares} instead, and with `enforceSecurityLifecycle` the first violation found by
+   * {@link checkSecurityLifecycle} is thrown. Date inconsistencies found by {@link checkTemporalConsistency} are
+   * warned, or rejected with `enforceTemporalConsistency`. When `preflightState` is set, dangling references found by
+   * {@link checkReferences} are rejected before submission. Errors reported by `validationRules` are rejected too.
+   *
    * @returns The result containing the update ID (transaction ID), updated cap table contract ID, and affected entity IDs
-   * @throws OcpValidationError if no client was provided or if the batch is empty
+   * @throws OcpValidationError if no client was provided, if the batch is empty, if `enforceAuthorizedShares` is set
+   *   and a pending stock issuance would exceed authorized shares, if `enforceSecurityLifecycle` is set and a pending
+   *   transaction breaks the lifecycle of a security, if `enforceTemporalConsistency` is set and a pending transaction
+   *   has inconsistent dates, if `preflightState` is set and a pending create or edit references an object that does
+   *   not exist, or if a `validationRules` rule reports an error
    * @throws OcpContractError if the UpdateCapTable result is not found in the transaction tree or if execution fails
    */
   async execute(): Promise<CapTableBatchExecuteResult> {
@@ -246,7 +487,68 @@ export class CapTableBatch {
       );
     }
 
-    const { command, disclosedContracts } = this.build();
+    const { command, disclosedContracts } = this.buildCommand();
+
+    if (this.params.preflightState) {
+      const dangling = this.checkReferences(this.params.preflightState);
+      if (dangling.length > 0) {
+        const [first] = dangling;
+        throw new OcpValidationError(
+          `${first.entityType ?? first.objectType}.${first.fieldPath}`,
+          `${dangling.length} dangling reference(s); first: ${first.objectType} '${first.id}' references unknown ` +
+            `${first.targetType} '${first.targetId}'`,
+          {
+            receivedValue: first.targetId,
+            code: danglingReferenceCode(first),
+            context: { danglingReferences: dangling },
+          }
+        );
+      }
+    }
+
+    if (this.params.validationRules) this.assertValidationRules(await this.checkValidationRules());
+
+    if (this.params.preflightManifest) {
+      if (this.params.enforceAuthorizedShares) this.checkAuthorizedShares(this.params.preflightManifest);
+      if (this.params.enforceSecurityLifecycle) {
+        const violations = this.checkSecurityLifecycle(this.params.preflightManifest);
+        if (violations.length > 0) throw violations[0].error;
+      }
+      const dateIssues = this.checkTemporalConsistency(this.params.preflightManifest);
+      const dateErrors = dateIssues.filter((issue) => issue.severity === 'error');
+      if (this.params.enforceTemporalConsistency && dateErrors.length > 0) {
+        const [first] = dateErrors;
+        throw new OcpValidationError(
+          `${first.entityType ?? 'batch'}.${first.fieldPath}`,
+          `${dateErrors.length} date inconsistency(ies); first: ${first.entityType} '${first.entityId}': ${first.message}`,
+          { code: first.code, context: { issues: dateIssues } }
+        );
+      } else {
+        for (const issue of dateIssues) {
+          this.params.logger?.warn(
+            `Batch date inconsistency in ${issue.entityType} '${issue.entityId}': ${issue.message}`,
+            { ...issue }
+          );
+        }
+      }
+      const { preflightManifest } = this.params;
+      const overages = this.runWarningCheck('stock plan pool', () => this.checkStockPlanPools(preflightManifest));
+      for (const overage of overages) {
+        this.params.logger?.warn(
+          `Batch would over-grant stock plan '${overage.planName}': ${overage.requested} requested, ` +
+            `${overage.availableBefore} available`,
+          { ...overage }
+        );
+      }
+      const isoViolations = this.runWarningCheck('ISO limit', () => this.checkIsoLimits(preflightManifest));
+      for (const violation of isoViolations) {
+        this.params.logger?.warn(
+          `Batch would exceed the ISO limit of stakeholder '${violation.stakeholderId}' in ${violation.year}: ` +
+            `${violation.excess} of ${violation.exercisableValue} first exercisable must be treated as NSO`,
+          { ...violation }
+        );
+      }
+    }
 
     // Get batch summary for error context
     const batchSummary = this.getBatchSummary();
@@ -433,6 +735,8 @@ export class CapTableBatch {
     this.createMetas = [];
     this.editMetas = [];
     this.deleteMetas = [];
+    this.createOperations = [];
+    this.editOperations = [];
     return this;
   }
 }
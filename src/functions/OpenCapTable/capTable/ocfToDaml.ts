@@ -87,7 +87,21 @@ export function convertOperationToDaml(operation: OcfCreateOperation | OcfEditOp
   return convertEntityToDaml(operation.type, operation.data);
 }
 
-function convertEntityToDaml(type: OcfEntityType, data: OcfDataTypeFor<OcfEntityType>): Record<string, unknown> {
+/**
+ * Convert unchecked input to DAML format, e.g. for validation reports.
+ *
+ * The input is parsed against the entity type's schema first, so it need not be typed.
+ *
+ * @param type - The OCF entity type the input is meant for
+ * @param input - Native OCF data of unknown shape
+ * @returns The DAML-formatted data object
+ * @throws OcpValidationError if the input does not match the schema or fails the entity validator
+ */
+export function convertInputToDaml(type: OcfEntityType, input: unknown): Record<string, unknown> {
+  return convertEntityToDaml(type, input);
+}
+
+function convertEntityToDaml(type: OcfEntityType, data: unknown): Record<string, unknown> {
   const d = parseOcfEntityInput(type, data);
 
   switch (type) {
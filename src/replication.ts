@@ -66,21 +66,255 @@ export {
   type OcfManifest,
 } from './utils/cantonOcfExtractor';
 
+// ── OCF file bundles ────────────────────────────────────────────────────────
+
+export {
+  createOcfBundleZipStream,
+  exportOcfBundle,
+  importOcfBundle,
+  parseOcfBundle,
+  writeOcfBundle,
+  type ExportOcfBundleOptions,
+  type OcfBundle,
+  type OcfBundleContents,
+  type OcfBundleFile,
+  type OcfBundleSection,
+} from './utils/ocfBundle';
+
+// ── CSV ledgers ─────────────────────────────────────────────────────────────
+
+export {
+  createConvertibleLedgerCsvStream,
+  createOptionLedgerCsvStream,
+  createStakeholderCsvStream,
+  createStockLedgerCsvStream,
+  createWarrantLedgerCsvStream,
+  type ConvertibleLedgerRow,
+  type CsvColumn,
+  type CsvColumnSpec,
+  type CsvExportOptions,
+  type CsvValue,
+  type OptionLedgerRow,
+  type SecurityLedgerRow,
+  type StakeholderCsvRow,
+  type StockLedgerRow,
+  type WarrantLedgerRow,
+} from './utils/csvExport';
+export {
+  importCapTableCsv,
+  type CapTableCsvSheets,
+  type CsvColumnMapping,
+  type CsvColumnSource,
+  type CsvFieldSource,
+  type CsvImportOptions,
+  type CsvImportReport,
+  type CsvImportResult,
+  type CsvImportSheet,
+  type CsvRowIssue,
+  type CsvSheet,
+} from './utils/csvImport';
+
+// ── Cap table analytics ─────────────────────────────────────────────────────
+
+export {
+  assertAuthorizedSharesHeadroom,
+  computeAuthorizedShares,
+  isAuthorizedSharesSentinel,
+  type AuthorizedSharesHeadroom,
+  type AuthorizedSharesReport,
+  type StockClassAuthorizedShares,
+} from './utils/authorizedShares';
+export {
+  computeCapitalization,
+  type CapitalizationOptions,
+  type CapitalizationSummary,
+  type StakeholderCapitalization,
+  type StockClassCapitalization,
+  type StockPlanCapitalization,
+} from './utils/capitalization';
+export {
+  computeCapTablePositions,
+  type AppliedStockSplit,
+  type CapTablePositions,
+  type CapTablePositionsOptions,
+  type SecurityKind,
+  type SecurityPosition,
+  type SecurityPositionStatus,
+  type SplitQuantityChange,
+  type StockSplitRatio,
+} from './utils/capTablePositions';
+export {
+  computeCapTableSnapshot,
+  type CapTableSnapshot,
+  type SecurityVestingStatus,
+  type SnapshotAuthorizedShares,
+  type SnapshotStakeholder,
+  type VestingScheduleSource,
+} from './utils/capTableSnapshot';
+export {
+  modelConvertibleConversions,
+  type ConversionPriceBasis,
+  type ConvertibleConversionModel,
+  type ConvertibleConversionModelResult,
+  type ModelConvertibleConversionsOptions,
+  type PricedRound,
+  type SkippedConvertible,
+} from './utils/convertibleConversion';
+export {
+  convertMonetary,
+  isIso4217CurrencyCode,
+  sumMonetary,
+  validateCurrencyCode,
+  validateCurrencyConsistency,
+  type FxRate,
+  type ReportingCurrencyOptions,
+} from './utils/currency';
+export {
+  analyzeGrantValuations,
+  type AnalyzeGrantValuationsOptions,
+  type GrantValuationIssueType,
+  type GrantValuationMatch,
+  type GrantValuationReport,
+  type MatchedValuation,
+} from './utils/grantValuations';
+export {
+  computeIsoLimits,
+  findIsoLimitViolations,
+  type IsoGrantAllocation,
+  type IsoLimitOptions,
+  type IsoLimitReport,
+  type IsoLimitYear,
+  type SkippedIsoGrant,
+} from './utils/isoLimit';
+export {
+  computeExitScenarios,
+  computeLiquidationWaterfall,
+  type ClassPayout,
+  type ExitRange,
+  type LiquidationWaterfall,
+  type SecurityPayout,
+  type SkippedWaterfallSecurity,
+  type StakeholderPayout,
+} from './utils/liquidationWaterfall';
+export {
+  findPendingDanglingReferences,
+  validateReferentialIntegrity,
+  type DanglingReference,
+  type PendingReferenceChanges,
+  type ReferentialIntegrityReport,
+} from './utils/referentialIntegrity';
+export {
+  findSecurityLifecycleViolations,
+  validateSecurityLifecycle,
+  type SecurityLifecycleReport,
+  type SecurityLifecycleViolation,
+} from './utils/securityLifecycle';
+export {
+  buildSecurityLineage,
+  getSecurityAncestors,
+  getSecurityDescendants,
+  type BrokenLineageLink,
+  type LineageEdge,
+  type LineageNode,
+  type LineageRelation,
+  type LineageStep,
+  type SecurityLineageGraph,
+} from './utils/securityLineage';
+export {
+  computeStakeholderStatement,
+  renderStakeholderStatementHtml,
+  type StakeholderStatement,
+  type StakeholderStatementOptions,
+  type StatementHolding,
+  type StatementTotals,
+  type StatementVesting,
+} from './utils/stakeholderStatement';
+export {
+  computeStockPlanPools,
+  findStockPlanPoolOverages,
+  type StockPlanPool,
+  type StockPlanPoolOverage,
+} from './utils/stockPlanPool';
+export {
+  applyStockSplits,
+  type ApplyStockSplitsOptions,
+  type SecurityPrice,
+  type StockSplitAdjustedField,
+  type StockSplitAdjustment,
+  type StockSplitResult,
+} from './utils/stockSplits';
+export {
+  findTemporalConsistencyIssues,
+  validateTemporalConsistency,
+  type TemporalConsistencyManifest,
+} from './utils/temporalConsistency';
+export {
+  createValidationReport,
+  validateCapTableBatchOperations,
+  validateOcfEntityInput,
+  validateOcfManifest,
+  type ValidationIssue,
+  type ValidationReport,
+  type ValidationSeverity,
+} from './utils/validationReport';
+export {
+  ValidationRuleRegistry,
+  type BatchValidationRule,
+  type EntityValidationRule,
+  type ValidationRuleContext,
+  type ValidationRuleFinding,
+  type ValidationRuleResult,
+} from './utils/validationRules';
+export {
+  computeVestedQuantity,
+  computeVestingSchedule,
+  type ComputeVestingScheduleParams,
+  type VestedQuantity,
+  type VestingSchedule,
+  type VestingTranche,
+} from './utils/vestingSchedule';
+
 // ── OCF comparison and diff ─────────────────────────────────────────────────
 
 export {
   DEFAULT_DEPRECATED_FIELDS,
   DEFAULT_INTERNAL_FIELDS,
+  createOcfJsonPatch,
   createOcfMismatchError,
   diffOcfObjects,
   isOcfMismatchError,
   ocfCompare,
   ocfDeepEqual,
   stripInternalFields,
+  type JsonPatchOperation,
   type OcfComparisonOptions,
   type OcfComparisonResult,
   type OcfMismatchError,
 } from './utils/ocfComparison';
+export {
+  applyJsonPatch,
+  applyOcfJsonPatch,
+  createReplicationEditPatches,
+  type ReplicationEditPatch,
+} from './utils/ocfJsonPatch';
+
+// ── OCF schema migrations ───────────────────────────────────────────────────
+
+export {
+  CURRENT_OCF_VERSION,
+  DEFAULT_OCF_MIGRATIONS,
+  OCF_VERSIONS,
+  OcfMigrationRegistry,
+  migrateOcfObjects,
+  type OcfFieldChange,
+  type OcfMigrationChange,
+  type OcfMigrationOptions,
+  type OcfMigrationReport,
+  type OcfMigrationResult,
+  type OcfMigrationStep,
+  type OcfObjectMigration,
+  type OcfVersion,
+} from './utils/ocfMigrations';
 
 // ── Type/object-type normalisation ──────────────────────────────────────────
 
@@ -88,7 +322,13 @@ export { normalizeEntityType, normalizeObjectType, normalizeOcfData } from './ut
 
 // ── OCF schema parsing ──────────────────────────────────────────────────────
 
-export { getOcfSchema, parseOcfEntityInput, parseOcfObject } from './utils/ocfZodSchemas';
+export {
+  getOcfSchema,
+  parseOcfEntityInput,
+  parseOcfObject,
+  validateOcfFile,
+  type OcfFileType,
+} from './utils/ocfZodSchemas';
 
 // ── Human-readable labels ───────────────────────────────────────────────────
 
@@ -0,0 +1,208 @@
+/**
+ * Authorized vs issued share headroom for the issuer and each stock class.
+ *
+ * Authorized counts start from `initial_shares_authorized`, are replaced by `TX_ISSUER_AUTHORIZED_SHARES_ADJUSTMENT`
+ * and `TX_STOCK_CLASS_AUTHORIZED_SHARES_ADJUSTMENT`, and are scaled by `TX_STOCK_CLASS_SPLIT`. Issued counts come
+ * from {@link computeCapTablePositions}, so splits, consolidations and other consuming transactions are already
+ * reflected.
+ *
+ * Authorized counts may be the OCF {@link AuthorizedShares} sentinels `UNLIMITED` or `NOT APPLICABLE`, in which case
+ * there is no headroom to exceed.
+ *
+ * @module authorizedShares
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type { AuthorizedShares } from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { sortTransactions } from './cantonOcfExtractor';
+import { computeCapTablePositions, type CapTablePositions, type StockSplitRatio } from './capTablePositions';
+import { addDecimals, compareDecimals, divideDecimals, multiplyDecimals, subtractDecimals } from './decimalMath';
+import { normalizeObjectType } from './planSecurityAliases';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** Authorized vs issued shares for the issuer or a stock class. */
+export interface AuthorizedSharesHeadroom {
+  /** Authorized share count, or the `UNLIMITED` / `NOT APPLICABLE` sentinel */
+  authorized: string;
+  /** Outstanding shares plus repurchased shares not yet retired */
+  issued: string;
+  /** `authorized - issued`, or null when `authorized` is a sentinel */
+  headroom: string | null;
+  /** True when issued shares exceed a numeric authorized count */
+  exceeded: boolean;
+}
+
+/** Headroom of a single stock class. */
+export interface StockClassAuthorizedShares extends AuthorizedSharesHeadroom {
+  stockClassId: string;
+  name: string;
+}
+
+/** Result of {@link computeAuthorizedShares}. */
+export interface AuthorizedSharesReport {
+  /** Issuer-level headroom across all stock classes, or null when the manifest has no issuer */
+  issuer: AuthorizedSharesHeadroom | null;
+  stockClasses: StockClassAuthorizedShares[];
+}
+
+// ===== Helpers =====
+
+const SENTINELS: ReadonlySet<string> = new Set<AuthorizedShares>(['UNLIMITED', 'NOT APPLICABLE']);
+
+/**
+ * Check whether an authorized share value is one of the OCF sentinels (`UNLIMITED`, `NOT APPLICABLE`).
+ *
+ * @param value - Authorized share value from an issuer, stock class or adjustment
+ */
+export function isAuthorizedSharesSentinel(value: unknown): value is AuthorizedShares {
+  return typeof value === 'string' && SENTINELS.has(value);
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readAuthorized(value: unknown): string {
+  if (typeof value === 'number') return value.toString();
+  return readString(value) ?? '0';
+}
+
+function applySplit(quantity: string, ratio: StockSplitRatio): string {
+  if (isAuthorizedSharesSentinel(quantity)) return quantity;
+  return divideDecimals(multiplyDecimals(quantity, ratio.numerator), ratio.denominator);
+}
+
+function headroom(authorized: string, issued: string): AuthorizedSharesHeadroom {
+  if (isAuthorizedSharesSentinel(authorized)) return { authorized, issued, headroom: null, exceeded: false };
+  const remaining = subtractDecimals(authorized, issued);
+  return { authorized, issued, headroom: remaining, exceeded: compareDecimals(remaining, '0') < 0 };
+}
+
+// ===== Report =====
+
+/**
+ * Compute authorized vs issued shares for the issuer and every stock class.
+ *
+ * Issuer-level issued shares are the sum across all stock classes, including classes missing from the manifest.
+ *
+ * @param manifest - Manifest with issuer, stock classes and transactions
+ * @param positions - Positions already computed for the same manifest, to avoid replaying it twice
+ * @returns Issuer and per-class headroom
+ * @throws OcpValidationError raised by {@link computeCapTablePositions} for inconsistent security histories
+ *
+ * @example
+ * ```typescript
+ * const { issuer, stockClasses } = computeAuthorizedShares(manifest);
+ * for (const stockClass of stockClasses.filter((c) => c.exceeded)) {
+ *   console.warn(`${stockClass.name} is over-issued by ${stockClass.headroom}`);
+ * }
+ * ```
+ */
+export function computeAuthorizedShares(
+  manifest: Pick<OcfManifest, 'issuer' | 'stockClasses' | 'transactions'>,
+  positions: CapTablePositions = computeCapTablePositions(manifest)
+): AuthorizedSharesReport {
+  let issuerAuthorized = manifest.issuer ? readAuthorized(manifest.issuer.initial_shares_authorized) : null;
+  const classes = new Map<string, { name: string; authorized: string }>();
+  for (const stockClass of manifest.stockClasses) {
+    const stockClassId = readString(stockClass.id);
+    if (!stockClassId) continue;
+    classes.set(stockClassId, {
+      name: readString(stockClass.name) ?? stockClassId,
+      authorized: readAuthorized(stockClass.initial_shares_authorized),
+    });
+  }
+
+  const splitRatios = new Map(positions.splits.map((split) => [split.transactionId, split.ratio]));
+  for (const tx of sortTransactions(manifest.transactions.filter(isRecord))) {
+    const stockClass = classes.get(readString(tx.stock_class_id) ?? '');
+    const splitRatio = splitRatios.get(readString(tx.id) ?? '');
+    if (tx.object_type === 'TX_ISSUER_AUTHORIZED_SHARES_ADJUSTMENT' && issuerAuthorized !== null) {
+      issuerAuthorized = readAuthorized(tx.new_shares_authorized);
+    } else if (tx.object_type === 'TX_STOCK_CLASS_AUTHORIZED_SHARES_ADJUSTMENT' && stockClass) {
+      stockClass.authorized = readAuthorized(tx.new_shares_authorized);
+    } else if (tx.object_type === 'TX_STOCK_CLASS_SPLIT' && stockClass && splitRatio) {
+      stockClass.authorized = applySplit(stockClass.authorized, splitRatio);
+    }
+  }
+
+  const issued = new Map<string, string>();
+  let issuerIssued = '0';
+  for (const position of positions.securities.values()) {
+    if (position.kind !== 'STOCK' || !position.stockClassId) continue;
+    const quantity =
+      position.status === 'OUTSTANDING'
+        ? (position.quantity ?? '0')
+        : position.status === 'REPURCHASED'
+          ? (position.consumedQuantity ?? '0')
+          : '0';
+    issued.set(position.stockClassId, addDecimals(issued.get(position.stockClassId) ?? '0', quantity));
+    issuerIssued = addDecimals(issuerIssued, quantity);
+  }
+
+  return {
+    issuer: issuerAuthorized === null ? null : headroom(issuerAuthorized, issuerIssued),
+    stockClasses: [...classes.entries()].map(([stockClassId, stockClass]) => ({
+      stockClassId,
+      name: stockClass.name,
+      ...headroom(stockClass.authorized, issued.get(stockClassId) ?? '0'),
+    })),
+  };
+}
+
+/**
+ * Reject pending stock issuances that would exceed authorized shares.
+ *
+ * Pending transactions and stock classes are replayed together with the manifest, so pending authorized share
+ * adjustments and splits are taken into account. Only the issuer and stock classes that receive a pending stock
+ * issuance are checked.
+ *
+ * @param manifest - Current manifest with issuer, stock classes and transactions
+ * @param pending - Stock classes and transactions about to be submitted
+ * @throws OcpValidationError (`OUT_OF_RANGE`) naming the first stock class, or the issuer, whose authorized shares
+ *   would be exceeded
+ *
+ * @example
+ * ```typescript
+ * assertAuthorizedSharesHeadroom(manifest, { transactions: [stockIssuance] });
+ * ```
+ */
+export function assertAuthorizedSharesHeadroom(
+  manifest: Pick<OcfManifest, 'issuer' | 'stockClasses' | 'transactions'>,
+  pending: Pick<OcfManifest, 'transactions'> & Partial<Pick<OcfManifest, 'stockClasses'>>
+): void {
+  const pendingClassIds = new Set(
+    pending.transactions
+      .filter((tx) => typeof tx.object_type === 'string' && normalizeObjectType(tx.object_type) === 'TX_STOCK_ISSUANCE')
+      .map((tx) => readString(tx.stock_class_id))
+      .filter((id): id is string => id !== null)
+  );
+  if (pendingClassIds.size === 0) return;
+
+  const report = computeAuthorizedShares({
+    issuer: manifest.issuer,
+    stockClasses: [...manifest.stockClasses, ...(pending.stockClasses ?? [])],
+    transactions: [...manifest.transactions, ...pending.transactions],
+  });
+
+  for (const stockClass of report.stockClasses) {
+    if (!pendingClassIds.has(stockClass.stockClassId) || !stockClass.exceeded) continue;
+    throw new OcpValidationError(
+      `stockClasses.${stockClass.stockClassId}`,
+      `Stock class '${stockClass.name}' (${stockClass.stockClassId}) would exceed its authorized shares: ` +
+        `${stockClass.issued} issued, ${stockClass.authorized} authorized`,
+      { receivedValue: stockClass.issued, code: OcpErrorCodes.OUT_OF_RANGE }
+    );
+  }
+  if (report.issuer?.exceeded) {
+    throw new OcpValidationError(
+      'issuer',
+      `Issuer would exceed its authorized shares: ${report.issuer.issued} issued, ${report.issuer.authorized} authorized`,
+      { receivedValue: report.issuer.issued, code: OcpErrorCodes.OUT_OF_RANGE }
+    );
+  }
+}
@@ -0,0 +1,571 @@
+/**
+ * Cap table position engine.
+ *
+ * Replays the transactions of an {@link OcfManifest} in ledger order (see {@link sortTransactions}) and produces a
+ * per-security position model: who holds each security, how much of it, in which stock class, and whether it is still
+ * outstanding. Every position records the transaction that produced it and, once it leaves the cap table, the
+ * transaction that consumed it.
+ *
+ * OCF models partial activity by consuming the source security entirely and issuing new securities for the result and
+ * any remainder (`resulting_security_ids`, `balance_security_id`). The engine follows the same model: consuming
+ * transactions close the source position and link it to the securities it produced, which must be issued by their own
+ * issuance transactions.
+ *
+ * Stock class splits rescale every position in the split class that is outstanding when the split takes effect, so
+ * quantities stated by later transactions are compared against post-split holdings.
+ *
+ * @module capTablePositions
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type { RoundingType } from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { sortTransactions } from './cantonOcfExtractor';
+import { compareDecimals, divideDecimals, formatDecimal, multiplyDecimals, parseDecimal } from './decimalMath';
+import { normalizeObjectType } from './planSecurityAliases';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** Security families tracked by the position engine. */
+export type SecurityKind = 'STOCK' | 'EQUITY_COMPENSATION' | 'WARRANT' | 'CONVERTIBLE';
+
+/** Lifecycle status of a security after replaying the manifest. */
+export type SecurityPositionStatus =
+  | 'OUTSTANDING'
+  | 'TRANSFERRED'
+  | 'CANCELLED'
+  | 'REPURCHASED'
+  | 'CONVERTED'
+  | 'EXERCISED'
+  | 'RELEASED'
+  | 'RETRACTED'
+  | 'REISSUED'
+  | 'CONSOLIDATED';
+
+/** Outstanding/consumed state of a single security. */
+export interface SecurityPosition {
+  securityId: string;
+  kind: SecurityKind;
+  stakeholderId: string;
+  /**
+   * Stock class of the security. For warrants and convertibles this is the class named by the first trigger's
+   * conversion right; null when no class is named.
+   */
+  stockClassId: string | null;
+  /** Stock plan the security was issued under, if any */
+  stockPlanId: string | null;
+  /**
+   * Quantity issued. Shares or units for stock, equity compensation and warrants; the investment amount for
+   * convertibles. Null when a warrant issuance does not fix its quantity. Rescaled by stock class splits that took
+   * effect while the security was outstanding.
+   */
+  quantity: string | null;
+  /** Currency of `quantity` for convertibles; null for share-denominated securities */
+  currency: string | null;
+  /** Quantity still on the cap table: `quantity` while outstanding, "0" once consumed */
+  outstandingQuantity: string | null;
+  status: SecurityPositionStatus;
+  /** True once an acceptance transaction has been recorded for the security */
+  accepted: boolean;
+  /** Id of the issuance transaction that produced the security */
+  issuedBy: string;
+  issueDate: string;
+  /** Id of the transaction that consumed the security, or null while outstanding */
+  consumedBy: string | null;
+  consumedDate: string | null;
+  /** Quantity stated by the consuming transaction (defaults to the full `quantity`), or null while outstanding */
+  consumedQuantity: string | null;
+  /** Security whose consuming transaction listed this security as a result or balance */
+  sourceSecurityId: string | null;
+  /** Securities produced when this security was consumed */
+  resultingSecurityIds: string[];
+  /** Security holding the remainder when this security was partially consumed */
+  balanceSecurityId: string | null;
+}
+
+/** Split ratio of a stock class split: each pre-split share becomes `numerator / denominator` shares. */
+export interface StockSplitRatio {
+  numerator: string;
+  denominator: string;
+}
+
+/** Quantity of a single security before and after a stock class split. */
+export interface SplitQuantityChange {
+  securityId: string;
+  before: string;
+  after: string;
+}
+
+/** A stock class split replayed by {@link computeCapTablePositions}. */
+export interface AppliedStockSplit {
+  transactionId: string;
+  date: string;
+  stockClassId: string;
+  ratio: StockSplitRatio;
+  /** Positions of the class that were outstanding when the split took effect, in issuance order */
+  changes: SplitQuantityChange[];
+}
+
+/** Result of {@link computeCapTablePositions}. */
+export interface CapTablePositions {
+  /** Every security ever issued, keyed by security_id, in issuance order */
+  securities: Map<string, SecurityPosition>;
+  /** Positions still outstanding after the last transaction */
+  outstanding: SecurityPosition[];
+  /** Stock class splits in replay order */
+  splits: AppliedStockSplit[];
+}
+
+/** Options for {@link computeCapTablePositions}. */
+export interface CapTablePositionsOptions {
+  /**
+   * Rounding used to bring split-adjusted quantities back to whole shares. When omitted, fractional shares produced
+   * by a split are kept.
+   */
+  splitRounding?: RoundingType;
+  /**
+   * Receives each validation error instead of throwing it, together with the transaction that caused it. The
+   * offending transaction is skipped and the replay goes on, so every violation of a manifest can be collected.
+   */
+  onViolation?: (error: OcpValidationError, transaction: Record<string, unknown>) => void;
+}
+
+// ===== Transaction Classification =====
+
+const ISSUANCE_KINDS: Record<string, SecurityKind> = {
+  TX_STOCK_ISSUANCE: 'STOCK',
+  TX_EQUITY_COMPENSATION_ISSUANCE: 'EQUITY_COMPENSATION',
+  TX_WARRANT_ISSUANCE: 'WARRANT',
+  TX_CONVERTIBLE_ISSUANCE: 'CONVERTIBLE',
+};
+
+interface ConsumingRule {
+  kind: SecurityKind;
+  status: SecurityPositionStatus;
+  /** Field holding the consumed quantity; `amount` is read as a Monetary for convertibles */
+  quantityField: 'quantity' | 'quantity_converted' | 'amount' | null;
+}
+
+const CONSUMING_RULES: Record<string, ConsumingRule> = {
+  TX_STOCK_TRANSFER: { kind: 'STOCK', status: 'TRANSFERRED', quantityField: 'quantity' },
+  TX_STOCK_CANCELLATION: { kind: 'STOCK', status: 'CANCELLED', quantityField: 'quantity' },
+  TX_STOCK_REPURCHASE: { kind: 'STOCK', status: 'REPURCHASED', quantityField: 'quantity' },
+  TX_STOCK_CONVERSION: { kind: 'STOCK', status: 'CONVERTED', quantityField: 'quantity_converted' },
+  TX_STOCK_RETRACTION: { kind: 'STOCK', status: 'RETRACTED', quantityField: null },
+  TX_STOCK_REISSUANCE: { kind: 'STOCK', status: 'REISSUED', quantityField: null },
+  TX_EQUITY_COMPENSATION_TRANSFER: { kind: 'EQUITY_COMPENSATION', status: 'TRANSFERRED', quantityField: 'quantity' },
+  TX_EQUITY_COMPENSATION_CANCELLATION: {
+    kind: 'EQUITY_COMPENSATION',
+    status: 'CANCELLED',
+    quantityField: 'quantity',
+  },
+  TX_EQUITY_COMPENSATION_EXERCISE: { kind: 'EQUITY_COMPENSATION', status: 'EXERCISED', quantityField: 'quantity' },
+  TX_EQUITY_COMPENSATION_RELEASE: { kind: 'EQUITY_COMPENSATION', status: 'RELEASED', quantityField: 'quantity' },
+  TX_EQUITY_COMPENSATION_RETRACTION: { kind: 'EQUITY_COMPENSATION', status: 'RETRACTED', quantityField: null },
+  TX_WARRANT_TRANSFER: { kind: 'WARRANT', status: 'TRANSFERRED', quantityField: 'quantity' },
+  TX_WARRANT_CANCELLATION: { kind: 'WARRANT', status: 'CANCELLED', quantityField: 'quantity' },
+  TX_WARRANT_EXERCISE: { kind: 'WARRANT', status: 'EXERCISED', quantityField: 'quantity' },
+  TX_WARRANT_RETRACTION: { kind: 'WARRANT', status: 'RETRACTED', quantityField: null },
+  TX_CONVERTIBLE_TRANSFER: { kind: 'CONVERTIBLE', status: 'TRANSFERRED', quantityField: 'amount' },
+  TX_CONVERTIBLE_CANCELLATION: { kind: 'CONVERTIBLE', status: 'CANCELLED', quantityField: 'amount' },
+  TX_CONVERTIBLE_CONVERSION: { kind: 'CONVERTIBLE', status: 'CONVERTED', quantityField: null },
+  TX_CONVERTIBLE_RETRACTION: { kind: 'CONVERTIBLE', status: 'RETRACTED', quantityField: null },
+};
+
+const ACCEPTANCE_KINDS: Record<string, SecurityKind> = {
+  TX_STOCK_ACCEPTANCE: 'STOCK',
+  TX_EQUITY_COMPENSATION_ACCEPTANCE: 'EQUITY_COMPENSATION',
+  TX_WARRANT_ACCEPTANCE: 'WARRANT',
+  TX_CONVERTIBLE_ACCEPTANCE: 'CONVERTIBLE',
+};
+
+/** Transactions that reference an existing security without changing its position. */
+const REFERENCING_TYPES = new Set<string>([
+  'TX_EQUITY_COMPENSATION_REPRICING',
+  'TX_STOCK_PLAN_RETURN_TO_POOL',
+  'TX_VESTING_START',
+  'TX_VESTING_EVENT',
+  'TX_VESTING_ACCELERATION',
+]);
+
+// ===== Helpers =====
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function describeTx(tx: Record<string, unknown>, objectType: string): string {
+  return `${objectType} '${String(tx.id)}'`;
+}
+
+function requireString(tx: Record<string, unknown>, field: string, objectType: string): string {
+  const value = tx[field];
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new OcpValidationError(
+      `transactions.${String(tx.id)}.${field}`,
+      `${describeTx(tx, objectType)} is missing ${field}`,
+      {
+        expectedType: 'string',
+        receivedValue: value,
+        code: OcpErrorCodes.REQUIRED_FIELD_MISSING,
+      }
+    );
+  }
+  return value;
+}
+
+function readQuantity(tx: Record<string, unknown>, field: string): string | null {
+  const value = tx[field];
+  if (isRecord(value)) {
+    return typeof value.amount === 'string' || typeof value.amount === 'number' ? String(value.amount) : null;
+  }
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+}
+
+function readTriggerStockClassId(triggers: unknown): string | null {
+  if (!Array.isArray(triggers)) return null;
+  for (const trigger of triggers) {
+    if (isRecord(trigger) && isRecord(trigger.conversion_right)) {
+      const stockClassId = optionalString(trigger.conversion_right.converts_to_stock_class_id);
+      if (stockClassId) return stockClassId;
+    }
+  }
+  return null;
+}
+
+function readIdList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string' && id.length > 0) : [];
+}
+
+/** Read a split ratio, accepting the deprecated `split_ratio_numerator` / `split_ratio_denominator` fields. */
+function readSplitRatio(tx: Record<string, unknown>, objectType: string): StockSplitRatio {
+  const ratio = isRecord(tx.split_ratio) ? tx.split_ratio : {};
+  const numerator = readQuantity(ratio, 'numerator') ?? readQuantity(tx, 'split_ratio_numerator');
+  const denominator = readQuantity(ratio, 'denominator') ?? readQuantity(tx, 'split_ratio_denominator');
+  const fieldPath = `transactions.${String(tx.id)}.split_ratio`;
+  if (numerator === null || denominator === null) {
+    throw new OcpValidationError(fieldPath, `${describeTx(tx, objectType)} is missing split_ratio`, {
+      expectedType: '{ numerator: string; denominator: string }',
+      receivedValue: tx.split_ratio,
+      code: OcpErrorCodes.REQUIRED_FIELD_MISSING,
+    });
+  }
+  const normalized = {
+    numerator: formatDecimal(parseDecimal(numerator, `${fieldPath}.numerator`)),
+    denominator: formatDecimal(parseDecimal(denominator, `${fieldPath}.denominator`)),
+  };
+  if (compareDecimals(normalized.numerator, '0') <= 0 || compareDecimals(normalized.denominator, '0') <= 0) {
+    throw new OcpValidationError(fieldPath, `${describeTx(tx, objectType)} has a non-positive split_ratio`, {
+      expectedType: 'positive ratio',
+      receivedValue: tx.split_ratio,
+      code: OcpErrorCodes.OUT_OF_RANGE,
+    });
+  }
+  return normalized;
+}
+
+function applySplitRatio(quantity: string, ratio: StockSplitRatio, rounding: RoundingType | undefined): string {
+  const product = multiplyDecimals(quantity, ratio.numerator);
+  return rounding
+    ? divideDecimals(product, ratio.denominator, rounding, 0)
+    : divideDecimals(product, ratio.denominator);
+}
+
+/**
+ * Securities reissued as part of a split, mapped to the split transaction. They are issued with post-split
+ * quantities, so the split must not rescale them even when they are issued earlier on the same day.
+ */
+function collectSplitReissuances(transactions: Array<Record<string, unknown>>): Map<string, string> {
+  const reissued = new Map<string, string>();
+  for (const tx of transactions) {
+    const splitTransactionId = optionalString(tx.split_transaction_id);
+    if (tx.object_type !== 'TX_STOCK_REISSUANCE' || !splitTransactionId) continue;
+    for (const securityId of readIdList(tx.resulting_security_ids)) reissued.set(securityId, splitTransactionId);
+  }
+  return reissued;
+}
+
+// ===== Position Engine =====
+
+/**
+ * Replay a manifest's transactions into per-security positions.
+ *
+ * Issuances (stock, equity compensation, warrant, convertible) open positions. Transfers, cancellations, repurchases,
+ * conversions, exercises, releases, retractions, reissuances and consolidations consume them. Acceptances mark a
+ * security as accepted, and vesting, repricing and return-to-pool transactions are checked for a valid security
+ * reference. Stock class splits rescale the stock, equity compensation and warrants of the split class that are
+ * outstanding at that point, except securities reissued for the split. Other class-level and administrative
+ * transactions (authorized share and pool adjustments, stakeholder events) do not touch individual positions and are
+ * skipped.
+ *
+ * Transactions are sorted with {@link sortTransactions} before replay, so the input order does not matter.
+ *
+ * @param manifest - Manifest whose `transactions` should be replayed
+ * @param options - Rounding applied to split-adjusted quantities
+ * @returns Every issued security, the subset still outstanding and the splits that were applied
+ * @throws OcpValidationError with code `UNKNOWN_SECURITY` when a transaction references a security that was never
+ *   issued, `INVALID_SECURITY_STATE` when a security is issued twice, consumed twice, consumed by a transaction for a
+ *   different security kind or accepted after it was retracted, `OUT_OF_RANGE` when a transaction consumes more than
+ *   the security holds or a split ratio is not positive, and `REQUIRED_FIELD_MISSING` when a split has no ratio
+ *
+ * @example
+ * ```typescript
+ * const manifest = await extractCantonOcfManifest(client, cantonState);
+ * const { outstanding } = computeCapTablePositions(manifest);
+ * for (const position of outstanding) {
+ *   console.log(position.stakeholderId, position.stockClassId, position.outstandingQuantity);
+ * }
+ * ```
+ */
+export function computeCapTablePositions(
+  manifest: Pick<OcfManifest, 'transactions'>,
+  options: CapTablePositionsOptions = {}
+): CapTablePositions {
+  const securities = new Map<string, SecurityPosition>();
+  const splits: AppliedStockSplit[] = [];
+  const producedLinks: Array<{ tx: Record<string, unknown>; txLabel: string; securityId: string; fieldPath: string }> =
+    [];
+
+  const getPosition = (tx: Record<string, unknown>, objectType: string, securityId: string, field: string) => {
+    const position = securities.get(securityId);
+    if (!position) {
+      throw new OcpValidationError(
+        `transactions.${String(tx.id)}.${field}`,
+        `${describeTx(tx, objectType)} references security '${securityId}' which was never issued`,
+        { receivedValue: securityId, code: OcpErrorCodes.UNKNOWN_SECURITY }
+      );
+    }
+    return position;
+  };
+
+  const consume = (
+    tx: Record<string, unknown>,
+    objectType: string,
+    securityId: string,
+    field: string,
+    rule: Omit<ConsumingRule, 'quantityField'>,
+    consumedQuantity: string | null
+  ): SecurityPosition => {
+    const position = getPosition(tx, objectType, securityId, field);
+    const fieldPath = `transactions.${String(tx.id)}.${field}`;
+    if (position.kind !== rule.kind) {
+      throw new OcpValidationError(
+        fieldPath,
+        `${describeTx(tx, objectType)} cannot consume ${position.kind} security '${securityId}'`,
+        { expectedType: rule.kind, receivedValue: position.kind, code: OcpErrorCodes.INVALID_SECURITY_STATE }
+      );
+    }
+    if (position.status !== 'OUTSTANDING') {
+      throw new OcpValidationError(
+        fieldPath,
+        `${describeTx(tx, objectType)} references security '${securityId}' which was already ${position.status.toLowerCase()} by '${String(position.consumedBy)}'`,
+        { expectedType: 'OUTSTANDING', receivedValue: position.status, code: OcpErrorCodes.INVALID_SECURITY_STATE }
+      );
+    }
+    if (consumedQuantity !== null && position.quantity !== null) {
+      if (compareDecimals(consumedQuantity, position.quantity) > 0) {
+        throw new OcpValidationError(
+          fieldPath,
+          `${describeTx(tx, objectType)} consumes ${consumedQuantity} of security '${securityId}' which only holds ${position.quantity}`,
+          { expectedType: `<= ${position.quantity}`, receivedValue: consumedQuantity, code: OcpErrorCodes.OUT_OF_RANGE }
+        );
+      }
+    }
+
+    position.status = rule.status;
+    position.outstandingQuantity = position.quantity === null ? null : '0';
+    position.consumedQuantity = consumedQuantity ?? position.quantity;
+    position.consumedBy = String(tx.id);
+    position.consumedDate = optionalString(tx.date);
+    return position;
+  };
+
+  const linkProduced = (tx: Record<string, unknown>, objectType: string, source: SecurityPosition) => {
+    const txLabel = describeTx(tx, objectType);
+    const resulting = [
+      ...readIdList(tx.resulting_security_ids),
+      ...(optionalString(tx.resulting_security_id) ? [tx.resulting_security_id as string] : []),
+    ];
+    const balance = optionalString(tx.balance_security_id);
+    source.resultingSecurityIds = [...new Set(resulting)];
+    source.balanceSecurityId = balance;
+    for (const securityId of source.resultingSecurityIds) {
+      producedLinks.push({
+        tx,
+        txLabel,
+        securityId,
+        fieldPath: `transactions.${String(tx.id)}.resulting_security_ids`,
+      });
+    }
+    if (balance) {
+      producedLinks.push({
+        tx,
+        txLabel,
+        securityId: balance,
+        fieldPath: `transactions.${String(tx.id)}.balance_security_id`,
+      });
+    }
+  };
+
+  const transactions = sortTransactions(manifest.transactions.filter(isRecord));
+  const splitReissuances = collectSplitReissuances(transactions);
+
+  for (const tx of transactions) {
+    try {
+      const objectType = normalizeObjectType(typeof tx.object_type === 'string' ? tx.object_type : '');
+
+      const issuedKind = ISSUANCE_KINDS[objectType] as SecurityKind | undefined;
+      if (issuedKind) {
+        const securityId = requireString(tx, 'security_id', objectType);
+        const existing = securities.get(securityId);
+        if (existing) {
+          throw new OcpValidationError(
+            `transactions.${String(tx.id)}.security_id`,
+            `${describeTx(tx, objectType)} re-issues security '${securityId}' already issued by '${existing.issuedBy}'`,
+            { receivedValue: securityId, code: OcpErrorCodes.INVALID_SECURITY_STATE }
+          );
+        }
+        const quantity =
+          issuedKind === 'CONVERTIBLE' ? readQuantity(tx, 'investment_amount') : readQuantity(tx, 'quantity');
+        const normalizedQuantity =
+          quantity === null ? null : formatDecimal(parseDecimal(quantity, `transactions.${String(tx.id)}.quantity`));
+        const investmentAmount = tx.investment_amount;
+        securities.set(securityId, {
+          securityId,
+          kind: issuedKind,
+          stakeholderId: requireString(tx, 'stakeholder_id', objectType),
+          stockClassId:
+            optionalString(tx.stock_class_id) ??
+            readTriggerStockClassId(issuedKind === 'WARRANT' ? tx.exercise_triggers : tx.conversion_triggers),
+          stockPlanId: optionalString(tx.stock_plan_id),
+          quantity: normalizedQuantity,
+          currency:
+            issuedKind === 'CONVERTIBLE' && isRecord(investmentAmount)
+              ? optionalString(investmentAmount.currency)
+              : null,
+          outstandingQuantity: normalizedQuantity,
+          status: 'OUTSTANDING',
+          accepted: false,
+          issuedBy: String(tx.id),
+          issueDate: String(tx.date),
+          consumedBy: null,
+          consumedDate: null,
+          consumedQuantity: null,
+          sourceSecurityId: null,
+          resultingSecurityIds: [],
+          balanceSecurityId: null,
+        });
+        continue;
+      }
+
+      const rule = CONSUMING_RULES[objectType] as ConsumingRule | undefined;
+      if (rule) {
+        const securityId = requireString(tx, 'security_id', objectType);
+        const rawQuantity = rule.quantityField ? readQuantity(tx, rule.quantityField) : null;
+        const consumedQuantity =
+          rawQuantity === null
+            ? null
+            : formatDecimal(parseDecimal(rawQuantity, `transactions.${String(tx.id)}.${String(rule.quantityField)}`));
+        const position = consume(tx, objectType, securityId, 'security_id', rule, consumedQuantity);
+        linkProduced(tx, objectType, position);
+        continue;
+      }
+
+      if (objectType === 'TX_STOCK_CONSOLIDATION') {
+        const securityIds = readIdList(tx.security_ids);
+        securityIds.forEach((securityId, index) => {
+          const position = consume(
+            tx,
+            objectType,
+            securityId,
+            `security_ids.${index}`,
+            {
+              kind: 'STOCK',
+              status: 'CONSOLIDATED',
+            },
+            null
+          );
+          linkProduced(tx, objectType, position);
+        });
+        continue;
+      }
+
+      if (objectType === 'TX_STOCK_CLASS_SPLIT') {
+        const split: AppliedStockSplit = {
+          transactionId: String(tx.id),
+          date: String(tx.date),
+          stockClassId: requireString(tx, 'stock_class_id', objectType),
+          ratio: readSplitRatio(tx, objectType),
+          changes: [],
+        };
+        for (const position of securities.values()) {
+          if (
+            position.status !== 'OUTSTANDING' ||
+            position.kind === 'CONVERTIBLE' ||
+            position.stockClassId !== split.stockClassId ||
+            position.quantity === null ||
+            splitReissuances.get(position.securityId) === split.transactionId
+          ) {
+            continue;
+          }
+          const after = applySplitRatio(position.quantity, split.ratio, options.splitRounding);
+          split.changes.push({ securityId: position.securityId, before: position.quantity, after });
+          position.quantity = after;
+          position.outstandingQuantity = after;
+        }
+        splits.push(split);
+        continue;
+      }
+
+      const acceptedKind = ACCEPTANCE_KINDS[objectType] as SecurityKind | undefined;
+      if (acceptedKind) {
+        const securityId = requireString(tx, 'security_id', objectType);
+        const position = getPosition(tx, objectType, securityId, 'security_id');
+        if (position.status === 'RETRACTED') {
+          throw new OcpValidationError(
+            `transactions.${String(tx.id)}.security_id`,
+            `${describeTx(tx, objectType)} accepts security '${securityId}' which was retracted by '${String(position.consumedBy)}'`,
+            { receivedValue: position.status, code: OcpErrorCodes.INVALID_SECURITY_STATE }
+          );
+        }
+        position.accepted = true;
+        continue;
+      }
+
+      if (REFERENCING_TYPES.has(objectType) && optionalString(tx.security_id)) {
+        getPosition(tx, objectType, tx.security_id as string, 'security_id');
+      }
+    } catch (error) {
+      if (!options.onViolation || !(error instanceof OcpValidationError)) throw error;
+      options.onViolation(error, tx);
+    }
+  }
+
+  for (const link of producedLinks) {
+    if (!securities.has(link.securityId)) {
+      const error = new OcpValidationError(
+        link.fieldPath,
+        `${link.txLabel} references resulting security '${link.securityId}' which was never issued`,
+        { receivedValue: link.securityId, code: OcpErrorCodes.UNKNOWN_SECURITY }
+      );
+      if (!options.onViolation) throw error;
+      options.onViolation(error, link.tx);
+    }
+  }
+  for (const position of securities.values()) {
+    for (const producedId of [...position.resultingSecurityIds, position.balanceSecurityId]) {
+      const produced = producedId ? securities.get(producedId) : undefined;
+      if (produced?.sourceSecurityId === null) {
+        produced.sourceSecurityId = position.securityId;
+      }
+    }
+  }
+
+  return {
+    securities,
+    outstanding: [...securities.values()].filter((position) => position.status === 'OUTSTANDING'),
+    splits,
+  };
+}
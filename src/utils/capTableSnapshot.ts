@@ -0,0 +1,260 @@
+/**
+ * Point-in-time cap table snapshots.
+ *
+ * Rebuilds the cap table as it stood at the end of a given day: only transactions dated on or before that day are
+ * replayed, in the same order as {@link sortTransactions} (date, then {@link txWeight}), and the resulting holdings,
+ * capitalization, authorized shares, stakeholder relationships and vesting status are returned together.
+ *
+ * @module capTableSnapshot
+ */
+
+import type { OcfVestingTerms, StakeholderRelationshipType, StakeholderStatus } from '../types/native';
+import { computeAuthorizedShares } from './authorizedShares';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { sortTransactions } from './cantonOcfExtractor';
+import { computeCapitalization, type CapitalizationSummary } from './capitalization';
+import { computeCapTablePositions, type CapTablePositions, type SecurityPosition } from './capTablePositions';
+import { addDecimals, compareDecimals, subtractDecimals } from './decimalMath';
+import { isRecord } from './typeConversions';
+import { validateRequiredDate } from './validation';
+import { computeVestedQuantity, computeVestingSchedule } from './vestingSchedule';
+
+// ===== Types =====
+
+/** Stakeholder as of the snapshot date. */
+export interface SnapshotStakeholder {
+  stakeholderId: string;
+  name: string | null;
+  /** Relationships in effect on the snapshot date */
+  relationships: StakeholderRelationshipType[];
+  /** Status in effect on the snapshot date, or null when it cannot be determined */
+  status: StakeholderStatus | null;
+}
+
+/** Authorized share count, including the "UNLIMITED" and "NOT APPLICABLE" sentinels (see {@link computeAuthorizedShares}). */
+export interface SnapshotAuthorizedShares {
+  /** Issuer-level authorized shares, or null when the manifest has no issuer */
+  issuer: string | null;
+  stockClasses: Array<{ stockClassId: string; name: string; authorized: string }>;
+}
+
+/** Where a security's vesting schedule comes from. */
+export type VestingScheduleSource = 'VESTINGS' | 'VESTING_TERMS' | 'NONE';
+
+/** Vesting position of a single outstanding security on the snapshot date. */
+export interface SecurityVestingStatus {
+  securityId: string;
+  stakeholderId: string;
+  quantity: string;
+  source: VestingScheduleSource;
+  /** Vested quantity, or null when the referenced vesting terms are not in the manifest */
+  vested: string | null;
+  /** `quantity - vested`, or null when `vested` is null */
+  unvested: string | null;
+  /** Quantity accelerated by vesting acceleration transactions up to the snapshot date */
+  accelerated: string;
+  /** True once a vesting start transaction has been recorded */
+  vestingStarted: boolean;
+  /** Vesting condition ids satisfied by vesting start and vesting event transactions */
+  satisfiedConditionIds: string[];
+}
+
+/** Result of {@link computeCapTableSnapshot}. */
+export interface CapTableSnapshot {
+  asOfDate: string;
+  /** Transactions effective on or before `asOfDate`, in replay order */
+  transactions: Array<Record<string, unknown>>;
+  stakeholders: SnapshotStakeholder[];
+  /** Securities outstanding at the end of `asOfDate` */
+  holdings: SecurityPosition[];
+  capitalization: CapitalizationSummary;
+  authorizedShares: SnapshotAuthorizedShares;
+  vesting: SecurityVestingStatus[];
+}
+
+// ===== Helpers =====
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readDay(tx: Record<string, unknown>): string {
+  return String(tx.date).slice(0, 10);
+}
+
+function minDecimal(a: string, b: string): string {
+  return compareDecimals(a, b) <= 0 ? a : b;
+}
+
+function currentRelationships(stakeholder: Record<string, unknown>): StakeholderRelationshipType[] {
+  if (Array.isArray(stakeholder.current_relationships)) {
+    return stakeholder.current_relationships.filter((r): r is StakeholderRelationshipType => typeof r === 'string');
+  }
+  const legacy = readString(stakeholder.current_relationship);
+  return legacy ? [legacy as StakeholderRelationshipType] : [];
+}
+
+/**
+ * Derive stakeholder relationships and status on the snapshot date.
+ *
+ * Stakeholder objects only carry their current relationships and status, so later change events are undone in reverse
+ * order: a relationship started after the date is removed and one ended after the date is restored. The status is
+ * taken from the latest status event on or before the date, falling back to `current_status` when the stakeholder has
+ * no status events at all.
+ */
+function buildStakeholders(
+  manifest: Pick<OcfManifest, 'stakeholders'>,
+  effective: Array<Record<string, unknown>>,
+  later: Array<Record<string, unknown>>
+): SnapshotStakeholder[] {
+  return manifest.stakeholders.flatMap((stakeholder) => {
+    const stakeholderId = readString(stakeholder.id);
+    if (!stakeholderId) return [];
+    const ownEvents = (tx: Record<string, unknown>) => tx.stakeholder_id === stakeholderId;
+
+    const relationships = new Set(currentRelationships(stakeholder));
+    for (const event of later.filter(ownEvents).reverse()) {
+      if (event.object_type !== 'CE_STAKEHOLDER_RELATIONSHIP') continue;
+      const started = readString(event.relationship_started);
+      const ended = readString(event.relationship_ended);
+      if (started) relationships.delete(started as StakeholderRelationshipType);
+      if (ended) relationships.add(ended as StakeholderRelationshipType);
+    }
+
+    const statusEvents = effective.filter((tx) => ownEvents(tx) && tx.object_type === 'CE_STAKEHOLDER_STATUS');
+    const hasLaterStatus = later.some((tx) => ownEvents(tx) && tx.object_type === 'CE_STAKEHOLDER_STATUS');
+    const latestStatus = statusEvents.length > 0 ? readString(statusEvents[statusEvents.length - 1].new_status) : null;
+    const status = latestStatus ?? (hasLaterStatus ? null : readString(stakeholder.current_status));
+
+    return [
+      {
+        stakeholderId,
+        name: isRecord(stakeholder.name) ? readString(stakeholder.name.legal_name) : null,
+        relationships: [...relationships],
+        status: status as StakeholderStatus | null,
+      },
+    ];
+  });
+}
+
+function buildAuthorizedShares(
+  manifest: Pick<OcfManifest, 'issuer' | 'stockClasses'>,
+  effective: Array<Record<string, unknown>>,
+  positions: CapTablePositions
+): SnapshotAuthorizedShares {
+  const report = computeAuthorizedShares({ ...manifest, transactions: effective }, positions);
+  return {
+    issuer: report.issuer?.authorized ?? null,
+    stockClasses: report.stockClasses.map(({ stockClassId, name, authorized }) => ({ stockClassId, name, authorized })),
+  };
+}
+
+function isVestingTerms(value: unknown): value is Pick<OcfVestingTerms, 'allocation_type' | 'vesting_conditions'> {
+  return isRecord(value) && typeof value.allocation_type === 'string' && Array.isArray(value.vesting_conditions);
+}
+
+function buildVestingStatus(
+  manifest: Pick<OcfManifest, 'vestingTerms'>,
+  holdings: SecurityPosition[],
+  effective: Array<Record<string, unknown>>,
+  asOfDate: string
+): SecurityVestingStatus[] {
+  const transactionsById = new Map(effective.map((tx) => [String(tx.id), tx]));
+  const vestingTermsById = new Map(manifest.vestingTerms.map((terms) => [String(terms.id), terms]));
+
+  return holdings
+    .filter((position) => position.kind !== 'CONVERTIBLE' && position.quantity !== null)
+    .map((position) => {
+      const quantity = position.quantity ?? '0';
+      const issuance = transactionsById.get(position.issuedBy) ?? {};
+      const ownTransactions = effective.filter((tx) => tx.security_id === position.securityId);
+
+      const accelerated = ownTransactions
+        .filter((tx) => tx.object_type === 'TX_VESTING_ACCELERATION')
+        .reduce((total, tx) => addDecimals(total, readString(tx.quantity) ?? '0'), '0');
+      const satisfiedConditionIds = ownTransactions
+        .filter((tx) => tx.object_type === 'TX_VESTING_START' || tx.object_type === 'TX_VESTING_EVENT')
+        .map((tx) => readString(tx.vesting_condition_id))
+        .filter((id): id is string => id !== null);
+
+      const vestings = Array.isArray(issuance.vestings) ? issuance.vestings.filter(isRecord) : [];
+      const vestingTermsId = readString(issuance.vesting_terms_id);
+      const source: VestingScheduleSource =
+        vestings.length > 0 ? 'VESTINGS' : vestingTermsId ? 'VESTING_TERMS' : 'NONE';
+
+      let vested: string | null;
+      if (source === 'VESTINGS') {
+        const scheduled = vestings
+          .filter((entry) => typeof entry.date === 'string' && entry.date.slice(0, 10) <= asOfDate)
+          .reduce((total, entry) => addDecimals(total, readString(entry.amount) ?? '0'), '0');
+        vested = minDecimal(addDecimals(scheduled, accelerated), quantity);
+      } else if (source === 'NONE') {
+        vested = quantity;
+      } else {
+        // Accelerations are part of the computed schedule, so they are not added again here
+        const vestingTerms = vestingTermsById.get(vestingTermsId ?? '');
+        vested = isVestingTerms(vestingTerms)
+          ? computeVestedQuantity(
+              computeVestingSchedule({ vestingTerms, quantity, transactions: ownTransactions }),
+              asOfDate
+            ).vested
+          : null;
+      }
+
+      return {
+        securityId: position.securityId,
+        stakeholderId: position.stakeholderId,
+        quantity,
+        source,
+        vested,
+        unvested: vested === null ? null : subtractDecimals(quantity, vested),
+        accelerated,
+        vestingStarted: ownTransactions.some((tx) => tx.object_type === 'TX_VESTING_START'),
+        satisfiedConditionIds,
+      };
+    });
+}
+
+// ===== Snapshot =====
+
+/**
+ * Rebuild the cap table as of the end of a given day.
+ *
+ * Every transaction type in {@link TRANSACTION_SUBTYPE_MAP} is honored: security transactions drive holdings via
+ * {@link computeCapTablePositions}, plan and class adjustments drive capitalization and authorized shares, vesting
+ * transactions drive vesting status (through {@link computeVestingSchedule} for securities with vesting terms), and
+ * stakeholder change events drive relationships and status.
+ *
+ * @param manifest - Full manifest; transactions after `asOfDate` are ignored
+ * @param asOfDate - Snapshot date (YYYY-MM-DD); transactions on that date are included
+ * @returns Cap table state at the end of `asOfDate`
+ * @throws OcpValidationError if `asOfDate` is not a valid ISO date, plus any error raised while replaying positions
+ *
+ * @example
+ * ```typescript
+ * const manifest = await extractCantonOcfManifest(client, cantonState);
+ * const boardDate = computeCapTableSnapshot(manifest, '2024-06-30');
+ * console.log(boardDate.capitalization.totals.fullyDiluted);
+ * ```
+ */
+export function computeCapTableSnapshot(manifest: OcfManifest, asOfDate: string): CapTableSnapshot {
+  validateRequiredDate(asOfDate, 'asOfDate');
+
+  const ordered = sortTransactions(manifest.transactions.filter(isRecord));
+  const effective = ordered.filter((tx) => readDay(tx) <= asOfDate);
+  const later = ordered.filter((tx) => readDay(tx) > asOfDate);
+
+  const effectiveManifest = { ...manifest, transactions: effective };
+  const positions = computeCapTablePositions(effectiveManifest);
+  const { outstanding } = positions;
+
+  return {
+    asOfDate,
+    transactions: effective,
+    stakeholders: buildStakeholders(manifest, effective, later),
+    holdings: outstanding,
+    capitalization: computeCapitalization(effectiveManifest),
+    authorizedShares: buildAuthorizedShares(manifest, effective, positions),
+    vesting: buildVestingStatus(manifest, outstanding, effective, asOfDate),
+  };
+}
@@ -0,0 +1,344 @@
+/**
+ * Capitalization summary for an OCF manifest.
+ *
+ * Builds on {@link computeCapTablePositions} to aggregate outstanding positions into issued, outstanding and
+ * fully-diluted share counts per stock class, per stock plan and per stakeholder, with ownership percentages.
+ *
+ * Definitions used throughout:
+ * - **Outstanding**: shares held by stakeholders (outstanding stock positions).
+ * - **Issued**: outstanding shares plus repurchased shares, which OCF does not retire automatically.
+ * - **Fully diluted**: outstanding shares plus outstanding equity compensation, outstanding warrants and the
+ *   unallocated stock plan pool. Convertibles are reported by principal amount and are not converted into shares.
+ *
+ * @module capitalization
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type { Monetary, StockClassType } from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { computeCapTablePositions, type SecurityPosition } from './capTablePositions';
+import { sumMonetary, type ReportingCurrencyOptions } from './currency';
+import { addDecimals, compareDecimals, divideDecimals, multiplyDecimals } from './decimalMath';
+import { computeStockPlanPools } from './stockPlanPool';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** Share counts for a single stock class. */
+export interface StockClassCapitalization {
+  stockClassId: string;
+  name: string;
+  classType: StockClassType;
+  /** Outstanding plus repurchased shares */
+  issued: string;
+  outstanding: string;
+  /** Outstanding equity compensation that settles in this class */
+  equityCompensation: string;
+  /** Outstanding warrants exercisable into this class */
+  warrants: string;
+  /** Unallocated pool of stock plans whose first stock class is this class */
+  availablePool: string;
+  fullyDiluted: string;
+  outstandingPercentage: string;
+  fullyDilutedPercentage: string;
+}
+
+/** Granted vs available pool for a single stock plan. */
+export interface StockPlanCapitalization {
+  stockPlanId: string;
+  planName: string;
+  stockClassIds: string[];
+  /** Initial reservation, replaced by the latest pool adjustment */
+  reserved: string;
+  /** Outstanding equity compensation granted under the plan */
+  granted: string;
+  /** Shares delivered from the plan: exercised or released awards and stock issued directly under the plan */
+  issued: string;
+  /** Quantity returned to the pool, following the plan's cancellation behavior (see {@link computeStockPlanPools}) */
+  returnedToPool: string;
+  /** Pool still available to grant; negative when the plan is over-granted */
+  available: string;
+}
+
+/** Holdings breakdown for a single stakeholder. */
+export interface StakeholderCapitalization {
+  stakeholderId: string;
+  /** Legal name from the manifest, or null when the stakeholder object is missing */
+  name: string | null;
+  common: string;
+  preferred: string;
+  /** Outstanding equity compensation (options, RSUs and SARs) */
+  options: string;
+  warrants: string;
+  /** Outstanding convertible principal, one entry per currency */
+  convertibles: Monetary[];
+  /** Common plus preferred shares */
+  outstanding: string;
+  /** Outstanding shares plus options and warrants */
+  fullyDiluted: string;
+  outstandingPercentage: string;
+  fullyDilutedPercentage: string;
+}
+
+/** Options for {@link computeCapitalization}. */
+export interface CapitalizationOptions {
+  /** Currency and FX rates to total convertible amounts in */
+  reportingCurrency?: ReportingCurrencyOptions;
+}
+
+/** Result of {@link computeCapitalization}. */
+export interface CapitalizationSummary {
+  totals: {
+    issued: string;
+    outstanding: string;
+    equityCompensation: string;
+    warrants: string;
+    availablePool: string;
+    fullyDiluted: string;
+    convertibles: Monetary[];
+    /** Sum of `convertibles` in the reporting currency; only set when one is requested */
+    convertiblesInReportingCurrency?: Monetary;
+  };
+  stockClasses: StockClassCapitalization[];
+  stockPlans: StockPlanCapitalization[];
+  stakeholders: StakeholderCapitalization[];
+}
+
+// ===== Helpers =====
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+/** Percentage of `part` in `total` (e.g. "25" for a quarter), or "0" when the total is zero. */
+function percentage(part: string, total: string): string {
+  return compareDecimals(total, '0') === 0 ? '0' : divideDecimals(multiplyDecimals(part, '100'), total);
+}
+
+function positiveOrZero(value: string): string {
+  return compareDecimals(value, '0') > 0 ? value : '0';
+}
+
+function addMonetary(totals: Monetary[], amount: string, currency: string): void {
+  const existing = totals.find((entry) => entry.currency === currency);
+  if (existing) {
+    existing.amount = addDecimals(existing.amount, amount);
+  } else {
+    totals.push({ amount, currency });
+  }
+}
+
+// ===== Capitalization =====
+
+/**
+ * Compute the capitalization summary of a manifest.
+ *
+ * Positions are derived with {@link computeCapTablePositions}, so the same ordering and error behavior applies.
+ * Equity compensation without its own `stock_class_id` is attributed to the first stock class of its plan.
+ *
+ * @param manifest - Manifest to summarize (stock classes, stock plans, stakeholders and transactions are read)
+ * @param options - Reporting currency to total convertible amounts in, with {@link sumMonetary}
+ * @returns Share counts and ownership percentages per stock class, stock plan and stakeholder
+ * @throws OcpValidationError if a stock position references a stock class missing from `manifest.stockClasses`,
+ *   plus any error raised by {@link computeCapTablePositions} or, with a reporting currency, by {@link sumMonetary}
+ *
+ * @example
+ * ```typescript
+ * const manifest = await extractCantonOcfManifest(client, cantonState);
+ * const { totals, stakeholders } = computeCapitalization(manifest);
+ * console.log(`Fully diluted: ${totals.fullyDiluted}`);
+ * for (const holder of stakeholders) {
+ *   console.log(holder.name, holder.fullyDilutedPercentage);
+ * }
+ * ```
+ */
+export function computeCapitalization(
+  manifest: Pick<OcfManifest, 'stockClasses' | 'stockPlans' | 'stakeholders' | 'transactions'>,
+  options: CapitalizationOptions = {}
+): CapitalizationSummary {
+  const positions = computeCapTablePositions(manifest);
+  const { securities, outstanding } = positions;
+
+  // ── Stock plans ──
+  const plans = new Map<string, StockPlanCapitalization>(
+    computeStockPlanPools(manifest, positions).map((pool) => [
+      pool.stockPlanId,
+      {
+        stockPlanId: pool.stockPlanId,
+        planName: pool.planName,
+        stockClassIds: pool.stockClassIds,
+        reserved: pool.reserved,
+        granted: pool.granted,
+        issued: pool.issued,
+        returnedToPool: pool.returnedToPool,
+        available: pool.available,
+      },
+    ])
+  );
+
+  // ── Stock classes ──
+  const classes = new Map<string, StockClassCapitalization>();
+  for (const stockClass of manifest.stockClasses) {
+    const stockClassId = readString(stockClass.id);
+    if (!stockClassId) continue;
+    classes.set(stockClassId, {
+      stockClassId,
+      name: readString(stockClass.name) ?? stockClassId,
+      classType: stockClass.class_type === 'PREFERRED' ? 'PREFERRED' : 'COMMON',
+      issued: '0',
+      outstanding: '0',
+      equityCompensation: '0',
+      warrants: '0',
+      availablePool: '0',
+      fullyDiluted: '0',
+      outstandingPercentage: '0',
+      fullyDilutedPercentage: '0',
+    });
+  }
+
+  const requireClass = (position: SecurityPosition): StockClassCapitalization => {
+    const stockClass = position.stockClassId ? classes.get(position.stockClassId) : undefined;
+    if (!stockClass) {
+      throw new OcpValidationError(
+        `transactions.${position.issuedBy}.stock_class_id`,
+        `Security '${position.securityId}' references stock class '${String(position.stockClassId)}' ` +
+          'which is not in the manifest',
+        { receivedValue: position.stockClassId, code: OcpErrorCodes.UNKNOWN_REFERENCE }
+      );
+    }
+    return stockClass;
+  };
+
+  const settlementClassId = (position: SecurityPosition): string | null => {
+    if (position.stockClassId) return position.stockClassId;
+    const plan = position.stockPlanId ? plans.get(position.stockPlanId) : undefined;
+    return plan?.stockClassIds[0] ?? null;
+  };
+
+  // ── Stakeholders ──
+  const holders = new Map<string, StakeholderCapitalization>();
+  const holderFor = (stakeholderId: string, name: string | null = null): StakeholderCapitalization => {
+    let holder = holders.get(stakeholderId);
+    if (!holder) {
+      holder = {
+        stakeholderId,
+        name,
+        common: '0',
+        preferred: '0',
+        options: '0',
+        warrants: '0',
+        convertibles: [],
+        outstanding: '0',
+        fullyDiluted: '0',
+        outstandingPercentage: '0',
+        fullyDilutedPercentage: '0',
+      };
+      holders.set(stakeholderId, holder);
+    }
+    return holder;
+  };
+  for (const stakeholder of manifest.stakeholders) {
+    const stakeholderId = readString(stakeholder.id);
+    if (!stakeholderId) continue;
+    const name = isRecord(stakeholder.name) ? readString(stakeholder.name.legal_name) : null;
+    holderFor(stakeholderId, name);
+  }
+
+  const totals: CapitalizationSummary['totals'] = {
+    issued: '0',
+    outstanding: '0',
+    equityCompensation: '0',
+    warrants: '0',
+    availablePool: '0',
+    fullyDiluted: '0',
+    convertibles: [],
+  };
+
+  for (const position of securities.values()) {
+    if (position.kind === 'STOCK' && position.status === 'REPURCHASED') {
+      const stockClass = requireClass(position);
+      stockClass.issued = addDecimals(stockClass.issued, position.consumedQuantity ?? '0');
+    }
+  }
+
+  for (const position of outstanding) {
+    const quantity = position.outstandingQuantity ?? '0';
+    const holder = holderFor(position.stakeholderId);
+    switch (position.kind) {
+      case 'STOCK': {
+        const stockClass = requireClass(position);
+        stockClass.outstanding = addDecimals(stockClass.outstanding, quantity);
+        stockClass.issued = addDecimals(stockClass.issued, quantity);
+        if (stockClass.classType === 'PREFERRED') {
+          holder.preferred = addDecimals(holder.preferred, quantity);
+        } else {
+          holder.common = addDecimals(holder.common, quantity);
+        }
+        break;
+      }
+      case 'EQUITY_COMPENSATION': {
+        const stockClass = classes.get(settlementClassId(position) ?? '');
+        if (stockClass) stockClass.equityCompensation = addDecimals(stockClass.equityCompensation, quantity);
+        holder.options = addDecimals(holder.options, quantity);
+        totals.equityCompensation = addDecimals(totals.equityCompensation, quantity);
+        break;
+      }
+      case 'WARRANT': {
+        const stockClass = classes.get(position.stockClassId ?? '');
+        if (stockClass) stockClass.warrants = addDecimals(stockClass.warrants, quantity);
+        holder.warrants = addDecimals(holder.warrants, quantity);
+        totals.warrants = addDecimals(totals.warrants, quantity);
+        break;
+      }
+      case 'CONVERTIBLE': {
+        if (position.currency) {
+          addMonetary(holder.convertibles, quantity, position.currency);
+          addMonetary(totals.convertibles, quantity, position.currency);
+        }
+        break;
+      }
+    }
+  }
+
+  for (const plan of plans.values()) {
+    const pool = positiveOrZero(plan.available);
+    totals.availablePool = addDecimals(totals.availablePool, pool);
+    const stockClass = classes.get(plan.stockClassIds[0] ?? '');
+    if (stockClass) stockClass.availablePool = addDecimals(stockClass.availablePool, pool);
+  }
+
+  for (const stockClass of classes.values()) {
+    stockClass.fullyDiluted = [stockClass.equityCompensation, stockClass.warrants, stockClass.availablePool].reduce(
+      addDecimals,
+      stockClass.outstanding
+    );
+    totals.issued = addDecimals(totals.issued, stockClass.issued);
+    totals.outstanding = addDecimals(totals.outstanding, stockClass.outstanding);
+  }
+  totals.fullyDiluted = [totals.equityCompensation, totals.warrants, totals.availablePool].reduce(
+    addDecimals,
+    totals.outstanding
+  );
+
+  for (const stockClass of classes.values()) {
+    stockClass.outstandingPercentage = percentage(stockClass.outstanding, totals.outstanding);
+    stockClass.fullyDilutedPercentage = percentage(stockClass.fullyDiluted, totals.fullyDiluted);
+  }
+  for (const holder of holders.values()) {
+    holder.outstanding = addDecimals(holder.common, holder.preferred);
+    holder.fullyDiluted = [holder.options, holder.warrants].reduce(addDecimals, holder.outstanding);
+    holder.outstandingPercentage = percentage(holder.outstanding, totals.outstanding);
+    holder.fullyDilutedPercentage = percentage(holder.fullyDiluted, totals.fullyDiluted);
+  }
+  if (options.reportingCurrency) {
+    totals.convertiblesInReportingCurrency = sumMonetary(totals.convertibles, options.reportingCurrency);
+  }
+
+  return {
+    totals,
+    stockClasses: [...classes.values()],
+    stockPlans: [...plans.values()],
+    stakeholders: [...holders.values()],
+  };
+}
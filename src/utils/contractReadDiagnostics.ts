@@ -38,6 +38,12 @@ function classifyByOcpCode(code: OcpErrorCode): ContractReadFailureKind | null {
     case OcpErrorCodes.TIMEOUT:
     case OcpErrorCodes.RATE_LIMITED:
       return 'network';
+    case OcpErrorCodes.DEPRECATED_FIELD:
+    case OcpErrorCodes.RULE_VIOLATION:
+    case OcpErrorCodes.CURRENCY_MISMATCH:
+    case OcpErrorCodes.UNKNOWN_SECURITY:
+    case OcpErrorCodes.INVALID_SECURITY_STATE:
+    case OcpErrorCodes.UNKNOWN_REFERENCE:
     case OcpErrorCodes.CHOICE_FAILED:
     case OcpErrorCodes.RESULT_NOT_FOUND:
       return null;
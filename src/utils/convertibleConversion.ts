@@ -0,0 +1,595 @@
+/**
+ * SAFE and convertible note conversion modeling.
+ *
+ * Models how outstanding convertibles would convert in a hypothetical priced round. Each convertible converts its
+ * conversion amount (the investment amount, plus accrued interest for notes that defer it) at the lowest of:
+ * - the round price,
+ * - the round price less the `conversion_discount`,
+ * - the cap price: `conversion_valuation_cap` divided by the capitalization named by the
+ *   {@link CapitalizationDefinitionRules} of the mechanism.
+ *
+ * Post-money SAFEs include themselves and the other converting securities in their capitalization, so the cap price
+ * depends on the shares issued to every convertible; the model solves this by iterating until share counts settle.
+ *
+ * The result is returned as draft `TX_CONVERTIBLE_CONVERSION` and `TX_STOCK_ISSUANCE` objects for review; nothing is
+ * submitted. MFN clauses and exit multiples are not modeled.
+ *
+ * @module convertibleConversion
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type {
+  CapitalizationDefinitionRules,
+  ConvertibleInterestRate,
+  ConvertibleMechanismNote,
+  ConvertibleMechanismSafe,
+  Monetary,
+  OcfConvertibleConversion,
+  OcfStockIssuance,
+  RoundingType,
+} from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { computeCapTablePositions, type CapTablePositions, type SecurityPosition } from './capTablePositions';
+import {
+  addDecimals,
+  compareDecimals,
+  divideDecimals,
+  formatDecimal,
+  multiplyDecimals,
+  parseDecimal,
+  roundDecimal,
+  subtractDecimals,
+  sumDecimals,
+} from './decimalMath';
+import { normalizeObjectType } from './planSecurityAliases';
+import { computeStockPlanPools } from './stockPlanPool';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** Hypothetical priced round the convertibles convert into. */
+export interface PricedRound {
+  /** Closing date of the round; interest accrues up to this date (YYYY-MM-DD) */
+  date: string;
+  /** Stock class issued in the round, used for convertibles that convert into the next round */
+  stockClassId: string;
+  /** Price per share paid by new investors */
+  pricePerShare: Monetary;
+  /** Pre-money valuation of the round */
+  preMoneyValuation: Monetary;
+  /** New money raised in the round */
+  newMoney: Monetary;
+  /** Options promised to service providers but not yet granted, in shares */
+  promisedOptions?: string;
+  /** Additional option pool increase made in connection with the round, in shares */
+  optionPoolTopUp?: string;
+}
+
+/** Options for {@link modelConvertibleConversions}. */
+export interface ModelConvertibleConversionsOptions {
+  /** Rounding used to bring conversion shares to whole shares (default `FLOOR`) */
+  rounding?: RoundingType;
+  /** Prefix of the draft transaction and security ids (default `draft`) */
+  idPrefix?: string;
+}
+
+/** Which price a convertible converts at. */
+export type ConversionPriceBasis = 'ROUND' | 'DISCOUNT' | 'CAP';
+
+/** Modeled conversion of a single convertible. */
+export interface ConvertibleConversionModel {
+  securityId: string;
+  stakeholderId: string;
+  triggerId: string;
+  mechanismType: 'SAFE_CONVERSION' | 'CONVERTIBLE_NOTE_CONVERSION';
+  /** Stock class the convertible converts into */
+  stockClassId: string;
+  currency: string;
+  principal: string;
+  accruedInterest: string;
+  /** `principal + accruedInterest` */
+  conversionAmount: string;
+  /** Round price less the conversion discount, or null without a discount */
+  discountPrice: string | null;
+  /** Valuation cap divided by the capitalization, or null without a cap */
+  capPrice: string | null;
+  /** Capitalization used for the cap price, or null without a cap */
+  capitalization: string | null;
+  /** Lowest of the round, discount and cap prices */
+  conversionPrice: string;
+  priceBasis: ConversionPriceBasis;
+  /** Shares issued on conversion */
+  shares: string;
+  /** Capitalization definition applied, after filling in the defaults for the mechanism */
+  capitalizationRules: Required<CapitalizationDefinitionRules>;
+  conversion: OcfConvertibleConversion;
+  issuance: OcfStockIssuance;
+}
+
+/** An outstanding convertible that could not be modeled. */
+export interface SkippedConvertible {
+  securityId: string;
+  reason: string;
+}
+
+/** Result of {@link modelConvertibleConversions}. */
+export interface ConvertibleConversionModelResult {
+  round: PricedRound;
+  /** `preMoneyValuation + newMoney` */
+  postMoneyValuation: string;
+  /** New money divided by the round price */
+  newMoneyShares: string;
+  conversions: ConvertibleConversionModel[];
+  skipped: SkippedConvertible[];
+  /** Draft conversions and stock issuances in submission order */
+  drafts: Array<OcfConvertibleConversion | OcfStockIssuance>;
+}
+
+// ===== Helpers =====
+
+const MAX_ITERATIONS = 100;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const PERIODS_PER_YEAR: Record<NonNullable<ConvertibleMechanismNote['interest_accrual_period']>, number> = {
+  DAILY: 365,
+  MONTHLY: 12,
+  QUARTERLY: 4,
+  SEMI_ANNUAL: 2,
+  ANNUAL: 1,
+};
+
+/** Pre-money definition: the existing fully diluted capitalization, without converting securities or new money. */
+const PRE_MONEY_RULES: Required<CapitalizationDefinitionRules> = {
+  include_outstanding_shares: true,
+  include_outstanding_options: true,
+  include_outstanding_unissued_options: true,
+  include_this_security: false,
+  include_other_converting_securities: false,
+  include_option_pool_topup_for_promised_options: false,
+  include_additional_option_pool_topup: false,
+  include_new_money: false,
+};
+
+/** Post-money SAFE definition: also counts promised options and every converting security, including this one. */
+const POST_MONEY_RULES: Required<CapitalizationDefinitionRules> = {
+  ...PRE_MONEY_RULES,
+  include_this_security: true,
+  include_other_converting_securities: true,
+  include_option_pool_topup_for_promised_options: true,
+};
+
+type ConversionMechanism = ConvertibleMechanismSafe | ConvertibleMechanismNote;
+
+interface Candidate {
+  position: SecurityPosition;
+  triggerId: string;
+  mechanism: ConversionMechanism;
+  stockClassId: string;
+  currency: string;
+  accruedInterest: string;
+  conversionAmount: string;
+  discountPrice: string | null;
+  cap: string | null;
+  rules: Required<CapitalizationDefinitionRules>;
+}
+
+interface PriceResult {
+  capitalization: string | null;
+  capPrice: string | null;
+  conversionPrice: string;
+  priceBasis: ConversionPriceBasis;
+  shares: string;
+}
+
+interface CapitalizationBase {
+  outstandingShares: string;
+  outstandingOptions: string;
+  unissuedOptions: string;
+  promisedOptions: string;
+  optionPoolTopUp: string;
+  newMoneyShares: string;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function parseDay(date: string, fieldPath: string): { year: number; month: number; day: number } {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) {
+    throw new OcpValidationError(fieldPath, `Invalid date '${date}'`, {
+      expectedType: 'string (YYYY-MM-DD)',
+      receivedValue: date,
+      code: OcpErrorCodes.INVALID_FORMAT,
+    });
+  }
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+/** Fraction of a year between two dates under a note's day count convention. */
+function yearFraction(
+  start: string,
+  end: string,
+  convention: ConvertibleMechanismNote['day_count_convention'],
+  fieldPath: string
+): string {
+  const from = parseDay(start, fieldPath);
+  const to = parseDay(end, fieldPath);
+  if (convention === '30_360') {
+    const startDay = Math.min(from.day, 30);
+    const endDay = to.day === 31 && startDay === 30 ? 30 : to.day;
+    const days = 360 * (to.year - from.year) + 30 * (to.month - from.month) + (endDay - startDay);
+    return divideDecimals(String(days), '360');
+  }
+  const days = (Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / 86_400_000;
+  return divideDecimals(String(days), '365');
+}
+
+/**
+ * Interest accrued on a note up to a date. Simple interest accrues on the principal; compounding interest accrues on
+ * the running balance once per accrual period, with simple interest for a final partial period.
+ */
+function accruedInterest(principal: string, mechanism: ConvertibleMechanismNote, asOfDate: string, fieldPath: string) {
+  if (mechanism.interest_payout === 'CASH') return '0';
+  const rates = [...(mechanism.interest_rates ?? [])].sort((a, b) =>
+    a.accrual_start_date.localeCompare(b.accrual_start_date)
+  );
+  const periodsPerYear = PERIODS_PER_YEAR[mechanism.interest_accrual_period ?? 'ANNUAL'];
+  const compounding = mechanism.compounding_type === 'COMPOUNDING';
+
+  let balance = principal;
+  const simpleInterest: string[] = [];
+  rates.forEach((entry: ConvertibleInterestRate, index) => {
+    const ratePath = `${fieldPath}.interest_rates.${index}`;
+    const end = entry.accrual_end_date && entry.accrual_end_date < asOfDate ? entry.accrual_end_date : asOfDate;
+    if (end <= entry.accrual_start_date) return;
+    const years = yearFraction(entry.accrual_start_date, end, mechanism.day_count_convention, ratePath);
+    const rate = formatDecimal(parseDecimal(entry.rate, `${ratePath}.rate`));
+
+    if (!compounding) {
+      simpleInterest.push(multiplyDecimals(multiplyDecimals(principal, rate), years));
+      return;
+    }
+    const periods = multiplyDecimals(years, String(periodsPerYear));
+    const wholePeriods = Number(roundDecimal(periods, 0, 'FLOOR'));
+    const periodFactor = addDecimals('1', divideDecimals(rate, String(periodsPerYear)));
+    for (let period = 0; period < wholePeriods; period++) balance = multiplyDecimals(balance, periodFactor);
+    const stub = subtractDecimals(periods, String(wholePeriods));
+    balance = multiplyDecimals(
+      balance,
+      addDecimals('1', divideDecimals(multiplyDecimals(rate, stub), String(periodsPerYear)))
+    );
+  });
+  return compounding ? subtractDecimals(balance, principal) : sumDecimals(simpleInterest);
+}
+
+function resolveRules(mechanism: ConversionMechanism): Required<CapitalizationDefinitionRules> {
+  const defaults =
+    mechanism.type === 'SAFE_CONVERSION' && mechanism.conversion_timing === 'POST_MONEY'
+      ? POST_MONEY_RULES
+      : PRE_MONEY_RULES;
+  const rules = mechanism.capitalization_definition_rules ?? {};
+  const resolved = { ...defaults };
+  for (const key of Object.keys(defaults) as Array<keyof CapitalizationDefinitionRules>) {
+    if (typeof rules[key] === 'boolean') resolved[key] = rules[key];
+  }
+  return resolved;
+}
+
+function capitalizationFor(
+  rules: Required<CapitalizationDefinitionRules>,
+  base: CapitalizationBase,
+  thisShares: string,
+  otherShares: string
+): string {
+  return sumDecimals([
+    rules.include_outstanding_shares ? base.outstandingShares : '0',
+    rules.include_outstanding_options ? base.outstandingOptions : '0',
+    rules.include_outstanding_unissued_options ? base.unissuedOptions : '0',
+    rules.include_option_pool_topup_for_promised_options ? base.promisedOptions : '0',
+    rules.include_additional_option_pool_topup ? base.optionPoolTopUp : '0',
+    rules.include_new_money ? base.newMoneyShares : '0',
+    rules.include_this_security ? thisShares : '0',
+    rules.include_other_converting_securities ? otherShares : '0',
+  ]);
+}
+
+function minPrice(prices: Array<{ basis: ConversionPriceBasis; price: string | null }>): {
+  basis: ConversionPriceBasis;
+  price: string;
+} {
+  let best = { basis: 'ROUND' as ConversionPriceBasis, price: prices[0].price ?? '0' };
+  for (const { basis, price } of prices.slice(1)) {
+    if (price !== null && compareDecimals(price, best.price) < 0) best = { basis, price };
+  }
+  return best;
+}
+
+function requirePositive(value: Monetary, fieldPath: string, allowZero = false): string {
+  const amount = formatDecimal(parseDecimal(value.amount, `${fieldPath}.amount`));
+  const sign = compareDecimals(amount, '0');
+  if (sign < 0 || (sign === 0 && !allowZero)) {
+    throw new OcpValidationError(fieldPath, `${fieldPath} must be ${allowZero ? 'zero or more' : 'positive'}`, {
+      expectedType: allowZero ? 'non-negative decimal' : 'positive decimal',
+      receivedValue: value.amount,
+      code: OcpErrorCodes.OUT_OF_RANGE,
+    });
+  }
+  return amount;
+}
+
+function isConversionMechanism(value: unknown): value is ConversionMechanism {
+  return isRecord(value) && (value.type === 'SAFE_CONVERSION' || value.type === 'CONVERTIBLE_NOTE_CONVERSION');
+}
+
+/** First trigger of a convertible issuance with a SAFE or note conversion mechanism. */
+function findConversionTrigger(
+  issuance: Record<string, unknown>
+): { triggerId: string; mechanism: ConversionMechanism; stockClassId: string | null } | { reason: string } {
+  const triggers = Array.isArray(issuance.conversion_triggers) ? issuance.conversion_triggers.filter(isRecord) : [];
+  const mechanismTypes: string[] = [];
+  for (const trigger of triggers) {
+    if (!isRecord(trigger.conversion_right)) continue;
+    const { conversion_mechanism: mechanism, converts_to_stock_class_id: stockClassId } = trigger.conversion_right;
+    if (isConversionMechanism(mechanism)) {
+      return {
+        triggerId: readString(trigger.trigger_id) ?? '',
+        mechanism,
+        stockClassId: readString(stockClassId),
+      };
+    }
+    const type = isRecord(mechanism) ? readString(mechanism.type) : null;
+    if (type) mechanismTypes.push(type);
+  }
+  return {
+    reason:
+      mechanismTypes.length > 0
+        ? `Unsupported conversion mechanism ${mechanismTypes.map((type) => `'${type}'`).join(', ')}`
+        : 'No conversion trigger',
+  };
+}
+
+// ===== Conversion Model =====
+
+/**
+ * Model the conversion of every outstanding convertible into a priced round.
+ *
+ * Only SAFE (`SAFE_CONVERSION`) and convertible note (`CONVERTIBLE_NOTE_CONVERSION`) mechanisms are modeled; other
+ * convertibles, and convertibles in a different currency than the round, are reported in `skipped`. Convertibles that
+ * name a target stock class convert into it, the others into `round.stockClassId`.
+ *
+ * Capitalization components come from the manifest: outstanding stock, outstanding equity compensation and warrants
+ * (options), and the unallocated stock plan pools (unissued options). Promised options, the pool top-up and new money
+ * come from the round. When a mechanism has no `capitalization_definition_rules`, notes and pre-money SAFEs use the
+ * existing fully diluted capitalization and post-money SAFEs add promised options and all converting securities.
+ *
+ * @param manifest - Manifest with stock plans and transactions
+ * @param round - Hypothetical priced round
+ * @param options - Share rounding and draft id prefix
+ * @param positions - Positions already computed for the same manifest, to avoid replaying it twice
+ * @returns Per-convertible conversion models and the draft transactions that would record them
+ * @throws OcpValidationError when the round price, valuation or new money is invalid, a note has a malformed
+ *   interest rate schedule, or the post-money cap prices do not settle
+ *
+ * @example
+ * ```typescript
+ * const model = modelConvertibleConversions(manifest, {
+ *   date: '2025-03-01',
+ *   stockClassId: 'series-a',
+ *   pricePerShare: { amount: '1.25', currency: 'USD' },
+ *   preMoneyValuation: { amount: '20000000', currency: 'USD' },
+ *   newMoney: { amount: '5000000', currency: 'USD' },
+ * });
+ * for (const conversion of model.conversions) {
+ *   console.log(conversion.securityId, conversion.shares, conversion.priceBasis);
+ * }
+ * ```
+ */
+export function modelConvertibleConversions(
+  manifest: Pick<OcfManifest, 'stockPlans' | 'transactions'>,
+  round: PricedRound,
+  options: ModelConvertibleConversionsOptions = {},
+  positions: CapTablePositions = computeCapTablePositions(manifest)
+): ConvertibleConversionModelResult {
+  const rounding = options.rounding ?? 'FLOOR';
+  const idPrefix = options.idPrefix ?? 'draft';
+  const { currency } = round.pricePerShare;
+  const roundPrice = requirePositive(round.pricePerShare, 'round.pricePerShare');
+  const preMoney = requirePositive(round.preMoneyValuation, 'round.preMoneyValuation');
+  const newMoney = requirePositive(round.newMoney, 'round.newMoney', true);
+  parseDay(round.date, 'round.date');
+  for (const [field, value] of [
+    ['preMoneyValuation', round.preMoneyValuation],
+    ['newMoney', round.newMoney],
+  ] as const) {
+    if (value.currency !== currency) {
+      throw new OcpValidationError(`round.${field}.currency`, `round.${field} must be in ${currency}`, {
+        expectedType: currency,
+        receivedValue: value.currency,
+        code: OcpErrorCodes.INVALID_FORMAT,
+      });
+    }
+  }
+
+  // ── Capitalization components ──
+  const base: CapitalizationBase = {
+    outstandingShares: '0',
+    outstandingOptions: '0',
+    unissuedOptions: sumDecimals(
+      computeStockPlanPools(manifest, positions)
+        .map((pool) => pool.available)
+        .filter((available) => compareDecimals(available, '0') > 0)
+    ),
+    promisedOptions: round.promisedOptions ?? '0',
+    optionPoolTopUp: round.optionPoolTopUp ?? '0',
+    newMoneyShares: roundDecimal(divideDecimals(newMoney, roundPrice), 0, rounding),
+  };
+  for (const position of positions.outstanding) {
+    if (position.kind === 'STOCK') {
+      base.outstandingShares = addDecimals(base.outstandingShares, position.quantity ?? '0');
+    } else if (position.kind === 'EQUITY_COMPENSATION' || position.kind === 'WARRANT') {
+      base.outstandingOptions = addDecimals(base.outstandingOptions, position.quantity ?? '0');
+    }
+  }
+
+  // ── Convertible terms ──
+  const issuances = new Map<string, Record<string, unknown>>();
+  for (const tx of manifest.transactions) {
+    const objectType = typeof tx.object_type === 'string' ? normalizeObjectType(tx.object_type) : null;
+    const id = readString(tx.id);
+    if (objectType === 'TX_CONVERTIBLE_ISSUANCE' && id) issuances.set(id, tx);
+  }
+
+  const candidates: Candidate[] = [];
+  const skipped: SkippedConvertible[] = [];
+  for (const position of positions.outstanding) {
+    if (position.kind !== 'CONVERTIBLE') continue;
+    const issuance = issuances.get(position.issuedBy);
+    const trigger = issuance ? findConversionTrigger(issuance) : { reason: 'Missing convertible issuance' };
+    if ('reason' in trigger) {
+      skipped.push({ securityId: position.securityId, reason: trigger.reason });
+      continue;
+    }
+    if (position.currency !== currency) {
+      skipped.push({
+        securityId: position.securityId,
+        reason: `Investment currency ${String(position.currency)} differs from the round currency ${currency}`,
+      });
+      continue;
+    }
+
+    const { mechanism } = trigger;
+    const principal = position.quantity ?? '0';
+    const interest =
+      mechanism.type === 'CONVERTIBLE_NOTE_CONVERSION'
+        ? accruedInterest(principal, mechanism, round.date, `transactions.${position.issuedBy}.conversion_mechanism`)
+        : '0';
+    const discount = readString(mechanism.conversion_discount);
+    const cap = mechanism.conversion_valuation_cap;
+    candidates.push({
+      position,
+      triggerId: trigger.triggerId,
+      mechanism,
+      stockClassId: trigger.stockClassId ?? round.stockClassId,
+      currency,
+      accruedInterest: interest,
+      conversionAmount: addDecimals(principal, interest),
+      discountPrice: discount ? multiplyDecimals(roundPrice, subtractDecimals('1', discount)) : null,
+      cap: cap?.currency === currency ? formatDecimal(parseDecimal(cap.amount)) : null,
+      rules: resolveRules(mechanism),
+    });
+  }
+
+  // ── Solve conversion shares; post-money caps depend on every converting security ──
+  let shares = new Map(candidates.map((candidate) => [candidate.position.securityId, '0']));
+  let prices = new Map<string, PriceResult>();
+  let unsettled: string[] = [];
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const totalShares = sumDecimals([...shares.values()]);
+    const nextShares = new Map<string, string>();
+    const nextPrices = new Map<string, PriceResult>();
+    unsettled = [];
+    for (const candidate of candidates) {
+      const { securityId } = candidate.position;
+      const thisShares = shares.get(securityId) ?? '0';
+      const capitalization =
+        candidate.cap === null
+          ? null
+          : capitalizationFor(candidate.rules, base, thisShares, subtractDecimals(totalShares, thisShares));
+      const capPrice =
+        candidate.cap !== null && capitalization !== null && compareDecimals(capitalization, '0') > 0
+          ? divideDecimals(candidate.cap, capitalization)
+          : null;
+      const best = minPrice([
+        { basis: 'ROUND', price: roundPrice },
+        { basis: 'DISCOUNT', price: candidate.discountPrice },
+        { basis: 'CAP', price: capPrice },
+      ]);
+      const converted = roundDecimal(divideDecimals(candidate.conversionAmount, best.price), 0, rounding);
+      nextShares.set(securityId, converted);
+      nextPrices.set(securityId, {
+        capitalization,
+        capPrice,
+        conversionPrice: best.price,
+        priceBasis: best.basis,
+        shares: converted,
+      });
+      if (converted !== thisShares) unsettled.push(securityId);
+    }
+    shares = nextShares;
+    prices = nextPrices;
+    if (unsettled.length === 0) break;
+  }
+  // Converting securities whose investments reach their post-money caps claim more shares on every iteration
+  if (unsettled.length > 0) {
+    throw new OcpValidationError(
+      'round',
+      `Conversion shares did not settle after ${MAX_ITERATIONS} iterations; check that the investments of ` +
+        `${unsettled.join(', ')} stay below their post-money valuation caps`,
+      { code: OcpErrorCodes.OUT_OF_RANGE, receivedValue: unsettled }
+    );
+  }
+
+  // ── Drafts ──
+  const conversions = candidates.map((candidate): ConvertibleConversionModel => {
+    const { position } = candidate;
+    const price = prices.get(position.securityId) as PriceResult;
+    const resultingSecurityId = `${idPrefix}-stock-${position.securityId}`;
+    const conversion: OcfConvertibleConversion = {
+      object_type: 'TX_CONVERTIBLE_CONVERSION',
+      id: `${idPrefix}-conversion-${position.securityId}`,
+      date: round.date,
+      security_id: position.securityId,
+      reason_text: `Converted in priced round at ${price.conversionPrice} ${currency} per share`,
+      resulting_security_ids: [resultingSecurityId],
+      trigger_id: candidate.triggerId,
+      quantity_converted: position.quantity ?? '0',
+      capitalization_definition: candidate.rules,
+    };
+    const issuance: OcfStockIssuance = {
+      object_type: 'TX_STOCK_ISSUANCE',
+      id: `${idPrefix}-issuance-${position.securityId}`,
+      date: round.date,
+      security_id: resultingSecurityId,
+      custom_id: resultingSecurityId,
+      stakeholder_id: position.stakeholderId,
+      security_law_exemptions: [],
+      stock_class_id: candidate.stockClassId,
+      share_price: { amount: price.conversionPrice, currency },
+      quantity: price.shares,
+      cost_basis: { amount: candidate.conversionAmount, currency },
+      stock_legend_ids: [],
+    };
+    return {
+      securityId: position.securityId,
+      stakeholderId: position.stakeholderId,
+      triggerId: candidate.triggerId,
+      mechanismType: candidate.mechanism.type,
+      stockClassId: candidate.stockClassId,
+      currency,
+      principal: position.quantity ?? '0',
+      accruedInterest: candidate.accruedInterest,
+      conversionAmount: candidate.conversionAmount,
+      discountPrice: candidate.discountPrice,
+      capPrice: price.capPrice,
+      capitalization: price.capitalization,
+      conversionPrice: price.conversionPrice,
+      priceBasis: price.priceBasis,
+      shares: price.shares,
+      capitalizationRules: candidate.rules,
+      conversion,
+      issuance,
+    };
+  });
+
+  return {
+    round,
+    postMoneyValuation: addDecimals(preMoney, newMoney),
+    newMoneyShares: base.newMoneyShares,
+    conversions,
+    skipped,
+    drafts: conversions.flatMap((conversion) => [conversion.conversion, conversion.issuance]),
+  };
+}
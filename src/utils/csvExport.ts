@@ -0,0 +1,583 @@
+/**
+ * CSV exports of an {@link OcfManifest} for spreadsheet users.
+ *
+ * Five exports are available: the stakeholder list and one ledger per security family (stock, options and other
+ * equity compensation, warrants, convertibles). Ledgers have one row per security ever issued, in issuance order,
+ * with split-adjusted quantities and prices, its status and the transaction that closed it. Enum values are rendered
+ * with human labels and every field is escaped as described in RFC 4180.
+ *
+ * Each export returns a stream that formats rows as they are read, so the CSV text of a large cap table is never held
+ * in memory at once.
+ *
+ * @module csvExport
+ */
+
+import { Readable } from 'stream';
+import { compensationTypeToDaml } from '../functions/OpenCapTable/equityCompensationIssuance/createEquityCompensationIssuance';
+import type {
+  CompensationType,
+  ConvertibleType,
+  StakeholderRelationshipType,
+  StakeholderStatus,
+  StakeholderType,
+} from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import type { SecurityKind, SecurityPosition } from './capTablePositions';
+import { stakeholderRelationshipTypeToDaml, stakeholderStatusToDaml, stakeholderTypeToDaml } from './enumConversions';
+import { getOcfTypeLabel, type OcfMetadataObjectType } from './ocfHelpers';
+import { normalizeObjectType } from './planSecurityAliases';
+import { applyStockSplits, type SecurityPrice } from './stockSplits';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** Value of a CSV field. `null` and `undefined` are written as empty fields. */
+export type CsvValue = string | number | boolean | null | undefined;
+
+/** A computed CSV column. */
+export interface CsvColumn<Row> {
+  header: string;
+  value: (row: Row) => CsvValue;
+}
+
+/** A column of an export: either a field of its rows, with the default header, or a computed column. */
+export type CsvColumnSpec<Row> = Extract<keyof Row, string> | CsvColumn<Row>;
+
+/** Options shared by every CSV export. */
+export interface CsvExportOptions<Row> {
+  /** Columns to write, in order (default: every field of the rows) */
+  columns?: ReadonlyArray<CsvColumnSpec<Row>>;
+  /** Whether to write a header record first (default: true) */
+  includeHeader?: boolean;
+}
+
+/** A row of the stakeholder list. */
+export interface StakeholderCsvRow {
+  stakeholderId: string;
+  name: string | null;
+  stakeholderType: string | null;
+  issuerAssignedId: string | null;
+  /** Current relationships, separated by "; " */
+  relationships: string | null;
+  status: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+/** Fields shared by the rows of every security ledger. */
+export interface SecurityLedgerRow {
+  securityId: string;
+  stakeholderId: string;
+  stakeholderName: string | null;
+  issueDate: string;
+  /** Quantity issued after stock class splits; the investment amount for convertibles */
+  quantity: string | null;
+  outstandingQuantity: string | null;
+  status: string;
+  accepted: string;
+  consumedDate: string | null;
+  /** Id of the transaction that took the security off the cap table */
+  consumedBy: string | null;
+  /** Kind of that transaction, e.g. "Stock Transfer" */
+  consumedByType: string | null;
+}
+
+/** A row of the stock ledger. */
+export interface StockLedgerRow extends SecurityLedgerRow {
+  stockClassId: string | null;
+  stockClassName: string | null;
+  /** Share price after stock class splits */
+  sharePrice: string | null;
+  sharePriceCurrency: string | null;
+  costBasis: string | null;
+  costBasisCurrency: string | null;
+}
+
+/** A row of the option (equity compensation) ledger. */
+export interface OptionLedgerRow extends SecurityLedgerRow {
+  compensationType: string | null;
+  stockPlanId: string | null;
+  stockPlanName: string | null;
+  stockClassId: string | null;
+  stockClassName: string | null;
+  /** Exercise price after repricings and stock class splits */
+  exercisePrice: string | null;
+  exercisePriceCurrency: string | null;
+  expirationDate: string | null;
+  vestingTermsId: string | null;
+}
+
+/** A row of the warrant ledger. */
+export interface WarrantLedgerRow extends SecurityLedgerRow {
+  stockClassId: string | null;
+  stockClassName: string | null;
+  /** Exercise price after stock class splits */
+  exercisePrice: string | null;
+  exercisePriceCurrency: string | null;
+  purchasePrice: string | null;
+  purchasePriceCurrency: string | null;
+  expirationDate: string | null;
+}
+
+/** A row of the convertible ledger. */
+export interface ConvertibleLedgerRow extends SecurityLedgerRow {
+  convertibleType: string | null;
+  currency: string | null;
+  /** Stock class named by the first conversion trigger */
+  stockClassId: string | null;
+  stockClassName: string | null;
+}
+
+// ===== Helpers =====
+
+const SECURITY_HEADERS: Record<keyof SecurityLedgerRow, string> = {
+  securityId: 'Security ID',
+  stakeholderId: 'Stakeholder ID',
+  stakeholderName: 'Stakeholder',
+  issueDate: 'Issue date',
+  quantity: 'Quantity',
+  outstandingQuantity: 'Outstanding quantity',
+  status: 'Status',
+  accepted: 'Accepted',
+  consumedDate: 'Closed on',
+  consumedBy: 'Closing transaction ID',
+  consumedByType: 'Closing transaction',
+};
+
+const STAKEHOLDER_HEADERS: Record<keyof StakeholderCsvRow, string> = {
+  stakeholderId: 'Stakeholder ID',
+  name: 'Name',
+  stakeholderType: 'Type',
+  issuerAssignedId: 'Issuer assigned ID',
+  relationships: 'Relationships',
+  status: 'Status',
+  email: 'Email',
+  phone: 'Phone',
+};
+
+const STOCK_HEADERS: Record<keyof StockLedgerRow, string> = {
+  ...SECURITY_HEADERS,
+  stockClassId: 'Stock class ID',
+  stockClassName: 'Stock class',
+  sharePrice: 'Share price',
+  sharePriceCurrency: 'Share price currency',
+  costBasis: 'Cost basis',
+  costBasisCurrency: 'Cost basis currency',
+};
+
+const OPTION_HEADERS: Record<keyof OptionLedgerRow, string> = {
+  ...SECURITY_HEADERS,
+  compensationType: 'Compensation type',
+  stockPlanId: 'Stock plan ID',
+  stockPlanName: 'Stock plan',
+  stockClassId: 'Stock class ID',
+  stockClassName: 'Stock class',
+  exercisePrice: 'Exercise price',
+  exercisePriceCurrency: 'Exercise price currency',
+  expirationDate: 'Expiration date',
+  vestingTermsId: 'Vesting terms ID',
+};
+
+const WARRANT_HEADERS: Record<keyof WarrantLedgerRow, string> = {
+  ...SECURITY_HEADERS,
+  stockClassId: 'Stock class ID',
+  stockClassName: 'Stock class',
+  exercisePrice: 'Exercise price',
+  exercisePriceCurrency: 'Exercise price currency',
+  purchasePrice: 'Purchase price',
+  purchasePriceCurrency: 'Purchase price currency',
+  expirationDate: 'Expiration date',
+};
+
+const CONVERTIBLE_HEADERS: Record<keyof ConvertibleLedgerRow, string> = {
+  ...SECURITY_HEADERS,
+  quantity: 'Investment amount',
+  outstandingQuantity: 'Outstanding amount',
+  convertibleType: 'Convertible type',
+  currency: 'Currency',
+  stockClassId: 'Stock class ID',
+  stockClassName: 'Stock class',
+};
+
+/** DAML enum names that do not read well once split into words. */
+const LABEL_OVERRIDES: Record<string, string> = {
+  OcfRelNonUsEmployee: 'Non-US Employee',
+};
+
+const CONVERTIBLE_TYPE_LABELS: Record<ConvertibleType, string> = {
+  NOTE: 'Note',
+  SAFE: 'SAFE',
+  CONVERTIBLE_SECURITY: 'Convertible Security',
+};
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+/**
+ * Human label of a native OCF enum value, derived from its DAML enum name: the converter validates the value and the
+ * name, minus its `prefix`, is split into words ("OcfCompensationTypeOptionISO" becomes "Option ISO").
+ */
+function enumLabel<T extends string>(value: unknown, toDaml: (value: T) => string, prefix: string): string | null {
+  const native = readString(value);
+  if (!native) return null;
+  const damlName = toDaml(native as T);
+  return (
+    LABEL_OVERRIDES[damlName] ??
+    damlName
+      .slice(prefix.length)
+      .split(/(?<=[a-z])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)
+      .join(' ')
+  );
+}
+
+/** Label of a transaction type without the count prefix of {@link getOcfTypeLabel}, e.g. "Stock Transfer". */
+function transactionTypeLabel(objectType: string): string {
+  // getOcfTypeLabel falls back to title-casing types it has no metadata for
+  return getOcfTypeLabel(normalizeObjectType(objectType) as OcfMetadataObjectType, 1).replace(/^1 /, '');
+}
+
+/** Convertible types have no shared enum converter; unknown values are written as is. */
+function convertibleTypeLabel(value: unknown): string | null {
+  const type = readString(value);
+  if (!type) return null;
+  return type in CONVERTIBLE_TYPE_LABELS ? CONVERTIBLE_TYPE_LABELS[type as ConvertibleType] : type;
+}
+
+function statusLabel(status: string): string {
+  return status.charAt(0) + status.slice(1).toLowerCase();
+}
+
+function readMonetary(value: unknown): { amount: string | null; currency: string | null } {
+  if (!isRecord(value)) return { amount: null, currency: null };
+  return { amount: readString(value.amount), currency: readString(value.currency) };
+}
+
+function readPrice(price: SecurityPrice | undefined): { amount: string | null; currency: string | null } {
+  return price ? { amount: price.amount, currency: price.currency } : { amount: null, currency: null };
+}
+
+function firstContact(stakeholder: Record<string, unknown>, field: 'emails' | 'phone_numbers', key: string) {
+  for (const source of [stakeholder.contact_info, stakeholder.primary_contact]) {
+    const entries = isRecord(source) ? source[field] : undefined;
+    const first: unknown = Array.isArray(entries) ? entries[0] : undefined;
+    if (isRecord(first) && readString(first[key])) return readString(first[key]);
+  }
+  return null;
+}
+
+function relationships(stakeholder: Record<string, unknown>): string | null {
+  const values: unknown[] = Array.isArray(stakeholder.current_relationships)
+    ? stakeholder.current_relationships
+    : [stakeholder.current_relationship];
+  const labels = values
+    .map((value) => enumLabel<StakeholderRelationshipType>(value, stakeholderRelationshipTypeToDaml, 'OcfRel'))
+    .filter((label): label is string => label !== null);
+  return labels.length > 0 ? labels.join('; ') : null;
+}
+
+function stakeholderName(stakeholder: Record<string, unknown>): string | null {
+  return isRecord(stakeholder.name) ? readString(stakeholder.name.legal_name) : null;
+}
+
+function escapeField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRecord(values: CsvValue[]): string {
+  return `${values.map(escapeField).join(',')}\r\n`;
+}
+
+function resolveColumns<Row>(
+  headers: Record<Extract<keyof Row, string>, string>,
+  columns: ReadonlyArray<CsvColumnSpec<Row>> | undefined
+): Array<CsvColumn<Row>> {
+  const specs = columns ?? (Object.keys(headers) as Array<Extract<keyof Row, string>>);
+  return specs.map((spec) =>
+    typeof spec === 'string' ? { header: headers[spec], value: (row: Row) => row[spec] as CsvValue } : spec
+  );
+}
+
+function* csvRecords<Row>(
+  rows: Iterable<Row>,
+  headers: Record<Extract<keyof Row, string>, string>,
+  options: CsvExportOptions<Row>
+): Generator<string> {
+  const columns = resolveColumns(headers, options.columns);
+  if (options.includeHeader ?? true) yield formatRecord(columns.map((column) => column.header));
+  for (const row of rows) yield formatRecord(columns.map((column) => column.value(row)));
+}
+
+/** Everything the ledger rows of a manifest are built from, computed once per export. */
+interface LedgerContext {
+  positions: SecurityPosition[];
+  prices: Map<string, SecurityPrice>;
+  transactions: Map<string, Record<string, unknown>>;
+  stakeholderNames: Map<string, string | null>;
+  classNames: Map<string, string | null>;
+  planNames: Map<string, string | null>;
+}
+
+function buildLedgerContext(manifest: OcfManifest): LedgerContext {
+  const { positions, prices } = applyStockSplits(manifest);
+  const byId = (entities: Array<Record<string, unknown>>, name: (entity: Record<string, unknown>) => string | null) =>
+    new Map(entities.map((entity) => [String(entity.id), name(entity)]));
+  return {
+    positions: [...positions.securities.values()],
+    prices,
+    transactions: new Map(manifest.transactions.map((tx) => [String(tx.id), tx])),
+    stakeholderNames: byId(manifest.stakeholders, stakeholderName),
+    classNames: byId(manifest.stockClasses, (stockClass) => readString(stockClass.name)),
+    planNames: byId(manifest.stockPlans, (plan) => readString(plan.plan_name)),
+  };
+}
+
+function* ledgerRows<Row>(
+  context: LedgerContext,
+  kind: SecurityKind,
+  extend: (position: SecurityPosition, issuance: Record<string, unknown>, row: SecurityLedgerRow) => Row
+): Generator<Row> {
+  for (const position of context.positions) {
+    if (position.kind !== kind) continue;
+    const consumingTx = position.consumedBy ? context.transactions.get(position.consumedBy) : undefined;
+    const consumingType = consumingTx ? readString(consumingTx.object_type) : null;
+    yield extend(position, context.transactions.get(position.issuedBy) ?? {}, {
+      securityId: position.securityId,
+      stakeholderId: position.stakeholderId,
+      stakeholderName: context.stakeholderNames.get(position.stakeholderId) ?? null,
+      issueDate: position.issueDate,
+      quantity: position.quantity,
+      outstandingQuantity: position.outstandingQuantity,
+      status: statusLabel(position.status),
+      accepted: position.accepted ? 'Yes' : 'No',
+      consumedDate: position.consumedDate,
+      consumedBy: position.consumedBy,
+      consumedByType: consumingType ? transactionTypeLabel(consumingType) : null,
+    });
+  }
+}
+
+function className(context: LedgerContext, stockClassId: string | null): string | null {
+  return stockClassId ? (context.classNames.get(stockClassId) ?? null) : null;
+}
+
+/** Stream the records of an export, building the rows only once the stream is read. */
+function toStream<Row>(
+  buildRows: () => Iterable<Row>,
+  headers: Record<Extract<keyof Row, string>, string>,
+  options: CsvExportOptions<Row>
+): Readable {
+  function* records(): Generator<string> {
+    yield* csvRecords(buildRows(), headers, options);
+  }
+  return Readable.from(records(), { objectMode: false });
+}
+
+// ===== CSV Exports =====
+
+/**
+ * Stream the stakeholder list of a manifest as CSV.
+ *
+ * Stakeholder type, relationships and status are written with human labels ("Individual", "Board Member",
+ * "Termination Voluntary Good Cause"). Email and phone are the first ones of the stakeholder's contact info, falling
+ * back to its primary contact.
+ *
+ * @param manifest - Manifest whose stakeholders should be listed, in manifest order
+ * @param options - Columns to write and whether to write a header record
+ * @returns Readable stream of CRLF-terminated CSV records
+ * @throws OcpParseError (`UNKNOWN_ENUM_VALUE`), emitted by the stream, for enum values OCF does not define
+ *
+ * @example
+ * ```typescript
+ * await pipeline(
+ *   createStakeholderCsvStream(manifest, { columns: ['name', 'email', 'relationships'] }),
+ *   fs.createWriteStream('stakeholders.csv')
+ * );
+ * ```
+ */
+export function createStakeholderCsvStream(
+  manifest: OcfManifest,
+  options: CsvExportOptions<StakeholderCsvRow> = {}
+): Readable {
+  function* rows(): Generator<StakeholderCsvRow> {
+    for (const stakeholder of manifest.stakeholders) {
+      yield {
+        stakeholderId: String(stakeholder.id),
+        name: stakeholderName(stakeholder),
+        stakeholderType: enumLabel<StakeholderType>(
+          stakeholder.stakeholder_type,
+          stakeholderTypeToDaml,
+          'OcfStakeholderType'
+        ),
+        issuerAssignedId: readString(stakeholder.issuer_assigned_id),
+        relationships: relationships(stakeholder),
+        status: enumLabel<StakeholderStatus>(
+          stakeholder.current_status,
+          stakeholderStatusToDaml,
+          'OcfStakeholderStatus'
+        ),
+        email: firstContact(stakeholder, 'emails', 'email_address'),
+        phone: firstContact(stakeholder, 'phone_numbers', 'phone_number'),
+      };
+    }
+  }
+  return toStream(rows, STAKEHOLDER_HEADERS, options);
+}
+
+/**
+ * Stream the stock ledger of a manifest as CSV: one record per stock security, in issuance order.
+ *
+ * @param manifest - Manifest whose transactions should be replayed
+ * @param options - Columns to write and whether to write a header record
+ * @returns Readable stream of CRLF-terminated CSV records
+ * @throws OcpValidationError, emitted by the stream, raised by {@link applyStockSplits} for inconsistent security
+ *   histories, or OcpParseError (`UNKNOWN_ENUM_VALUE`) for enum values OCF does not define
+ *
+ * @example
+ * ```typescript
+ * await pipeline(createStockLedgerCsvStream(manifest), fs.createWriteStream('stock-ledger.csv'));
+ * ```
+ */
+export function createStockLedgerCsvStream(
+  manifest: OcfManifest,
+  options: CsvExportOptions<StockLedgerRow> = {}
+): Readable {
+  function* rows(): Generator<StockLedgerRow> {
+    const context = buildLedgerContext(manifest);
+    yield* ledgerRows(context, 'STOCK', (position, issuance, row) => {
+      const sharePrice = readPrice(context.prices.get(position.securityId));
+      const costBasis = readMonetary(issuance.cost_basis);
+      return {
+        ...row,
+        stockClassId: position.stockClassId,
+        stockClassName: className(context, position.stockClassId),
+        sharePrice: sharePrice.amount,
+        sharePriceCurrency: sharePrice.currency,
+        costBasis: costBasis.amount,
+        costBasisCurrency: costBasis.currency,
+      };
+    });
+  }
+  return toStream(rows, STOCK_HEADERS, options);
+}
+
+/**
+ * Stream the option ledger of a manifest as CSV: one record per option, RSU or SAR, in issuance order.
+ *
+ * Plan security issuances are included under their equity compensation equivalents.
+ *
+ * @param manifest - Manifest whose transactions should be replayed
+ * @param options - Columns to write and whether to write a header record
+ * @returns Readable stream of CRLF-terminated CSV records
+ * @throws OcpValidationError, emitted by the stream, raised by {@link applyStockSplits} for inconsistent security
+ *   histories, or OcpParseError (`UNKNOWN_ENUM_VALUE`) for enum values OCF does not define
+ *
+ * @example
+ * ```typescript
+ * const csv = createOptionLedgerCsvStream(manifest, {
+ *   columns: ['stakeholderName', 'compensationType', 'outstandingQuantity', 'exercisePrice'],
+ * });
+ * await pipeline(csv, fs.createWriteStream('option-ledger.csv'));
+ * ```
+ */
+export function createOptionLedgerCsvStream(
+  manifest: OcfManifest,
+  options: CsvExportOptions<OptionLedgerRow> = {}
+): Readable {
+  function* rows(): Generator<OptionLedgerRow> {
+    const context = buildLedgerContext(manifest);
+    yield* ledgerRows(context, 'EQUITY_COMPENSATION', (position, issuance, row) => {
+      const exercisePrice = readPrice(context.prices.get(position.securityId));
+      return {
+        ...row,
+        compensationType: enumLabel<CompensationType>(
+          issuance.compensation_type,
+          compensationTypeToDaml,
+          'OcfCompensationType'
+        ),
+        stockPlanId: position.stockPlanId,
+        stockPlanName: position.stockPlanId ? (context.planNames.get(position.stockPlanId) ?? null) : null,
+        stockClassId: position.stockClassId,
+        stockClassName: className(context, position.stockClassId),
+        exercisePrice: exercisePrice.amount,
+        exercisePriceCurrency: exercisePrice.currency,
+        expirationDate: readString(issuance.expiration_date),
+        vestingTermsId: readString(issuance.vesting_terms_id),
+      };
+    });
+  }
+  return toStream(rows, OPTION_HEADERS, options);
+}
+
+/**
+ * Stream the warrant ledger of a manifest as CSV: one record per warrant, in issuance order.
+ *
+ * @param manifest - Manifest whose transactions should be replayed
+ * @param options - Columns to write and whether to write a header record
+ * @returns Readable stream of CRLF-terminated CSV records
+ * @throws OcpValidationError, emitted by the stream, raised by {@link applyStockSplits} for inconsistent security
+ *   histories
+ *
+ * @example
+ * ```typescript
+ * await pipeline(createWarrantLedgerCsvStream(manifest), fs.createWriteStream('warrant-ledger.csv'));
+ * ```
+ */
+export function createWarrantLedgerCsvStream(
+  manifest: OcfManifest,
+  options: CsvExportOptions<WarrantLedgerRow> = {}
+): Readable {
+  function* rows(): Generator<WarrantLedgerRow> {
+    const context = buildLedgerContext(manifest);
+    yield* ledgerRows(context, 'WARRANT', (position, issuance, row) => {
+      const exercisePrice = readPrice(context.prices.get(position.securityId));
+      const purchasePrice = readMonetary(issuance.purchase_price);
+      return {
+        ...row,
+        stockClassId: position.stockClassId,
+        stockClassName: className(context, position.stockClassId),
+        exercisePrice: exercisePrice.amount,
+        exercisePriceCurrency: exercisePrice.currency,
+        purchasePrice: purchasePrice.amount,
+        purchasePriceCurrency: purchasePrice.currency,
+        expirationDate: readString(issuance.warrant_expiration_date),
+      };
+    });
+  }
+  return toStream(rows, WARRANT_HEADERS, options);
+}
+
+/**
+ * Stream the convertible ledger of a manifest as CSV: one record per convertible, in issuance order.
+ *
+ * Quantities are investment amounts, in the currency of the record.
+ *
+ * @param manifest - Manifest whose transactions should be replayed
+ * @param options - Columns to write and whether to write a header record
+ * @returns Readable stream of CRLF-terminated CSV records
+ * @throws OcpValidationError, emitted by the stream, raised by {@link applyStockSplits} for inconsistent security
+ *   histories
+ *
+ * @example
+ * ```typescript
+ * await pipeline(createConvertibleLedgerCsvStream(manifest), fs.createWriteStream('convertible-ledger.csv'));
+ * ```
+ */
+export function createConvertibleLedgerCsvStream(
+  manifest: OcfManifest,
+  options: CsvExportOptions<ConvertibleLedgerRow> = {}
+): Readable {
+  function* rows(): Generator<ConvertibleLedgerRow> {
+    const context = buildLedgerContext(manifest);
+    yield* ledgerRows(context, 'CONVERTIBLE', (position, issuance, row) => ({
+      ...row,
+      convertibleType: convertibleTypeLabel(issuance.convertible_type),
+      currency: position.currency,
+      stockClassId: position.stockClassId,
+      stockClassName: className(context, position.stockClassId),
+    }));
+  }
+  return toStream(rows, CONVERTIBLE_HEADERS, options);
+}
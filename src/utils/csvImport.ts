@@ -0,0 +1,463 @@
+/**
+ * CSV import of stakeholders and issuances, for onboarding a company from its spreadsheets.
+ *
+ * Each sheet (stakeholders, stock issuances, equity compensation issuances) comes with a declarative column mapping
+ * from OCF field paths to spreadsheet columns. Every data row becomes a native OCF object: ids are generated for rows
+ * without one, issuances name their holder by stakeholder id, legal name or email, and the object is checked with the
+ * entity validators. Rows that fail are left out and reported with their sheet, row number and column; the others are
+ * returned as create operations for {@link CapTableBatch.createOperation}.
+ *
+ * @module csvImport
+ */
+
+import { randomUUID } from 'crypto';
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpParseError } from '../errors/OcpParseError';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type { OcfCreateOperation } from '../functions/OpenCapTable/capTable/entityTypes';
+import type { OcfEquityCompensationIssuance, OcfStakeholder, OcfStockIssuance } from '../types/native';
+import {
+  validateEquityCompensationIssuanceData,
+  validateStakeholderData,
+  validateStockIssuanceData,
+} from './entityValidators';
+import { createValidationReport, type ValidationIssue, type ValidationReport } from './validationReport';
+
+// ===== Types =====
+
+/** Sheets accepted by {@link importCapTableCsv}. */
+export type CsvImportSheet = 'stakeholders' | 'stockIssuances' | 'equityCompensationIssuances';
+
+/** A spreadsheet column feeding an OCF field. */
+export interface CsvColumnSource {
+  /** Column header */
+  column: string;
+  /**
+   * OCF values of the cell values, e.g. `{ Person: 'INDIVIDUAL', Company: 'INSTITUTION' }`. Cells are matched
+   * case-insensitively and any other value is reported as an error.
+   */
+  values?: Readonly<Record<string, unknown>>;
+  /** Split the cell into a list on this separator, e.g. `';'` for several relationships */
+  separator?: string;
+}
+
+/** Where the value of an OCF field comes from: a column header, a column with options, or a constant. */
+export type CsvFieldSource = string | CsvColumnSource | { value: unknown };
+
+/**
+ * Column mapping of a sheet, keyed by OCF field path. Paths are dot-separated and use numeric segments for list items,
+ * e.g. `name.legal_name`, `share_price.amount` or `contact_info.emails.0.email_address`. Empty cells leave the field
+ * out.
+ */
+export type CsvColumnMapping = Readonly<Record<string, CsvFieldSource>>;
+
+/** CSV text of a sheet, with a header record, and its column mapping. */
+export interface CsvSheet {
+  csv: string;
+  mapping: CsvColumnMapping;
+}
+
+/** Sheets to import; any of them may be left out. */
+export type CapTableCsvSheets = Partial<Record<CsvImportSheet, CsvSheet>>;
+
+/** Options for {@link importCapTableCsv}. */
+export interface CsvImportOptions {
+  /** Stakeholders already on the cap table that issuance rows may refer to */
+  existingStakeholders?: readonly OcfStakeholder[];
+  /** Generates ids for rows without one (default: random UUIDs) */
+  generateId?: () => string;
+}
+
+/** A problem with one row of a sheet. */
+export interface CsvRowIssue extends ValidationIssue {
+  sheet: CsvImportSheet;
+  /** Spreadsheet row number: 1 is the header record, 2 the first data row */
+  row: number;
+  /** Column the offending value comes from, or null when no column is mapped to the field */
+  column: string | null;
+}
+
+/** Row-level report of an import. */
+export interface CsvImportReport extends ValidationReport {
+  issues: CsvRowIssue[];
+}
+
+/** Result of {@link importCapTableCsv}. */
+export interface CsvImportResult {
+  stakeholders: OcfStakeholder[];
+  stockIssuances: OcfStockIssuance[];
+  equityCompensationIssuances: OcfEquityCompensationIssuance[];
+  /** Create operations of every imported object, stakeholders first, in row order */
+  operations: OcfCreateOperation[];
+  report: CsvImportReport;
+}
+
+// ===== Helpers =====
+
+type ImportedEntityType = 'stakeholder' | 'stockIssuance' | 'equityCompensationIssuance';
+
+interface SheetSpec<T> {
+  entityType: ImportedEntityType;
+  objectType: string;
+  validate: (data: unknown, fieldPath: string) => asserts data is T;
+  /** Fields set on every row that does not map them; `security_id` and `custom_id` are derived for issuances */
+  defaults: Readonly<Record<string, unknown>>;
+}
+
+interface SheetSpecs {
+  stakeholders: SheetSpec<OcfStakeholder>;
+  stockIssuances: SheetSpec<OcfStockIssuance>;
+  equityCompensationIssuances: SheetSpec<OcfEquityCompensationIssuance>;
+}
+
+const SHEET_SPECS: SheetSpecs = {
+  stakeholders: {
+    entityType: 'stakeholder',
+    objectType: 'STAKEHOLDER',
+    validate: validateStakeholderData,
+    defaults: {},
+  },
+  stockIssuances: {
+    entityType: 'stockIssuance',
+    objectType: 'TX_STOCK_ISSUANCE',
+    validate: validateStockIssuanceData,
+    defaults: { security_law_exemptions: [], stock_legend_ids: [] },
+  },
+  equityCompensationIssuances: {
+    entityType: 'equityCompensationIssuance',
+    objectType: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+    validate: validateEquityCompensationIssuanceData,
+    defaults: { security_law_exemptions: [], termination_exercise_windows: [], expiration_date: null },
+  },
+};
+
+type RowProblem = Pick<CsvRowIssue, 'fieldPath' | 'column' | 'code' | 'message'>;
+
+interface MappedRow {
+  row: number;
+  data: Record<string, unknown>;
+  problems: RowProblem[];
+}
+
+/** Split CSV text into records as described in RFC 4180; LF and CR line breaks and a byte order mark are accepted. */
+function parseCsv(text: string, sheet: CsvImportSheet): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = text.startsWith('\uFEFF') ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new OcpParseError(`${sheet}: quoted field of record ${records.length + 1} is never closed`, {
+      source: sheet,
+      code: OcpErrorCodes.INVALID_FORMAT,
+    });
+  }
+  if (field.length > 0 || record.length > 0) records.push([...record, field]);
+  return records;
+}
+
+function sourceColumn(source: CsvFieldSource): string | null {
+  if (typeof source === 'string') return source;
+  return 'column' in source ? source.column : null;
+}
+
+/** Column mapped to a field path, or to a field inside or around it. */
+function findColumn(mapping: CsvColumnMapping, fieldPath: string): string | null {
+  for (const [path, source] of Object.entries(mapping)) {
+    if (path === fieldPath || path.startsWith(`${fieldPath}.`) || fieldPath.startsWith(`${path}.`)) {
+      return sourceColumn(source);
+    }
+  }
+  return null;
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = target;
+  for (let i = 0; i < keys.length - 1; i++) {
+    const next = current[keys[i]];
+    if (typeof next !== 'object' || next === null) current[keys[i]] = /^\d+$/.test(keys[i + 1]) ? [] : {};
+    current = current[keys[i]] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function lookupValue(source: CsvColumnSource, cell: string): { value: unknown } | null {
+  if (!source.values) return { value: cell };
+  const key = Object.keys(source.values).find((candidate) => candidate.toLowerCase() === cell.toLowerCase());
+  return key === undefined ? null : { value: source.values[key] };
+}
+
+function mapRow(cells: string[], row: number, mapping: CsvColumnMapping, columns: Map<string, number>): MappedRow {
+  const data: Record<string, unknown> = {};
+  const problems: RowProblem[] = [];
+  for (const [fieldPath, source] of Object.entries(mapping)) {
+    if (typeof source !== 'string' && 'value' in source) {
+      setPath(data, fieldPath, source.value);
+      continue;
+    }
+    const column: CsvColumnSource = typeof source === 'string' ? { column: source } : source;
+    const cell = (cells[columns.get(column.column) ?? -1] ?? '').trim();
+    if (cell.length === 0) continue;
+
+    const parts = column.separator
+      ? cell
+          .split(column.separator)
+          .map((part) => part.trim())
+          .filter((part) => part.length > 0)
+      : [cell];
+    const values: unknown[] = [];
+    for (const part of parts) {
+      const found = lookupValue(column, part);
+      if (found) {
+        values.push(found.value);
+        continue;
+      }
+      problems.push({
+        fieldPath,
+        column: column.column,
+        code: OcpErrorCodes.UNKNOWN_ENUM_VALUE,
+        message: `Unexpected value '${part}' in column '${column.column}'; expected one of: ${Object.keys(column.values ?? {}).join(', ')}`,
+      });
+    }
+    setPath(data, fieldPath, column.separator ? values : values[0]);
+  }
+  return { row, data, problems };
+}
+
+/** Parse a sheet into mapped rows, or report the mapped columns its header lacks. */
+function readSheet(sheet: CsvImportSheet, { csv, mapping }: CsvSheet): { rows: MappedRow[]; missing: string[] } {
+  const [header = [], ...records] = parseCsv(csv, sheet);
+  const columns = new Map(header.map((name, index) => [name.trim(), index]));
+  const missing = [
+    ...new Set(
+      Object.values(mapping)
+        .map(sourceColumn)
+        .filter((column): column is string => column !== null && !columns.has(column))
+    ),
+  ];
+  const rows = records
+    .map((cells, index) => ({ cells, row: index + 2 }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim().length > 0))
+    .map(({ cells, row }) => mapRow(cells, row, mapping, columns));
+  return { rows: missing.length > 0 ? [] : rows, missing };
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function stakeholderEmails(stakeholder: OcfStakeholder): string[] {
+  return [stakeholder.contact_info, stakeholder.primary_contact].flatMap((contact) =>
+    (contact?.emails ?? []).flatMap((email) => readString(email.email_address) ?? [])
+  );
+}
+
+/** Resolves the stakeholder references of issuance rows by id, then by legal name or email (case-insensitive). */
+class StakeholderResolver {
+  private readonly ids = new Set<string>();
+
+  private readonly byNameOrEmail = new Map<string, Set<string>>();
+
+  add(stakeholder: OcfStakeholder): void {
+    const id = readString(stakeholder.id);
+    if (!id) return;
+    this.ids.add(id);
+    const name = readString(stakeholder.name.legal_name);
+    for (const key of [name, ...stakeholderEmails(stakeholder)]) {
+      if (!key) continue;
+      const normalized = key.trim().toLowerCase();
+      this.byNameOrEmail.set(normalized, (this.byNameOrEmail.get(normalized) ?? new Set()).add(id));
+    }
+  }
+
+  resolve(reference: string): { id: string } | { message: string } {
+    if (this.ids.has(reference)) return { id: reference };
+    const matches = [...(this.byNameOrEmail.get(reference.trim().toLowerCase()) ?? [])];
+    if (matches.length === 1) return { id: matches[0] };
+    return matches.length === 0
+      ? { message: `No stakeholder has the id, legal name or email '${reference}'` }
+      : { message: `'${reference}' matches several stakeholders: ${matches.join(', ')}` };
+  }
+}
+
+function applyDefaults(spec: SheetSpec<unknown>, data: Record<string, unknown>, generateId: () => string): void {
+  data.object_type = spec.objectType;
+  data.id ??= generateId();
+  if (spec.entityType !== 'stakeholder') {
+    data.security_id ??= generateId();
+    data.custom_id ??= data.security_id;
+  }
+  for (const [field, value] of Object.entries(spec.defaults)) data[field] ??= value;
+}
+
+/** Turn the mapped rows of a sheet into validated objects, collecting the issues of the rows that fail. */
+function importRows<T>(
+  sheet: CsvImportSheet,
+  spec: SheetSpec<T>,
+  config: CsvSheet,
+  context: { generateId: () => string; resolver: StakeholderResolver | null; issues: CsvRowIssue[] }
+): T[] {
+  const { rows, missing } = readSheet(sheet, config);
+  const toIssue = (row: number, data: Record<string, unknown>, problem: RowProblem): CsvRowIssue => ({
+    sheet,
+    row,
+    entityId: readString(data.id),
+    entityType: spec.entityType,
+    severity: 'error',
+    ...problem,
+  });
+  for (const column of missing) {
+    context.issues.push(
+      toIssue(
+        1,
+        {},
+        {
+          fieldPath: '',
+          column,
+          code: OcpErrorCodes.REQUIRED_FIELD_MISSING,
+          message: `Column '${column}' is mapped but missing from the header`,
+        }
+      )
+    );
+  }
+
+  const imported: T[] = [];
+  for (const { row, data, problems } of rows) {
+    applyDefaults(spec, data, context.generateId);
+    const reference = readString(data.stakeholder_id);
+    if (context.resolver && reference) {
+      const resolved = context.resolver.resolve(reference);
+      if ('id' in resolved) data.stakeholder_id = resolved.id;
+      else {
+        problems.push({
+          fieldPath: 'stakeholder_id',
+          column: findColumn(config.mapping, 'stakeholder_id'),
+          code: OcpErrorCodes.INVALID_FORMAT,
+          message: resolved.message,
+        });
+      }
+    }
+    if (problems.length === 0) {
+      try {
+        spec.validate(data, spec.entityType);
+        imported.push(data);
+        continue;
+      } catch (error) {
+        if (!(error instanceof OcpValidationError)) throw error;
+        const fieldPath = error.fieldPath.slice(spec.entityType.length + 1).replace(/\[(\d+)\]/g, '.$1');
+        problems.push({
+          fieldPath,
+          column: findColumn(config.mapping, fieldPath),
+          code: error.code,
+          message: error.message,
+        });
+      }
+    }
+    context.issues.push(...problems.map((problem) => toIssue(row, data, problem)));
+  }
+  return imported;
+}
+
+// ===== CSV Import =====
+
+/**
+ * Import stakeholders, stock issuances and equity compensation issuances from CSV sheets.
+ *
+ * Rows are turned into native OCF objects with the column mapping of their sheet. A row without an `id` gets a
+ * generated one; issuance rows without a `security_id` get a generated one too, and `custom_id` defaults to the
+ * security id. The `stakeholder_id` of an issuance row may hold the id, legal name or email of a stakeholder imported
+ * from the stakeholder sheet or listed in `existingStakeholders`. Each object is then checked with
+ * {@link validateStakeholderData}, {@link validateStockIssuanceData} or {@link validateEquityCompensationIssuanceData}.
+ *
+ * Only the first validation error of a row is reported, together with any unexpected cell values and unresolved
+ * stakeholder references. Rows with issues are left out of the result, and a mapped column missing from a sheet's
+ * header skips the whole sheet. Blank rows are ignored.
+ *
+ * @param sheets - CSV text and column mapping of each sheet to import
+ * @param options - Stakeholders already on the cap table and the id generator
+ * @returns The imported objects, their create operations and the issues of the rows left out
+ * @throws OcpParseError (`INVALID_FORMAT`) if a sheet has a quoted field that is never closed
+ *
+ * @example
+ * ```typescript
+ * const { operations, report } = importCapTableCsv({
+ *   stakeholders: {
+ *     csv: await fs.readFile('people.csv', 'utf8'),
+ *     mapping: {
+ *       'name.legal_name': 'Full name',
+ *       stakeholder_type: { column: 'Type', values: { Person: 'INDIVIDUAL', Company: 'INSTITUTION' } },
+ *       'contact_info.emails.0.email_address': 'Email',
+ *       'contact_info.emails.0.email_type': { value: 'BUSINESS' },
+ *     },
+ *   },
+ *   stockIssuances: {
+ *     csv: await fs.readFile('shares.csv', 'utf8'),
+ *     mapping: {
+ *       stakeholder_id: 'Holder',
+ *       stock_class_id: { value: 'common' },
+ *       date: 'Issue date',
+ *       quantity: 'Shares',
+ *       'share_price.amount': 'Price',
+ *       'share_price.currency': { value: 'USD' },
+ *     },
+ *   },
+ * });
+ * for (const issue of report.issues) console.warn(`${issue.sheet} row ${issue.row}: ${issue.message}`);
+ * operations.forEach((operation) => batch.createOperation(operation));
+ * ```
+ */
+export function importCapTableCsv(sheets: CapTableCsvSheets, options: CsvImportOptions = {}): CsvImportResult {
+  const generateId = options.generateId ?? randomUUID;
+  const issues: CsvRowIssue[] = [];
+
+  const stakeholders = sheets.stakeholders
+    ? importRows('stakeholders', SHEET_SPECS.stakeholders, sheets.stakeholders, { generateId, resolver: null, issues })
+    : [];
+  const resolver = new StakeholderResolver();
+  for (const stakeholder of [...(options.existingStakeholders ?? []), ...stakeholders]) resolver.add(stakeholder);
+  const context = { generateId, resolver, issues };
+  const stockIssuances = sheets.stockIssuances
+    ? importRows('stockIssuances', SHEET_SPECS.stockIssuances, sheets.stockIssuances, context)
+    : [];
+  const equityCompensationIssuances = sheets.equityCompensationIssuances
+    ? importRows(
+        'equityCompensationIssuances',
+        SHEET_SPECS.equityCompensationIssuances,
+        sheets.equityCompensationIssuances,
+        context
+      )
+    : [];
+
+  return {
+    stakeholders,
+    stockIssuances,
+    equityCompensationIssuances,
+    operations: [
+      ...stakeholders.map((data): OcfCreateOperation => ({ type: 'stakeholder', data })),
+      ...stockIssuances.map((data): OcfCreateOperation => ({ type: 'stockIssuance', data })),
+      ...equityCompensationIssuances.map((data): OcfCreateOperation => ({ type: 'equityCompensationIssuance', data })),
+    ],
+    report: { ...createValidationReport(issues), issues },
+  };
+}
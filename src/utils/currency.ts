@@ -0,0 +1,288 @@
+/**
+ * Currency validation and FX normalization.
+ *
+ * OCF {@link Monetary} values carry a three-letter currency code. This module checks that those codes are ISO 4217
+ * codes, flags stock classes whose prices, issuances, repurchases and valuations mix currencies, and converts amounts
+ * to a reporting currency with a caller-supplied table of dated FX rates. Analytics such as
+ * {@link computeCapitalization} use it to total amounts held in several currencies.
+ *
+ * @module currency
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import { mapOcfObjectTypeToEntityType } from '../functions/OpenCapTable/capTable/entityTypes';
+import type { Monetary } from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { divideDecimals, formatDecimal, multiplyDecimals, parseDecimal, sumDecimals } from './decimalMath';
+import { normalizeObjectType } from './planSecurityAliases';
+import { isRecord } from './typeConversions';
+import { createValidationReport, type ValidationIssue, type ValidationReport } from './validationReport';
+
+// ===== Types =====
+
+/** Rate of one currency in another, effective from a date until the next rate of the same pair. */
+export interface FxRate {
+  /** First date the rate applies (YYYY-MM-DD) */
+  date: string;
+  from: string;
+  to: string;
+  /** Amount of `to` for one unit of `from` (decimal string) */
+  rate: string;
+}
+
+/** Reporting currency and FX rates used to normalize amounts. */
+export interface ReportingCurrencyOptions {
+  currency: string;
+  /** Dated rates; a pair may be given in either direction */
+  rates: readonly FxRate[];
+  /** Conversion date (YYYY-MM-DD); the latest rate on or before it is used. Default: the latest rate of each pair */
+  date?: string;
+}
+
+// ===== Helpers =====
+
+/**
+ * Active ISO 4217 codes, including fund, precious metal and testing codes, plus codes withdrawn since 2020 that
+ * historical records still carry (CUC, HRK, SLL, ANG, ZWL).
+ */
+const ISO_4217_CODES: ReadonlySet<string> = new Set(
+  (
+    'AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND BOB BOV BRL BSD BTN BWP BYN BZD CAD CDF ' +
+    'CHE CHF CHW CLF CLP CNY COP COU CRC CUC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL GHS GIP GMD ' +
+    'GNF GTQ GYD HKD HNL HRK HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR KMF KPW KRW KWD KYD KZT LAK LBP ' +
+    'LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK MXN MXV MYR MZN NAD NGN NIO NOK NPR NZD OMR PAB PEN ' +
+    'PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG SEK SGD SHP SLE SLL SOS SRD SSP STN SVC SYP SZL THB TJS ' +
+    'TMT TND TOP TRY TTD TWD TZS UAH UGX USD USN UYI UYU UYW UZS VED VES VND VUV WST XAF XAG XAU XBA XBB XBC XBD XCD ' +
+    'XCG XDR XOF XPD XPF XPT XSU XTS XUA XXX YER ZAR ZMW ZWG ZWL'
+  ).split(' ')
+);
+
+/** Monetary fields priced in the currency of the stock class, by object type. */
+const STOCK_CLASS_PRICE_FIELDS: Readonly<Record<string, readonly string[]>> = {
+  STOCK_CLASS: ['par_value', 'price_per_share'],
+  VALUATION: ['price_per_share'],
+  TX_STOCK_ISSUANCE: ['share_price', 'cost_basis'],
+  TX_STOCK_REPURCHASE: ['price'],
+};
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function isMonetary(value: unknown): value is Record<string, unknown> & { currency: unknown } {
+  return isRecord(value) && 'amount' in value && 'currency' in value;
+}
+
+/** Every Monetary value nested in an object, with its field path. */
+function findMonetaryValues(value: unknown, path: string): Array<{ fieldPath: string; currency: unknown }> {
+  if (isMonetary(value)) return [{ fieldPath: path, currency: value.currency }];
+  if (Array.isArray(value)) return value.flatMap((item, i) => findMonetaryValues(item, `${path}[${i}]`));
+  if (!isRecord(value)) return [];
+  return Object.entries(value).flatMap(([key, item]) => findMonetaryValues(item, path ? `${path}.${key}` : key));
+}
+
+function findRate(options: ReportingCurrencyOptions, from: string): string {
+  const to = options.currency;
+  const candidates = options.rates
+    .filter((rate) => (rate.from === from && rate.to === to) || (rate.from === to && rate.to === from))
+    .filter((rate) => options.date === undefined || rate.date <= options.date)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (candidates.length === 0) {
+    throw new OcpValidationError(
+      'rates',
+      `No FX rate from ${from} to ${to}${options.date ? ` on or before ${options.date}` : ''}`,
+      { code: OcpErrorCodes.REQUIRED_FIELD_MISSING, context: { from, to, date: options.date } }
+    );
+  }
+  const latest = candidates[candidates.length - 1];
+  const rate = formatDecimal(parseDecimal(latest.rate, 'rates.rate'));
+  return latest.from === from ? rate : divideDecimals('1', rate);
+}
+
+// ===== Currency Codes =====
+
+/**
+ * Check whether a value is an ISO 4217 currency code.
+ *
+ * @param value - Value to check
+ * @returns True for a known three-letter uppercase code
+ */
+export function isIso4217CurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && ISO_4217_CODES.has(value);
+}
+
+/**
+ * Validate that a value is an ISO 4217 currency code.
+ *
+ * @param value - The value to validate
+ * @param fieldPath - Dot-notation path for error messages
+ * @throws {OcpValidationError} if the value is not a known ISO 4217 code
+ */
+export function validateCurrencyCode(value: unknown, fieldPath: string): asserts value is string {
+  if (!isIso4217CurrencyCode(value)) {
+    throw new OcpValidationError(fieldPath, 'Currency must be an ISO 4217 code (e.g. USD)', {
+      expectedType: 'ISO 4217 currency code',
+      receivedValue: value,
+      code: typeof value === 'string' ? OcpErrorCodes.INVALID_FORMAT : OcpErrorCodes.INVALID_TYPE,
+    });
+  }
+}
+
+// ===== Currency Consistency =====
+
+/**
+ * Check the currencies of a manifest.
+ *
+ * Every Monetary value must use an ISO 4217 code (`INVALID_FORMAT`). Within each stock class, the par value and price
+ * per share of the class, the prices of its valuations, the share price and cost basis of its stock issuances and the
+ * price of their repurchases must share one currency: the first one found, in that order. Values in another currency
+ * are reported as `CURRENCY_MISMATCH`.
+ *
+ * @param manifest - Manifest to check
+ * @returns Every invalid code and mixed-currency value, in manifest order
+ *
+ * @example
+ * ```typescript
+ * const report = validateCurrencyConsistency(manifest);
+ * for (const issue of report.issues) console.log(`${issue.entityId} ${issue.fieldPath}: ${issue.message}`);
+ * ```
+ */
+export function validateCurrencyConsistency(manifest: OcfManifest): ValidationReport {
+  const objects = [
+    ...(manifest.issuer ? [manifest.issuer] : []),
+    ...manifest.stakeholders,
+    ...manifest.stockClasses,
+    ...manifest.stockPlans,
+    ...manifest.vestingTerms,
+    ...manifest.stockLegendTemplates,
+    ...manifest.valuations,
+    ...manifest.financings,
+    ...manifest.documents,
+    ...manifest.transactions,
+  ]
+    .filter(isRecord)
+    .map((object) => {
+      const objectType = normalizeObjectType(readString(object.object_type) ?? '');
+      return {
+        object,
+        objectType,
+        subject: { entityId: readString(object.id), entityType: mapOcfObjectTypeToEntityType(objectType) },
+      };
+    });
+
+  const issues: ValidationIssue[] = [];
+  for (const { object, subject } of objects) {
+    for (const { fieldPath, currency } of findMonetaryValues(object, '')) {
+      if (isIso4217CurrencyCode(currency)) continue;
+      issues.push({
+        ...subject,
+        fieldPath: `${fieldPath}.currency`,
+        code: OcpErrorCodes.INVALID_FORMAT,
+        severity: 'error',
+        message: `Currency ${JSON.stringify(currency)} is not an ISO 4217 code`,
+      });
+    }
+  }
+
+  const stockClassBySecurity = new Map<string, string>();
+  for (const { object, objectType } of objects) {
+    const securityId = readString(object.security_id);
+    const stockClassId = readString(object.stock_class_id);
+    if (objectType === 'TX_STOCK_ISSUANCE' && securityId && stockClassId) {
+      stockClassBySecurity.set(securityId, stockClassId);
+    }
+  }
+  const priorities = ['STOCK_CLASS', 'VALUATION', 'TX_STOCK_ISSUANCE', 'TX_STOCK_REPURCHASE'];
+  const priced = objects
+    .filter(({ objectType }) => objectType in STOCK_CLASS_PRICE_FIELDS)
+    .sort((a, b) => priorities.indexOf(a.objectType) - priorities.indexOf(b.objectType));
+  const classCurrencies = new Map<string, string>();
+  for (const { object, objectType, subject } of priced) {
+    const stockClassId =
+      objectType === 'STOCK_CLASS'
+        ? readString(object.id)
+        : objectType === 'TX_STOCK_REPURCHASE'
+          ? (stockClassBySecurity.get(readString(object.security_id) ?? '') ?? null)
+          : readString(object.stock_class_id);
+    if (!stockClassId) continue;
+    for (const field of STOCK_CLASS_PRICE_FIELDS[objectType]) {
+      const value = object[field];
+      if (!isMonetary(value) || !isIso4217CurrencyCode(value.currency)) continue;
+      const expected = classCurrencies.get(stockClassId);
+      if (expected === undefined) {
+        classCurrencies.set(stockClassId, value.currency);
+      } else if (value.currency !== expected) {
+        issues.push({
+          ...subject,
+          fieldPath: `${field}.currency`,
+          code: OcpErrorCodes.CURRENCY_MISMATCH,
+          severity: 'error',
+          message: `Currency ${value.currency} differs from ${expected} used by stock class '${stockClassId}'`,
+        });
+      }
+    }
+  }
+  return createValidationReport(issues);
+}
+
+// ===== FX Normalization =====
+
+/**
+ * Convert an amount to the reporting currency.
+ *
+ * @param value - Amount to convert
+ * @param options - Reporting currency, FX rates and conversion date
+ * @returns The amount in the reporting currency; `value` itself when it already is in that currency
+ * @throws OcpValidationError (`REQUIRED_FIELD_MISSING`) when no rate of the pair applies on the conversion date
+ *
+ * @example
+ * ```typescript
+ * const rates = [{ date: '2024-01-01', from: 'EUR', to: 'USD', rate: '1.10' }];
+ * convertMonetary({ amount: '100', currency: 'EUR' }, { currency: 'USD', rates, date: '2024-06-30' });
+ * // { amount: '110', currency: 'USD' }
+ * ```
+ */
+export function convertMonetary(value: Monetary, options: ReportingCurrencyOptions): Monetary {
+  if (value.currency === options.currency) return value;
+  const amount = formatDecimal(parseDecimal(value.amount, 'amount'));
+  return { amount: multiplyDecimals(amount, findRate(options, value.currency)), currency: options.currency };
+}
+
+/**
+ * Total amounts of money.
+ *
+ * Without a reporting currency, every amount must use the same currency, so that amounts in different currencies are
+ * never silently added up.
+ *
+ * @param values - Amounts to total
+ * @param options - Reporting currency to convert every amount to before totaling
+ * @returns The total, or null for no amounts and no reporting currency
+ * @throws OcpValidationError (`CURRENCY_MISMATCH`) when amounts mix currencies and no reporting currency is given,
+ *   plus any error raised by {@link convertMonetary}
+ *
+ * @example
+ * ```typescript
+ * const { totals } = computeCapitalization(manifest);
+ * const total = sumMonetary(totals.convertibles, { currency: 'USD', rates, date: '2024-12-31' });
+ * ```
+ */
+export function sumMonetary(values: readonly Monetary[], options: ReportingCurrencyOptions): Monetary;
+export function sumMonetary(values: readonly Monetary[], options?: ReportingCurrencyOptions): Monetary | null;
+export function sumMonetary(values: readonly Monetary[], options?: ReportingCurrencyOptions): Monetary | null {
+  if (options) {
+    const amounts = values.map((value) => convertMonetary(value, options).amount);
+    return { amount: sumDecimals(amounts), currency: options.currency };
+  }
+  if (values.length === 0) return null;
+  const [{ currency }] = values;
+  const mixed = values.find((value) => value.currency !== currency);
+  if (mixed) {
+    throw new OcpValidationError('currency', `Cannot total ${currency} and ${mixed.currency} amounts`, {
+      expectedType: currency,
+      receivedValue: mixed.currency,
+      code: OcpErrorCodes.CURRENCY_MISMATCH,
+    });
+  }
+  return { amount: sumDecimals(values.map((value) => value.amount)), currency };
+}
@@ -0,0 +1,163 @@
+/**
+ * Exact decimal arithmetic for OCF numeric strings.
+ *
+ * OCF quantities, prices and amounts are decimal strings backed by DAML `Numeric 10`. Summing them as JavaScript
+ * numbers loses precision on large share counts, so cap table analytics parse them into bigints scaled by 10^10,
+ * do the arithmetic there, and format the result back into a normalized decimal string.
+ *
+ * @module decimalMath
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type { RoundingType } from '../types/native';
+
+/** Number of fractional digits carried by DAML `Numeric 10` values. */
+export const DECIMAL_SCALE = 10;
+
+const SCALE_FACTOR = 10n ** BigInt(DECIMAL_SCALE);
+
+/**
+ * Parse a decimal string (or finite number) into a bigint scaled by 10^{@link DECIMAL_SCALE}.
+ *
+ * @param value - Decimal string such as "1500000" or "0.25"
+ * @param fieldPath - Field path reported when the value is not a valid decimal
+ * @returns Scaled bigint representation of the value
+ * @throws OcpValidationError if the value is not a plain decimal or has more than 10 fractional digits
+ */
+export function parseDecimal(value: string | number, fieldPath = 'value'): bigint {
+  const text = typeof value === 'number' ? value.toString() : value.trim();
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) {
+    throw new OcpValidationError(fieldPath, 'Invalid decimal value', {
+      expectedType: 'string (decimal format)',
+      receivedValue: value,
+      code: OcpErrorCodes.INVALID_FORMAT,
+    });
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  if (fraction.replace(/0+$/, '').length > DECIMAL_SCALE) {
+    throw new OcpValidationError(fieldPath, `Decimal value has more than ${DECIMAL_SCALE} fractional digits`, {
+      expectedType: `decimal with at most ${DECIMAL_SCALE} fractional digits`,
+      receivedValue: value,
+      code: OcpErrorCodes.OUT_OF_RANGE,
+    });
+  }
+
+  const scaled = BigInt(whole) * SCALE_FACTOR + BigInt(fraction.slice(0, DECIMAL_SCALE).padEnd(DECIMAL_SCALE, '0'));
+  return sign === '-' ? -scaled : scaled;
+}
+
+/**
+ * Format a scaled bigint back into a normalized decimal string (no trailing zeros, no trailing point).
+ *
+ * @example
+ * ```typescript
+ * formatDecimal(parseDecimal('1500.5000')); // '1500.5'
+ * ```
+ */
+export function formatDecimal(value: bigint): string {
+  const negative = value < 0n;
+  const absolute = negative ? -value : value;
+  const whole = absolute / SCALE_FACTOR;
+  const fraction = (absolute % SCALE_FACTOR).toString().padStart(DECIMAL_SCALE, '0').replace(/0+$/, '');
+  const text = fraction ? `${whole}.${fraction}` : whole.toString();
+  return negative ? `-${text}` : text;
+}
+
+/** Add two decimal strings exactly. */
+export function addDecimals(a: string, b: string): string {
+  return formatDecimal(parseDecimal(a) + parseDecimal(b));
+}
+
+/** Subtract `b` from `a` exactly. */
+export function subtractDecimals(a: string, b: string): string {
+  return formatDecimal(parseDecimal(a) - parseDecimal(b));
+}
+
+/** Sum a list of decimal strings exactly. Returns "0" for an empty list. */
+export function sumDecimals(values: readonly string[]): string {
+  return formatDecimal(values.reduce((total, value) => total + parseDecimal(value), 0n));
+}
+
+/**
+ * Compare two decimal strings numerically.
+ *
+ * @returns -1 if `a < b`, 0 if equal, 1 if `a > b`
+ */
+export function compareDecimals(a: string, b: string): -1 | 0 | 1 {
+  const left = parseDecimal(a);
+  const right = parseDecimal(b);
+  if (left === right) return 0;
+  return left < right ? -1 : 1;
+}
+
+/**
+ * Divide two bigints, rounding the quotient with an OCF {@link RoundingType}.
+ *
+ * `NORMAL` rounds half away from zero, `CEILING` towards positive infinity and `FLOOR` towards negative infinity.
+ */
+function divideRounded(numerator: bigint, denominator: bigint, rounding: RoundingType): bigint {
+  const negative = numerator < 0n !== denominator < 0n;
+  const absNumerator = numerator < 0n ? -numerator : numerator;
+  const absDenominator = denominator < 0n ? -denominator : denominator;
+  let quotient = absNumerator / absDenominator;
+  const remainder = absNumerator % absDenominator;
+
+  if (remainder !== 0n) {
+    const roundAway =
+      rounding === 'NORMAL' ? remainder * 2n >= absDenominator : rounding === 'CEILING' ? !negative : negative;
+    if (roundAway) quotient += 1n;
+  }
+
+  return negative ? -quotient : quotient;
+}
+
+/**
+ * Multiply two decimal strings, rounding the product to 10 fractional digits.
+ *
+ * @param rounding - Rounding applied to digits beyond the DAML scale (default `NORMAL`)
+ */
+export function multiplyDecimals(a: string, b: string, rounding: RoundingType = 'NORMAL'): string {
+  return formatDecimal(divideRounded(parseDecimal(a) * parseDecimal(b), SCALE_FACTOR, rounding));
+}
+
+/**
+ * Divide `a` by `b`, rounding the quotient once to 10 fractional digits or fewer.
+ *
+ * @param rounding - Rounding applied to digits beyond `fractionDigits` (default `NORMAL`)
+ * @param fractionDigits - Fractional digits to keep, capped at the DAML scale (0 rounds to whole units)
+ * @throws OcpValidationError if `b` is zero
+ */
+export function divideDecimals(
+  a: string,
+  b: string,
+  rounding: RoundingType = 'NORMAL',
+  fractionDigits: number = DECIMAL_SCALE
+): string {
+  const divisor = parseDecimal(b, 'divisor');
+  if (divisor === 0n) {
+    throw new OcpValidationError('divisor', 'Cannot divide by zero', {
+      expectedType: 'non-zero decimal',
+      receivedValue: b,
+      code: OcpErrorCodes.OUT_OF_RANGE,
+    });
+  }
+  const unit = 10n ** BigInt(DECIMAL_SCALE - Math.min(Math.max(fractionDigits, 0), DECIMAL_SCALE));
+  return formatDecimal(divideRounded(parseDecimal(a) * SCALE_FACTOR, divisor * unit, rounding) * unit);
+}
+
+/**
+ * Round a decimal string to a number of fractional digits (0 rounds to whole units).
+ *
+ * @example
+ * ```typescript
+ * roundDecimal('1234.5', 0, 'FLOOR'); // '1234'
+ * roundDecimal('0.125', 2); // '0.13'
+ * ```
+ */
+export function roundDecimal(value: string, fractionDigits: number, rounding: RoundingType = 'NORMAL'): string {
+  const unit = 10n ** BigInt(DECIMAL_SCALE - Math.min(Math.max(fractionDigits, 0), DECIMAL_SCALE));
+  return formatDecimal(divideRounded(parseDecimal(value), unit, rounding) * unit);
+}
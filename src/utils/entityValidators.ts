@@ -16,7 +16,16 @@
 
 import { Fairmint } from '@fairmint/open-captable-protocol-daml-js';
 import { OcpErrorCodes, OcpValidationError } from '../errors';
-import type { Address, Email, Monetary, Phone, StakeholderRelationshipType } from '../types';
+import type {
+  Address,
+  Email,
+  Monetary,
+  OcfEquityCompensationIssuance,
+  OcfStakeholder,
+  OcfStockIssuance,
+  Phone,
+  StakeholderRelationshipType,
+} from '../types';
 import { damlStakeholderRelationshipToNative } from './enumConversions';
 import {
   validateEnum,
@@ -41,6 +50,18 @@ const ADDRESS_TYPES = ['LEGAL', 'CONTACT', 'OTHER'] as const;
 const STAKEHOLDER_TYPES = ['INDIVIDUAL', 'INSTITUTION'] as const;
 const STOCK_CLASS_TYPES = ['PREFERRED', 'COMMON'] as const;
 const STOCK_ISSUANCE_TYPES = ['RSA', 'FOUNDERS_STOCK'] as const;
+const COMPENSATION_TYPES = ['OPTION_NSO', 'OPTION_ISO', 'OPTION', 'RSU', 'CSAR', 'SSAR'] as const;
+const OPTION_GRANT_TYPES = ['NSO', 'ISO', 'INTL'] as const;
+const TERMINATION_WINDOW_REASONS = [
+  'VOLUNTARY_OTHER',
+  'VOLUNTARY_GOOD_CAUSE',
+  'VOLUNTARY_RETIREMENT',
+  'INVOLUNTARY_OTHER',
+  'INVOLUNTARY_DEATH',
+  'INVOLUNTARY_DISABILITY',
+  'INVOLUNTARY_WITH_CAUSE',
+] as const;
+const PERIOD_TYPES = ['DAYS', 'MONTHS', 'YEARS'] as const;
 const VALUATION_TYPES = ['409A'] as const;
 const STAKEHOLDER_STATUSES = [
   'ACTIVE',
@@ -332,7 +353,7 @@ export function validateIssuerData(data: unknown, fieldPath: string): void {
  * @param fieldPath - Base path for error messages (e.g., 'stakeholder')
  * @throws {OcpValidationError} if validation fails
  */
-export function validateStakeholderData(data: unknown, fieldPath: string): void {
+export function validateStakeholderData(data: unknown, fieldPath: string): asserts data is OcfStakeholder {
   validateRequiredObject(data, fieldPath);
   const value = data;
 
@@ -482,7 +503,7 @@ export function validateStockClassData(data: unknown, fieldPath: string): void {
  * @param fieldPath - Base path for error messages (e.g., 'stockIssuance')
  * @throws {OcpValidationError} if validation fails
  */
-export function validateStockIssuanceData(data: unknown, fieldPath: string): void {
+export function validateStockIssuanceData(data: unknown, fieldPath: string): asserts data is OcfStockIssuance {
   validateRequiredObject(data, fieldPath);
   const value = data;
 
@@ -572,6 +593,104 @@ export function validateStockIssuanceData(data: unknown, fieldPath: string): voi
   validateOptionalArray(value.comments, `${fieldPath}.comments`);
 }
 
+/**
+ * Validate OcfEquityCompensationIssuance data.
+ *
+ * Validates all required fields and structure of an equity compensation issuance object.
+ * Throws OcpValidationError with detailed field path on validation failure.
+ *
+ * @param data - The equity compensation issuance data to validate
+ * @param fieldPath - Base path for error messages (e.g., 'equityCompensationIssuance')
+ * @throws {OcpValidationError} if validation fails
+ */
+export function validateEquityCompensationIssuanceData(
+  data: unknown,
+  fieldPath: string
+): asserts data is OcfEquityCompensationIssuance {
+  validateRequiredObject(data, fieldPath);
+  const value = data;
+
+  // Required fields
+  validateRequiredString(value.id, `${fieldPath}.id`);
+  validateRequiredDate(value.date, `${fieldPath}.date`);
+  validateRequiredString(value.security_id, `${fieldPath}.security_id`);
+  validateRequiredString(value.custom_id, `${fieldPath}.custom_id`);
+  validateRequiredString(value.stakeholder_id, `${fieldPath}.stakeholder_id`);
+  validateEnum(value.compensation_type, `${fieldPath}.compensation_type`, COMPENSATION_TYPES);
+  validateRequiredNumeric(value.quantity, `${fieldPath}.quantity`);
+
+  // Optional fields
+  validateOptionalString(value.stock_plan_id, `${fieldPath}.stock_plan_id`);
+  validateOptionalString(value.stock_class_id, `${fieldPath}.stock_class_id`);
+  validateOptionalString(value.vesting_terms_id, `${fieldPath}.vesting_terms_id`);
+  validateOptionalDate(value.board_approval_date, `${fieldPath}.board_approval_date`);
+  validateOptionalDate(value.stockholder_approval_date, `${fieldPath}.stockholder_approval_date`);
+  validateOptionalDate(value.expiration_date, `${fieldPath}.expiration_date`);
+  validateOptionalString(value.consideration_text, `${fieldPath}.consideration_text`);
+  validateOptionalEnum(value.option_grant_type, `${fieldPath}.option_grant_type`, OPTION_GRANT_TYPES);
+
+  // Optional monetary fields
+  if (value.exercise_price !== undefined && value.exercise_price !== null) {
+    validateMonetaryObject(value.exercise_price, `${fieldPath}.exercise_price`);
+  }
+  if (value.base_price !== undefined && value.base_price !== null) {
+    validateMonetaryObject(value.base_price, `${fieldPath}.base_price`);
+  }
+
+  if (
+    value.early_exercisable !== undefined &&
+    value.early_exercisable !== null &&
+    typeof value.early_exercisable !== 'boolean'
+  ) {
+    throw new OcpValidationError(`${fieldPath}.early_exercisable`, 'Must be a boolean if provided', {
+      expectedType: 'boolean',
+      receivedValue: value.early_exercisable,
+      code: OcpErrorCodes.INVALID_TYPE,
+    });
+  }
+
+  // Optional vestings array
+  const vestings = validateOptionalArray<unknown>(value.vestings, `${fieldPath}.vestings`) ?? [];
+  for (let i = 0; i < vestings.length; i++) {
+    const vesting = vestings[i];
+    validateRequiredObject(vesting, `${fieldPath}.vestings[${i}]`);
+    validateRequiredDate(vesting.date, `${fieldPath}.vestings[${i}].date`);
+    validateRequiredNumeric(vesting.amount, `${fieldPath}.vestings[${i}].amount`);
+  }
+
+  // Optional termination_exercise_windows array
+  const windows =
+    validateOptionalArray<unknown>(value.termination_exercise_windows, `${fieldPath}.termination_exercise_windows`) ??
+    [];
+  for (let i = 0; i < windows.length; i++) {
+    const window = windows[i];
+    const windowPath = `${fieldPath}.termination_exercise_windows[${i}]`;
+    validateRequiredObject(window, windowPath);
+    validateEnum(window.reason, `${windowPath}.reason`, TERMINATION_WINDOW_REASONS);
+    if (typeof window.period !== 'number' || !Number.isInteger(window.period) || window.period < 0) {
+      throw new OcpValidationError(`${windowPath}.period`, 'Must be a non-negative integer', {
+        expectedType: 'non-negative integer',
+        receivedValue: window.period,
+        code: OcpErrorCodes.INVALID_TYPE,
+      });
+    }
+    validateEnum(window.period_type, `${windowPath}.period_type`, PERIOD_TYPES);
+  }
+
+  // Optional security_law_exemptions array
+  const exemptions =
+    validateOptionalArray<unknown>(value.security_law_exemptions, `${fieldPath}.security_law_exemptions`) ?? [];
+  for (let i = 0; i < exemptions.length; i++) {
+    const exemption = exemptions[i];
+    validateRequiredObject(exemption, `${fieldPath}.security_law_exemptions[${i}]`);
+    validateRequiredString(exemption.description, `${fieldPath}.security_law_exemptions[${i}].description`);
+    validateRequiredString(exemption.jurisdiction, `${fieldPath}.security_law_exemptions[${i}].jurisdiction`);
+  }
+
+  // Optional comments array
+  validateOptionalArray(value.comments, `${fieldPath}.comments`);
+}
+
 /**
  * Validate OcfValuation data.
  *
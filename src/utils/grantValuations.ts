@@ -0,0 +1,218 @@
+/**
+ * 409A valuation matching for option grants.
+ *
+ * Links each option or stock appreciation right grant to the 409A {@link OcfValuation} of its stock class that was in
+ * effect on the grant date, and flags the grants a compliance review needs to look at: grants priced below the fair
+ * market value, grants with no valuation on or before the grant date, and grants made after the latest valuation
+ * expired.
+ *
+ * Valuations expire on their `expiration_date` when one is recorded, and otherwise after a validity window counted
+ * from the effective date (12 months by default, the usual 409A safe harbor period).
+ *
+ * @module grantValuations
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type { Monetary } from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { sortTransactions } from './cantonOcfExtractor';
+import { compareDecimals, formatDecimal, parseDecimal, subtractDecimals } from './decimalMath';
+import { normalizeObjectType } from './planSecurityAliases';
+import { isRecord } from './typeConversions';
+import { isNumericValue } from './typeGuards';
+
+// ===== Types =====
+
+/** Reason a grant needs review. */
+export type GrantValuationIssueType = 'BELOW_FMV' | 'NO_VALUATION' | 'VALUATION_EXPIRED' | 'CURRENCY_MISMATCH';
+
+/** A 409A valuation matched to a grant. */
+export interface MatchedValuation {
+  valuationId: string;
+  pricePerShare: Monetary;
+  effectiveDate: string;
+  /** Last day the valuation is in effect: its `expiration_date`, or the end of the validity window */
+  expirationDate: string;
+}
+
+/** Valuation match of a single grant. */
+export interface GrantValuationMatch {
+  securityId: string;
+  transactionId: string;
+  stakeholderId: string | null;
+  grantDate: string;
+  /** Stock class of the grant, or of its stock plan when the grant names none */
+  stockClassId: string | null;
+  exercisePrice: Monetary;
+  /** Latest 409A valuation of the class effective on or before the grant date, even when expired */
+  valuation: MatchedValuation | null;
+  /** `valuation.pricePerShare - exercisePrice` when both use the same currency; positive means below FMV */
+  discount: string | null;
+  issues: GrantValuationIssueType[];
+}
+
+/** Options for {@link analyzeGrantValuations}. */
+export interface AnalyzeGrantValuationsOptions {
+  /** Months a valuation without `expiration_date` stays in effect. Default: 12 */
+  validityMonths?: number;
+}
+
+/** Result of {@link analyzeGrantValuations}. */
+export interface GrantValuationReport {
+  /** Every grant with an exercise price, in ledger order */
+  grants: GrantValuationMatch[];
+  /** Grants with at least one issue */
+  flagged: GrantValuationMatch[];
+}
+
+// ===== Helpers =====
+
+const DEFAULT_VALIDITY_MONTHS = 12;
+
+interface ValuationEntry extends Omit<MatchedValuation, 'expirationDate'> {
+  stockClassId: string;
+  expirationDate: string | null;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+/** Read a price, or null when its amount is not a decimal or it has no currency. */
+function readMonetary(value: unknown): Monetary | null {
+  if (!isRecord(value)) return null;
+  const amount = typeof value.amount === 'number' ? String(value.amount) : value.amount;
+  const currency = readString(value.currency);
+  return isNumericValue(amount) && currency ? { amount: formatDecimal(parseDecimal(amount)), currency } : null;
+}
+
+/** Day before the same day `months` later, clamped to the end of shorter months. */
+function endOfWindow(date: string, months: number): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const monthIndex = month - 1 + months;
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  const end = new Date(Date.UTC(year, monthIndex, day > lastDay ? lastDay : day - 1));
+  return end.toISOString().slice(0, 10);
+}
+
+function readValuations(valuations: Array<Record<string, unknown>>): ValuationEntry[] {
+  return valuations.flatMap((valuation): ValuationEntry[] => {
+    const valuationType = readString(valuation.valuation_type);
+    const stockClassId = readString(valuation.stock_class_id);
+    const effectiveDate = readString(valuation.effective_date)?.slice(0, 10);
+    const pricePerShare = readMonetary(valuation.price_per_share);
+    if ((valuationType && valuationType !== '409A') || !stockClassId || !effectiveDate || !pricePerShare) return [];
+    return [
+      {
+        valuationId: String(valuation.id),
+        stockClassId,
+        pricePerShare,
+        effectiveDate,
+        expirationDate: readString(valuation.expiration_date)?.slice(0, 10) ?? null,
+      },
+    ];
+  });
+}
+
+/** Stock class of each plan that names exactly one. */
+function readPlanClasses(stockPlans: Array<Record<string, unknown>>): Map<string, string> {
+  const classes = new Map<string, string>();
+  for (const plan of stockPlans) {
+    const ids = Array.isArray(plan.stock_class_ids)
+      ? plan.stock_class_ids.filter((id): id is string => typeof id === 'string')
+      : [readString(plan.stock_class_id)].filter((id): id is string => id !== null);
+    if (ids.length === 1 && readString(plan.id)) classes.set(String(plan.id), ids[0]);
+  }
+  return classes;
+}
+
+// ===== Analysis =====
+
+/**
+ * Match every option and stock appreciation right grant to the 409A valuation in effect on its grant date.
+ *
+ * Grants are the equity compensation issuances with an `exercise_price`. The exercise price checked is the one set at
+ * grant; later repricings are not reviewed. Grants and valuations whose price has no currency or a non-decimal
+ * amount are skipped. When several valuations share an effective date, the last one in the manifest wins.
+ *
+ * @param manifest - Manifest with valuations, stock plans and transactions
+ * @param options - Validity window for valuations without an expiration date
+ * @returns Every grant with its matched valuation and issues, plus the flagged subset
+ * @throws OcpValidationError if `validityMonths` is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * const { flagged } = analyzeGrantValuations(manifest);
+ * for (const grant of flagged) {
+ *   console.log(grant.securityId, grant.issues.join(', '), grant.valuation?.valuationId ?? 'no valuation');
+ * }
+ * ```
+ */
+export function analyzeGrantValuations(
+  manifest: Pick<OcfManifest, 'valuations' | 'stockPlans' | 'transactions'>,
+  options: AnalyzeGrantValuationsOptions = {}
+): GrantValuationReport {
+  const validityMonths = options.validityMonths ?? DEFAULT_VALIDITY_MONTHS;
+  if (!Number.isInteger(validityMonths) || validityMonths <= 0) {
+    throw new OcpValidationError('options.validityMonths', 'Validity window must be a positive number of months', {
+      expectedType: 'positive integer',
+      receivedValue: options.validityMonths,
+      code: OcpErrorCodes.OUT_OF_RANGE,
+    });
+  }
+
+  const valuations = readValuations(manifest.valuations);
+  const planClasses = readPlanClasses(manifest.stockPlans);
+  const grants: GrantValuationMatch[] = [];
+
+  for (const tx of sortTransactions(manifest.transactions.filter(isRecord))) {
+    const objectType = normalizeObjectType(typeof tx.object_type === 'string' ? tx.object_type : '');
+    const exercisePrice = readMonetary(tx.exercise_price);
+    const securityId = readString(tx.security_id);
+    if (objectType !== 'TX_EQUITY_COMPENSATION_ISSUANCE' || !exercisePrice || !securityId) continue;
+
+    const grantDate = String(tx.date).slice(0, 10);
+    const stockClassId = readString(tx.stock_class_id) ?? planClasses.get(readString(tx.stock_plan_id) ?? '') ?? null;
+    const entry = valuations
+      .filter((valuation) => valuation.stockClassId === stockClassId && valuation.effectiveDate <= grantDate)
+      .reduce<ValuationEntry | null>(
+        (latest, valuation) => (latest && latest.effectiveDate > valuation.effectiveDate ? latest : valuation),
+        null
+      );
+    const valuation: MatchedValuation | null = entry && {
+      valuationId: entry.valuationId,
+      pricePerShare: entry.pricePerShare,
+      effectiveDate: entry.effectiveDate,
+      expirationDate: entry.expirationDate ?? endOfWindow(entry.effectiveDate, validityMonths),
+    };
+
+    const issues: GrantValuationIssueType[] = [];
+    let discount: string | null = null;
+    if (!valuation) {
+      issues.push('NO_VALUATION');
+    } else {
+      if (grantDate > valuation.expirationDate) issues.push('VALUATION_EXPIRED');
+      if (valuation.pricePerShare.currency !== exercisePrice.currency) {
+        issues.push('CURRENCY_MISMATCH');
+      } else {
+        discount = subtractDecimals(valuation.pricePerShare.amount, exercisePrice.amount);
+        if (compareDecimals(discount, '0') > 0) issues.push('BELOW_FMV');
+      }
+    }
+
+    grants.push({
+      securityId,
+      transactionId: String(tx.id),
+      stakeholderId: readString(tx.stakeholder_id),
+      grantDate,
+      stockClassId,
+      exercisePrice,
+      valuation,
+      discount,
+      issues,
+    });
+  }
+
+  return { grants, flagged: grants.filter((grant) => grant.issues.length > 0) };
+}
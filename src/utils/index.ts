@@ -1,17 +1,43 @@
+export * from './authorizedShares';
 export * from './cantonOcfExtractor';
+export * from './capitalization';
+export * from './capTablePositions';
+export * from './capTableSnapshot';
 export * from './contractReadDiagnostics';
+export * from './convertibleConversion';
+export * from './csvExport';
+export * from './csvImport';
+export * from './currency';
+export * from './decimalMath';
 export * from './entityValidators';
 export * from './enumConversions';
+export * from './grantValuations';
+export * from './isoLimit';
+export * from './liquidationWaterfall';
+export * from './ocfBundle';
 export * from './ocfComparison';
 export * from './ocfHelpers';
+export * from './ocfJsonPatch';
 export * from './ocfMetadata';
+export * from './ocfMigrations';
 export * from './ocfZodSchemas';
 export * from './planSecurityAliases';
 export * from './readScope';
+export * from './referentialIntegrity';
 export * from './replicationHelpers';
+export * from './securityLifecycle';
+export * from './securityLineage';
+export * from './stakeholderStatement';
+export * from './stockPlanPool';
+export * from './stockSplits';
 export * from './templateIdentity';
+export * from './temporalConsistency';
 export * from './transactionHelpers';
 export * from './typeConversions';
 export * from './typeGuards';
 export * from './validation';
+export * from './validationReport';
+export * from './validationRules';
+export * from './vestingSchedule';
 export * from './zeroUuidNormalization';
+export * from './zipArchive';
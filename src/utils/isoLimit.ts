@@ -0,0 +1,277 @@
+/**
+ * ISO $100,000 annual limit checker.
+ *
+ * Incentive stock options only keep ISO treatment for the shares whose aggregate value, measured at the exercise
+ * price, first becomes exercisable in a calendar year up to $100,000 per optionholder (IRC §422(d)). Options are
+ * counted in the order they were granted, and the value above the limit is treated as a non-qualified option.
+ *
+ * Exercisability follows each grant's vesting: explicit `vestings`, or the schedule computed from its
+ * {@link OcfVestingTerms} with {@link computeVestingSchedule}. Grants without vesting and early-exercisable grants are
+ * exercisable in full on the grant date.
+ *
+ * @module isoLimit
+ */
+
+import type { OcfVestingTerms } from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { sortTransactions } from './cantonOcfExtractor';
+import {
+  addDecimals,
+  compareDecimals,
+  divideDecimals,
+  formatDecimal,
+  multiplyDecimals,
+  parseDecimal,
+  subtractDecimals,
+} from './decimalMath';
+import { normalizeObjectType } from './planSecurityAliases';
+import { isRecord } from './typeConversions';
+import { computeVestingSchedule } from './vestingSchedule';
+
+// ===== Types =====
+
+/** Part of one ISO grant that first becomes exercisable in a calendar year. */
+export interface IsoGrantAllocation {
+  securityId: string;
+  transactionId: string;
+  grantDate: string;
+  exercisePrice: string;
+  /** Shares first exercisable in the year */
+  shares: string;
+  /** `shares × exercisePrice` */
+  value: string;
+  /** Value within the limit */
+  isoValue: string;
+  /** Value above the limit, to be treated as NSO */
+  nsoValue: string;
+  /** `nsoValue / exercisePrice` */
+  nsoShares: string;
+}
+
+/** ISO value first exercisable by one stakeholder in one calendar year. */
+export interface IsoLimitYear {
+  stakeholderId: string;
+  year: number;
+  /** Total value first exercisable in the year */
+  exercisableValue: string;
+  limit: string;
+  /** Value above the limit, to be treated as NSO; "0" within the limit */
+  excess: string;
+  /** Grants in the order they count toward the limit */
+  grants: IsoGrantAllocation[];
+}
+
+/** An ISO grant the checker could not evaluate. */
+export interface SkippedIsoGrant {
+  securityId: string;
+  reason: string;
+}
+
+/** Options for {@link computeIsoLimits}. */
+export interface IsoLimitOptions {
+  /** Annual limit. Default: "100000" */
+  limit?: string;
+  /** Currency of the limit; grants priced in another currency are skipped. Default: "USD" */
+  currency?: string;
+}
+
+/** Result of {@link computeIsoLimits}. */
+export interface IsoLimitReport {
+  /** True when no stakeholder exceeds the limit in any year */
+  valid: boolean;
+  /** Every stakeholder and year with ISO value, by stakeholder then year */
+  years: IsoLimitYear[];
+  /** Years above the limit */
+  violations: IsoLimitYear[];
+  skipped: SkippedIsoGrant[];
+}
+
+// ===== Helpers =====
+
+const DEFAULT_LIMIT = '100000';
+const DEFAULT_CURRENCY = 'USD';
+
+interface Tranche {
+  date: string;
+  amount: string;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readDecimal(value: unknown): string | null {
+  if (typeof value === 'number') return formatDecimal(parseDecimal(value));
+  const text = readString(value);
+  return text ? formatDecimal(parseDecimal(text)) : null;
+}
+
+function isVestingTerms(value: unknown): value is Pick<OcfVestingTerms, 'allocation_type' | 'vesting_conditions'> {
+  return isRecord(value) && typeof value.allocation_type === 'string' && Array.isArray(value.vesting_conditions);
+}
+
+function isIsoGrant(tx: Record<string, unknown>): boolean {
+  return tx.compensation_type === 'OPTION_ISO' || tx.option_grant_type === 'ISO' || tx.option_type === 'ISO';
+}
+
+/** Dated exercisable amounts of a grant, or a reason the schedule is unknown. */
+function readTranches(
+  tx: Record<string, unknown>,
+  quantity: string,
+  vestingTerms: Map<string, Record<string, unknown>>,
+  vestingTransactions: Array<Record<string, unknown>>
+): Tranche[] | string {
+  const grantDate = String(tx.date).slice(0, 10);
+  if (tx.early_exercisable === true) return [{ date: grantDate, amount: quantity }];
+
+  const vestings = Array.isArray(tx.vestings) ? tx.vestings.filter(isRecord) : [];
+  if (vestings.length > 0) {
+    return vestings.flatMap((vesting) => {
+      const date = readString(vesting.date);
+      const amount = readDecimal(vesting.amount);
+      return date && amount ? [{ date: date.slice(0, 10), amount }] : [];
+    });
+  }
+
+  const vestingTermsId = readString(tx.vesting_terms_id);
+  if (!vestingTermsId) return [{ date: grantDate, amount: quantity }];
+  const terms = vestingTerms.get(vestingTermsId);
+  if (!isVestingTerms(terms)) return `Vesting terms '${vestingTermsId}' are not in the manifest`;
+  const schedule = computeVestingSchedule({ vestingTerms: terms, quantity, transactions: vestingTransactions });
+  return schedule.tranches.map((tranche) => ({ date: tranche.date, amount: tranche.amount }));
+}
+
+// ===== ISO Limit =====
+
+/**
+ * Compute the value of ISO grants first exercisable per stakeholder and calendar year, and the excess above the limit.
+ *
+ * Every ISO grant in the manifest is counted, including grants later exercised, cancelled or transferred, since the
+ * limit looks at when options first become exercisable. Grants without an exercise price in the limit's currency, or
+ * whose vesting terms are missing, are reported as skipped.
+ *
+ * @param manifest - Manifest with transactions and, for grants with vesting terms, the vesting terms
+ * @param options - Limit and currency; default $100,000
+ * @returns Exercisable value per stakeholder and year, with the violations
+ * @throws OcpValidationError raised by {@link computeVestingSchedule} for invalid vesting terms
+ *
+ * @example
+ * ```typescript
+ * const report = computeIsoLimits(manifest);
+ * for (const year of report.violations) {
+ *   console.log(`${year.stakeholderId} ${year.year}: ${year.excess} must be treated as NSO`);
+ * }
+ * ```
+ */
+export function computeIsoLimits(
+  manifest: Pick<OcfManifest, 'transactions'> & Partial<Pick<OcfManifest, 'vestingTerms'>>,
+  options: IsoLimitOptions = {}
+): IsoLimitReport {
+  const limit = formatDecimal(parseDecimal(options.limit ?? DEFAULT_LIMIT, 'options.limit'));
+  const currency = options.currency ?? DEFAULT_CURRENCY;
+  const vestingTerms = new Map((manifest.vestingTerms ?? []).map((terms) => [String(terms.id), terms]));
+  const transactions = sortTransactions(manifest.transactions.filter(isRecord));
+
+  const years = new Map<string, IsoLimitYear>();
+  const skipped: SkippedIsoGrant[] = [];
+  for (const tx of transactions) {
+    const objectType = normalizeObjectType(typeof tx.object_type === 'string' ? tx.object_type : '');
+    const securityId = readString(tx.security_id);
+    const stakeholderId = readString(tx.stakeholder_id);
+    const quantity = readDecimal(tx.quantity);
+    if (objectType !== 'TX_EQUITY_COMPENSATION_ISSUANCE' || !isIsoGrant(tx) || !securityId || !stakeholderId) continue;
+
+    const price = isRecord(tx.exercise_price) ? tx.exercise_price : null;
+    const exercisePrice = readDecimal(price?.amount);
+    if (!exercisePrice || !quantity) {
+      skipped.push({ securityId, reason: 'Missing exercise price or quantity' });
+      continue;
+    }
+    if (price?.currency !== currency) {
+      skipped.push({ securityId, reason: `Exercise price currency ${String(price?.currency)} is not ${currency}` });
+      continue;
+    }
+    const tranches = readTranches(
+      tx,
+      quantity,
+      vestingTerms,
+      transactions.filter((candidate) => candidate.security_id === securityId)
+    );
+    if (typeof tranches === 'string') {
+      skipped.push({ securityId, reason: tranches });
+      continue;
+    }
+
+    const sharesByYear = new Map<number, string>();
+    for (const tranche of tranches) {
+      const year = Number(tranche.date.slice(0, 4));
+      sharesByYear.set(year, addDecimals(sharesByYear.get(year) ?? '0', tranche.amount));
+    }
+    for (const [year, shares] of [...sharesByYear.entries()].sort(([a], [b]) => a - b)) {
+      const key = `${stakeholderId}\u0000${year}`;
+      const entry = years.get(key) ?? { stakeholderId, year, exercisableValue: '0', limit, excess: '0', grants: [] };
+      const value = multiplyDecimals(shares, exercisePrice);
+      const remaining = subtractDecimals(limit, entry.exercisableValue);
+      const isoValue =
+        compareDecimals(remaining, '0') <= 0 ? '0' : compareDecimals(value, remaining) <= 0 ? value : remaining;
+      const nsoValue = subtractDecimals(value, isoValue);
+      entry.grants.push({
+        securityId,
+        transactionId: String(tx.id),
+        grantDate: String(tx.date).slice(0, 10),
+        exercisePrice,
+        shares,
+        value,
+        isoValue,
+        nsoValue,
+        nsoShares: compareDecimals(exercisePrice, '0') === 0 ? '0' : divideDecimals(nsoValue, exercisePrice),
+      });
+      entry.exercisableValue = addDecimals(entry.exercisableValue, value);
+      entry.excess = addDecimals(entry.excess, nsoValue);
+      years.set(key, entry);
+    }
+  }
+
+  const ordered = [...years.values()].sort((a, b) => a.stakeholderId.localeCompare(b.stakeholderId) || a.year - b.year);
+  const violations = ordered.filter((year) => compareDecimals(year.excess, '0') > 0);
+  return { valid: violations.length === 0, years: ordered, violations, skipped };
+}
+
+/**
+ * Find ISO limit violations caused by pending grants.
+ *
+ * Pending vesting terms and transactions are replayed together with the manifest, and only the stakeholder years that
+ * end up above the limit and receive value from a pending ISO grant, or from a grant a pending vesting transaction
+ * refers to, are reported.
+ *
+ * @param manifest - Current manifest with transactions and vesting terms
+ * @param pending - Vesting terms and transactions about to be submitted
+ * @param options - Limit and currency; default $100,000
+ * @returns Stakeholder years pushed above the limit; empty when every pending grant fits
+ * @throws OcpValidationError raised by {@link computeVestingSchedule} for invalid vesting terms
+ *
+ * @example
+ * ```typescript
+ * const violations = findIsoLimitViolations(manifest, { transactions: [isoGrant] });
+ * if (violations.length > 0) console.warn(`${violations[0].excess} of the grant will be treated as NSO`);
+ * ```
+ */
+export function findIsoLimitViolations(
+  manifest: Pick<OcfManifest, 'transactions'> & Partial<Pick<OcfManifest, 'vestingTerms'>>,
+  pending: Pick<OcfManifest, 'transactions'> & Partial<Pick<OcfManifest, 'vestingTerms'>>,
+  options: IsoLimitOptions = {}
+): IsoLimitYear[] {
+  const pendingSecurityIds = new Set(
+    pending.transactions.map((tx) => readString(tx.security_id)).filter((id): id is string => id !== null)
+  );
+  const report = computeIsoLimits(
+    {
+      vestingTerms: [...(manifest.vestingTerms ?? []), ...(pending.vestingTerms ?? [])],
+      transactions: [...manifest.transactions, ...pending.transactions],
+    },
+    options
+  );
+  return report.violations.filter((year) =>
+    year.grants.some((grant) => pendingSecurityIds.has(grant.securityId) && compareDecimals(grant.value, '0') > 0)
+  );
+}
@@ -0,0 +1,613 @@
+/**
+ * Liquidation waterfall and exit scenario analysis.
+ *
+ * Distributes an exit value across the cap table using the preference terms of each {@link OcfStockClass}:
+ * 1. Preferred classes that keep their preference are paid `price_per_share × liquidation_preference_multiple` per
+ *    share, most senior first (higher `seniority` numbers rank first); classes with equal seniority share pari passu.
+ * 2. The remainder is shared per common-equivalent share by common stock, preferred classes that converted, and
+ *    participating preferred classes, which stop participating once they reach their participation cap.
+ *
+ * Each preferred class converts to common when that pays more than keeping its preference, and each option or warrant
+ * is exercised when the per-share payout of its class exceeds the exercise price; both decisions are iterated until
+ * they settle. Exercise proceeds are added to the exit value and option and warrant payouts are reported net of the
+ * exercise price. Stock class splits are applied first, so preferences, conversion ratios and exercise prices are
+ * all per current share.
+ *
+ * @module liquidationWaterfall
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type { OcfManifest } from './cantonOcfExtractor';
+import type { CapTablePositions, SecurityKind, SecurityPosition } from './capTablePositions';
+import {
+  addDecimals,
+  compareDecimals,
+  divideDecimals,
+  formatDecimal,
+  multiplyDecimals,
+  parseDecimal,
+  subtractDecimals,
+  sumDecimals,
+} from './decimalMath';
+import { applyStockSplits, type SecurityPrice } from './stockSplits';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** Payout of a single stock class. */
+export interface ClassPayout {
+  stockClassId: string;
+  name: string;
+  classType: string;
+  seniority: string;
+  /** Outstanding shares plus shares from exercised options and warrants */
+  shares: string;
+  /** Common-equivalent shares the class shares the remainder with; "0" when it only takes its preference */
+  participatingShares: string;
+  /** True when a preferred class converted to common instead of taking its preference */
+  converted: boolean;
+  /** Liquidation preference paid */
+  preference: string;
+  /** Share of the remainder paid */
+  participation: string;
+  /** `preference + participation` */
+  total: string;
+  /** `total / shares`, or "0" for a class without shares */
+  perShare: string;
+}
+
+/** Payout of a single outstanding security. */
+export interface SecurityPayout {
+  securityId: string;
+  stakeholderId: string;
+  kind: SecurityKind;
+  stockClassId: string;
+  quantity: string;
+  /** Exercise price of an option or warrant; null for stock */
+  exercisePrice: string | null;
+  /** Whether an option or warrant is exercised; always true for stock */
+  exercised: boolean;
+  /** Payout, net of the exercise price for options and warrants */
+  payout: string;
+}
+
+/** Total payout of a stakeholder across their securities. */
+export interface StakeholderPayout {
+  stakeholderId: string;
+  payout: string;
+}
+
+/** An outstanding stock, option or warrant left out of the waterfall. */
+export interface SkippedWaterfallSecurity {
+  securityId: string;
+  stakeholderId: string;
+  reason: string;
+}
+
+/** Result of {@link computeLiquidationWaterfall}. */
+export interface LiquidationWaterfall {
+  exitValue: string;
+  /** Exercise prices paid by exercised options and warrants, added to the exit value */
+  exerciseProceeds: string;
+  /** Payout per common-equivalent share of the remainder */
+  commonPricePerShare: string;
+  /** Amount left over when no class is entitled to the remainder */
+  unallocated: string;
+  /** Stock classes in manifest order */
+  classes: ClassPayout[];
+  /** Outstanding stock, options and warrants in issuance order */
+  securities: SecurityPayout[];
+  /** Stakeholders in order of first security */
+  stakeholders: StakeholderPayout[];
+  /** Securities without a stock class in the manifest; they are not paid, so the exit value is split among the rest */
+  skipped: SkippedWaterfallSecurity[];
+}
+
+/** Evenly spaced exit values for {@link computeExitScenarios}. */
+export interface ExitRange {
+  from: string;
+  to: string;
+  /** Number of exit values, including both ends (at least 2) */
+  points: number;
+}
+
+// ===== Helpers =====
+
+const MAX_ITERATIONS = 50;
+
+interface ClassTerms {
+  stockClassId: string;
+  name: string;
+  classType: string;
+  seniority: string;
+  /** Liquidation preference per share; "0" for classes without one */
+  preferencePerShare: string;
+  /** Total payout cap per share for participating preferred; null for other classes */
+  participationCapPerShare: string | null;
+  /** Whether the class shares the remainder without converting */
+  participating: boolean;
+  /** Common shares per share on conversion */
+  conversionRatio: string;
+}
+
+interface Holding {
+  position: SecurityPosition;
+  stockClassId: string;
+  quantity: string;
+  exercisePrice: string | null;
+}
+
+/** Holdings of one stock class with the same exercise price, which are always exercised together. */
+interface HoldingGroup {
+  key: string;
+  stockClassId: string;
+  exercisePrice: string | null;
+  quantity: string;
+}
+
+interface Distribution {
+  classes: Map<string, { shares: string; units: string; preference: string; participation: string }>;
+  perUnit: string;
+  exerciseProceeds: string;
+  unallocated: string;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readDecimal(value: unknown): string | null {
+  if (typeof value === 'number') return formatDecimal(parseDecimal(value));
+  const text = readString(value);
+  return text ? formatDecimal(parseDecimal(text)) : null;
+}
+
+function readAmount(value: unknown): string | null {
+  return isRecord(value) ? readDecimal(value.amount) : null;
+}
+
+function min(a: string, b: string): string {
+  return compareDecimals(a, b) <= 0 ? a : b;
+}
+
+function safeDivide(a: string, b: string): string {
+  return compareDecimals(b, '0') === 0 ? '0' : divideDecimals(a, b);
+}
+
+/** Common shares per share of a class, from its first conversion right into a common class (1:1 by default). */
+function readConversionRatio(stockClass: Record<string, unknown>, commonClassIds: Set<string>): string {
+  const rights = Array.isArray(stockClass.conversion_rights) ? stockClass.conversion_rights.filter(isRecord) : [];
+  for (const right of rights) {
+    if (!commonClassIds.has(readString(right.converts_to_stock_class_id) ?? '')) continue;
+    const mechanism = isRecord(right.conversion_mechanism) ? right.conversion_mechanism : {};
+    const ratio = isRecord(mechanism.ratio) ? mechanism.ratio : {};
+    const numerator = readDecimal(ratio.numerator) ?? readDecimal(right.ratio_numerator);
+    const denominator = readDecimal(ratio.denominator) ?? readDecimal(right.ratio_denominator);
+    if (numerator && denominator && compareDecimals(denominator, '0') > 0)
+      return divideDecimals(numerator, denominator);
+  }
+  return '1';
+}
+
+function readClassTerms(stockClasses: Array<Record<string, unknown>>): ClassTerms[] {
+  const commonClassIds = new Set(
+    stockClasses.filter((stockClass) => stockClass.class_type === 'COMMON').map((stockClass) => String(stockClass.id))
+  );
+  return stockClasses.flatMap((stockClass): ClassTerms[] => {
+    const stockClassId = readString(stockClass.id);
+    if (!stockClassId) return [];
+    const preferred = stockClass.class_type === 'PREFERRED';
+    const price = readAmount(stockClass.price_per_share) ?? '0';
+    const preferenceMultiple = readDecimal(stockClass.liquidation_preference_multiple) ?? (preferred ? '1' : '0');
+    const capMultiple = preferred ? readDecimal(stockClass.participation_cap_multiple) : null;
+    const participatingPreferred = capMultiple !== null && compareDecimals(capMultiple, '0') > 0;
+    return [
+      {
+        stockClassId,
+        name: readString(stockClass.name) ?? stockClassId,
+        classType: readString(stockClass.class_type) ?? 'COMMON',
+        seniority: readDecimal(stockClass.seniority) ?? '0',
+        preferencePerShare: preferred ? multiplyDecimals(price, preferenceMultiple) : '0',
+        participationCapPerShare: participatingPreferred ? multiplyDecimals(price, capMultiple) : null,
+        participating: !preferred || participatingPreferred,
+        conversionRatio: preferred ? readConversionRatio(stockClass, commonClassIds) : '1',
+      },
+    ];
+  });
+}
+
+/** First stock class of each stock plan. */
+function readPlanClasses(stockPlans: Array<Record<string, unknown>>): Map<string, string> {
+  const classes = new Map<string, string>();
+  for (const plan of stockPlans) {
+    const planId = readString(plan.id);
+    const ids = Array.isArray(plan.stock_class_ids) ? plan.stock_class_ids : [plan.stock_class_id];
+    const stockClassId = ids.map(readString).find((id) => id !== null);
+    if (planId && stockClassId) classes.set(planId, stockClassId);
+  }
+  return classes;
+}
+
+/**
+ * Outstanding stock, options and warrants. Options and warrants without a stock class take the first stock class of
+ * their stock plan; securities whose class is not in the manifest are skipped.
+ */
+function readHoldings(
+  positions: CapTablePositions,
+  prices: Map<string, SecurityPrice>,
+  terms: ClassTerms[],
+  planClasses: Map<string, string>
+): { holdings: Holding[]; skipped: SkippedWaterfallSecurity[] } {
+  const knownClassIds = new Set(terms.map((term) => term.stockClassId));
+  const holdings: Holding[] = [];
+  const skipped: SkippedWaterfallSecurity[] = [];
+  for (const position of positions.outstanding) {
+    if (position.kind === 'CONVERTIBLE' || position.quantity === null) continue;
+    const stockClassId =
+      position.stockClassId ?? (position.stockPlanId ? (planClasses.get(position.stockPlanId) ?? null) : null);
+    if (!stockClassId || !knownClassIds.has(stockClassId)) {
+      skipped.push({
+        securityId: position.securityId,
+        stakeholderId: position.stakeholderId,
+        reason: stockClassId
+          ? `Stock class '${stockClassId}' is not in the manifest`
+          : 'No stock class, directly or through a stock plan',
+      });
+      continue;
+    }
+    holdings.push({
+      position,
+      stockClassId,
+      quantity: position.quantity,
+      exercisePrice: position.kind === 'STOCK' ? null : (prices.get(position.securityId)?.amount ?? '0'),
+    });
+  }
+  return { holdings, skipped };
+}
+
+function groupKey(holding: Pick<Holding, 'stockClassId' | 'exercisePrice'>): string {
+  return holding.exercisePrice === null
+    ? holding.stockClassId
+    : `${holding.stockClassId}@${formatDecimal(parseDecimal(holding.exercisePrice))}`;
+}
+
+/** Sum holdings per stock class and exercise price, with options and warrants ordered by increasing exercise price. */
+function groupHoldings(holdings: Holding[]): HoldingGroup[] {
+  const groups = new Map<string, HoldingGroup>();
+  for (const holding of holdings) {
+    const key = groupKey(holding);
+    const group = groups.get(key);
+    if (group) group.quantity = addDecimals(group.quantity, holding.quantity);
+    else
+      groups.set(key, {
+        key,
+        stockClassId: holding.stockClassId,
+        exercisePrice: holding.exercisePrice,
+        quantity: holding.quantity,
+      });
+  }
+  return [...groups.values()].sort((a, b) =>
+    a.exercisePrice === null || b.exercisePrice === null
+      ? Number(a.exercisePrice !== null) - Number(b.exercisePrice !== null)
+      : compareDecimals(a.exercisePrice, b.exercisePrice)
+  );
+}
+
+/** Run the waterfall for fixed conversion and exercise decisions; `exercised` holds group keys. */
+function distribute(
+  exitValue: string,
+  terms: ClassTerms[],
+  groups: HoldingGroup[],
+  converted: Set<string>,
+  exercised: Set<string>
+): Distribution {
+  const classes = new Map(
+    terms.map((term) => [term.stockClassId, { shares: '0', units: '0', preference: '0', participation: '0' }])
+  );
+  let exerciseProceeds = '0';
+  for (const group of groups) {
+    if (group.exercisePrice !== null && !exercised.has(group.key)) continue;
+    const state = classes.get(group.stockClassId);
+    if (!state) continue;
+    state.shares = addDecimals(state.shares, group.quantity);
+    if (group.exercisePrice !== null) {
+      exerciseProceeds = addDecimals(exerciseProceeds, multiplyDecimals(group.quantity, group.exercisePrice));
+    }
+  }
+  let remaining = addDecimals(exitValue, exerciseProceeds);
+
+  // ── Preferences, most senior first ──
+  const preferred = terms.filter(
+    (term) => !converted.has(term.stockClassId) && compareDecimals(term.preferencePerShare, '0') > 0
+  );
+  const seniorities = [...new Set(preferred.map((term) => term.seniority))].sort((a, b) => compareDecimals(b, a));
+  for (const seniority of seniorities) {
+    const group = preferred.filter((term) => term.seniority === seniority);
+    const owed = group.map((term) =>
+      multiplyDecimals(classes.get(term.stockClassId)?.shares ?? '0', term.preferencePerShare)
+    );
+    const totalOwed = sumDecimals(owed);
+    const paid = min(totalOwed, remaining);
+    group.forEach((term, index) => {
+      const state = classes.get(term.stockClassId);
+      if (state) state.preference = multiplyDecimals(owed[index], safeDivide(paid, totalOwed));
+    });
+    remaining = subtractDecimals(remaining, paid);
+  }
+
+  // ── Remainder per common-equivalent share, honoring participation caps ──
+  const participants = terms.filter((term) => converted.has(term.stockClassId) || term.participating);
+  for (const term of participants) {
+    const state = classes.get(term.stockClassId);
+    if (state) state.units = multiplyDecimals(state.shares, term.conversionRatio);
+  }
+  const open = new Set(participants.map((term) => term.stockClassId));
+  let perUnit = '0';
+  for (let iteration = 0; iteration <= participants.length; iteration++) {
+    const units = sumDecimals([...open].map((id) => classes.get(id)?.units ?? '0'));
+    perUnit = safeDivide(remaining, units);
+    const capped = participants.find((term) => {
+      const state = classes.get(term.stockClassId);
+      if (!open.has(term.stockClassId) || !state || term.participationCapPerShare === null) return false;
+      if (converted.has(term.stockClassId)) return false;
+      const room = subtractDecimals(multiplyDecimals(state.shares, term.participationCapPerShare), state.preference);
+      return compareDecimals(multiplyDecimals(state.units, perUnit), room) > 0;
+    });
+    if (!capped) break;
+    const state = classes.get(capped.stockClassId);
+    if (!state || capped.participationCapPerShare === null) break;
+    const room = subtractDecimals(multiplyDecimals(state.shares, capped.participationCapPerShare), state.preference);
+    state.participation = compareDecimals(room, '0') > 0 ? room : '0';
+    remaining = subtractDecimals(remaining, state.participation);
+    open.delete(capped.stockClassId);
+  }
+  const openUnits = sumDecimals([...open].map((id) => classes.get(id)?.units ?? '0'));
+  for (const id of open) {
+    const state = classes.get(id);
+    if (state) state.participation = multiplyDecimals(state.units, perUnit);
+  }
+
+  return {
+    classes,
+    perUnit,
+    exerciseProceeds,
+    unallocated: compareDecimals(openUnits, '0') === 0 ? remaining : '0',
+  };
+}
+
+function classPerShare(distribution: Distribution, stockClassId: string): string {
+  const state = distribution.classes.get(stockClassId);
+  return state ? safeDivide(addDecimals(state.preference, state.participation), state.shares) : '0';
+}
+
+/**
+ * Exercise every option and warrant that is in the money, until the exercised set settles.
+ *
+ * Exercising a strike only pays when the class payout per share, with that strike counted, exceeds it, so once a strike
+ * of a class is out of the money every higher strike of the class is too. Each pass therefore walks the strikes of a
+ * class upwards and stops at the first one out of the money, pricing at most one distribution per strike.
+ */
+function distributeWithExercises(
+  exitValue: string,
+  terms: ClassTerms[],
+  groups: HoldingGroup[],
+  converted: Set<string>
+): { distribution: Distribution; exercised: Set<string> } {
+  const strikes = groups.filter((group) => group.exercisePrice !== null);
+  let exercised = new Set<string>();
+  let distribution = distribute(exitValue, terms, groups, converted, exercised);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = new Set<string>();
+    const outOfTheMoney = new Set<string>();
+    for (const group of strikes) {
+      if (group.exercisePrice === null || outOfTheMoney.has(group.stockClassId)) continue;
+      const perShare = exercised.has(group.key)
+        ? classPerShare(distribution, group.stockClassId)
+        : // Price a new exercise with the strike counted, so exercising is never judged on a stale payout
+          classPerShare(
+            distribute(exitValue, terms, groups, converted, new Set([...exercised, group.key])),
+            group.stockClassId
+          );
+      if (compareDecimals(perShare, group.exercisePrice) > 0) next.add(group.key);
+      else outOfTheMoney.add(group.stockClassId);
+    }
+    if (next.size === exercised.size && [...next].every((key) => exercised.has(key))) break;
+    exercised = next;
+    distribution = distribute(exitValue, terms, groups, converted, exercised);
+  }
+  return { distribution, exercised };
+}
+
+function validateExitValue(value: string, fieldPath: string): string {
+  const exitValue = formatDecimal(parseDecimal(value, fieldPath));
+  if (compareDecimals(exitValue, '0') < 0) {
+    throw new OcpValidationError(fieldPath, 'Exit value must not be negative', {
+      expectedType: 'non-negative decimal',
+      receivedValue: value,
+      code: OcpErrorCodes.OUT_OF_RANGE,
+    });
+  }
+  return exitValue;
+}
+
+interface PreparedWaterfall {
+  terms: ClassTerms[];
+  holdings: Holding[];
+  groups: HoldingGroup[];
+  skipped: SkippedWaterfallSecurity[];
+}
+
+function prepare(manifest: Pick<OcfManifest, 'stockClasses' | 'stockPlans' | 'transactions'>): PreparedWaterfall {
+  const { positions, stockClasses, prices } = applyStockSplits(manifest);
+  const terms = readClassTerms(stockClasses);
+  const { holdings, skipped } = readHoldings(positions, prices, terms, readPlanClasses(manifest.stockPlans));
+  return { terms, holdings, groups: groupHoldings(holdings), skipped };
+}
+
+function runWaterfall(
+  exitValue: string,
+  { terms, holdings, groups, skipped }: PreparedWaterfall
+): LiquidationWaterfall {
+  // ── Conversion decisions: each preferred class converts when that pays it more ──
+  const convertible = terms.filter((term) => compareDecimals(term.preferencePerShare, '0') > 0);
+  const converted = new Set<string>();
+  let result = distributeWithExercises(exitValue, terms, groups, converted);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    for (const term of convertible) {
+      const toggled = new Set(converted);
+      if (converted.has(term.stockClassId)) toggled.delete(term.stockClassId);
+      else toggled.add(term.stockClassId);
+      const alternative = distributeWithExercises(exitValue, terms, groups, toggled);
+      const current = result.distribution.classes.get(term.stockClassId);
+      const other = alternative.distribution.classes.get(term.stockClassId);
+      if (!current || !other) continue;
+      if (
+        compareDecimals(
+          addDecimals(other.preference, other.participation),
+          addDecimals(current.preference, current.participation)
+        ) > 0
+      ) {
+        converted.clear();
+        toggled.forEach((id) => converted.add(id));
+        result = alternative;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const { distribution, exercised } = result;
+  const classes = terms.map((term): ClassPayout => {
+    const state = distribution.classes.get(term.stockClassId) ?? {
+      shares: '0',
+      units: '0',
+      preference: '0',
+      participation: '0',
+    };
+    const total = addDecimals(state.preference, state.participation);
+    return {
+      stockClassId: term.stockClassId,
+      name: term.name,
+      classType: term.classType,
+      seniority: term.seniority,
+      shares: state.shares,
+      participatingShares: state.units,
+      converted: converted.has(term.stockClassId),
+      preference: state.preference,
+      participation: state.participation,
+      total,
+      perShare: safeDivide(total, state.shares),
+    };
+  });
+
+  const perShare = new Map(classes.map((payout) => [payout.stockClassId, payout.perShare]));
+  const securities = holdings.map((holding): SecurityPayout => {
+    const isExercised = holding.exercisePrice === null || exercised.has(groupKey(holding));
+    const gross = multiplyDecimals(holding.quantity, perShare.get(holding.stockClassId) ?? '0');
+    return {
+      securityId: holding.position.securityId,
+      stakeholderId: holding.position.stakeholderId,
+      kind: holding.position.kind,
+      stockClassId: holding.stockClassId,
+      quantity: holding.quantity,
+      exercisePrice: holding.exercisePrice,
+      exercised: isExercised,
+      payout: !isExercised
+        ? '0'
+        : holding.exercisePrice === null
+          ? gross
+          : subtractDecimals(gross, multiplyDecimals(holding.quantity, holding.exercisePrice)),
+    };
+  });
+
+  const stakeholders = new Map<string, string>();
+  for (const security of securities) {
+    stakeholders.set(
+      security.stakeholderId,
+      addDecimals(stakeholders.get(security.stakeholderId) ?? '0', security.payout)
+    );
+  }
+
+  return {
+    exitValue,
+    exerciseProceeds: distribution.exerciseProceeds,
+    commonPricePerShare: distribution.perUnit,
+    unallocated: distribution.unallocated,
+    classes,
+    securities,
+    stakeholders: [...stakeholders.entries()].map(([stakeholderId, payout]) => ({ stakeholderId, payout })),
+    skipped,
+  };
+}
+
+// ===== Waterfall =====
+
+/**
+ * Distribute an exit value across stock classes, securities and stakeholders.
+ *
+ * Preferred classes without `liquidation_preference_multiple` default to a 1x preference on `price_per_share`.
+ * A preferred class participates after its preference only when it has a positive `participation_cap_multiple`, which
+ * caps its total payout per share at `price_per_share × multiple`; a missing or "0" multiple means no participation.
+ * Conversions use the first conversion right into a common class, or 1:1 when there is none. Options and warrants
+ * without a `stock_class_id` belong to the first stock class of their stock plan; securities whose class cannot be
+ * found are reported in `skipped`. Convertibles are ignored; model their conversion first with
+ * {@link modelConvertibleConversions}.
+ *
+ * @param manifest - Manifest with stock classes, stock plans and transactions
+ * @param exitValue - Amount available to equity holders, in the currency of the stock class prices
+ * @returns Payouts per class, per security and per stakeholder
+ * @throws OcpValidationError when the exit value is not a non-negative decimal, or raised by
+ *   {@link applyStockSplits} for inconsistent security histories
+ *
+ * @example
+ * ```typescript
+ * const waterfall = computeLiquidationWaterfall(manifest, '50000000');
+ * for (const payout of waterfall.classes) {
+ *   console.log(payout.name, payout.converted ? 'converts' : 'takes preference', payout.total);
+ * }
+ * ```
+ */
+export function computeLiquidationWaterfall(
+  manifest: Pick<OcfManifest, 'stockClasses' | 'stockPlans' | 'transactions'>,
+  exitValue: string
+): LiquidationWaterfall {
+  const value = validateExitValue(exitValue, 'exitValue');
+  return runWaterfall(value, prepare(manifest));
+}
+
+/**
+ * Run the waterfall for evenly spaced exit values, e.g. to chart payouts against the exit value.
+ *
+ * @param manifest - Manifest with stock classes, stock plans and transactions
+ * @param range - First and last exit value and the number of points
+ * @returns One waterfall per exit value, in increasing order
+ * @throws OcpValidationError when the range is invalid
+ *
+ * @example
+ * ```typescript
+ * const scenarios = computeExitScenarios(manifest, { from: '0', to: '100000000', points: 21 });
+ * const series = scenarios.map((scenario) => [scenario.exitValue, scenario.commonPricePerShare]);
+ * ```
+ */
+export function computeExitScenarios(
+  manifest: Pick<OcfManifest, 'stockClasses' | 'stockPlans' | 'transactions'>,
+  range: ExitRange
+): LiquidationWaterfall[] {
+  const from = validateExitValue(range.from, 'range.from');
+  const to = validateExitValue(range.to, 'range.to');
+  if (!Number.isInteger(range.points) || range.points < 2 || compareDecimals(to, from) < 0) {
+    throw new OcpValidationError('range', 'Exit range needs at least 2 points and to >= from', {
+      expectedType: '{ from <= to, points >= 2 }',
+      receivedValue: range,
+      code: OcpErrorCodes.OUT_OF_RANGE,
+    });
+  }
+
+  const prepared = prepare(manifest);
+  const step = divideDecimals(subtractDecimals(to, from), String(range.points - 1));
+  return Array.from({ length: range.points }, (_, index) =>
+    runWaterfall(index === range.points - 1 ? to : addDecimals(from, multiplyDecimals(step, String(index))), prepared)
+  );
+}
@@ -0,0 +1,451 @@
+/**
+ * OCF file bundles.
+ *
+ * The OCF standard exchanges a cap table as a bundle of JSON files: an `OCF_MANIFEST_FILE` with the issuer and the
+ * list of the other files, plus one file per object type (stakeholders, stock classes, transactions...) holding its
+ * objects in `items`. {@link exportOcfBundle} turns an {@link OcfManifest} extracted from Canton into such a bundle,
+ * validating every file against the bundled OCF schemas, so it can be handed to any OCF-compatible tool. The bundle
+ * is written to a directory with {@link writeOcfBundle}, or streamed as a single zip with
+ * {@link createOcfBundleZipStream}.
+ *
+ * The reverse, {@link importOcfBundle}, reads a bundle from another cap table provider, from a directory or a zip,
+ * into {@link SourceReplicationItem}s ready for computeReplicationDiff.
+ *
+ * @module ocfBundle
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Readable } from 'stream';
+import { OcpErrorCodes, type OcpErrorCode } from '../errors/codes';
+import { OcpParseError } from '../errors/OcpParseError';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import { mapOcfObjectTypeToEntityType } from '../functions/OpenCapTable/capTable/entityTypes';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { CURRENT_OCF_VERSION } from './ocfMigrations';
+import { hasOcfFileSchema, parseOcfObject, validateOcfFile, type OcfFileType } from './ocfZodSchemas';
+import type { SourceReplicationItem } from './replicationHelpers';
+import { isRecord } from './typeConversions';
+import { createZipStream, readZipArchive } from './zipArchive';
+
+// ===== Types =====
+
+/** Manifest fields exported as their own bundle file. */
+export type OcfBundleSection = Exclude<keyof OcfManifest, 'issuer'>;
+
+/** A file of an OCF bundle. */
+export interface OcfBundleFile {
+  /** Path relative to the bundle root, as listed in the manifest file */
+  filepath: string;
+  fileType: OcfFileType;
+  /** JSON text of the file */
+  content: string;
+  /** MD5 hash of `content`, as listed in the manifest file */
+  md5: string;
+}
+
+/** Result of {@link exportOcfBundle}. */
+export interface OcfBundle {
+  /** Generation timestamp written to the manifest file (ISO 8601) */
+  generatedAt: string;
+  /** The manifest file first, then one file per non-empty section */
+  files: OcfBundleFile[];
+  /** Object counts of sections left out because the bundled OCF schemas have no file type for them */
+  omitted: Partial<Record<OcfBundleSection, number>>;
+}
+
+/** Options for {@link exportOcfBundle}. */
+export interface ExportOcfBundleOptions {
+  /** OCF version written to every file. Default: {@link CURRENT_OCF_VERSION} */
+  ocfVersion?: string;
+  /** Generation timestamp (ISO 8601). Default: now */
+  generatedAt?: string;
+  /** Date of the cap table (YYYY-MM-DD). Default: the date of `generatedAt` */
+  asOfDate?: string;
+  /** Comments written to the manifest file */
+  comments?: string[];
+}
+
+/** Files of a bundle by path, relative to the bundle root or the archive root. */
+export type OcfBundleContents = ReadonlyMap<string, string | Uint8Array>;
+
+// ===== Helpers =====
+
+/**
+ * Bundle layout: file type, manifest file list field and file name of each section, in manifest order. Optional
+ * sections are missing from older OCF releases and only exported when the bundled schemas define them.
+ */
+const BUNDLE_SECTIONS: ReadonlyArray<{
+  section: OcfBundleSection;
+  fileType: OcfFileType;
+  manifestField: string;
+  filepath: string;
+  optional?: boolean;
+}> = [
+  {
+    section: 'stockPlans',
+    fileType: 'OCF_STOCK_PLANS_FILE',
+    manifestField: 'stock_plans_files',
+    filepath: 'StockPlans.ocf.json',
+  },
+  {
+    section: 'stockLegendTemplates',
+    fileType: 'OCF_STOCK_LEGEND_TEMPLATES_FILE',
+    manifestField: 'stock_legend_templates_files',
+    filepath: 'StockLegendTemplates.ocf.json',
+  },
+  {
+    section: 'stockClasses',
+    fileType: 'OCF_STOCK_CLASSES_FILE',
+    manifestField: 'stock_classes_files',
+    filepath: 'StockClasses.ocf.json',
+  },
+  {
+    section: 'vestingTerms',
+    fileType: 'OCF_VESTING_TERMS_FILE',
+    manifestField: 'vesting_terms_files',
+    filepath: 'VestingTerms.ocf.json',
+  },
+  {
+    section: 'valuations',
+    fileType: 'OCF_VALUATIONS_FILE',
+    manifestField: 'valuations_files',
+    filepath: 'Valuations.ocf.json',
+  },
+  {
+    section: 'transactions',
+    fileType: 'OCF_TRANSACTIONS_FILE',
+    manifestField: 'transactions_files',
+    filepath: 'Transactions.ocf.json',
+  },
+  {
+    section: 'stakeholders',
+    fileType: 'OCF_STAKEHOLDERS_FILE',
+    manifestField: 'stakeholders_files',
+    filepath: 'Stakeholders.ocf.json',
+  },
+  {
+    section: 'financings',
+    fileType: 'OCF_FINANCINGS_FILE',
+    manifestField: 'financings_files',
+    filepath: 'Financings.ocf.json',
+    optional: true,
+  },
+  {
+    section: 'documents',
+    fileType: 'OCF_DOCUMENTS_FILE',
+    manifestField: 'documents_files',
+    filepath: 'Documents.ocf.json',
+    optional: true,
+  },
+];
+
+const MANIFEST_FILEPATH = 'Manifest.ocf.json';
+
+/** Sections in creation order: objects come after the objects they reference. */
+const IMPORT_ORDER: readonly OcfBundleSection[] = [
+  'stakeholders',
+  'stockClasses',
+  'stockLegendTemplates',
+  'stockPlans',
+  'vestingTerms',
+  'valuations',
+  'financings',
+  'documents',
+  'transactions',
+];
+
+function buildFile(filepath: string, fileType: OcfFileType, data: Record<string, unknown>): OcfBundleFile {
+  validateOcfFile(fileType, data, filepath);
+  const content = `${JSON.stringify(data, null, 2)}\n`;
+  return { filepath, fileType, content, md5: createHash('md5').update(content, 'utf8').digest('hex') };
+}
+
+// ===== Bundle Export =====
+
+/**
+ * Build the OCF file bundle of a manifest.
+ *
+ * Each non-empty section becomes one file, listed with its MD5 hash in the manifest file. Financings and documents
+ * are only exported when the bundled OCF schemas define files for them; otherwise they are counted in
+ * {@link OcfBundle.omitted}.
+ *
+ * @param manifest - Manifest to export, e.g. from extractCantonOcfManifest
+ * @param options - OCF version, dates and comments of the manifest file
+ * @returns The files of the bundle, manifest file first
+ * @throws OcpValidationError (`REQUIRED_FIELD_MISSING`) if the manifest has no issuer or the OCF schema directory
+ *   cannot be found, or (`INVALID_FORMAT`) if a file does not match its schema, with the file name leading the
+ *   field path (e.g. `Stakeholders.ocf.json.items.0.name`)
+ *
+ * @example
+ * ```typescript
+ * const manifest = await extractCantonOcfManifest(client, cantonState);
+ * const bundle = exportOcfBundle(manifest, { asOfDate: '2024-12-31' });
+ * await writeOcfBundle(bundle, './acme-ocf');
+ * ```
+ */
+export function exportOcfBundle(manifest: OcfManifest, options: ExportOcfBundleOptions = {}): OcfBundle {
+  const { issuer } = manifest;
+  if (!issuer) {
+    throw new OcpValidationError('issuer', 'An OCF bundle requires an issuer', {
+      code: OcpErrorCodes.REQUIRED_FIELD_MISSING,
+    });
+  }
+  const ocfVersion = options.ocfVersion ?? CURRENT_OCF_VERSION;
+  const generatedAt = options.generatedAt ?? new Date().toISOString();
+
+  const files: OcfBundleFile[] = [];
+  const fileLists: Record<string, Array<{ filepath: string; md5: string }>> = {};
+  const omitted: OcfBundle['omitted'] = {};
+  for (const { section, fileType, manifestField, filepath, optional } of BUNDLE_SECTIONS) {
+    const items = manifest[section];
+    if (optional && !hasOcfFileSchema(fileType)) {
+      if (items.length > 0) omitted[section] = items.length;
+      continue;
+    }
+    fileLists[manifestField] = [];
+    if (items.length === 0) continue;
+    const file = buildFile(filepath, fileType, { ocf_version: ocfVersion, file_type: fileType, items });
+    files.push(file);
+    fileLists[manifestField].push({ filepath: file.filepath, md5: file.md5 });
+  }
+
+  const manifestFile = buildFile(MANIFEST_FILEPATH, 'OCF_MANIFEST_FILE', {
+    ocf_version: ocfVersion,
+    file_type: 'OCF_MANIFEST_FILE',
+    issuer,
+    as_of_date: options.asOfDate ?? generatedAt.slice(0, 10),
+    generated_at: generatedAt,
+    ...(options.comments?.length ? { comments: options.comments } : {}),
+    ...fileLists,
+  });
+  return { generatedAt, files: [manifestFile, ...files], omitted };
+}
+
+/**
+ * Write an OCF bundle to a directory, creating it if needed.
+ *
+ * @param bundle - Bundle from {@link exportOcfBundle}
+ * @param directory - Target directory; existing files of the same names are overwritten
+ * @returns Paths of the written files, manifest file first
+ */
+export async function writeOcfBundle(bundle: OcfBundle, directory: string): Promise<string[]> {
+  await fs.mkdir(directory, { recursive: true });
+  const written: string[] = [];
+  for (const file of bundle.files) {
+    const target = path.join(directory, file.filepath);
+    await fs.writeFile(target, file.content, 'utf8');
+    written.push(target);
+  }
+  return written;
+}
+
+/**
+ * Stream an OCF bundle as a single zip archive.
+ *
+ * @param bundle - Bundle from {@link exportOcfBundle}
+ * @returns Readable stream of the zip bytes, with the files at the archive root, dated `bundle.generatedAt`
+ *
+ * @example
+ * ```typescript
+ * await pipeline(createOcfBundleZipStream(exportOcfBundle(manifest)), fs.createWriteStream('acme.ocf.zip'));
+ * ```
+ */
+export function createOcfBundleZipStream(bundle: OcfBundle): Readable {
+  const modifiedAt = new Date(bundle.generatedAt);
+  return createZipStream(
+    bundle.files.map((file) => ({ name: file.filepath, data: Buffer.from(file.content, 'utf8') })),
+    Number.isNaN(modifiedAt.getTime()) ? new Date() : modifiedAt
+  );
+}
+
+// ===== Bundle Import =====
+
+function bundleError(filepath: string, message: string, code: OcpErrorCode, cause?: Error): OcpParseError {
+  return new OcpParseError(`${filepath}: ${message}`, { source: filepath, code, cause, context: { filepath } });
+}
+
+/** JSON path of a dot-separated field path below a base path, e.g. `$.items[3].name`. */
+function toJsonPath(base: string, fieldPath: string): string {
+  return fieldPath
+    .split('.')
+    .filter((segment) => segment.length > 0 && segment !== 'ocfObject')
+    .reduce(
+      (jsonPath, segment) => (/^\d+$/.test(segment) ? `${jsonPath}[${segment}]` : `${jsonPath}.${segment}`),
+      base
+    );
+}
+
+/** View bytes as a Buffer without copying them. */
+function toBuffer(data: Uint8Array): Buffer {
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function readJson(contents: OcfBundleContents, filepath: string): unknown {
+  const content = contents.get(filepath);
+  if (content === undefined) {
+    throw bundleError(filepath, 'File listed in the manifest is missing', OcpErrorCodes.REQUIRED_FIELD_MISSING);
+  }
+  try {
+    return JSON.parse(typeof content === 'string' ? content : toBuffer(content).toString('utf8')) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw bundleError(filepath, `Invalid JSON: ${message}`, OcpErrorCodes.INVALID_FORMAT);
+  }
+}
+
+/** Parse one object with {@link parseOcfObject}, reporting errors with the file name and JSON path. */
+function parseItem(value: unknown, filepath: string, jsonPath: string): SourceReplicationItem {
+  let data: Record<string, unknown>;
+  try {
+    data = parseOcfObject(value);
+  } catch (error) {
+    if (!(error instanceof OcpValidationError)) throw error;
+    const errorPath = toJsonPath(jsonPath, error.fieldPath);
+    throw new OcpParseError(`${filepath} at ${errorPath}: ${error.message}`, {
+      source: filepath,
+      code: error.code,
+      cause: error,
+      context: { filepath, jsonPath: errorPath },
+    });
+  }
+  const objectType = String(data.object_type);
+  const entityType = mapOcfObjectTypeToEntityType(objectType);
+  if (!entityType) {
+    throw new OcpParseError(`${filepath} at ${jsonPath}: Unsupported object_type ${objectType}`, {
+      source: filepath,
+      code: OcpErrorCodes.UNKNOWN_ENTITY_TYPE,
+      context: { filepath, jsonPath: `${jsonPath}.object_type` },
+    });
+  }
+  return { entityType, data };
+}
+
+function findManifestFile(contents: OcfBundleContents): { filepath: string; manifest: Record<string, unknown> } {
+  const manifests: Array<{ filepath: string; manifest: Record<string, unknown> }> = [];
+  for (const filepath of contents.keys()) {
+    if (!filepath.toLowerCase().endsWith('.json')) continue;
+    let json: unknown;
+    try {
+      json = readJson(contents, filepath);
+    } catch {
+      // Not the manifest; a listed file that fails to parse is reported when it is read
+      continue;
+    }
+    if (isRecord(json) && json.file_type === 'OCF_MANIFEST_FILE') manifests.push({ filepath, manifest: json });
+  }
+  if (manifests.length !== 1) {
+    throw new OcpParseError(
+      manifests.length === 0
+        ? 'No OCF_MANIFEST_FILE found in the bundle'
+        : `Several OCF_MANIFEST_FILEs found in the bundle: ${manifests.map((file) => file.filepath).join(', ')}`,
+      { source: 'bundle', code: OcpErrorCodes.SCHEMA_MISMATCH }
+    );
+  }
+  return manifests[0];
+}
+
+/**
+ * Parse an OCF bundle into replication source items.
+ *
+ * The manifest file is found by its `file_type` among the `.json` files, skipping any that are not valid JSON; the
+ * files it lists are resolved relative to it and checked against their listed MD5 hash. Every object, the issuer
+ * included, is schema-validated with {@link parseOcfObject}, which also normalizes plan security aliases through
+ * normalizeOcfData.
+ *
+ * @param contents - Files of the bundle by path; only the manifest file and the files it lists are imported
+ * @returns The issuer, then stakeholders, stock classes, legend templates, plans, vesting terms, valuations,
+ *   financings, documents and transactions, in file order
+ * @throws OcpParseError naming the file (`source`) and, for invalid objects, the JSON path of the error
+ *   (`context.jsonPath`, e.g. `$.items[3].quantity`), with the code of the underlying validation error
+ *
+ * @example
+ * ```typescript
+ * const contents = new Map([
+ *   ['Manifest.ocf.json', manifestJson],
+ *   ['Stakeholders.ocf.json', stakeholdersJson],
+ * ]);
+ * const diff = computeReplicationDiff(parseOcfBundle(contents), cantonState);
+ * ```
+ */
+export function parseOcfBundle(contents: OcfBundleContents): SourceReplicationItem[] {
+  const { filepath: manifestPath, manifest } = findManifestFile(contents);
+  const root = path.posix.dirname(manifestPath);
+
+  const items: SourceReplicationItem[] = [parseItem(manifest.issuer, manifestPath, '$.issuer')];
+  for (const section of IMPORT_ORDER) {
+    const { manifestField, fileType } = BUNDLE_SECTIONS.find((candidate) => candidate.section === section) ?? {};
+    if (!manifestField || !fileType) continue;
+    const fileList = manifest[manifestField] ?? [];
+    if (!Array.isArray(fileList)) {
+      throw bundleError(manifestPath, `${manifestField} must be an array`, OcpErrorCodes.SCHEMA_MISMATCH);
+    }
+
+    for (const [index, entry] of fileList.entries()) {
+      if (!isRecord(entry) || typeof entry.filepath !== 'string') {
+        throw bundleError(manifestPath, `${manifestField}[${index}] has no filepath`, OcpErrorCodes.SCHEMA_MISMATCH);
+      }
+      const filepath = path.posix.join(root, entry.filepath);
+      const content = contents.get(filepath);
+      if (content !== undefined && typeof entry.md5 === 'string') {
+        const md5 = createHash('md5').update(content).digest('hex');
+        if (md5 !== entry.md5.toLowerCase()) {
+          throw bundleError(
+            filepath,
+            `MD5 ${md5} does not match ${entry.md5} listed in ${manifestPath}`,
+            OcpErrorCodes.INVALID_FORMAT
+          );
+        }
+      }
+
+      const file = readJson(contents, filepath);
+      if (!isRecord(file) || file.file_type !== fileType) {
+        throw bundleError(filepath, `Expected file_type ${fileType}`, OcpErrorCodes.SCHEMA_MISMATCH);
+      }
+      if (!Array.isArray(file.items)) {
+        throw bundleError(filepath, 'items must be an array', OcpErrorCodes.SCHEMA_MISMATCH);
+      }
+      file.items.forEach((item, i) => items.push(parseItem(item, filepath, `$.items[${i}]`)));
+    }
+  }
+  return items;
+}
+
+async function readDirectory(directory: string, prefix = ''): Promise<Array<[string, Buffer]>> {
+  const files: Array<[string, Buffer]> = [];
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await readDirectory(path.join(directory, entry.name), relative)));
+    } else if (entry.isFile()) {
+      files.push([relative, await fs.readFile(path.join(directory, entry.name))]);
+    }
+  }
+  return files;
+}
+
+/**
+ * Read an OCF bundle from a directory or a zip into replication source items.
+ *
+ * @param source - Bundle directory, zip file path, or zip bytes
+ * @returns Items parsed by {@link parseOcfBundle}
+ * @throws OcpValidationError (`INVALID_FORMAT`) if a zip is malformed, plus any error raised by
+ *   {@link parseOcfBundle}
+ *
+ * @example
+ * ```typescript
+ * const sourceItems = await importOcfBundle('./exports/acme.ocf.zip');
+ * const diff = computeReplicationDiff(sourceItems, await getCapTableState(client, issuerPartyId));
+ * ```
+ */
+export async function importOcfBundle(source: string | Uint8Array): Promise<SourceReplicationItem[]> {
+  if (typeof source !== 'string') {
+    return parseOcfBundle(new Map(readZipArchive(toBuffer(source)).map((entry) => [entry.name, entry.data])));
+  }
+  const stats = await fs.stat(source);
+  if (stats.isDirectory()) {
+    return parseOcfBundle(new Map(await readDirectory(source)));
+  }
+  return importOcfBundle(await fs.readFile(source));
+}
@@ -25,7 +25,7 @@ export const DEFAULT_INTERNAL_FIELDS = [
 
 /**
  * Deprecated OCF fields that may differ between source and round-tripped data.
- * These fields may be upgraded or removed during processing.
+ * These fields may be upgraded or removed during processing; `migrateOcfObjects` rewrites them instead.
  */
 export const DEFAULT_DEPRECATED_FIELDS = [
   'option_grant_type', // Deprecated in favor of compensation_type
@@ -509,6 +509,107 @@ export function diffOcfObjects(a: unknown, b: unknown, path = ''): string[] {
   return diffs;
 }
 
+/**
+ * An RFC 6902 JSON Patch operation. Paths are RFC 6901 JSON Pointers.
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+/** Escape an object key or array index as a JSON Pointer reference token. */
+function escapeJsonPointerToken(token: string | number): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Build an RFC 6902 JSON Patch that turns one OCF object into another.
+ *
+ * Follows the rules of ocfCompare: values it considers equal (numeric formatting, date-only vs timestamp, empty vs
+ * missing, schema defaults) produce no operation, and ignored or deprecated fields are left alone. Fields missing
+ * from the target become `remove` operations, and fields it empties are replaced with its value. Arrays of equal length are patched element by element; arrays whose length
+ * changes are replaced whole. Applying the patch to `a` gives an object ocfCompare finds equal to `b`.
+ *
+ * @param a - Object to patch (typically the Canton/destination data)
+ * @param b - Object to reach (typically the source data)
+ * @param options - Fields to leave out of the patch
+ * @returns Patch operations; empty when the objects are semantically equal
+ *
+ * @example
+ * ```typescript
+ * const patch = createOcfJsonPatch(cantonData, sourceData, { ignoredFields: DEFAULT_INTERNAL_FIELDS });
+ * // e.g. [{ op: 'replace', path: '/name/legal_name', value: 'Jane Doe' }, { op: 'remove', path: '/comments' }]
+ * ```
+ */
+export function createOcfJsonPatch(
+  a: unknown,
+  b: unknown,
+  options?: Pick<OcfComparisonOptions, 'ignoredFields' | 'deprecatedFields'>
+): JsonPatchOperation[] {
+  const ignoredFields = [...(options?.ignoredFields ?? []), ...(options?.deprecatedFields ?? [])];
+  const ignored = new Set(ignoredFields);
+  const operations: JsonPatchOperation[] = [];
+
+  function patchMember(
+    containerA: Record<string, unknown> | unknown[],
+    containerB: Record<string, unknown> | unknown[],
+    key: string | number,
+    pointer: string,
+    path: string
+  ): void {
+    const isElement = typeof key === 'number';
+    if (!isElement && ignored.has(key)) return;
+    const valA = (containerA as Record<string, unknown>)[key];
+    const valB = (containerB as Record<string, unknown>)[key];
+    const childPointer = `${pointer}/${escapeJsonPointerToken(key)}`;
+    const childPath = isElement ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+    if (isSchemaDefaultEquivalent(childPath, valA, valB)) return;
+    const emptyA = isUndefinedLike(valA);
+    const emptyB = isUndefinedLike(valB);
+    if (emptyA && emptyB) return;
+    if (emptyB) {
+      if (isElement) {
+        // Removing an element would shift the ones after it; a hole is written as the null it serializes to
+        operations.push({ op: 'replace', path: childPointer, value: valB === undefined ? null : valB });
+      } else if (valB !== undefined && key in containerB) {
+        operations.push({ op: 'replace', path: childPointer, value: valB });
+      } else {
+        operations.push({ op: 'remove', path: childPointer });
+      }
+    } else if (emptyA) {
+      operations.push({ op: isElement || key in containerA ? 'replace' : 'add', path: childPointer, value: valB });
+    } else {
+      patchValue(valA, valB, childPointer, childPath);
+    }
+  }
+
+  function patchValue(valA: unknown, valB: unknown, pointer: string, path: string): void {
+    if (ocfCompare(valA, valB, { ignoredFields }).equal) return;
+
+    if (Array.isArray(valA) && Array.isArray(valB) && valA.length === valB.length) {
+      for (let i = 0; i < valA.length; i++) patchMember(valA, valB, i, pointer, path);
+      return;
+    }
+    if (isPlainRecord(valA) && isPlainRecord(valB)) {
+      const keys = Array.from(new Set([...Object.keys(valA), ...Object.keys(valB)]));
+      for (const key of keys) patchMember(valA, valB, key, pointer, path);
+      return;
+    }
+    operations.push({ op: 'replace', path: pointer, value: valB });
+  }
+
+  patchValue(a, b, '', '');
+  return operations;
+}
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 /**
  * Error interface for OCF mismatch errors with diff information.
  */
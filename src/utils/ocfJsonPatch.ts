@@ -0,0 +1,295 @@
+/**
+ * RFC 6902 JSON Patch for OCF objects.
+ *
+ * {@link createOcfJsonPatch} turns the comparison of two OCF objects into patch operations that can be shown, stored
+ * and applied later. This module applies such patches, to any JSON document or to a native OCF object, which is
+ * validated once patched, and builds the patch of every edit found by `computeReplicationDiff`.
+ *
+ * @module ocfJsonPatch
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type { OcfDataTypeFor, OcfEntityType } from '../functions/OpenCapTable/capTable/entityTypes';
+import {
+  createOcfJsonPatch,
+  DEFAULT_DEPRECATED_FIELDS,
+  DEFAULT_INTERNAL_FIELDS,
+  type JsonPatchOperation,
+} from './ocfComparison';
+import { parseOcfEntityInput } from './ocfZodSchemas';
+import { normalizeOcfData } from './planSecurityAliases';
+import type { CantonOcfDataMap, ReplicationDiff } from './replicationHelpers';
+
+// ===== Types =====
+
+/** The patch turning the Canton data of an edited object into its source data. */
+export interface ReplicationEditPatch {
+  /** Canonical OCF object ID */
+  id: string;
+  entityType: OcfEntityType;
+  /** Operations on the Canton data as stored, turning it into the source data normalized with `normalizeOcfData` */
+  patch: JsonPatchOperation[];
+}
+
+// ===== Helpers =====
+
+type Container = Record<string, unknown> | unknown[];
+
+interface Location {
+  parent: Container;
+  /** Object key, array index, or `-` for the end of an array */
+  key: string;
+}
+
+function cloneJson<T>(value: T): T {
+  if (Array.isArray(value)) return value.map((item: unknown) => cloneJson(item)) as T;
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneJson(item)])) as T;
+  }
+  return value;
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+/** Split a JSON Pointer into unescaped reference tokens. */
+function parsePointer(pointer: string, fieldPath: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new OcpValidationError(fieldPath, 'JSON Pointer must be empty or start with "/"', {
+      code: OcpErrorCodes.INVALID_FORMAT,
+      receivedValue: pointer,
+    });
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean, fieldPath: string): number {
+  if (allowEnd && token === '-') return array.length;
+  const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : -1;
+  if (index < 0 || index > array.length || (!allowEnd && index === array.length)) {
+    throw new OcpValidationError(fieldPath, `Array index "${token}" is out of range`, {
+      code: OcpErrorCodes.OUT_OF_RANGE,
+      receivedValue: token,
+    });
+  }
+  return index;
+}
+
+function missing(fieldPath: string, pointer: string): OcpValidationError {
+  return new OcpValidationError(fieldPath, `Path "${pointer}" does not exist`, {
+    code: OcpErrorCodes.INVALID_FORMAT,
+    receivedValue: pointer,
+  });
+}
+
+/** Resolve the container and key a non-root pointer points into. */
+function locate(document: unknown, tokens: string[], pointer: string, fieldPath: string): Location {
+  let parent: unknown = document;
+  for (const token of tokens.slice(0, -1)) {
+    parent = read(parent, token, pointer, fieldPath);
+  }
+  if (!isContainer(parent)) throw missing(fieldPath, pointer);
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+function read(container: unknown, token: string, pointer: string, fieldPath: string): unknown {
+  if (Array.isArray(container)) return container[arrayIndex(container, token, false, fieldPath)];
+  if (!isContainer(container) || !Object.prototype.hasOwnProperty.call(container, token)) {
+    throw missing(fieldPath, pointer);
+  }
+  return (container as Record<string, unknown>)[token];
+}
+
+function getValue(document: unknown, pointer: string, fieldPath: string): unknown {
+  return parsePointer(pointer, fieldPath).reduce<unknown>(
+    (value, token) => read(value, token, pointer, fieldPath),
+    document
+  );
+}
+
+function addValue(document: unknown, pointer: string, value: unknown, fieldPath: string): unknown {
+  const tokens = parsePointer(pointer, fieldPath);
+  if (tokens.length === 0) return value;
+  const { parent, key } = locate(document, tokens, pointer, fieldPath);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true, fieldPath), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+function removeValue(document: unknown, pointer: string, fieldPath: string): unknown {
+  const tokens = parsePointer(pointer, fieldPath);
+  if (tokens.length === 0) {
+    throw new OcpValidationError(fieldPath, 'Cannot remove the whole document', {
+      code: OcpErrorCodes.INVALID_FORMAT,
+      receivedValue: pointer,
+    });
+  }
+  const { parent, key } = locate(document, tokens, pointer, fieldPath);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false, fieldPath), 1);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, key)) throw missing(fieldPath, pointer);
+    delete parent[key];
+  }
+  return document;
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation, fieldPath: string): unknown {
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, operation.path, cloneJson(operation.value), fieldPath);
+    case 'remove':
+      return removeValue(document, operation.path, fieldPath);
+    case 'replace':
+      if (operation.path === '') return cloneJson(operation.value);
+      return addValue(
+        removeValue(document, operation.path, fieldPath),
+        operation.path,
+        cloneJson(operation.value),
+        fieldPath
+      );
+    case 'move': {
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new OcpValidationError(fieldPath, 'Cannot move a value into one of its children', {
+          code: OcpErrorCodes.INVALID_FORMAT,
+          receivedValue: operation,
+        });
+      }
+      const value = getValue(document, operation.from, fieldPath);
+      return addValue(removeValue(document, operation.from, fieldPath), operation.path, value, fieldPath);
+    }
+    case 'copy':
+      return addValue(document, operation.path, cloneJson(getValue(document, operation.from, fieldPath)), fieldPath);
+    case 'test':
+      if (
+        JSON.stringify(canonicalJson(getValue(document, operation.path, fieldPath))) !==
+        JSON.stringify(canonicalJson(operation.value))
+      ) {
+        throw new OcpValidationError(fieldPath, `Test failed: value at "${operation.path}" differs`, {
+          code: OcpErrorCodes.INVALID_FORMAT,
+          receivedValue: operation.value,
+        });
+      }
+      return document;
+    default:
+      throw new OcpValidationError(`${fieldPath}.op`, 'Unknown JSON Patch operation', {
+        code: OcpErrorCodes.UNKNOWN_ENUM_VALUE,
+        receivedValue: (operation as { op: unknown }).op,
+      });
+  }
+}
+
+/** Sort object keys so the `test` operation compares objects regardless of member order. */
+function canonicalJson(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalJson);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalJson((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+// ===== JSON Patch =====
+
+/**
+ * Apply an RFC 6902 JSON Patch to a JSON document.
+ *
+ * The document is not modified: operations run on a copy, and a failing operation leaves no partial result.
+ *
+ * @param document - JSON document to patch
+ * @param patch - Operations, applied in order
+ * @returns The patched copy
+ * @throws OcpValidationError when a path does not exist, an array index is out of range or a `test` operation fails;
+ *   the field path names the operation, e.g. `patch[2]`
+ *
+ * @example
+ * ```typescript
+ * applyJsonPatch({ name: { legal_name: 'Jane' } }, [{ op: 'replace', path: '/name/legal_name', value: 'Jane Doe' }]);
+ * // => { name: { legal_name: 'Jane Doe' } }
+ * ```
+ */
+export function applyJsonPatch(document: unknown, patch: readonly JsonPatchOperation[]): unknown {
+  return patch.reduce<unknown>(
+    (current, operation, index) => applyOperation(current, operation, `patch[${index}]`),
+    cloneJson(document)
+  );
+}
+
+/**
+ * Apply an RFC 6902 JSON Patch to a native OCF object and validate the result.
+ *
+ * @param entityType - SDK entity type of the object
+ * @param object - Native OCF object to patch; it is not modified
+ * @param patch - Operations, applied in order
+ * @returns The patched object, parsed against its OCF schema
+ * @throws OcpValidationError when an operation fails (see {@link applyJsonPatch}) or the patched object is not a valid
+ *   OCF object of the entity type
+ *
+ * @example
+ * ```typescript
+ * const edited = applyOcfJsonPatch('stakeholder', stakeholder, [
+ *   { op: 'replace', path: '/name/legal_name', value: 'Jane Doe' },
+ * ]);
+ * await ocp.OpenCapTable.capTable.update(params).edit('stakeholder', edited).execute();
+ * ```
+ */
+export function applyOcfJsonPatch<T extends OcfEntityType>(
+  entityType: T,
+  object: OcfDataTypeFor<T>,
+  patch: readonly JsonPatchOperation[]
+): OcfDataTypeFor<T> {
+  return parseOcfEntityInput(entityType, applyJsonPatch(object, patch));
+}
+
+/**
+ * Build the JSON Patch of every edit in a replication diff.
+ *
+ * Each patch applies to the Canton data of the object as stored and turns it into the source data normalized with
+ * `normalizeOcfData`, the form `computeReplicationDiff` compares. Internal and deprecated fields are left out, as in
+ * the diff.
+ *
+ * @param diff - Replication diff computed with `cantonOcfData`
+ * @param cantonOcfData - Canton OCF data the diff was computed against
+ * @returns One patch per edit, in diff order
+ * @throws OcpValidationError (`REQUIRED_FIELD_MISSING`) when `cantonOcfData` has no data for an edited object
+ *
+ * @example
+ * ```typescript
+ * const diff = computeReplicationDiff(sourceItems, cantonState, { cantonOcfData });
+ * for (const { id, patch } of createReplicationEditPatches(diff, cantonOcfData)) {
+ *   await reviews.save(id, JSON.stringify(patch));
+ * }
+ * ```
+ */
+export function createReplicationEditPatches(
+  diff: Pick<ReplicationDiff, 'edits'>,
+  cantonOcfData: CantonOcfDataMap
+): ReplicationEditPatch[] {
+  return diff.edits.map(({ id, entityType, data }) => {
+    const cantonData = cantonOcfData.get(entityType)?.get(id);
+    if (cantonData === undefined) {
+      throw new OcpValidationError(
+        `cantonOcfData.${entityType}`,
+        `Missing Canton OCF data for entityType="${entityType}", id="${id}"`,
+        { code: OcpErrorCodes.REQUIRED_FIELD_MISSING, receivedValue: id }
+      );
+    }
+    const patch = createOcfJsonPatch(cantonData, normalizeOcfData(data), {
+      ignoredFields: DEFAULT_INTERNAL_FIELDS,
+      deprecatedFields: DEFAULT_DEPRECATED_FIELDS,
+    });
+    return { id, entityType, patch };
+  });
+}
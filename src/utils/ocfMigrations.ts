@@ -0,0 +1,475 @@
+/**
+ * OCF schema version migrations.
+ *
+ * OCF objects change shape between schema versions: fields are renamed, turned from a single value into a list or
+ * folded into a nested object. The SDK targets {@link CURRENT_OCF_VERSION}; comparison code only ignores the
+ * deprecated fields (see `DEFAULT_DEPRECATED_FIELDS`). A {@link OcfMigrationRegistry} holds migration steps between
+ * consecutive versions and runs them to upgrade stored objects to the current version, or to downgrade objects for
+ * consumers pinned to older tools. Every run reports what changed on each object.
+ *
+ * The built-in steps ({@link DEFAULT_OCF_MIGRATIONS}) cover the deprecated fields the SDK still accepts. They all
+ * migrate between {@link CURRENT_OCF_VERSION} and the version before it, so an upgrade to the current version fixes
+ * every deprecated field whatever older version the objects are in. The SDK does not track which OCF release
+ * deprecated each field; register your own steps when objects must match a specific older release exactly.
+ * Downgrades that cannot keep every value, such as a stakeholder with several relationships going back to the
+ * singular field, keep the first value and say what was dropped in the report.
+ *
+ * @module ocfMigrations
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import { normalizeObjectType } from './planSecurityAliases';
+
+// ===== Types =====
+
+/** OCF schema versions the migrations know about, oldest first. */
+export const OCF_VERSIONS = ['1.0.0', '1.1.0', '1.2.0'] as const;
+
+export type OcfVersion = (typeof OCF_VERSIONS)[number];
+
+/** OCF schema version the SDK reads and writes. */
+export const CURRENT_OCF_VERSION: OcfVersion = '1.2.0';
+
+/** One field a migration step changed. */
+export interface OcfFieldChange {
+  /** Path of the field within the object */
+  fieldPath: string;
+  message: string;
+}
+
+/**
+ * A migration between two consecutive OCF versions for some object types.
+ *
+ * `upgrade` and `downgrade` receive a shallow copy of the object they may modify in place, and return the fields they
+ * changed; an empty list leaves the object untouched. They throw an {@link OcpValidationError} for data they cannot
+ * migrate, using `path` as the prefix of its field path.
+ */
+export interface OcfMigrationStep {
+  /** Unique name, reported with every change the step makes */
+  name: string;
+  from: OcfVersion;
+  /** Version right after `from` */
+  to: OcfVersion;
+  /** `object_type` values the step applies to; PlanSecurity aliases match their EquityCompensation type */
+  objectTypes: readonly string[];
+  upgrade(object: Record<string, unknown>, path: string): OcfFieldChange[];
+  downgrade(object: Record<string, unknown>, path: string): OcfFieldChange[];
+}
+
+/** A change made by a step while migrating an object. */
+export interface OcfMigrationChange extends OcfFieldChange {
+  step: string;
+  from: OcfVersion;
+  to: OcfVersion;
+}
+
+/** What a migration did to one object. */
+export interface OcfObjectMigration {
+  /** Position of the object in the input */
+  index: number;
+  id: string | null;
+  objectType: string | null;
+  /** Changes in the order they were made; empty when the object was already in shape */
+  changes: OcfMigrationChange[];
+}
+
+export interface OcfMigrationReport {
+  from: OcfVersion;
+  to: OcfVersion;
+  /** One entry per input object, in input order */
+  objects: OcfObjectMigration[];
+  /** Number of objects with at least one change */
+  changedCount: number;
+}
+
+export interface OcfMigrationResult {
+  /** Migrated objects in input order; unchanged objects are returned as is */
+  objects: Array<Record<string, unknown>>;
+  report: OcfMigrationReport;
+}
+
+export interface OcfMigrationOptions {
+  /** Version the objects are in */
+  from: OcfVersion;
+  /** Version to migrate to. Default: {@link CURRENT_OCF_VERSION} */
+  to?: OcfVersion;
+}
+
+// ===== Helpers =====
+
+function versionIndex(version: unknown, fieldPath: string): number {
+  const index = OCF_VERSIONS.indexOf(version as OcfVersion);
+  if (index === -1) {
+    throw new OcpValidationError(fieldPath, `Unknown OCF version; expected one of ${OCF_VERSIONS.join(', ')}`, {
+      code: OcpErrorCodes.UNKNOWN_ENUM_VALUE,
+      expectedType: 'OcfVersion',
+      receivedValue: version,
+    });
+  }
+  return index;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function invalid(fieldPath: string, message: string, receivedValue: unknown): OcpValidationError {
+  return new OcpValidationError(fieldPath, message, {
+    code: OcpErrorCodes.INVALID_FORMAT,
+    receivedValue,
+  });
+}
+
+function readStringList(object: Record<string, unknown>, field: string, path: string): string[] {
+  const value = object[field];
+  if (!Array.isArray(value) || !value.every((entry) => typeof entry === 'string')) {
+    throw invalid(`${path}.${field}`, 'Expected an array of strings', value);
+  }
+  return value;
+}
+
+/** Replace a single-value field by a one-entry list field. */
+function singleToList(object: Record<string, unknown>, path: string, single: string, list: string): OcfFieldChange[] {
+  const value = object[single];
+  if (value === undefined) return [];
+  delete object[single];
+  if (object[list] !== undefined) {
+    return [{ fieldPath: single, message: `Removed ${single}; ${list} is already set` }];
+  }
+  if (readString(value) === null) throw invalid(`${path}.${single}`, 'Expected a non-empty string', value);
+  object[list] = [value];
+  return [{ fieldPath: list, message: `Moved ${single} into ${list}` }];
+}
+
+/**
+ * Replace a list field by a single-value field holding its first entry.
+ *
+ * With `strict`, a list that does not have exactly one entry is an error; otherwise further entries are dropped and
+ * an empty list is removed, and the change says so.
+ */
+function listToSingle(
+  object: Record<string, unknown>,
+  path: string,
+  list: string,
+  single: string,
+  strict: boolean
+): OcfFieldChange[] {
+  if (object[list] === undefined) return [];
+  const values = readStringList(object, list, path);
+  if (strict && values.length !== 1) {
+    throw invalid(`${path}.${list}`, `Expected exactly one entry to move into ${single}`, values);
+  }
+  delete object[list];
+  if (object[single] !== undefined) {
+    return [{ fieldPath: list, message: `Removed ${list}; ${single} is already set` }];
+  }
+  if (values.length === 0) return [{ fieldPath: list, message: `Removed empty ${list}` }];
+  [object[single]] = values;
+  const dropped = values.slice(1);
+  return [
+    {
+      fieldPath: single,
+      message:
+        dropped.length === 0
+          ? `Moved ${list} into ${single}`
+          : `Moved the first entry of ${list} into ${single}; dropped ${dropped.join(', ')}`,
+    },
+  ];
+}
+
+function renameField(object: Record<string, unknown>, from: string, to: string): OcfFieldChange[] {
+  if (object[from] === undefined) return [];
+  const value = object[from];
+  delete object[from];
+  if (object[to] !== undefined) return [{ fieldPath: from, message: `Removed ${from}; ${to} is already set` }];
+  object[to] = value;
+  return [{ fieldPath: to, message: `Renamed ${from} to ${to}` }];
+}
+
+const OPTION_GRANT_TO_COMPENSATION_TYPE: Readonly<Record<string, string>> = {
+  NSO: 'OPTION_NSO',
+  ISO: 'OPTION_ISO',
+  INTL: 'OPTION',
+};
+
+const COMPENSATION_TO_OPTION_GRANT_TYPE: Readonly<Record<string, string>> = {
+  OPTION_NSO: 'NSO',
+  OPTION_ISO: 'ISO',
+};
+
+function upgradeOptionGrantType(object: Record<string, unknown>, path: string): OcfFieldChange[] {
+  const value = object.option_grant_type;
+  if (value === undefined) return [];
+  const grantType = typeof value === 'string' ? value : '';
+  const compensationType = OPTION_GRANT_TO_COMPENSATION_TYPE[grantType] as string | undefined;
+  if (compensationType === undefined) {
+    throw new OcpValidationError(`${path}.option_grant_type`, 'Expected NSO, ISO or INTL', {
+      code: OcpErrorCodes.UNKNOWN_ENUM_VALUE,
+      receivedValue: value,
+    });
+  }
+  delete object.option_grant_type;
+  if (object.compensation_type === undefined) {
+    object.compensation_type = compensationType;
+    return [
+      {
+        fieldPath: 'compensation_type',
+        message: `Set compensation_type to ${compensationType} from option_grant_type`,
+      },
+    ];
+  }
+  const isGenericOption = object.compensation_type === 'OPTION' && grantType !== 'INTL';
+  if (object.compensation_type !== compensationType && !isGenericOption) {
+    throw invalid(
+      `${path}.option_grant_type`,
+      `option_grant_type ${grantType} conflicts with compensation_type ${JSON.stringify(object.compensation_type)}`,
+      value
+    );
+  }
+  if (isGenericOption) {
+    object.compensation_type = compensationType;
+    return [{ fieldPath: 'compensation_type', message: `Narrowed compensation_type OPTION to ${compensationType}` }];
+  }
+  return [{ fieldPath: 'option_grant_type', message: 'Removed option_grant_type; compensation_type is already set' }];
+}
+
+function downgradeOptionGrantType(object: Record<string, unknown>): OcfFieldChange[] {
+  const compensationType = object.compensation_type;
+  const optionGrantType =
+    typeof compensationType === 'string' ? COMPENSATION_TO_OPTION_GRANT_TYPE[compensationType] : undefined;
+  if (optionGrantType === undefined || object.option_grant_type !== undefined) return [];
+  object.option_grant_type = optionGrantType;
+  return [
+    { fieldPath: 'option_grant_type', message: `Set option_grant_type to ${optionGrantType} from compensation_type` },
+  ];
+}
+
+function upgradeSplitRatio(object: Record<string, unknown>, path: string): OcfFieldChange[] {
+  const { split_ratio_numerator: numerator, split_ratio_denominator: denominator } = object;
+  if (numerator === undefined && denominator === undefined) return [];
+  if (numerator === undefined || denominator === undefined) {
+    throw invalid(
+      `${path}.split_ratio_numerator`,
+      'split_ratio_numerator and split_ratio_denominator must be set together',
+      { numerator, denominator }
+    );
+  }
+  delete object.split_ratio_numerator;
+  delete object.split_ratio_denominator;
+  if (object.split_ratio !== undefined) {
+    return [
+      { fieldPath: 'split_ratio_numerator', message: 'Removed the split ratio fields; split_ratio is already set' },
+    ];
+  }
+  object.split_ratio = { numerator, denominator };
+  return [
+    { fieldPath: 'split_ratio', message: 'Moved split_ratio_numerator and split_ratio_denominator into split_ratio' },
+  ];
+}
+
+function downgradeSplitRatio(object: Record<string, unknown>, path: string): OcfFieldChange[] {
+  const ratio = object.split_ratio;
+  if (ratio === undefined) return [];
+  if (typeof ratio !== 'object' || ratio === null) {
+    throw invalid(`${path}.split_ratio`, 'Expected an object with numerator and denominator', ratio);
+  }
+  const { numerator, denominator } = ratio as Record<string, unknown>;
+  delete object.split_ratio;
+  object.split_ratio_numerator = numerator;
+  object.split_ratio_denominator = denominator;
+  return [
+    {
+      fieldPath: 'split_ratio',
+      message: 'Moved split_ratio into split_ratio_numerator and split_ratio_denominator',
+    },
+  ];
+}
+
+// ===== Built-in migrations =====
+
+/** Version the built-in steps migrate from: the one right before {@link CURRENT_OCF_VERSION}. */
+const PREVIOUS_OCF_VERSION = OCF_VERSIONS[OCF_VERSIONS.indexOf(CURRENT_OCF_VERSION) - 1];
+
+/**
+ * Migration steps for the deprecated OCF fields the SDK accepts. Each goes from the version before
+ * {@link CURRENT_OCF_VERSION} to the current one, so it runs for objects of any older version.
+ */
+export const DEFAULT_OCF_MIGRATIONS: readonly OcfMigrationStep[] = [
+  {
+    name: 'stakeholder-current-relationships',
+    from: PREVIOUS_OCF_VERSION,
+    to: CURRENT_OCF_VERSION,
+    objectTypes: ['STAKEHOLDER'],
+    upgrade: (object, path) => singleToList(object, path, 'current_relationship', 'current_relationships'),
+    downgrade: (object, path) => listToSingle(object, path, 'current_relationships', 'current_relationship', false),
+  },
+  {
+    name: 'stock-plan-stock-class-ids',
+    from: PREVIOUS_OCF_VERSION,
+    to: CURRENT_OCF_VERSION,
+    objectTypes: ['STOCK_PLAN'],
+    upgrade: (object, path) => singleToList(object, path, 'stock_class_id', 'stock_class_ids'),
+    downgrade: (object, path) => listToSingle(object, path, 'stock_class_ids', 'stock_class_id', false),
+  },
+  {
+    name: 'equity-compensation-option-grant-type',
+    from: PREVIOUS_OCF_VERSION,
+    to: CURRENT_OCF_VERSION,
+    objectTypes: ['TX_EQUITY_COMPENSATION_ISSUANCE'],
+    upgrade: upgradeOptionGrantType,
+    downgrade: downgradeOptionGrantType,
+  },
+  {
+    name: 'stock-consolidation-resulting-security-id',
+    from: PREVIOUS_OCF_VERSION,
+    to: CURRENT_OCF_VERSION,
+    objectTypes: ['TX_STOCK_CONSOLIDATION'],
+    upgrade: (object, path) => listToSingle(object, path, 'resulting_security_ids', 'resulting_security_id', true),
+    downgrade: (object, path) => singleToList(object, path, 'resulting_security_id', 'resulting_security_ids'),
+  },
+  {
+    name: 'stock-conversion-quantity-converted',
+    from: PREVIOUS_OCF_VERSION,
+    to: CURRENT_OCF_VERSION,
+    objectTypes: ['TX_STOCK_CONVERSION'],
+    upgrade: (object) => renameField(object, 'quantity', 'quantity_converted'),
+    downgrade: (object) => renameField(object, 'quantity_converted', 'quantity'),
+  },
+  {
+    name: 'stock-class-split-ratio',
+    from: PREVIOUS_OCF_VERSION,
+    to: CURRENT_OCF_VERSION,
+    objectTypes: ['TX_STOCK_CLASS_SPLIT'],
+    upgrade: upgradeSplitRatio,
+    downgrade: downgradeSplitRatio,
+  },
+];
+
+// ===== Registry =====
+
+/**
+ * Migration steps between OCF versions.
+ *
+ * Steps run in version order when upgrading and in reverse when downgrading; steps between the same two versions run
+ * in registration order, reversed for downgrades.
+ *
+ * @example
+ * ```typescript
+ * const registry = new OcfMigrationRegistry(DEFAULT_OCF_MIGRATIONS);
+ * const { objects, report } = registry.migrate(storedObjects, { from: '1.0.0' });
+ * for (const entry of report.objects) {
+ *   for (const change of entry.changes) console.log(`${entry.id}: ${change.message}`);
+ * }
+ * ```
+ */
+export class OcfMigrationRegistry {
+  private readonly registered: OcfMigrationStep[] = [];
+
+  /** @param steps - Steps to register right away */
+  constructor(steps: readonly OcfMigrationStep[] = []) {
+    for (const step of steps) this.register(step);
+  }
+
+  /**
+   * Register a migration step.
+   *
+   * @throws OcpValidationError (`INVALID_FORMAT`) when the name is taken or the versions are not consecutive
+   * @throws OcpValidationError (`UNKNOWN_ENUM_VALUE`) for a version not in {@link OCF_VERSIONS}
+   */
+  register(step: OcfMigrationStep): this {
+    const fieldPath = `migrations.${step.name}`;
+    if (this.registered.some((existing) => existing.name === step.name)) {
+      throw invalid(fieldPath, `A migration named '${step.name}' is already registered`, step.name);
+    }
+    if (versionIndex(step.to, `${fieldPath}.to`) !== versionIndex(step.from, `${fieldPath}.from`) + 1) {
+      throw invalid(fieldPath, `Migration must go from ${step.from} to the next OCF version`, step.to);
+    }
+    this.registered.push(step);
+    return this;
+  }
+
+  /** Get the registered steps in version order. */
+  get steps(): readonly OcfMigrationStep[] {
+    return OCF_VERSIONS.flatMap((version) => this.registered.filter((step) => step.from === version));
+  }
+
+  /**
+   * Migrate OCF objects from one version to another.
+   *
+   * @param objects - OCF objects with an `object_type`, all in the `from` version
+   * @param options - Source and target versions
+   * @returns Migrated objects and what changed on each
+   * @throws OcpValidationError when an object is not a plain object or holds data a step cannot migrate
+   */
+  migrate(objects: readonly unknown[], options: OcfMigrationOptions): OcfMigrationResult {
+    const to = options.to ?? CURRENT_OCF_VERSION;
+    const fromIndex = versionIndex(options.from, 'from');
+    const toIndex = versionIndex(to, 'to');
+    const upgrading = fromIndex <= toIndex;
+    const steps = upgrading
+      ? this.steps.filter(
+          (step) => OCF_VERSIONS.indexOf(step.from) >= fromIndex && OCF_VERSIONS.indexOf(step.to) <= toIndex
+        )
+      : this.steps
+          .filter((step) => OCF_VERSIONS.indexOf(step.from) >= toIndex && OCF_VERSIONS.indexOf(step.to) <= fromIndex)
+          .reverse();
+
+    const migrated: Array<Record<string, unknown>> = [];
+    const entries: OcfObjectMigration[] = [];
+    objects.forEach((input, index) => {
+      const path = `objects[${index}]`;
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        throw new OcpValidationError(path, 'Expected an OCF object', {
+          code: OcpErrorCodes.INVALID_TYPE,
+          expectedType: 'object',
+          receivedValue: input,
+        });
+      }
+      let object = input as Record<string, unknown>;
+      const objectType = readString(object.object_type);
+      const normalizedType = objectType === null ? null : normalizeObjectType(objectType);
+      const changes: OcfMigrationChange[] = [];
+      for (const step of steps) {
+        if (normalizedType === null || !step.objectTypes.includes(normalizedType)) continue;
+        const draft = { ...object };
+        const stepChanges = upgrading ? step.upgrade(draft, path) : step.downgrade(draft, path);
+        if (stepChanges.length === 0) continue;
+        object = draft;
+        changes.push(...stepChanges.map((change) => ({ ...change, step: step.name, from: step.from, to: step.to })));
+      }
+      migrated.push(object);
+      entries.push({ index, id: readString(object.id), objectType, changes });
+    });
+
+    return {
+      objects: migrated,
+      report: {
+        from: options.from,
+        to,
+        objects: entries,
+        changedCount: entries.filter((entry) => entry.changes.length > 0).length,
+      },
+    };
+  }
+}
+
+/**
+ * Migrate OCF objects with the built-in steps.
+ *
+ * @param objects - OCF objects with an `object_type`, all in the `from` version
+ * @param options - Source and target versions; the target defaults to {@link CURRENT_OCF_VERSION}
+ * @returns Migrated objects and what changed on each
+ * @throws OcpValidationError when an object holds data a step cannot migrate
+ *
+ * @example
+ * ```typescript
+ * const { objects } = migrateOcfObjects([{ object_type: 'STOCK_PLAN', id: 'plan', stock_class_id: 'common' }], {
+ *   from: '1.0.0',
+ * });
+ * // objects[0].stock_class_ids => ['common']
+ * ```
+ */
+export function migrateOcfObjects(objects: readonly unknown[], options: OcfMigrationOptions): OcfMigrationResult {
+  return new OcfMigrationRegistry(DEFAULT_OCF_MIGRATIONS).migrate(objects, options);
+}
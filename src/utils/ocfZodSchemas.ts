@@ -98,7 +98,28 @@ export const OCF_OBJECT_SCHEMA_PATHS = {
 
 export type OcfSchemaObjectType = keyof typeof OCF_OBJECT_SCHEMA_PATHS;
 
+/**
+ * OCF bundle file schema paths, by `file_type`.
+ *
+ * Paths are relative to `<OCF_SCHEMA_DIR>/files`.
+ */
+export const OCF_FILE_SCHEMA_PATHS = {
+  OCF_MANIFEST_FILE: 'OCFManifestFile.schema.json',
+  OCF_STAKEHOLDERS_FILE: 'StakeholdersFile.schema.json',
+  OCF_STOCK_CLASSES_FILE: 'StockClassesFile.schema.json',
+  OCF_STOCK_LEGEND_TEMPLATES_FILE: 'StockLegendTemplatesFile.schema.json',
+  OCF_STOCK_PLANS_FILE: 'StockPlansFile.schema.json',
+  OCF_TRANSACTIONS_FILE: 'TransactionsFile.schema.json',
+  OCF_VALUATIONS_FILE: 'ValuationsFile.schema.json',
+  OCF_VESTING_TERMS_FILE: 'VestingTermsFile.schema.json',
+  OCF_FINANCINGS_FILE: 'FinancingsFile.schema.json',
+  OCF_DOCUMENTS_FILE: 'DocumentsFile.schema.json',
+} as const;
+
+export type OcfFileType = keyof typeof OCF_FILE_SCHEMA_PATHS;
+
 const OBJECTS_DIR_RELATIVE_PATH = 'objects';
+const FILES_DIR_RELATIVE_PATH = 'files';
 const SCHEMA_FILE_SUFFIX = '.schema.json';
 const PACKAGED_SCHEMA_DIR_RELATIVE_PATH = '../ocf-schema';
 const SUBMODULE_SCHEMA_DIR_RELATIVE_PATH = '../../libs/Open-Cap-Format-OCF/schema';
@@ -108,6 +129,7 @@ let cachedAjv: Ajv | null = null;
 let cachedSchemaRootDir: string | null = null;
 
 const validatorCache = new Map<OcfSchemaObjectType, ValidateFunction>();
+const fileValidatorCache = new Map<OcfFileType, ValidateFunction>();
 const zodSchemaCache = new Map<string, ZodType<Record<string, unknown>>>();
 
 /**
@@ -224,6 +246,12 @@ function getAjvValidator(objectType: OcfSchemaObjectType): ValidateFunction {
     });
   }
 
+  const validator = compileSchemaFile(ajv, schemaPath);
+  validatorCache.set(objectType, validator);
+  return validator;
+}
+
+function compileSchemaFile(ajv: Ajv, schemaPath: string): ValidateFunction {
   const schema = readJsonFile(schemaPath);
   const schemaId = schema.$id;
   let validator: ValidateFunction | undefined;
@@ -232,9 +260,30 @@ function getAjvValidator(objectType: OcfSchemaObjectType): ValidateFunction {
     validator = ajv.getSchema(schemaId);
   }
 
-  validator ??= ajv.compile(schema);
+  return validator ?? ajv.compile(schema);
+}
 
-  validatorCache.set(objectType, validator);
+function getFileSchemaPath(fileType: OcfFileType): string {
+  return path.join(resolveOcfSchemaDir(), FILES_DIR_RELATIVE_PATH, OCF_FILE_SCHEMA_PATHS[fileType]);
+}
+
+function getAjvFileValidator(fileType: OcfFileType): ValidateFunction {
+  const cached = fileValidatorCache.get(fileType);
+  if (cached) {
+    return cached;
+  }
+
+  const { ajv } = ensureAjvInitialized();
+  const schemaPath = getFileSchemaPath(fileType);
+  if (!fs.existsSync(schemaPath)) {
+    throw new OcpValidationError('schemaPath', `Schema file not found for file_type ${fileType}`, {
+      code: OcpErrorCodes.REQUIRED_FIELD_MISSING,
+      receivedValue: schemaPath,
+    });
+  }
+
+  const validator = compileSchemaFile(ajv, schemaPath);
+  fileValidatorCache.set(fileType, validator);
   return validator;
 }
 
@@ -323,6 +372,38 @@ export function getOcfSchema(objectType: string): ZodType<Record<string, unknown
   return schema;
 }
 
+/**
+ * Check whether the bundled OCF schemas define a bundle file type.
+ *
+ * Older OCF releases have no files for some object types (e.g. financings and documents).
+ */
+export function hasOcfFileSchema(fileType: OcfFileType): boolean {
+  return fs.existsSync(getFileSchemaPath(fileType));
+}
+
+/**
+ * Validate the content of an OCF bundle file against its `files/*.schema.json` schema.
+ *
+ * @param fileType - OCF `file_type` of the content
+ * @param content - Parsed file content
+ * @param fileName - Name of the file, prefixed to the reported field paths
+ * @throws OcpValidationError (`INVALID_FORMAT`) listing every schema violation, with the first one as field path
+ */
+export function validateOcfFile(fileType: OcfFileType, content: unknown, fileName?: string): void {
+  const validator = getAjvFileValidator(fileType);
+  const prefix = fileName ? [fileName] : [];
+  const schema = z.unknown().superRefine((value, ctx) => {
+    if (validator(value)) return;
+    for (const error of validator.errors ?? []) {
+      ctx.addIssue({ code: 'custom', path: [...prefix, ...ajvErrorToPath(error)], message: formatAjvError(error) });
+    }
+  });
+  const result = schema.safeParse(content);
+  if (!result.success) {
+    throw convertZodErrorToValidationError(result.error, fileName ?? fileType);
+  }
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return value !== null && typeof value === 'object' && !Array.isArray(value);
 }
@@ -461,5 +542,6 @@ export function resetOcfSchemaRegistryForTests(): void {
   cachedAjv = null;
   cachedSchemaRootDir = null;
   validatorCache.clear();
+  fileValidatorCache.clear();
   zodSchemaCache.clear();
 }
@@ -0,0 +1,255 @@
+/**
+ * Cross-entity referential integrity checks.
+ *
+ * {@link validateStakeholderData} and the other entity validators check each object on its own. This module checks the
+ * references between objects: the stakeholder, stock class, stock plan, vesting terms and stock legend ids an object
+ * names, the `security_id` of non-issuance transactions, and the {@link OcfObjectReference} targets of documents. Every
+ * reference that does not resolve is reported instead of being found when DAML rejects the `UpdateCapTable` exercise.
+ *
+ * @module referentialIntegrity
+ */
+
+import { OcpErrorCodes, type OcpErrorCode } from '../errors/codes';
+import { ENTITY_OBJECT_TYPE_MAP } from '../functions/OpenCapTable/capTable/batchTypes';
+import type { OcfEntityType } from '../functions/OpenCapTable/capTable/entityTypes';
+import { mapOcfObjectTypeToEntityType } from '../functions/OpenCapTable/capTable/entityTypes';
+import type { CapTableState } from '../functions/OpenCapTable/capTable/getCapTableState';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { normalizeObjectType } from './planSecurityAliases';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** A reference to an object that does not exist. */
+export interface DanglingReference {
+  /** SDK entity type of the referencing object, or null when its object type has none */
+  entityType: OcfEntityType | null;
+  /** OCF object type of the referencing object */
+  objectType: string;
+  /** Id of the referencing object */
+  id: string;
+  /** Path of the reference within the object, e.g. `stock_legend_ids[1]` */
+  fieldPath: string;
+  /** Object type the reference must resolve to, or `SECURITY` for security ids */
+  targetType: string;
+  /** The id that was not found */
+  targetId: string;
+}
+
+/** Result of {@link validateReferentialIntegrity}. */
+export interface ReferentialIntegrityReport {
+  /** True when every reference resolves */
+  valid: boolean;
+  /** Dangling references in manifest order */
+  danglingReferences: DanglingReference[];
+}
+
+/** Pending batch operations checked by {@link findPendingDanglingReferences}. */
+export interface PendingReferenceChanges {
+  /** Native payloads of pending creates */
+  creates: Array<Record<string, unknown>>;
+  /** Native payloads of pending edits */
+  edits: Array<Record<string, unknown>>;
+  /** Pending deletes */
+  deletes: Array<{ entityType: OcfEntityType; id: string }>;
+}
+
+// ===== Helpers =====
+
+/** Fields holding the id of another object, by the object type they reference. */
+const ID_FIELDS: ReadonlyArray<readonly [field: string, targetType: string]> = [
+  ['stakeholder_id', 'STAKEHOLDER'],
+  ['stock_class_id', 'STOCK_CLASS'],
+  ['stock_class_ids', 'STOCK_CLASS'],
+  ['stock_plan_id', 'STOCK_PLAN'],
+  ['vesting_terms_id', 'VESTING_TERMS'],
+  ['stock_legend_ids', 'STOCK_LEGEND_TEMPLATE'],
+];
+
+const SECURITY = 'SECURITY';
+
+/** Ids of the objects a reference can resolve to, by object type, plus issued security ids. */
+interface ReferenceIndex {
+  objects: Map<string, Set<string>>;
+  securityIds: Set<string>;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readObjectType(object: Record<string, unknown>, fallback: string): string {
+  return normalizeObjectType(readString(object.object_type) ?? fallback);
+}
+
+function isIssuance(objectType: string): boolean {
+  return objectType.startsWith('TX_') && objectType.endsWith('_ISSUANCE');
+}
+
+function addObject(index: ReferenceIndex, object: Record<string, unknown>, fallbackType: string): void {
+  const objectType = readObjectType(object, fallbackType);
+  const id = readString(object.id);
+  if (id) {
+    const ids = index.objects.get(objectType) ?? new Set<string>();
+    ids.add(id);
+    index.objects.set(objectType, ids);
+  }
+  const securityId = readString(object.security_id);
+  if (securityId && isIssuance(objectType)) index.securityIds.add(securityId);
+}
+
+function resolves(index: ReferenceIndex, targetType: string, targetId: string): boolean {
+  if (targetType === SECURITY) return index.securityIds.has(targetId);
+  return index.objects.get(normalizeObjectType(targetType))?.has(targetId) ?? false;
+}
+
+/** Every reference an object makes, with its field path and target type. */
+function readReferences(
+  object: Record<string, unknown>,
+  objectType: string
+): Array<{ fieldPath: string; targetType: string; targetId: string }> {
+  const references: Array<{ fieldPath: string; targetType: string; targetId: string }> = [];
+  for (const [field, targetType] of ID_FIELDS) {
+    const value = object[field];
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => {
+        const targetId = readString(item);
+        if (targetId) references.push({ fieldPath: `${field}[${i}]`, targetType, targetId });
+      });
+    } else {
+      const targetId = readString(value);
+      if (targetId) references.push({ fieldPath: field, targetType, targetId });
+    }
+  }
+
+  const securityId = readString(object.security_id);
+  if (securityId && objectType.startsWith('TX_') && !isIssuance(objectType)) {
+    references.push({ fieldPath: 'security_id', targetType: SECURITY, targetId: securityId });
+  }
+
+  if (Array.isArray(object.related_objects)) {
+    object.related_objects.forEach((reference, i) => {
+      const targetType = isRecord(reference) ? readString(reference.object_type) : null;
+      const targetId = isRecord(reference) ? readString(reference.object_id) : null;
+      if (targetType && targetId) {
+        references.push({ fieldPath: `related_objects[${i}].object_id`, targetType, targetId });
+      }
+    });
+  }
+  return references;
+}
+
+function findDangling(
+  objects: Array<{ object: Record<string, unknown>; fallbackType: string }>,
+  index: ReferenceIndex
+): DanglingReference[] {
+  const dangling: DanglingReference[] = [];
+  for (const { object, fallbackType } of objects) {
+    const objectType = readObjectType(object, fallbackType);
+    for (const reference of readReferences(object, objectType)) {
+      if (resolves(index, reference.targetType, reference.targetId)) continue;
+      dangling.push({
+        entityType: mapOcfObjectTypeToEntityType(objectType),
+        objectType,
+        id: String(object.id),
+        ...reference,
+      });
+    }
+  }
+  return dangling;
+}
+
+function manifestObjects(manifest: OcfManifest): Array<{ object: Record<string, unknown>; fallbackType: string }> {
+  const collections: Array<[Array<Record<string, unknown>>, string]> = [
+    [manifest.issuer ? [manifest.issuer] : [], 'ISSUER'],
+    [manifest.stakeholders, 'STAKEHOLDER'],
+    [manifest.stockClasses, 'STOCK_CLASS'],
+    [manifest.stockPlans, 'STOCK_PLAN'],
+    [manifest.vestingTerms, 'VESTING_TERMS'],
+    [manifest.stockLegendTemplates, 'STOCK_LEGEND_TEMPLATE'],
+    [manifest.valuations, 'VALUATION'],
+    [manifest.financings, 'FINANCING'],
+    [manifest.documents, 'DOCUMENT'],
+    [manifest.transactions, ''],
+  ];
+  return collections.flatMap(([objects, fallbackType]) =>
+    objects.filter(isRecord).map((object) => ({ object, fallbackType }))
+  );
+}
+
+// ===== Referential Integrity =====
+
+/**
+ * Find every reference in a manifest that does not resolve to an object of the manifest.
+ *
+ * Security ids resolve to the `security_id` of any issuance in the manifest, wherever it sits in the ledger; use
+ * {@link buildSecurityLineage} to check the order of security links.
+ *
+ * @param manifest - Manifest to check (e.g. from extractCantonOcfManifest)
+ * @returns Validity flag and the dangling references
+ *
+ * @example
+ * ```typescript
+ * const { valid, danglingReferences } = validateReferentialIntegrity(manifest);
+ * for (const ref of danglingReferences) {
+ *   console.log(`${ref.entityType} ${ref.id}: ${ref.fieldPath} -> unknown ${ref.targetType} '${ref.targetId}'`);
+ * }
+ * ```
+ */
+export function validateReferentialIntegrity(manifest: OcfManifest): ReferentialIntegrityReport {
+  const objects = manifestObjects(manifest);
+  const index: ReferenceIndex = { objects: new Map(), securityIds: new Set() };
+  for (const { object, fallbackType } of objects) addObject(index, object, fallbackType);
+
+  const danglingReferences = findDangling(objects, index);
+  return { valid: danglingReferences.length === 0, danglingReferences };
+}
+
+/**
+ * Error code for a dangling reference: `UNKNOWN_SECURITY` for security ids, `UNKNOWN_REFERENCE` for other objects.
+ *
+ * @param reference - Dangling reference from {@link validateReferentialIntegrity} or {@link findPendingDanglingReferences}
+ * @returns The code to report the reference with
+ */
+export function danglingReferenceCode(reference: Pick<DanglingReference, 'targetType'>): OcpErrorCode {
+  return reference.targetType === 'SECURITY' ? OcpErrorCodes.UNKNOWN_SECURITY : OcpErrorCodes.UNKNOWN_REFERENCE;
+}
+
+/**
+ * Find the references of pending batch operations that would not resolve once the batch is applied.
+ *
+ * References made by pending creates and edits are checked against the objects and security ids of `state`, plus the
+ * pending creates, minus the pending deletes. Objects already on-chain are not re-checked, so deleting an object that
+ * an existing object still references is not detected.
+ *
+ * @param state - Current cap table state (from getCapTableState)
+ * @param pending - Native payloads of pending creates and edits, and pending deletes
+ * @returns Dangling references of the pending creates and edits, in batch order
+ *
+ * @example
+ * ```typescript
+ * const state = await getCapTableState(client, issuerPartyId);
+ * const dangling = findPendingDanglingReferences(state, { creates: [stockIssuance], edits: [], deletes: [] });
+ * ```
+ */
+export function findPendingDanglingReferences(
+  state: Pick<CapTableState, 'entities' | 'securityIds'>,
+  pending: PendingReferenceChanges
+): DanglingReference[] {
+  const index: ReferenceIndex = { objects: new Map(), securityIds: new Set() };
+  for (const [entityType, ids] of state.entities) {
+    index.objects.set(normalizeObjectType(ENTITY_OBJECT_TYPE_MAP[entityType]), new Set(ids));
+  }
+  for (const ids of state.securityIds.values()) {
+    for (const id of ids) index.securityIds.add(id);
+  }
+  for (const object of pending.creates) addObject(index, object, '');
+  for (const { entityType, id } of pending.deletes) {
+    index.objects.get(normalizeObjectType(ENTITY_OBJECT_TYPE_MAP[entityType]))?.delete(id);
+  }
+
+  return findDangling(
+    [...pending.creates, ...pending.edits].map((object) => ({ object, fallbackType: '' })),
+    index
+  );
+}
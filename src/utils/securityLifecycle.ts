@@ -0,0 +1,120 @@
+/**
+ * Security lifecycle validation.
+ *
+ * Checks that the transactions of every stock, equity compensation, warrant and convertible security follow a legal
+ * sequence: a security is issued once, is only consumed (transferred, exercised, converted, cancelled, ...) while it
+ * is outstanding and by a transaction for its kind, is never consumed for more than it holds, and is not accepted
+ * after it was retracted. The rules are those of {@link computeCapTablePositions}; instead of stopping at the first
+ * error, every violation is collected as a coded {@link OcpValidationError}.
+ *
+ * @module securityLifecycle
+ */
+
+import type { OcpErrorCode } from '../errors/codes';
+import type { OcpValidationError } from '../errors/OcpValidationError';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { computeCapTablePositions } from './capTablePositions';
+import { normalizeObjectType } from './planSecurityAliases';
+
+// ===== Types =====
+
+/** A transaction that breaks the lifecycle of a security. */
+export interface SecurityLifecycleViolation {
+  code: OcpErrorCode;
+  transactionId: string;
+  objectType: string;
+  /** Security named by the transaction; null for transactions naming several (consolidations) */
+  securityId: string | null;
+  fieldPath: string;
+  message: string;
+  /** The error {@link computeCapTablePositions} would throw, ready to be rethrown */
+  error: OcpValidationError;
+}
+
+/** Result of {@link validateSecurityLifecycle}. */
+export interface SecurityLifecycleReport {
+  /** True when every transaction follows a legal sequence */
+  valid: boolean;
+  /** Violations in ledger order */
+  violations: SecurityLifecycleViolation[];
+}
+
+// ===== Helpers =====
+
+function collectViolations(transactions: Array<Record<string, unknown>>): SecurityLifecycleViolation[] {
+  const violations: SecurityLifecycleViolation[] = [];
+  computeCapTablePositions(
+    { transactions },
+    {
+      onViolation: (error, tx) => {
+        violations.push({
+          code: error.code,
+          transactionId: String(tx.id),
+          objectType: normalizeObjectType(typeof tx.object_type === 'string' ? tx.object_type : ''),
+          securityId: typeof tx.security_id === 'string' ? tx.security_id : null,
+          fieldPath: error.fieldPath,
+          message: error.message,
+          error,
+        });
+      },
+    }
+  );
+  return violations;
+}
+
+function violationKey(violation: SecurityLifecycleViolation): string {
+  return `${violation.transactionId}\u0000${violation.fieldPath}\u0000${violation.code}`;
+}
+
+// ===== Lifecycle Validation =====
+
+/**
+ * Validate the lifecycle of every security in a manifest.
+ *
+ * Transactions are replayed in ledger order (see {@link sortTransactions}). A transaction that breaks a rule is
+ * reported and skipped, so a later transaction on the same security is checked against the state before it.
+ *
+ * @param manifest - Manifest whose transactions should be checked
+ * @returns Validity flag and the violations, coded `UNKNOWN_SECURITY`, `INVALID_SECURITY_STATE`, `OUT_OF_RANGE`,
+ *   `REQUIRED_FIELD_MISSING` or `INVALID_FORMAT`
+ *
+ * @example
+ * ```typescript
+ * const { valid, violations } = validateSecurityLifecycle(manifest);
+ * for (const violation of violations) {
+ *   console.log(`[${violation.code}] ${violation.transactionId}: ${violation.message}`);
+ * }
+ * ```
+ */
+export function validateSecurityLifecycle(manifest: Pick<OcfManifest, 'transactions'>): SecurityLifecycleReport {
+  const violations = collectViolations(manifest.transactions);
+  return { valid: violations.length === 0, violations };
+}
+
+/**
+ * Find the lifecycle violations introduced by pending transactions.
+ *
+ * Pending transactions are replayed together with the manifest. Violations the manifest already has on its own are
+ * left out, so the result lists pending transactions that break a rule, and existing transactions that only break one
+ * because a pending transaction is sorted before them.
+ *
+ * @param manifest - Current manifest
+ * @param pending - Transactions about to be submitted
+ * @returns Violations introduced by `pending`, in ledger order; empty when the pending transactions are legal
+ *
+ * @example
+ * ```typescript
+ * const violations = findSecurityLifecycleViolations(manifest, { transactions: [exercise] });
+ * if (violations.length > 0) throw violations[0].error;
+ * ```
+ */
+export function findSecurityLifecycleViolations(
+  manifest: Pick<OcfManifest, 'transactions'>,
+  pending: Pick<OcfManifest, 'transactions'>
+): SecurityLifecycleViolation[] {
+  if (pending.transactions.length === 0) return [];
+  const existing = new Set(collectViolations(manifest.transactions).map(violationKey));
+  return collectViolations([...manifest.transactions, ...pending.transactions]).filter(
+    (violation) => !existing.has(violationKey(violation))
+  );
+}
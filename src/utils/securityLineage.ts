@@ -0,0 +1,287 @@
+/**
+ * Security lineage graph.
+ *
+ * OCF links securities through the transactions that consume them: transfers, conversions, exercises, repurchases,
+ * reissuances and consolidations list the securities they produce in `resulting_security_ids` (or
+ * `resulting_security_id`) and the remainder in `balance_security_id`. This module turns those links into a graph
+ * that can be walked backwards ("where did this security come from") and forwards ("what did it become").
+ *
+ * Unlike {@link computeCapTablePositions}, the graph never throws on inconsistent data: links to securities that were
+ * never issued are reported as broken links and circular chains as cycles, so the graph can be used to investigate
+ * the manifests the position engine rejects, such as the `SecurityIdConflict` results of `computeReplicationDiff`.
+ *
+ * @module securityLineage
+ */
+
+import type { OcfManifest } from './cantonOcfExtractor';
+import { sortTransactions } from './cantonOcfExtractor';
+import type { SecurityKind } from './capTablePositions';
+import { normalizeObjectType } from './planSecurityAliases';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** A security issued by the manifest. */
+export interface LineageNode {
+  securityId: string;
+  kind: SecurityKind;
+  stakeholderId: string | null;
+  /** Id of the issuance transaction */
+  issuedBy: string;
+  issueDate: string | null;
+}
+
+/** How a security was produced from its source. */
+export type LineageRelation = 'RESULT' | 'BALANCE';
+
+/** A link from a consumed security to a security its consuming transaction produced. */
+export interface LineageEdge {
+  fromSecurityId: string;
+  toSecurityId: string;
+  relation: LineageRelation;
+  transactionId: string;
+  objectType: string;
+  date: string | null;
+}
+
+/** A transaction field referencing a security that no issuance in the manifest produced. */
+export interface BrokenLineageLink {
+  transactionId: string;
+  objectType: string;
+  /** Field holding the reference, e.g. `resulting_security_ids.0` */
+  field: string;
+  securityId: string;
+}
+
+/** Result of {@link buildSecurityLineage}. */
+export interface SecurityLineageGraph {
+  /** Issued securities keyed by security_id, in issuance order */
+  nodes: Map<string, LineageNode>;
+  /** Links in ledger order */
+  edges: LineageEdge[];
+  brokenLinks: BrokenLineageLink[];
+  /** Each circular chain once, as security ids in link order starting from the first one issued */
+  cycles: string[][];
+}
+
+/** One step of a lineage walk. */
+export interface LineageStep {
+  edge: LineageEdge;
+  /** Number of links between the starting security and the far end of `edge` (1 for direct links) */
+  depth: number;
+}
+
+// ===== Helpers =====
+
+const ISSUANCE_KINDS: Record<string, SecurityKind> = {
+  TX_STOCK_ISSUANCE: 'STOCK',
+  TX_EQUITY_COMPENSATION_ISSUANCE: 'EQUITY_COMPENSATION',
+  TX_WARRANT_ISSUANCE: 'WARRANT',
+  TX_CONVERTIBLE_ISSUANCE: 'CONVERTIBLE',
+};
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readIdList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string' && id.length > 0) : [];
+}
+
+/** Security ids consumed by a transaction, with the field they were read from. */
+function readSources(tx: Record<string, unknown>): Array<{ securityId: string; field: string }> {
+  const single = readString(tx.security_id);
+  if (single) return [{ securityId: single, field: 'security_id' }];
+  return readIdList(tx.security_ids).map((securityId, index) => ({ securityId, field: `security_ids.${index}` }));
+}
+
+interface ProducedReference {
+  securityId: string;
+  field: string;
+  relation: LineageRelation;
+}
+
+/** Security ids produced by a transaction, with the field they were read from. */
+function readProduced(tx: Record<string, unknown>): ProducedReference[] {
+  const produced = readIdList(tx.resulting_security_ids).map((securityId, index): ProducedReference => ({
+    securityId,
+    field: `resulting_security_ids.${index}`,
+    relation: 'RESULT',
+  }));
+  const resulting = readString(tx.resulting_security_id);
+  if (resulting) produced.push({ securityId: resulting, field: 'resulting_security_id', relation: 'RESULT' });
+  const balance = readString(tx.balance_security_id);
+  if (balance) produced.push({ securityId: balance, field: 'balance_security_id', relation: 'BALANCE' });
+  return produced;
+}
+
+/** Find each elementary cycle once with a depth-first search over the outgoing links. */
+function findCycles(nodeIds: string[], outgoing: Map<string, LineageEdge[]>): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const state = new Map<string, 'ACTIVE' | 'DONE'>();
+  const path: string[] = [];
+  const order = new Map(nodeIds.map((securityId, index) => [securityId, index]));
+
+  const visit = (securityId: string) => {
+    state.set(securityId, 'ACTIVE');
+    path.push(securityId);
+    for (const edge of outgoing.get(securityId) ?? []) {
+      const next = edge.toSecurityId;
+      if (state.get(next) === 'ACTIVE') {
+        const loop = path.slice(path.indexOf(next));
+        const start = loop.indexOf(
+          loop.reduce((first, id) => ((order.get(id) ?? 0) < (order.get(first) ?? 0) ? id : first))
+        );
+        const cycle = [...loop.slice(start), ...loop.slice(0, start)];
+        const key = [...cycle].sort().join('\u0000');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    path.pop();
+    state.set(securityId, 'DONE');
+  };
+
+  for (const securityId of nodeIds) {
+    if (!state.has(securityId)) visit(securityId);
+  }
+  return cycles;
+}
+
+function walk(graph: SecurityLineageGraph, securityId: string, direction: 'FORWARD' | 'BACKWARD'): LineageStep[] {
+  const index = new Map<string, LineageEdge[]>();
+  for (const edge of graph.edges) {
+    const key = direction === 'FORWARD' ? edge.fromSecurityId : edge.toSecurityId;
+    index.set(key, [...(index.get(key) ?? []), edge]);
+  }
+
+  const steps: LineageStep[] = [];
+  const visited = new Set([securityId]);
+  let frontier = [securityId];
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const edge of index.get(current) ?? []) {
+        steps.push({ edge, depth });
+        const far = direction === 'FORWARD' ? edge.toSecurityId : edge.fromSecurityId;
+        if (!visited.has(far)) {
+          visited.add(far);
+          next.push(far);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return steps;
+}
+
+// ===== Lineage =====
+
+/**
+ * Build the lineage graph of every security in a manifest.
+ *
+ * @param manifest - Manifest with transactions
+ * @returns Issued securities, the links between them, and any broken links or cycles
+ *
+ * @example
+ * ```typescript
+ * const graph = buildSecurityLineage(manifest);
+ * for (const link of graph.brokenLinks) {
+ *   console.warn(`${link.transactionId}.${link.field} references unknown security ${link.securityId}`);
+ * }
+ * ```
+ */
+export function buildSecurityLineage(manifest: Pick<OcfManifest, 'transactions'>): SecurityLineageGraph {
+  const transactions = sortTransactions(manifest.transactions.filter(isRecord));
+  const nodes = new Map<string, LineageNode>();
+  for (const tx of transactions) {
+    const objectType = normalizeObjectType(typeof tx.object_type === 'string' ? tx.object_type : '');
+    const kind = ISSUANCE_KINDS[objectType] as SecurityKind | undefined;
+    const securityId = readString(tx.security_id);
+    if (!kind || !securityId || nodes.has(securityId)) continue;
+    nodes.set(securityId, {
+      securityId,
+      kind,
+      stakeholderId: readString(tx.stakeholder_id),
+      issuedBy: String(tx.id),
+      issueDate: readString(tx.date),
+    });
+  }
+
+  const edges: LineageEdge[] = [];
+  const brokenLinks: BrokenLineageLink[] = [];
+  for (const tx of transactions) {
+    const objectType = normalizeObjectType(typeof tx.object_type === 'string' ? tx.object_type : '');
+    if (objectType in ISSUANCE_KINDS) continue;
+
+    const transactionId = String(tx.id);
+    const sources = readSources(tx);
+    const produced = readProduced(tx);
+    for (const reference of [...sources, ...produced]) {
+      if (!nodes.has(reference.securityId)) {
+        brokenLinks.push({ transactionId, objectType, field: reference.field, securityId: reference.securityId });
+      }
+    }
+    for (const source of sources) {
+      for (const target of produced) {
+        edges.push({
+          fromSecurityId: source.securityId,
+          toSecurityId: target.securityId,
+          relation: target.relation,
+          transactionId,
+          objectType,
+          date: readString(tx.date),
+        });
+      }
+    }
+  }
+
+  const outgoing = new Map<string, LineageEdge[]>();
+  for (const edge of edges) {
+    outgoing.set(edge.fromSecurityId, [...(outgoing.get(edge.fromSecurityId) ?? []), edge]);
+  }
+  const nodeIds = [...new Set([...nodes.keys(), ...edges.map((edge) => edge.fromSecurityId)])];
+  return { nodes, edges, brokenLinks, cycles: findCycles(nodeIds, outgoing) };
+}
+
+/**
+ * Walk back from a security to the securities it came from.
+ *
+ * @param graph - Graph built by {@link buildSecurityLineage}
+ * @param securityId - Security to trace
+ * @returns Links leading to the security, nearest first; each link is reported once even when the chain is cyclic
+ *
+ * @example
+ * ```typescript
+ * for (const { edge, depth } of getSecurityAncestors(graph, 'cs-7')) {
+ *   console.log(`${'  '.repeat(depth - 1)}${edge.fromSecurityId} via ${edge.objectType} ${edge.transactionId}`);
+ * }
+ * ```
+ */
+export function getSecurityAncestors(graph: SecurityLineageGraph, securityId: string): LineageStep[] {
+  return walk(graph, securityId, 'BACKWARD');
+}
+
+/**
+ * Walk forward from a security to the securities it became.
+ *
+ * @param graph - Graph built by {@link buildSecurityLineage}
+ * @param securityId - Security to trace
+ * @returns Links leading away from the security, nearest first; each link is reported once even when the chain is
+ *   cyclic
+ *
+ * @example
+ * ```typescript
+ * const current = getSecurityDescendants(graph, 'cs-1')
+ *   .map((step) => step.edge.toSecurityId)
+ *   .filter((securityId) => positions.securities.get(securityId)?.status === 'OUTSTANDING');
+ * ```
+ */
+export function getSecurityDescendants(graph: SecurityLineageGraph, securityId: string): LineageStep[] {
+  return walk(graph, securityId, 'FORWARD');
+}
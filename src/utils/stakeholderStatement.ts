@@ -0,0 +1,289 @@
+/**
+ * Per-stakeholder holdings statements.
+ *
+ * Builds the statement a stakeholder receives about their own holdings: every outstanding stock position, option,
+ * warrant and convertible they hold on a given date, with vesting status, exercise price, expiration and outstanding
+ * quantity. Statements are plain JSON-serializable objects and can be rendered as a printable HTML page.
+ *
+ * A statement only carries data about its stakeholder and the classes and plans they hold: other stakeholders, the
+ * securities a holding was transferred from, and cap table totals are left out so it can be shared with the
+ * stakeholder as is.
+ *
+ * @module stakeholderStatement
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type { Monetary } from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import type { SecurityKind } from './capTablePositions';
+import { computeCapTableSnapshot, type SnapshotStakeholder, type VestingScheduleSource } from './capTableSnapshot';
+import { sumMonetary, type ReportingCurrencyOptions } from './currency';
+import { addDecimals } from './decimalMath';
+import { applyStockSplits } from './stockSplits';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** Vesting status of a holding on the statement date. */
+export interface StatementVesting {
+  source: VestingScheduleSource;
+  /** Vested quantity, or null when the referenced vesting terms are not in the manifest */
+  vested: string | null;
+  unvested: string | null;
+}
+
+/** A single outstanding security of the stakeholder. */
+export interface StatementHolding {
+  securityId: string;
+  kind: SecurityKind;
+  issueDate: string;
+  stockClassId: string | null;
+  stockClassName: string | null;
+  stockPlanId: string | null;
+  stockPlanName: string | null;
+  /** Quantity issued after stock class splits; the investment amount for convertibles */
+  quantity: string | null;
+  outstandingQuantity: string | null;
+  /** Currency of `quantity` for convertibles; null for share-denominated securities */
+  currency: string | null;
+  /** Current exercise price of an option or warrant, after repricings and splits */
+  exercisePrice: Monetary | null;
+  /** Expiration date of an option or warrant */
+  expirationDate: string | null;
+  /** Vesting status; null for convertibles */
+  vesting: StatementVesting | null;
+  accepted: boolean;
+}
+
+/** Outstanding totals of a statement. */
+export interface StatementTotals {
+  shares: string;
+  options: string;
+  warrants: string;
+  /** Outstanding convertible amounts per currency */
+  convertibles: Monetary[];
+  /** Sum of `convertibles` in the reporting currency; only set when one is requested */
+  convertiblesInReportingCurrency?: Monetary;
+}
+
+/** Options for {@link computeStakeholderStatement}. */
+export interface StakeholderStatementOptions {
+  /** Currency and FX rates to total convertible amounts in; rates default to those in effect on the statement date */
+  reportingCurrency?: ReportingCurrencyOptions;
+}
+
+/** Result of {@link computeStakeholderStatement}. */
+export interface StakeholderStatement {
+  asOfDate: string;
+  issuerName: string | null;
+  stakeholder: SnapshotStakeholder;
+  /** Outstanding securities in issuance order */
+  holdings: StatementHolding[];
+  totals: StatementTotals;
+}
+
+// ===== Helpers =====
+
+const KIND_LABELS: Record<SecurityKind, string> = {
+  STOCK: 'Stock',
+  EQUITY_COMPENSATION: 'Equity compensation',
+  WARRANT: 'Warrant',
+  CONVERTIBLE: 'Convertible',
+};
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readNames(
+  entities: Array<Record<string, unknown>>,
+  nameField: 'name' | 'plan_name'
+): Map<string, string | null> {
+  return new Map(entities.map((entity) => [String(entity.id), readString(entity[nameField])]));
+}
+
+function readExpirationDate(kind: SecurityKind, issuance: Record<string, unknown>): string | null {
+  if (kind === 'EQUITY_COMPENSATION') return readString(issuance.expiration_date);
+  if (kind === 'WARRANT') return readString(issuance.warrant_expiration_date);
+  return null;
+}
+
+function summarize(holdings: StatementHolding[], reportingCurrency?: ReportingCurrencyOptions): StatementTotals {
+  const totals: StatementTotals = { shares: '0', options: '0', warrants: '0', convertibles: [] };
+  for (const holding of holdings) {
+    const outstanding = holding.outstandingQuantity ?? '0';
+    if (holding.kind === 'STOCK') totals.shares = addDecimals(totals.shares, outstanding);
+    if (holding.kind === 'EQUITY_COMPENSATION') totals.options = addDecimals(totals.options, outstanding);
+    if (holding.kind === 'WARRANT') totals.warrants = addDecimals(totals.warrants, outstanding);
+    if (holding.kind === 'CONVERTIBLE') {
+      const currency = holding.currency ?? '';
+      const existing = totals.convertibles.find((amount) => amount.currency === currency);
+      if (existing) existing.amount = addDecimals(existing.amount, outstanding);
+      else totals.convertibles.push({ amount: outstanding, currency });
+    }
+  }
+  if (reportingCurrency) totals.convertiblesInReportingCurrency = sumMonetary(totals.convertibles, reportingCurrency);
+  return totals;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatMonetary(value: Monetary | null): string {
+  return value ? `${value.amount} ${value.currency}` : '';
+}
+
+// ===== Statement =====
+
+/**
+ * Build the holdings statement of one stakeholder as of a date.
+ *
+ * @param manifest - Full manifest; transactions after `asOfDate` are ignored
+ * @param stakeholderId - Stakeholder the statement is for
+ * @param asOfDate - Statement date (YYYY-MM-DD); transactions on that date are included
+ * @param options - Reporting currency to total convertible amounts in, with {@link sumMonetary}
+ * @returns The stakeholder's outstanding holdings and totals
+ * @throws OcpValidationError if `asOfDate` is not a valid ISO date or the stakeholder is not in the manifest, plus any
+ *   error raised while replaying positions or, with a reporting currency, by {@link sumMonetary}
+ *
+ * @example
+ * ```typescript
+ * const statement = computeStakeholderStatement(manifest, 'sh-jane', '2024-12-31');
+ * await fs.writeFile('statement.json', JSON.stringify(statement, null, 2));
+ * ```
+ */
+export function computeStakeholderStatement(
+  manifest: OcfManifest,
+  stakeholderId: string,
+  asOfDate: string,
+  options: StakeholderStatementOptions = {}
+): StakeholderStatement {
+  const snapshot = computeCapTableSnapshot(manifest, asOfDate);
+  const stakeholder = snapshot.stakeholders.find((candidate) => candidate.stakeholderId === stakeholderId);
+  if (!stakeholder) {
+    throw new OcpValidationError('stakeholderId', `Stakeholder '${stakeholderId}' is not in the manifest`, {
+      receivedValue: stakeholderId,
+      code: OcpErrorCodes.UNKNOWN_REFERENCE,
+    });
+  }
+
+  const { prices } = applyStockSplits({ stockClasses: manifest.stockClasses, transactions: snapshot.transactions });
+  const issuances = new Map(snapshot.transactions.map((tx) => [String(tx.id), tx]));
+  const vesting = new Map(snapshot.vesting.map((status) => [status.securityId, status]));
+  const classNames = readNames(manifest.stockClasses, 'name');
+  const planNames = readNames(manifest.stockPlans, 'plan_name');
+
+  const holdings = snapshot.holdings
+    .filter((position) => position.stakeholderId === stakeholderId)
+    .map((position): StatementHolding => {
+      const price = prices.get(position.securityId);
+      const status = vesting.get(position.securityId);
+      return {
+        securityId: position.securityId,
+        kind: position.kind,
+        issueDate: position.issueDate,
+        stockClassId: position.stockClassId,
+        stockClassName: position.stockClassId ? (classNames.get(position.stockClassId) ?? null) : null,
+        stockPlanId: position.stockPlanId,
+        stockPlanName: position.stockPlanId ? (planNames.get(position.stockPlanId) ?? null) : null,
+        quantity: position.quantity,
+        outstandingQuantity: position.outstandingQuantity,
+        currency: position.currency,
+        exercisePrice:
+          price?.field === 'exercise_price' && price.currency
+            ? { amount: price.amount, currency: price.currency }
+            : null,
+        expirationDate: readExpirationDate(position.kind, issuances.get(position.issuedBy) ?? {}),
+        vesting: status ? { source: status.source, vested: status.vested, unvested: status.unvested } : null,
+        accepted: position.accepted,
+      };
+    });
+
+  return {
+    asOfDate,
+    issuerName: isRecord(manifest.issuer) ? readString(manifest.issuer.legal_name) : null,
+    stakeholder,
+    holdings,
+    totals: summarize(holdings, options.reportingCurrency && { date: asOfDate, ...options.reportingCurrency }),
+  };
+}
+
+/**
+ * Render a holdings statement as a self-contained, printable HTML page.
+ *
+ * @param statement - Statement built by {@link computeStakeholderStatement}
+ * @returns HTML document with every value escaped
+ *
+ * @example
+ * ```typescript
+ * const html = renderStakeholderStatementHtml(computeStakeholderStatement(manifest, 'sh-jane', '2024-12-31'));
+ * await fs.writeFile('statement.html', html);
+ * ```
+ */
+export function renderStakeholderStatementHtml(statement: StakeholderStatement): string {
+  const name = statement.stakeholder.name ?? statement.stakeholder.stakeholderId;
+  const title = `Holdings statement for ${name} as of ${statement.asOfDate}`;
+  const cell = (value: string | null) => `<td>${escapeHtml(value ?? '')}</td>`;
+
+  const rows = statement.holdings.map((holding) =>
+    [
+      '<tr>',
+      cell(holding.securityId),
+      cell(KIND_LABELS[holding.kind]),
+      cell([holding.stockClassName, holding.stockPlanName].filter(Boolean).join(' / ')),
+      cell(holding.issueDate),
+      cell(holding.currency ? `${holding.quantity ?? ''} ${holding.currency}` : holding.quantity),
+      cell(holding.outstandingQuantity),
+      cell(formatMonetary(holding.exercisePrice)),
+      cell(holding.expirationDate),
+      cell(holding.vesting?.vested ?? null),
+      cell(holding.vesting?.unvested ?? null),
+      '</tr>',
+    ].join('')
+  );
+  const totals = [
+    ['Shares', statement.totals.shares],
+    ['Options', statement.totals.options],
+    ['Warrants', statement.totals.warrants],
+    ...statement.totals.convertibles.map((amount) => ['Convertibles', formatMonetary(amount)]),
+    ...(statement.totals.convertiblesInReportingCurrency
+      ? [['Convertibles (total)', formatMonetary(statement.totals.convertiblesInReportingCurrency)]]
+      : []),
+  ].map(([label, value]) => `<tr><th>${escapeHtml(label)}</th>${cell(value)}</tr>`);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '<style>',
+    'body { font-family: sans-serif; margin: 2em; }',
+    'table { border-collapse: collapse; margin-bottom: 1.5em; }',
+    'th, td { border: 1px solid #999; padding: 0.3em 0.6em; text-align: left; }',
+    '@media print { body { margin: 0; } }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(statement.issuerName ?? 'Holdings statement')}</h1>`,
+    `<h2>${escapeHtml(title)}</h2>`,
+    '<table>',
+    '<thead><tr><th>Security</th><th>Type</th><th>Class / plan</th><th>Issued</th><th>Quantity</th>' +
+      '<th>Outstanding</th><th>Exercise price</th><th>Expires</th><th>Vested</th><th>Unvested</th></tr></thead>',
+    `<tbody>${rows.join('')}</tbody>`,
+    '</table>',
+    '<table>',
+    `<tbody>${totals.join('')}</tbody>`,
+    '</table>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
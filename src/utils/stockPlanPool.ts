@@ -0,0 +1,245 @@
+/**
+ * Stock plan pool availability.
+ *
+ * Tracks how much of each stock plan reservation is still available to grant: the pool starts at
+ * `initial_shares_reserved`, is reset by `TX_STOCK_PLAN_POOL_ADJUSTMENT`, is drawn down by equity compensation and
+ * plan stock issuances, and is refilled by cancellations and `TX_STOCK_PLAN_RETURN_TO_POOL` according to the plan's
+ * {@link StockPlanCancellationBehavior}.
+ *
+ * @module stockPlanPool
+ */
+
+import type { StockPlanCancellationBehavior } from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { sortTransactions } from './cantonOcfExtractor';
+import { computeCapTablePositions, type CapTablePositions, type SecurityPosition } from './capTablePositions';
+import { addDecimals, compareDecimals, subtractDecimals } from './decimalMath';
+import { normalizeObjectType } from './planSecurityAliases';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** Pool accounting for a single stock plan. */
+export interface StockPlanPool {
+  stockPlanId: string;
+  planName: string;
+  stockClassIds: string[];
+  /** Behavior applied to cancelled plan securities; plans without one are treated as `RETURN_TO_POOL` */
+  cancellationBehavior: StockPlanCancellationBehavior;
+  /** Initial reservation, replaced by the latest pool adjustment */
+  reserved: string;
+  /** Equity compensation and plan stock originally issued from the pool (exercises and transfers are not re-counted) */
+  allocated: string;
+  /** Outstanding equity compensation granted under the plan */
+  granted: string;
+  /** Shares delivered from the plan: exercised or released awards and stock issued directly under the plan */
+  issued: string;
+  /** Quantity cancelled on plan securities, whatever the cancellation behavior */
+  cancelled: string;
+  /** Quantity added back to the pool by cancellations, retractions and return-to-pool transactions */
+  returnedToPool: string;
+  /** `reserved - allocated + returnedToPool`; negative when the plan is over-granted */
+  available: string;
+}
+
+/** A stock plan whose pool would be exceeded by pending issuances. */
+export interface StockPlanPoolOverage {
+  stockPlanId: string;
+  planName: string;
+  /** Pool available before the pending transactions */
+  availableBefore: string;
+  /** Pool available after the pending transactions (negative) */
+  availableAfter: string;
+  /** Quantity requested by the pending issuances under the plan */
+  requested: string;
+  /** Pending issuances under the plan */
+  securityIds: string[];
+}
+
+// ===== Helpers =====
+
+const DEFAULT_CANCELLATION_BEHAVIOR: StockPlanCancellationBehavior = 'RETURN_TO_POOL';
+
+const PLAN_DRAWING_TYPES = new Set(['TX_EQUITY_COMPENSATION_ISSUANCE', 'TX_STOCK_ISSUANCE']);
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readQuantity(value: unknown): string {
+  if (typeof value === 'number') return value.toString();
+  return typeof value === 'string' && value.length > 0 ? value : '0';
+}
+
+function planStockClassIds(plan: Record<string, unknown>): string[] {
+  const ids = Array.isArray(plan.stock_class_ids)
+    ? plan.stock_class_ids.filter((id): id is string => typeof id === 'string' && id.length > 0)
+    : [];
+  const legacy = readString(plan.stock_class_id);
+  return ids.length > 0 ? ids : legacy ? [legacy] : [];
+}
+
+function readCancellationBehavior(plan: Record<string, unknown>): StockPlanCancellationBehavior {
+  const behavior = readString(plan.default_cancellation_behavior);
+  return (behavior as StockPlanCancellationBehavior | null) ?? DEFAULT_CANCELLATION_BEHAVIOR;
+}
+
+/** Quantity a consumed plan security gives back to the pool without an explicit return-to-pool transaction. */
+function implicitReturn(position: SecurityPosition, behavior: StockPlanCancellationBehavior): string {
+  // A retraction voids the issuance entirely, so the reservation is always restored
+  if (position.status === 'RETRACTED') return position.consumedQuantity ?? position.quantity ?? '0';
+  if (position.status === 'CANCELLED' && behavior === 'RETURN_TO_POOL') return position.consumedQuantity ?? '0';
+  return '0';
+}
+
+// ===== Pool Tracking =====
+
+/**
+ * Compute pool availability for every stock plan in a manifest.
+ *
+ * Cancellations follow the plan's `default_cancellation_behavior`:
+ * - `RETURN_TO_POOL` (also used when the plan has none): the cancelled quantity returns to the pool automatically.
+ * - `RETIRE` and `HOLD_AS_CAPITAL_STOCK`: the cancelled quantity leaves the pool for good.
+ * - `DEFINED_PER_PLAN_SECURITY`: only explicit `TX_STOCK_PLAN_RETURN_TO_POOL` transactions refill the pool.
+ *
+ * Explicit return-to-pool transactions always refill the pool, except for securities whose cancellation was already
+ * returned automatically. Retracted plan securities always restore their reservation.
+ *
+ * @param manifest - Manifest with stock plans and transactions
+ * @param positions - Positions already computed for the same manifest, to avoid replaying it twice
+ * @returns One pool entry per stock plan, in manifest order
+ * @throws OcpValidationError raised by {@link computeCapTablePositions} for inconsistent security histories
+ *
+ * @example
+ * ```typescript
+ * const manifest = await extractCantonOcfManifest(client, cantonState);
+ * for (const pool of computeStockPlanPools(manifest)) {
+ *   console.log(pool.planName, pool.available);
+ * }
+ * ```
+ */
+export function computeStockPlanPools(
+  manifest: Pick<OcfManifest, 'stockPlans' | 'transactions'>,
+  positions: CapTablePositions = computeCapTablePositions(manifest)
+): StockPlanPool[] {
+  const pools = new Map<string, StockPlanPool>();
+  for (const plan of manifest.stockPlans) {
+    const stockPlanId = readString(plan.id);
+    if (!stockPlanId) continue;
+    pools.set(stockPlanId, {
+      stockPlanId,
+      planName: readString(plan.plan_name) ?? stockPlanId,
+      stockClassIds: planStockClassIds(plan),
+      cancellationBehavior: readCancellationBehavior(plan),
+      reserved: readQuantity(plan.initial_shares_reserved),
+      allocated: '0',
+      granted: '0',
+      issued: '0',
+      cancelled: '0',
+      returnedToPool: '0',
+      available: '0',
+    });
+  }
+
+  const returnedImplicitly = new Set<string>();
+  for (const position of positions.securities.values()) {
+    const pool = position.stockPlanId ? pools.get(position.stockPlanId) : undefined;
+    if (!pool || (position.kind !== 'EQUITY_COMPENSATION' && position.kind !== 'STOCK')) continue;
+
+    // Securities produced by an exercise, transfer or partial cancellation were already drawn at their source
+    if (position.sourceSecurityId === null) {
+      pool.allocated = addDecimals(pool.allocated, position.quantity ?? '0');
+      if (position.kind === 'STOCK') pool.issued = addDecimals(pool.issued, position.quantity ?? '0');
+    }
+    if (position.kind === 'EQUITY_COMPENSATION') {
+      if (position.status === 'OUTSTANDING') {
+        pool.granted = addDecimals(pool.granted, position.quantity ?? '0');
+      } else if (position.status === 'EXERCISED' || position.status === 'RELEASED') {
+        pool.issued = addDecimals(pool.issued, position.consumedQuantity ?? '0');
+      }
+    }
+    if (position.status === 'CANCELLED') {
+      pool.cancelled = addDecimals(pool.cancelled, position.consumedQuantity ?? '0');
+    }
+
+    const returned = implicitReturn(position, pool.cancellationBehavior);
+    if (compareDecimals(returned, '0') > 0) {
+      pool.returnedToPool = addDecimals(pool.returnedToPool, returned);
+      returnedImplicitly.add(position.securityId);
+    }
+  }
+
+  for (const tx of sortTransactions(manifest.transactions.filter(isRecord))) {
+    const pool = pools.get(readString(tx.stock_plan_id) ?? '');
+    if (!pool) continue;
+    if (tx.object_type === 'TX_STOCK_PLAN_POOL_ADJUSTMENT') {
+      pool.reserved = readQuantity(tx.shares_reserved);
+    } else if (
+      tx.object_type === 'TX_STOCK_PLAN_RETURN_TO_POOL' &&
+      !returnedImplicitly.has(readString(tx.security_id) ?? '')
+    ) {
+      pool.returnedToPool = addDecimals(pool.returnedToPool, readQuantity(tx.quantity));
+    }
+  }
+
+  for (const pool of pools.values()) {
+    pool.available = addDecimals(subtractDecimals(pool.reserved, pool.allocated), pool.returnedToPool);
+  }
+  return [...pools.values()];
+}
+
+/**
+ * Find stock plans whose pool would be exceeded once pending transactions are applied.
+ *
+ * Pending transactions are replayed together with the manifest, so pending pool adjustments, cancellations and new
+ * stock plans are taken into account. Only plans that receive a pending equity compensation or plan stock issuance
+ * and end up with a negative pool are reported.
+ *
+ * @param manifest - Current manifest with stock plans and transactions
+ * @param pending - Stock plans and transactions about to be submitted
+ * @returns Over-granted plans; empty when every pending issuance fits its pool
+ * @throws OcpValidationError raised by {@link computeCapTablePositions} for inconsistent security histories
+ *
+ * @example
+ * ```typescript
+ * const overages = findStockPlanPoolOverages(manifest, { transactions: [optionGrant] });
+ * if (overages.length > 0) throw new Error(`Plan ${overages[0].planName} is over-granted`);
+ * ```
+ */
+export function findStockPlanPoolOverages(
+  manifest: Pick<OcfManifest, 'stockPlans' | 'transactions'>,
+  pending: Pick<OcfManifest, 'transactions'> & Partial<Pick<OcfManifest, 'stockPlans'>>
+): StockPlanPoolOverage[] {
+  const before = new Map(computeStockPlanPools(manifest).map((pool) => [pool.stockPlanId, pool]));
+  const after = computeStockPlanPools({
+    stockPlans: [...manifest.stockPlans, ...(pending.stockPlans ?? [])],
+    transactions: [...manifest.transactions, ...pending.transactions],
+  });
+
+  const requests = new Map<string, { requested: string; securityIds: string[] }>();
+  for (const tx of pending.transactions) {
+    const objectType = typeof tx.object_type === 'string' ? normalizeObjectType(tx.object_type) : null;
+    const stockPlanId = readString(tx.stock_plan_id);
+    if (!objectType || !PLAN_DRAWING_TYPES.has(objectType) || !stockPlanId) continue;
+    const request = requests.get(stockPlanId) ?? { requested: '0', securityIds: [] };
+    request.requested = addDecimals(request.requested, readQuantity(tx.quantity));
+    const securityId = readString(tx.security_id);
+    if (securityId) request.securityIds.push(securityId);
+    requests.set(stockPlanId, request);
+  }
+
+  return after.flatMap((pool) => {
+    const request = requests.get(pool.stockPlanId);
+    if (!request || compareDecimals(pool.available, '0') >= 0) return [];
+    return [
+      {
+        stockPlanId: pool.stockPlanId,
+        planName: pool.planName,
+        availableBefore: before.get(pool.stockPlanId)?.available ?? '0',
+        availableAfter: pool.available,
+        requested: request.requested,
+        securityIds: request.securityIds,
+      },
+    ];
+  });
+}
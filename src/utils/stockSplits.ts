@@ -0,0 +1,339 @@
+/**
+ * Stock class split adjustments.
+ *
+ * A `TX_STOCK_CLASS_SPLIT` multiplies every share of a class by `split_ratio.numerator / split_ratio.denominator`
+ * (a reverse split has a ratio below one). {@link computeCapTablePositions} already rescales the quantities of the
+ * positions outstanding at the split; this module layers the per-share terms on top of it so prices stay consistent
+ * with the new share counts:
+ * - stock share prices and option/warrant exercise prices are divided by the ratio,
+ * - the split class's `price_per_share` is divided by the ratio,
+ * - conversion rights into the split class convert into proportionally more shares at a proportionally lower price,
+ * - conversion rights of the split class into other classes convert proportionally fewer target shares per share.
+ *
+ * `TX_STOCK_CONSOLIDATION` merges individual securities rather than rescaling a class; the position engine replays it
+ * by consuming the consolidated securities into the resulting one.
+ *
+ * @module stockSplits
+ */
+
+import type { RoundingType } from '../types/native';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { sortTransactions } from './cantonOcfExtractor';
+import {
+  computeCapTablePositions,
+  type AppliedStockSplit,
+  type CapTablePositions,
+  type StockSplitRatio,
+} from './capTablePositions';
+import { divideDecimals, formatDecimal, multiplyDecimals, parseDecimal } from './decimalMath';
+import { normalizeObjectType } from './planSecurityAliases';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** Field rescaled by a stock class split. */
+export type StockSplitAdjustedField =
+  'quantity' | 'share_price' | 'exercise_price' | 'price_per_share' | 'conversion_ratio' | 'conversion_price';
+
+/** A single value changed by a stock class split. */
+export interface StockSplitAdjustment {
+  splitTransactionId: string;
+  date: string;
+  /** Whether `targetId` is a security id or a stock class id */
+  targetType: 'SECURITY' | 'STOCK_CLASS';
+  targetId: string;
+  field: StockSplitAdjustedField;
+  /** Value before the split; conversion ratios are written as `numerator/denominator` */
+  before: string;
+  after: string;
+}
+
+/** Options for {@link applyStockSplits}. */
+export interface ApplyStockSplitsOptions {
+  /**
+   * Rounding used to bring split-adjusted share quantities back to whole shares. When omitted, fractional shares
+   * produced by a split are kept. Prices and conversion ratios are never rounded to whole units.
+   */
+  rounding?: RoundingType;
+}
+
+/** Current share or exercise price of a security. */
+export interface SecurityPrice {
+  field: 'share_price' | 'exercise_price';
+  amount: string;
+  currency: string | null;
+}
+
+/** Result of {@link applyStockSplits}. */
+export interface StockSplitResult {
+  /** Positions with split-adjusted quantities */
+  positions: CapTablePositions;
+  /** Copies of the manifest's stock classes with split-adjusted prices and conversion rights, in manifest order */
+  stockClasses: Array<Record<string, unknown>>;
+  /** Every value changed by a split, in replay order */
+  adjustments: StockSplitAdjustment[];
+  /** Securities whose quantity or price changed, in the order they were first adjusted */
+  changedSecurityIds: string[];
+  /** Latest share or exercise price of each security after repricings and splits, keyed by security_id */
+  prices: Map<string, SecurityPrice>;
+}
+
+// ===== Helpers =====
+
+/** Price fields of issuance transactions, by security kind. */
+const PRICE_FIELDS: Record<string, 'share_price' | 'exercise_price'> = {
+  TX_STOCK_ISSUANCE: 'share_price',
+  TX_EQUITY_COMPENSATION_ISSUANCE: 'exercise_price',
+  TX_WARRANT_ISSUANCE: 'exercise_price',
+};
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readAmount(value: unknown): string | null {
+  const amount = isRecord(value) ? value.amount : null;
+  if (typeof amount === 'number') return amount.toString();
+  return readString(amount);
+}
+
+function readCurrency(value: unknown): string | null {
+  return isRecord(value) ? readString(value.currency) : null;
+}
+
+function normalize(value: string): string {
+  return formatDecimal(parseDecimal(value));
+}
+
+/** Per-share price after a split: `price * denominator / numerator`. */
+function splitPrice(amount: string, ratio: StockSplitRatio): string {
+  return divideDecimals(multiplyDecimals(amount, ratio.denominator), ratio.numerator);
+}
+
+/** Replace the `amount` of a Monetary value, keeping its currency. */
+function withAmount(value: unknown, amount: string): unknown {
+  return isRecord(value) ? { ...value, amount } : value;
+}
+
+function copyStockClass(stockClass: Record<string, unknown>): Record<string, unknown> {
+  const copy = { ...stockClass };
+  if (Array.isArray(stockClass.conversion_rights)) {
+    copy.conversion_rights = stockClass.conversion_rights.map((right: unknown) => {
+      if (!isRecord(right)) return right;
+      // Ratios and prices are replaced rather than mutated, so copying the mechanism is enough
+      const mechanism = right.conversion_mechanism;
+      return isRecord(mechanism) ? { ...right, conversion_mechanism: { ...mechanism } } : { ...right };
+    });
+  }
+  return copy;
+}
+
+/**
+ * Ratio and price holder of a conversion right. OCF nests them in `conversion_mechanism`; DAML passthrough rights
+ * store them flat on the right itself.
+ */
+interface ConversionTerms {
+  ratio: StockSplitRatio | null;
+  price: string | null;
+  setRatio(ratio: StockSplitRatio): void;
+  setPrice(amount: string): void;
+}
+
+function conversionTerms(right: Record<string, unknown>): ConversionTerms {
+  const mechanism = isRecord(right.conversion_mechanism) ? right.conversion_mechanism : null;
+  if (mechanism && (isRecord(mechanism.ratio) || isRecord(mechanism.conversion_price))) {
+    const ratio = isRecord(mechanism.ratio) ? mechanism.ratio : null;
+    const numerator = readString(ratio?.numerator);
+    const denominator = readString(ratio?.denominator);
+    return {
+      ratio: numerator && denominator ? { numerator, denominator } : null,
+      price: readAmount(mechanism.conversion_price),
+      setRatio: (next) => {
+        mechanism.ratio = { ...next };
+      },
+      setPrice: (amount) => {
+        mechanism.conversion_price = withAmount(mechanism.conversion_price, amount);
+      },
+    };
+  }
+  const numerator = readString(right.ratio_numerator);
+  const denominator = readString(right.ratio_denominator);
+  return {
+    ratio: numerator && denominator ? { numerator, denominator } : null,
+    price: readAmount(right.conversion_price),
+    setRatio: (next) => {
+      right.ratio_numerator = next.numerator;
+      right.ratio_denominator = next.denominator;
+    },
+    setPrice: (amount) => {
+      right.conversion_price = withAmount(right.conversion_price, amount);
+    },
+  };
+}
+
+function conversionRights(stockClass: Record<string, unknown>): Array<Record<string, unknown>> {
+  return Array.isArray(stockClass.conversion_rights) ? stockClass.conversion_rights.filter(isRecord) : [];
+}
+
+function formatRatio(ratio: StockSplitRatio): string {
+  return `${normalize(ratio.numerator)}/${normalize(ratio.denominator)}`;
+}
+
+// ===== Split Engine =====
+
+/**
+ * Apply every stock class split in a manifest to positions, prices and conversion ratios.
+ *
+ * Securities are adjusted only for splits that took effect while they were outstanding; securities issued afterwards
+ * (including those reissued for the split) already carry post-split terms. Equity compensation is tied to a class
+ * through its `stock_class_id` and warrants through the class their exercise triggers convert to, as in
+ * {@link computeCapTablePositions}. Exercise prices set by `TX_EQUITY_COMPENSATION_REPRICING` and conversion ratios set
+ * by `TX_STOCK_CLASS_CONVERSION_RATIO_ADJUSTMENT` are tracked, so later splits rescale the current terms.
+ *
+ * @param manifest - Manifest with stock classes and transactions
+ * @param options - Rounding applied to split-adjusted share quantities
+ * @returns Adjusted positions and stock classes plus every value the splits changed
+ * @throws OcpValidationError raised by {@link computeCapTablePositions} for inconsistent security histories or
+ *   invalid split ratios
+ *
+ * @example
+ * ```typescript
+ * const { positions, changedSecurityIds } = applyStockSplits(manifest, { rounding: 'FLOOR' });
+ * for (const securityId of changedSecurityIds) {
+ *   console.log(securityId, positions.securities.get(securityId)?.outstandingQuantity);
+ * }
+ * ```
+ */
+export function applyStockSplits(
+  manifest: Pick<OcfManifest, 'stockClasses' | 'transactions'>,
+  options: ApplyStockSplitsOptions = {}
+): StockSplitResult {
+  const positions = computeCapTablePositions(manifest, { splitRounding: options.rounding });
+  const splits = new Map<string, AppliedStockSplit>(positions.splits.map((split) => [split.transactionId, split]));
+  const stockClasses = manifest.stockClasses.map(copyStockClass);
+  const adjustments: StockSplitAdjustment[] = [];
+  const changedSecurityIds = new Set<string>();
+  const prices = new Map<string, SecurityPrice>();
+
+  const record = (
+    split: AppliedStockSplit,
+    targetType: StockSplitAdjustment['targetType'],
+    targetId: string,
+    field: StockSplitAdjustedField,
+    before: string,
+    after: string
+  ) => {
+    adjustments.push({
+      splitTransactionId: split.transactionId,
+      date: split.date,
+      targetType,
+      targetId,
+      field,
+      before,
+      after,
+    });
+    if (targetType === 'SECURITY') changedSecurityIds.add(targetId);
+  };
+
+  for (const tx of sortTransactions(manifest.transactions.filter(isRecord))) {
+    const objectType = normalizeObjectType(typeof tx.object_type === 'string' ? tx.object_type : '');
+    const securityId = readString(tx.security_id);
+
+    const priceField = PRICE_FIELDS[objectType] as SecurityPrice['field'] | undefined;
+    if (priceField && securityId) {
+      const amount = readAmount(tx[priceField]);
+      if (amount) {
+        prices.set(securityId, {
+          field: priceField,
+          amount: normalize(amount),
+          currency: readCurrency(tx[priceField]),
+        });
+      }
+      continue;
+    }
+
+    if (objectType === 'TX_EQUITY_COMPENSATION_REPRICING' && securityId) {
+      const amount = readAmount(tx.new_exercise_price);
+      if (amount) {
+        prices.set(securityId, {
+          field: 'exercise_price',
+          amount: normalize(amount),
+          currency: readCurrency(tx.new_exercise_price),
+        });
+      }
+      continue;
+    }
+
+    if (objectType === 'TX_STOCK_CLASS_CONVERSION_RATIO_ADJUSTMENT') {
+      const stockClass = stockClasses.find((candidate) => candidate.id === tx.stock_class_id);
+      const mechanism = isRecord(tx.new_ratio_conversion_mechanism) ? tx.new_ratio_conversion_mechanism : null;
+      const ratio = isRecord(mechanism?.ratio) ? mechanism.ratio : null;
+      const numerator = readString(ratio?.numerator) ?? readString(tx.new_ratio_numerator);
+      const denominator = readString(ratio?.denominator) ?? readString(tx.new_ratio_denominator);
+      const price = readAmount(mechanism?.conversion_price);
+      for (const right of stockClass ? conversionRights(stockClass) : []) {
+        const terms = conversionTerms(right);
+        if (numerator && denominator) terms.setRatio({ numerator, denominator });
+        if (price) terms.setPrice(price);
+      }
+      continue;
+    }
+
+    const split = objectType === 'TX_STOCK_CLASS_SPLIT' ? splits.get(String(tx.id)) : undefined;
+    if (!split) continue;
+
+    // ── Securities of the split class ──
+    for (const change of split.changes) {
+      record(split, 'SECURITY', change.securityId, 'quantity', change.before, change.after);
+      const price = prices.get(change.securityId);
+      if (price) {
+        const after = splitPrice(price.amount, split.ratio);
+        record(split, 'SECURITY', change.securityId, price.field, price.amount, after);
+        price.amount = after;
+      }
+    }
+
+    // ── Stock class terms ──
+    for (const stockClass of stockClasses) {
+      const stockClassId = readString(stockClass.id);
+      if (!stockClassId) continue;
+
+      const pricePerShare = stockClassId === split.stockClassId ? readAmount(stockClass.price_per_share) : null;
+      if (pricePerShare) {
+        const after = splitPrice(pricePerShare, split.ratio);
+        stockClass.price_per_share = withAmount(stockClass.price_per_share, after);
+        record(split, 'STOCK_CLASS', stockClassId, 'price_per_share', normalize(pricePerShare), after);
+      }
+
+      for (const right of conversionRights(stockClass)) {
+        const targetClassId = readString(right.converts_to_stock_class_id);
+        const intoSplitClass = targetClassId === split.stockClassId && stockClassId !== split.stockClassId;
+        const outOfSplitClass = stockClassId === split.stockClassId && targetClassId !== split.stockClassId;
+        if (!intoSplitClass && !outOfSplitClass) continue;
+
+        const terms = conversionTerms(right);
+        if (terms.ratio) {
+          const ratio = intoSplitClass
+            ? {
+                numerator: multiplyDecimals(terms.ratio.numerator, split.ratio.numerator),
+                denominator: multiplyDecimals(terms.ratio.denominator, split.ratio.denominator),
+              }
+            : {
+                numerator: multiplyDecimals(terms.ratio.numerator, split.ratio.denominator),
+                denominator: multiplyDecimals(terms.ratio.denominator, split.ratio.numerator),
+              };
+          terms.setRatio(ratio);
+          record(split, 'STOCK_CLASS', stockClassId, 'conversion_ratio', formatRatio(terms.ratio), formatRatio(ratio));
+        }
+        // The conversion price is quoted per share of the target class, so it only moves when the target splits
+        if (intoSplitClass && terms.price) {
+          const after = splitPrice(terms.price, split.ratio);
+          terms.setPrice(after);
+          record(split, 'STOCK_CLASS', stockClassId, 'conversion_price', normalize(terms.price), after);
+        }
+      }
+    }
+  }
+
+  return { positions, stockClasses, adjustments, changedSecurityIds: [...changedSecurityIds], prices };
+}
@@ -0,0 +1,178 @@
+/**
+ * Temporal consistency checks for OCF dates.
+ *
+ * Each OCF date is valid on its own, but the dates of a cap table must also agree with each other: no transaction
+ * predates the issuer's `formation_date`, a transaction is not approved by the board after it happened, an option or
+ * warrant does not expire before it is issued, and a transaction does not touch a security issued after it. Dates are
+ * parsed with {@link validateRequiredDate}; timestamps are compared by their date part.
+ *
+ * @module temporalConsistency
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import { mapOcfObjectTypeToEntityType } from '../functions/OpenCapTable/capTable/entityTypes';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { normalizeObjectType } from './planSecurityAliases';
+import { isRecord } from './typeConversions';
+import { validateRequiredDate } from './validation';
+import { createValidationReport, type ValidationIssue, type ValidationReport } from './validationReport';
+
+// ===== Types =====
+
+/** Manifest parts read by {@link validateTemporalConsistency}. */
+export type TemporalConsistencyManifest = Pick<OcfManifest, 'issuer' | 'transactions'>;
+
+// ===== Helpers =====
+
+/** Expiration date field, by issuance object type. */
+const EXPIRATION_FIELDS: Readonly<Record<string, string>> = {
+  TX_EQUITY_COMPENSATION_ISSUANCE: 'expiration_date',
+  TX_WARRANT_ISSUANCE: 'warrant_expiration_date',
+};
+
+type Subject = Pick<ValidationIssue, 'entityId' | 'entityType'>;
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function isIssuance(objectType: string): boolean {
+  return objectType.startsWith('TX_') && objectType.endsWith('_ISSUANCE');
+}
+
+/** Read an optional date field, reporting an unparsable date as an issue. */
+function readDate(
+  object: Record<string, unknown>,
+  field: string,
+  subject: Subject,
+  issues: ValidationIssue[]
+): string | null {
+  const value = object[field];
+  if (value === undefined || value === null) return null;
+  const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.slice(0, 10) : value;
+  try {
+    validateRequiredDate(date, field);
+    return date;
+  } catch (error) {
+    if (!(error instanceof OcpValidationError)) throw error;
+    issues.push({ ...subject, fieldPath: field, code: error.code, severity: 'error', message: error.message });
+    return null;
+  }
+}
+
+function outOfOrder(subject: Subject, fieldPath: string, message: string): ValidationIssue {
+  return { ...subject, fieldPath, code: OcpErrorCodes.OUT_OF_RANGE, severity: 'error', message };
+}
+
+function collectIssues(manifest: TemporalConsistencyManifest): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { issuer } = manifest;
+  const formationDate = issuer
+    ? readDate(issuer, 'formation_date', { entityId: readString(issuer.id), entityType: 'issuer' }, issues)
+    : null;
+
+  const transactions = manifest.transactions.filter(isRecord).map((tx) => {
+    const objectType = normalizeObjectType(readString(tx.object_type) ?? '');
+    const subject: Subject = { entityId: readString(tx.id), entityType: mapOcfObjectTypeToEntityType(objectType) };
+    return { tx, objectType, subject, date: readDate(tx, 'date', subject, issues) };
+  });
+
+  const issueDates = new Map<string, string>();
+  for (const { tx, objectType, date } of transactions) {
+    const securityId = readString(tx.security_id);
+    if (securityId && date && isIssuance(objectType)) issueDates.set(securityId, date);
+  }
+
+  for (const { tx, objectType, subject, date } of transactions) {
+    if (date && formationDate && date < formationDate) {
+      issues.push(outOfOrder(subject, 'date', `Dated ${date}, before the issuer's formation date ${formationDate}`));
+    }
+    const boardApprovalDate = readDate(tx, 'board_approval_date', subject, issues);
+    if (date && boardApprovalDate && boardApprovalDate > date) {
+      issues.push(
+        outOfOrder(subject, 'board_approval_date', `Board approval on ${boardApprovalDate} is after the date ${date}`)
+      );
+    }
+    const expirationField = EXPIRATION_FIELDS[objectType] as string | undefined;
+    const expirationDate = expirationField ? readDate(tx, expirationField, subject, issues) : null;
+    if (expirationField && date && expirationDate && expirationDate < date) {
+      issues.push(outOfOrder(subject, expirationField, `Expires on ${expirationDate}, before it is issued on ${date}`));
+    }
+
+    const securityId = readString(tx.security_id);
+    const issueDate = securityId ? issueDates.get(securityId) : undefined;
+    if (!securityId || !date || !issueDate || isIssuance(objectType) || date >= issueDate) continue;
+    if (objectType === 'TX_VESTING_START') {
+      issues.push({
+        ...subject,
+        fieldPath: 'date',
+        code: OcpErrorCodes.OUT_OF_RANGE,
+        severity: 'warning',
+        message: `Vesting of '${securityId}' starts on ${date}, before it is granted on ${issueDate}`,
+      });
+    } else {
+      issues.push(
+        outOfOrder(subject, 'date', `Dated ${date}, before security '${securityId}' is issued on ${issueDate}`)
+      );
+    }
+  }
+  return issues;
+}
+
+function issueKey(issue: ValidationIssue): string {
+  return `${issue.entityType ?? ''}\u0000${issue.entityId ?? ''}\u0000${issue.fieldPath}\u0000${issue.message}`;
+}
+
+// ===== Temporal Consistency =====
+
+/**
+ * Check that the dates of a manifest agree with each other.
+ *
+ * Reported as errors (`OUT_OF_RANGE`): transactions dated before the issuer's formation date, board approval dates
+ * after the transaction date, equity compensation and warrant expiration dates before the issuance date, and
+ * transactions dated before the issuance of the security they name. A vesting start before the grant date is only a
+ * warning, since vesting commencement is often set before the grant is approved. Unparsable dates are errors with the
+ * code of {@link validateRequiredDate}.
+ *
+ * @param manifest - Manifest with the issuer and transactions
+ * @returns Every inconsistency found, in manifest order
+ *
+ * @example
+ * ```typescript
+ * const report = validateTemporalConsistency(manifest);
+ * for (const issue of report.issues) {
+ *   console.log(`[${issue.severity}] ${issue.entityType} ${issue.entityId}: ${issue.message}`);
+ * }
+ * ```
+ */
+export function validateTemporalConsistency(manifest: TemporalConsistencyManifest): ValidationReport {
+  return createValidationReport(collectIssues(manifest));
+}
+
+/**
+ * Find the date inconsistencies introduced by pending changes.
+ *
+ * Pending transactions are checked together with the manifest, against the pending issuer when the issuer is being
+ * edited. Inconsistencies the manifest already has on its own are left out.
+ *
+ * @param manifest - Current manifest
+ * @param pending - Transactions about to be submitted and, for an issuer edit, the new issuer
+ * @returns Inconsistencies introduced by `pending`; empty when its dates agree with the manifest
+ *
+ * @example
+ * ```typescript
+ * const issues = findTemporalConsistencyIssues(manifest, { transactions: [stockIssuance] });
+ * if (issues.some((issue) => issue.severity === 'error')) throw new Error(issues[0].message);
+ * ```
+ */
+export function findTemporalConsistencyIssues(
+  manifest: TemporalConsistencyManifest,
+  pending: Pick<OcfManifest, 'transactions'> & Partial<Pick<OcfManifest, 'issuer'>>
+): ValidationIssue[] {
+  const existing = new Set(collectIssues(manifest).map(issueKey));
+  return collectIssues({
+    issuer: pending.issuer ?? manifest.issuer,
+    transactions: [...manifest.transactions, ...pending.transactions],
+  }).filter((issue) => !existing.has(issueKey(issue)));
+}
@@ -0,0 +1,303 @@
+/**
+ * Collect-all validation.
+ *
+ * {@link parseOcfEntityInput}, the entity validators and {@link CapTableBatch} throw on the first
+ * {@link OcpValidationError}. The functions here run the same checks without throwing and return a
+ * {@link ValidationReport} listing every issue found in an entity, a set of batch operations or a whole manifest, each
+ * with its entity, field path, error code and severity.
+ *
+ * Schema issues are reported one per schema error rather than folded into a single message. The entity validators
+ * that run after the schema still stop at their first error, so an object that passes the schema is reported with at
+ * most one semantic issue. Deprecated fields, which the SDK still accepts and normalizes, are reported as warnings.
+ *
+ * @module validationReport
+ */
+
+import type { OcpErrorCode } from '../errors/codes';
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpParseError } from '../errors/OcpParseError';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type { CapTableBatchOperations, OcfEntityType } from '../functions/OpenCapTable/capTable/entityTypes';
+import { isOcfDeletableEntityType, mapOcfObjectTypeToEntityType } from '../functions/OpenCapTable/capTable/entityTypes';
+import { convertInputToDaml } from '../functions/OpenCapTable/capTable/ocfToDaml';
+import type { OcfManifest } from './cantonOcfExtractor';
+import { parseOcfObject, resolveOcfSchemaDir } from './ocfZodSchemas';
+import { normalizeObjectType } from './planSecurityAliases';
+import { danglingReferenceCode, validateReferentialIntegrity } from './referentialIntegrity';
+import { validateSecurityLifecycle } from './securityLifecycle';
+import { isRecord } from './typeConversions';
+
+// ===== Types =====
+
+/** `error` issues make the input invalid; `warning` issues are accepted by the SDK but should be fixed. */
+export type ValidationSeverity = 'error' | 'warning';
+
+/** One problem found by a collect-all validation. */
+export interface ValidationIssue {
+  /** Id of the object the issue was found in, or null when it has none */
+  entityId: string | null;
+  /** SDK entity type of the object, or null when its object type has none */
+  entityType: OcfEntityType | null;
+  /** Path of the offending field within the object, e.g. `name.legal_name` */
+  fieldPath: string;
+  code: OcpErrorCode;
+  severity: ValidationSeverity;
+  message: string;
+  /** Name of the custom rule that reported the issue; absent for built-in checks (see {@link ValidationRuleRegistry}) */
+  rule?: string;
+}
+
+/** Result of a collect-all validation. */
+export interface ValidationReport {
+  /** True when no issue has severity `error` */
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  /** Issues in input order */
+  issues: ValidationIssue[];
+}
+
+// ===== Helpers =====
+
+/** Deprecated fields still accepted by the SDK, by object type, with the field replacing them. */
+const DEPRECATED_FIELDS: Readonly<Record<string, ReadonlyArray<readonly [field: string, replacement: string]>>> = {
+  STAKEHOLDER: [['current_relationship', 'current_relationships']],
+  STOCK_PLAN: [['stock_class_id', 'stock_class_ids']],
+  TX_EQUITY_COMPENSATION_ISSUANCE: [['option_grant_type', 'compensation_type']],
+};
+
+interface IssueSubject {
+  entityId: string | null;
+  entityType: OcfEntityType | null;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function readSubject(input: unknown, entityType: OcfEntityType | null): IssueSubject {
+  return { entityId: isRecord(input) ? readString(input.id) : null, entityType };
+}
+
+/** Expand a schema error into one issue per Zod issue; other errors become a single issue. */
+function errorToIssues(error: OcpValidationError | OcpParseError, subject: IssueSubject): ValidationIssue[] {
+  if (error instanceof OcpParseError) {
+    const fieldPath = error.source ?? subject.entityType ?? 'ocfObject';
+    return [{ ...subject, fieldPath, code: error.code, severity: 'error', message: error.message }];
+  }
+  const schemaIssues = Array.isArray(error.receivedValue) ? error.receivedValue.filter(isRecord) : [];
+  if (error.code !== OcpErrorCodes.INVALID_FORMAT || schemaIssues.length === 0) {
+    return [{ ...subject, fieldPath: error.fieldPath, code: error.code, severity: 'error', message: error.message }];
+  }
+  return schemaIssues.map((issue) => {
+    const path = Array.isArray(issue.path) ? issue.path.map(String).join('.') : '';
+    return {
+      ...subject,
+      fieldPath: path.length > 0 ? path : error.fieldPath,
+      code: error.code,
+      severity: 'error',
+      message: readString(issue.message) ?? error.message,
+    };
+  });
+}
+
+/** Run a throwing check and turn the SDK error it throws into issues; any other error is rethrown. */
+function collect(check: () => void, subject: IssueSubject): ValidationIssue[] {
+  try {
+    check();
+    return [];
+  } catch (error) {
+    if (error instanceof OcpValidationError || error instanceof OcpParseError) return errorToIssues(error, subject);
+    throw error;
+  }
+}
+
+function findDeprecatedFields(input: unknown, subject: IssueSubject): ValidationIssue[] {
+  if (!isRecord(input)) return [];
+  const objectType = normalizeObjectType(readString(input.object_type) ?? '');
+  return (DEPRECATED_FIELDS[objectType] ?? [])
+    .filter(([field]) => input[field] !== undefined)
+    .map(([field, replacement]) => ({
+      ...subject,
+      fieldPath: field,
+      code: OcpErrorCodes.DEPRECATED_FIELD,
+      severity: 'warning',
+      message: `Deprecated field; use ${replacement}`,
+    }));
+}
+
+/**
+ * Run the OCF-to-DAML conversion of an entity, which parses it and runs its entity validator. The validator stops at
+ * its first error, so at most one semantic issue is reported per object.
+ */
+function convertEntity(entityType: OcfEntityType, data: unknown): void {
+  convertInputToDaml(entityType, data);
+}
+
+function entityIssues(entityType: OcfEntityType, input: unknown): ValidationIssue[] {
+  const subject = readSubject(input, entityType);
+  return [...collect(() => convertEntity(entityType, input), subject), ...findDeprecatedFields(input, subject)];
+}
+
+function manifestObjects(manifest: OcfManifest): unknown[] {
+  return [
+    ...(manifest.issuer ? [manifest.issuer] : []),
+    ...manifest.stakeholders,
+    ...manifest.stockClasses,
+    ...manifest.stockPlans,
+    ...manifest.vestingTerms,
+    ...manifest.stockLegendTemplates,
+    ...manifest.valuations,
+    ...manifest.financings,
+    ...manifest.documents,
+    ...manifest.transactions,
+  ];
+}
+
+// ===== Collect-All Validation =====
+
+/**
+ * Build a report from a list of issues, e.g. to merge the reports of several validations.
+ *
+ * @param issues - Issues in the order they should be reported
+ * @returns Report that is valid when no issue has severity `error`
+ *
+ * @example
+ * ```typescript
+ * const report = createValidationReport([...validateOcfManifest(manifest).issues, ...ruleReport.issues]);
+ * ```
+ */
+export function createValidationReport(issues: ValidationIssue[]): ValidationReport {
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+  return { valid: errorCount === 0, errorCount, warningCount: issues.length - errorCount, issues };
+}
+
+/**
+ * Validate one OCF entity without throwing.
+ *
+ * Runs the checks of {@link parseOcfEntityInput} and of the entity's OCF-to-DAML converter, which
+ * {@link CapTableBatch.create} and {@link CapTableBatch.edit} run on each operation.
+ *
+ * @param entityType - SDK entity type the input is meant for
+ * @param input - Native OCF object
+ * @returns Every schema issue found, at most one semantic issue, and a warning per deprecated field
+ * @throws OcpValidationError when the OCF schema directory cannot be found
+ *
+ * @example
+ * ```typescript
+ * const report = validateOcfEntityInput('stakeholder', stakeholder);
+ * for (const issue of report.issues) {
+ *   console.log(`[${issue.severity}] ${issue.fieldPath} (${issue.code}): ${issue.message}`);
+ * }
+ * ```
+ */
+export function validateOcfEntityInput(entityType: OcfEntityType, input: unknown): ValidationReport {
+  resolveOcfSchemaDir();
+  return createValidationReport(entityIssues(entityType, input));
+}
+
+/**
+ * Validate the operations of a cap table batch without throwing.
+ *
+ * Creates and edits are checked like {@link validateOcfEntityInput}; deletes must name a deletable entity type and an
+ * id. Use it before adding the operations to a {@link CapTableBatch}, or before
+ * {@link buildUpdateCapTableCommand}, which stop at the first invalid operation.
+ *
+ * @param operations - Native create, edit and delete operations
+ * @returns Every issue found, in operation order
+ * @throws OcpValidationError when the OCF schema directory cannot be found
+ *
+ * @example
+ * ```typescript
+ * const report = validateCapTableBatchOperations({ creates: [{ type: 'stakeholder', data: stakeholder }] });
+ * if (!report.valid) return report.issues;
+ * ```
+ */
+export function validateCapTableBatchOperations(operations: CapTableBatchOperations): ValidationReport {
+  resolveOcfSchemaDir();
+  const issues = [...(operations.creates ?? []), ...(operations.edits ?? [])].flatMap((operation) =>
+    entityIssues(operation.type, operation.data)
+  );
+  for (const { type, id } of operations.deletes ?? []) {
+    const subject: IssueSubject = {
+      entityId: readString(id),
+      entityType: isOcfDeletableEntityType(type) ? type : null,
+    };
+    if (!subject.entityType) {
+      issues.push({
+        ...subject,
+        fieldPath: 'type',
+        code: OcpErrorCodes.INVALID_TYPE,
+        severity: 'error',
+        message: `Entity type '${String(type)}' cannot be deleted`,
+      });
+    }
+    if (!subject.entityId) {
+      issues.push({
+        ...subject,
+        fieldPath: 'id',
+        code: OcpErrorCodes.REQUIRED_FIELD_MISSING,
+        severity: 'error',
+        message: 'Required field is missing or invalid',
+      });
+    }
+  }
+  return createValidationReport(issues);
+}
+
+/**
+ * Validate a whole manifest without throwing.
+ *
+ * Every object is parsed with {@link parseOcfObject}, which accepts schema aliases, and the normalized object is checked
+ * by its entity's converter. The manifest is then checked with {@link validateReferentialIntegrity} and
+ * {@link validateSecurityLifecycle}; their findings are reported as errors of the referencing object or transaction.
+ *
+ * @param manifest - Manifest to validate (e.g. from extractCantonOcfManifest)
+ * @returns Every issue found: per-object issues in manifest order, then cross-entity issues
+ * @throws OcpValidationError when the OCF schema directory cannot be found
+ *
+ * @example
+ * ```typescript
+ * const report = validateOcfManifest(manifest);
+ * console.log(`${report.errorCount} errors, ${report.warningCount} warnings`);
+ * ```
+ */
+export function validateOcfManifest(manifest: OcfManifest): ValidationReport {
+  resolveOcfSchemaDir();
+  const issues: ValidationIssue[] = [];
+  for (const object of manifestObjects(manifest)) {
+    const objectType = isRecord(object) ? normalizeObjectType(readString(object.object_type) ?? '') : '';
+    const entityType = mapOcfObjectTypeToEntityType(objectType);
+    const subject = readSubject(object, entityType);
+    const check = () => {
+      const parsed = parseOcfObject(object);
+      if (entityType) convertEntity(entityType, parsed);
+    };
+    issues.push(...collect(check, subject), ...findDeprecatedFields(object, subject));
+  }
+
+  for (const ref of validateReferentialIntegrity(manifest).danglingReferences) {
+    issues.push({
+      entityId: ref.id,
+      entityType: ref.entityType,
+      fieldPath: ref.fieldPath,
+      code: danglingReferenceCode(ref),
+      severity: 'error',
+      message: `References unknown ${ref.targetType} '${ref.targetId}'`,
+    });
+  }
+  for (const violation of validateSecurityLifecycle(manifest).violations) {
+    const prefix = `transactions.${violation.transactionId}.`;
+    issues.push({
+      entityId: violation.transactionId,
+      entityType: mapOcfObjectTypeToEntityType(violation.objectType),
+      fieldPath: violation.fieldPath.startsWith(prefix)
+        ? violation.fieldPath.slice(prefix.length)
+        : violation.fieldPath,
+      code: violation.code,
+      severity: 'error',
+      message: violation.message,
+    });
+  }
+  return createValidationReport(issues);
+}
@@ -0,0 +1,280 @@
+/**
+ * Custom validation rules.
+ *
+ * House rules that go beyond OCF, such as "every stakeholder needs a tax id before an issuance", are registered on a
+ * {@link ValidationRuleRegistry}, per entity type or for a whole batch. The registry runs them over batch operations or
+ * a replication diff and reports their findings as a {@link ValidationReport}, next to the built-in checks of
+ * {@link validateCapTableBatchOperations}. A {@link CapTableBatch} given a registry runs it in `build()` and
+ * `execute()`.
+ *
+ * Rules may be async, e.g. to look up data outside the batch, and receive the current cap table state when the caller
+ * has one. A rule reports findings by returning them, or by throwing an {@link OcpValidationError}, so the entity
+ * validators (`validateRequiredString` and the like) can be reused inside rules.
+ *
+ * @module validationRules
+ */
+
+import type { OcpErrorCode } from '../errors/codes';
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type {
+  CapTableBatchOperations,
+  OcfCreateOperation,
+  OcfDataTypeFor,
+  OcfDeleteOperation,
+  OcfEditOperation,
+  OcfEntityType,
+} from '../functions/OpenCapTable/capTable/entityTypes';
+import type { CapTableState } from '../functions/OpenCapTable/capTable/getCapTableState';
+import type { ReplicationDiff } from './replicationHelpers';
+import { isRecord } from './typeConversions';
+import {
+  createValidationReport,
+  type ValidationIssue,
+  type ValidationReport,
+  type ValidationSeverity,
+} from './validationReport';
+
+// ===== Types =====
+
+/** A problem reported by a custom rule. */
+export interface ValidationRuleFinding {
+  /** Path of the offending field within the entity, or within the batch for batch rules */
+  fieldPath: string;
+  message: string;
+  /** Default: `RULE_VIOLATION` */
+  code?: OcpErrorCode;
+  /** Default: `error` */
+  severity?: ValidationSeverity;
+}
+
+/** What a rule sees besides the data it validates. */
+export interface ValidationRuleContext {
+  /** Current cap table state, or null when the caller has none */
+  state: Pick<CapTableState, 'entities' | 'securityIds'> | null;
+  /** Every operation validated together, so a rule can look at the other creates, edits and deletes */
+  operations: CapTableBatchOperations;
+}
+
+/** Findings of a rule; empty when the rule passes. */
+export type ValidationRuleResult = readonly ValidationRuleFinding[] | Promise<readonly ValidationRuleFinding[]>;
+
+/** A rule run on the native data of every create and edit of one entity type. */
+export interface EntityValidationRule<T extends OcfEntityType = OcfEntityType> {
+  /** Unique name, reported on each issue */
+  name: string;
+  entityType: T;
+  validate(data: OcfDataTypeFor<T>, context: ValidationRuleContext): ValidationRuleResult;
+}
+
+/** A rule run once on all the operations validated together. */
+export interface BatchValidationRule {
+  /** Unique name, reported on each issue */
+  name: string;
+  validate(operations: CapTableBatchOperations, context: ValidationRuleContext): ValidationRuleResult;
+}
+
+// ===== Helpers =====
+
+/** One rule applied to one subject, ready to run. */
+interface RuleInvocation {
+  rule: string;
+  entityId: string | null;
+  entityType: OcfEntityType | null;
+  run: () => ValidationRuleResult;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function isPromise(value: ValidationRuleResult): value is Promise<readonly ValidationRuleFinding[]> {
+  return typeof (value as { then?: unknown }).then === 'function';
+}
+
+function toIssues(invocation: RuleInvocation, findings: readonly ValidationRuleFinding[]): ValidationIssue[] {
+  return findings.map((finding) => ({
+    entityId: invocation.entityId,
+    entityType: invocation.entityType,
+    fieldPath: finding.fieldPath,
+    code: finding.code ?? OcpErrorCodes.RULE_VIOLATION,
+    severity: finding.severity ?? 'error',
+    message: finding.message,
+    rule: invocation.rule,
+  }));
+}
+
+/** Turn an {@link OcpValidationError} thrown by a rule into an issue; any other error is rethrown. */
+function errorToIssues(invocation: RuleInvocation, error: unknown): ValidationIssue[] {
+  if (!(error instanceof OcpValidationError)) throw error;
+  return toIssues(invocation, [{ fieldPath: error.fieldPath, message: error.message, code: error.code }]);
+}
+
+// ===== Rule Registry =====
+
+/**
+ * Registry of custom validation rules.
+ *
+ * @example
+ * ```typescript
+ * const rules = new ValidationRuleRegistry().addEntityRule({
+ *   name: 'stakeholder-tax-id',
+ *   entityType: 'stakeholder',
+ *   validate: (stakeholder) =>
+ *     stakeholder.tax_ids?.length ? [] : [{ fieldPath: 'tax_ids', message: 'A tax id is required' }],
+ * });
+ * const report = await rules.validate({ creates: [{ type: 'stakeholder', data: stakeholder }] }, state);
+ * ```
+ */
+export class ValidationRuleRegistry {
+  private readonly entityRules: EntityValidationRule[] = [];
+  private readonly batchRules: BatchValidationRule[] = [];
+
+  /**
+   * Register a rule run on every create and edit of its entity type.
+   *
+   * @throws OcpValidationError (`INVALID_FORMAT`) when a rule with the same name is already registered
+   */
+  addEntityRule<T extends OcfEntityType>(rule: EntityValidationRule<T>): this {
+    this.assertUniqueName(rule.name);
+    this.entityRules.push(rule);
+    return this;
+  }
+
+  /**
+   * Register a rule run once per validation on all the operations.
+   *
+   * @throws OcpValidationError (`INVALID_FORMAT`) when a rule with the same name is already registered
+   */
+  addBatchRule(rule: BatchValidationRule): this {
+    this.assertUniqueName(rule.name);
+    this.batchRules.push(rule);
+    return this;
+  }
+
+  /** Get the number of registered rules. */
+  get size(): number {
+    return this.entityRules.length + this.batchRules.length;
+  }
+
+  /**
+   * Run every rule on batch operations.
+   *
+   * Entity rules run on the creates, then the edits, in operation and registration order; batch rules run last. Async
+   * rules are awaited one at a time, so issues keep that order.
+   *
+   * @param operations - Native create, edit and delete operations
+   * @param state - Current cap table state, passed to the rules
+   * @returns Issues reported by the rules, each naming its rule
+   */
+  async validate(
+    operations: CapTableBatchOperations,
+    state: Pick<CapTableState, 'entities' | 'securityIds'> | null = null
+  ): Promise<ValidationReport> {
+    const issues: ValidationIssue[] = [];
+    for (const invocation of this.invocations(operations, state)) {
+      try {
+        issues.push(...toIssues(invocation, await invocation.run()));
+      } catch (error) {
+        issues.push(...errorToIssues(invocation, error));
+      }
+    }
+    return createValidationReport(issues);
+  }
+
+  /**
+   * Run every rule on batch operations synchronously, for callers that cannot await.
+   *
+   * @param operations - Native create, edit and delete operations
+   * @param state - Current cap table state, passed to the rules
+   * @returns Issues reported by the rules, each naming its rule
+   * @throws OcpValidationError (`INVALID_TYPE`) when a rule returns a promise; use {@link validate} instead
+   */
+  validateSync(
+    operations: CapTableBatchOperations,
+    state: Pick<CapTableState, 'entities' | 'securityIds'> | null = null
+  ): ValidationReport {
+    const issues: ValidationIssue[] = [];
+    for (const invocation of this.invocations(operations, state)) {
+      let result: ValidationRuleResult;
+      try {
+        result = invocation.run();
+      } catch (error) {
+        issues.push(...errorToIssues(invocation, error));
+        continue;
+      }
+      if (isPromise(result)) {
+        void Promise.resolve(result).catch(() => {
+          // The rule is rejected as async; its outcome is never used.
+        });
+        throw new OcpValidationError(`rules.${invocation.rule}`, `Rule '${invocation.rule}' is async; use validate()`, {
+          code: OcpErrorCodes.INVALID_TYPE,
+          expectedType: 'ValidationRuleFinding[]',
+        });
+      }
+      issues.push(...toIssues(invocation, result));
+    }
+    return createValidationReport(issues);
+  }
+
+  /**
+   * Run every rule on the creates, edits and deletes of a replication diff.
+   *
+   * @param diff - Diff from computeReplicationDiff
+   * @param state - The cap table state the diff was computed against
+   * @returns Issues reported by the rules, each naming its rule
+   *
+   * @example
+   * ```typescript
+   * const diff = computeReplicationDiff(sourceItems, state);
+   * const report = await rules.validateReplicationDiff(diff, state);
+   * if (!report.valid) throw new Error(`${report.errorCount} house rule violation(s)`);
+   * ```
+   */
+  async validateReplicationDiff(
+    diff: Pick<ReplicationDiff, 'creates' | 'edits' | 'deletes'>,
+    state: Pick<CapTableState, 'entities' | 'securityIds'> | null = null
+  ): Promise<ValidationReport> {
+    return this.validate(
+      {
+        creates: diff.creates.map((item) => ({ type: item.entityType, data: item.data }) as OcfCreateOperation),
+        edits: diff.edits.map((item) => ({ type: item.entityType, data: item.data }) as OcfEditOperation),
+        deletes: diff.deletes.map((item) => ({ type: item.entityType, id: item.id }) as OcfDeleteOperation),
+      },
+      state
+    );
+  }
+
+  private assertUniqueName(name: string): void {
+    if ([...this.entityRules, ...this.batchRules].some((rule) => rule.name === name)) {
+      throw new OcpValidationError('rule.name', `A validation rule named '${name}' is already registered`, {
+        code: OcpErrorCodes.INVALID_FORMAT,
+        receivedValue: name,
+      });
+    }
+  }
+
+  private invocations(
+    operations: CapTableBatchOperations,
+    state: Pick<CapTableState, 'entities' | 'securityIds'> | null
+  ): RuleInvocation[] {
+    const context: ValidationRuleContext = { state, operations };
+    const entityInvocations = [...(operations.creates ?? []), ...(operations.edits ?? [])].flatMap((operation) =>
+      this.entityRules
+        .filter((rule) => rule.entityType === operation.type)
+        .map((rule) => ({
+          rule: rule.name,
+          entityId: isRecord(operation.data) ? readString(operation.data.id) : null,
+          entityType: operation.type,
+          run: (): ValidationRuleResult => rule.validate(operation.data, context),
+        }))
+    );
+    const batchInvocations = this.batchRules.map((rule) => ({
+      rule: rule.name,
+      entityId: null,
+      entityType: null,
+      run: (): ValidationRuleResult => rule.validate(operations, context),
+    }));
+    return [...entityInvocations, ...batchInvocations];
+  }
+}
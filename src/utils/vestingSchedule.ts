@@ -0,0 +1,530 @@
+/**
+ * Vesting schedule calculator for OCF vesting terms.
+ *
+ * Turns an {@link OcfVestingTerms} condition graph, a grant quantity and the security's vesting transactions
+ * (`TX_VESTING_START`, `TX_VESTING_EVENT`, `TX_VESTING_ACCELERATION`) into a dated tranche schedule, and answers
+ * "how much has vested on date X".
+ *
+ * Condition semantics follow the OCF vesting model:
+ * - `VESTING_START_DATE` conditions trigger on the vesting start date.
+ * - `VESTING_SCHEDULE_ABSOLUTE` conditions trigger on their fixed date.
+ * - `VESTING_EVENT` conditions trigger on the date of a matching `TX_VESTING_EVENT`.
+ * - `VESTING_SCHEDULE_RELATIVE` conditions vest in `occurrences` installments of `length` days or months, counted from
+ *   the date the `relative_to_condition_id` condition completed. `cliff_installment` folds the first N installments
+ *   into a single tranche on the Nth installment date.
+ *
+ * A condition only triggers once it is reachable: conditions that are not listed in any `next_condition_ids` are
+ * roots, and any other condition becomes reachable once one of its predecessors has triggered.
+ *
+ * @module vestingSchedule
+ */
+
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+import type {
+  AllocationType,
+  OcfVestingTerms,
+  VestingCondition,
+  VestingDayOfMonth,
+  VestingPeriod,
+} from '../types/native';
+import { DECIMAL_SCALE, formatDecimal, parseDecimal } from './decimalMath';
+import { isRecord } from './typeConversions';
+import { validateRequiredDate } from './validation';
+
+// ===== Types =====
+
+/** Inputs for {@link computeVestingSchedule}. */
+export interface ComputeVestingScheduleParams {
+  vestingTerms: Pick<OcfVestingTerms, 'allocation_type' | 'vesting_conditions'>;
+  /** Quantity of the grant (decimal string) */
+  quantity: string;
+  /** Vesting start date (YYYY-MM-DD); defaults to the date of the first `TX_VESTING_START` transaction */
+  vestingStartDate?: string;
+  /**
+   * Vesting transactions of the security. Only `TX_VESTING_START`, `TX_VESTING_EVENT` and `TX_VESTING_ACCELERATION`
+   * are read; callers should pass transactions for a single security.
+   */
+  transactions?: ReadonlyArray<Record<string, unknown>>;
+}
+
+/** A single dated vesting tranche. */
+export interface VestingTranche {
+  date: string;
+  /** Condition that produced the tranche, or the acceleration transaction id */
+  sourceId: string;
+  kind: 'SCHEDULED' | 'ACCELERATION';
+  amount: string;
+  /** Total vested after this tranche */
+  cumulative: string;
+}
+
+/** Result of {@link computeVestingSchedule}. */
+export interface VestingSchedule {
+  quantity: string;
+  allocationType: AllocationType;
+  /** Tranches in date order; the cumulative amount never exceeds `quantity` */
+  tranches: VestingTranche[];
+  /** Reachable conditions still waiting for a vesting start date or a vesting event */
+  pendingConditionIds: string[];
+  /** Sum of all tranches */
+  totalScheduled: string;
+}
+
+/** Vested and unvested quantities on a date. */
+export interface VestedQuantity {
+  asOfDate: string;
+  vested: string;
+  unvested: string;
+}
+
+// ===== Rational Arithmetic =====
+
+/** Non-negative rational amount in DAML-scaled units (see {@link parseDecimal}). */
+interface Rational {
+  n: bigint;
+  d: bigint;
+}
+
+const WHOLE_UNIT = 10n ** BigInt(DECIMAL_SCALE);
+
+function gcd(a: bigint, b: bigint): bigint {
+  let x = a < 0n ? -a : a;
+  let y = b < 0n ? -b : b;
+  while (y !== 0n) [x, y] = [y, x % y];
+  return x === 0n ? 1n : x;
+}
+
+function rational(n: bigint, d = 1n): Rational {
+  const divisor = gcd(n, d);
+  return { n: n / divisor, d: d / divisor };
+}
+
+function addRational(a: Rational, b: Rational): Rational {
+  return rational(a.n * b.d + b.n * a.d, a.d * b.d);
+}
+
+function subtractRational(a: Rational, b: Rational): Rational {
+  return rational(a.n * b.d - b.n * a.d, a.d * b.d);
+}
+
+/** Floor to a multiple of `unit` scaled units. */
+function floorTo(value: Rational, unit: bigint): bigint {
+  return (value.n / (value.d * unit)) * unit;
+}
+
+/** Round half up to a multiple of `unit` scaled units. */
+function roundTo(value: Rational, unit: bigint): bigint {
+  return ((2n * value.n + value.d * unit) / (2n * value.d * unit)) * unit;
+}
+
+// ===== Date Helpers =====
+
+function parseDay(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return { year, month, day };
+}
+
+function formatDay(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function addDays(date: string, days: number): string {
+  const { year, month, day } = parseDay(date);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return formatDay(result.getUTCFullYear(), result.getUTCMonth() + 1, result.getUTCDate());
+}
+
+/**
+ * Add whole months to a date and pick the day according to an OCF {@link VestingDayOfMonth} rule.
+ *
+ * `NN_OR_LAST_DAY_OF_MONTH` and `VESTING_START_DAY_OR_LAST_DAY_OF_MONTH` fall back to the last day of shorter months.
+ */
+function addMonths(date: string, months: number, dayOfMonth: VestingDayOfMonth, vestingStartDay: number): string {
+  const { year, month } = parseDay(date);
+  const monthIndex = month - 1 + months;
+  const targetYear = year + Math.floor(monthIndex / 12);
+  const targetMonth = (((monthIndex % 12) + 12) % 12) + 1;
+  const lastDay = daysInMonth(targetYear, targetMonth);
+  const wanted = dayOfMonth === 'VESTING_START_DAY_OR_LAST_DAY_OF_MONTH' ? vestingStartDay : parseInt(dayOfMonth, 10);
+  return formatDay(targetYear, targetMonth, Math.min(wanted, lastDay));
+}
+
+function installmentDate(base: string, period: VestingPeriod, installment: number, vestingStartDay: number): string {
+  return period.type === 'DAYS'
+    ? addDays(base, period.length * installment)
+    : addMonths(base, period.length * installment, period.day_of_month, vestingStartDay);
+}
+
+// ===== Condition Resolution =====
+
+interface Installment {
+  date: string;
+  conditionId: string;
+  exact: Rational;
+  /** Date of the cliff installment this installment is folded into, if any */
+  cliffDate: string | null;
+}
+
+function conditionPath(index: number, field?: string): string {
+  return `vestingTerms.vesting_conditions.${index}${field ? `.${field}` : ''}`;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function validateConditionGraph(conditions: VestingCondition[]): Map<string, VestingCondition> {
+  const byId = new Map<string, VestingCondition>();
+  conditions.forEach((condition, index) => {
+    if (byId.has(condition.id)) {
+      throw new OcpValidationError(conditionPath(index, 'id'), `Duplicate vesting condition id '${condition.id}'`, {
+        receivedValue: condition.id,
+        code: OcpErrorCodes.INVALID_FORMAT,
+      });
+    }
+    byId.set(condition.id, condition);
+  });
+
+  conditions.forEach((condition, index) => {
+    condition.next_condition_ids.forEach((nextId, nextIndex) => {
+      if (!byId.has(nextId)) {
+        throw new OcpValidationError(
+          conditionPath(index, `next_condition_ids.${nextIndex}`),
+          `Vesting condition '${condition.id}' references unknown next condition '${nextId}'`,
+          { receivedValue: nextId, code: OcpErrorCodes.INVALID_FORMAT }
+        );
+      }
+    });
+    const { trigger } = condition;
+    if (trigger.type === 'VESTING_SCHEDULE_RELATIVE') {
+      if (!byId.has(trigger.relative_to_condition_id)) {
+        throw new OcpValidationError(
+          conditionPath(index, 'trigger.relative_to_condition_id'),
+          `Vesting condition '${condition.id}' is relative to unknown condition '${trigger.relative_to_condition_id}'`,
+          { receivedValue: trigger.relative_to_condition_id, code: OcpErrorCodes.INVALID_FORMAT }
+        );
+      }
+      const { period } = trigger;
+      if (!Number.isInteger(period.length) || period.length < 1) {
+        throw new OcpValidationError(conditionPath(index, 'trigger.period.length'), 'Period length must be >= 1', {
+          receivedValue: period.length,
+          code: OcpErrorCodes.OUT_OF_RANGE,
+        });
+      }
+      if (!Number.isInteger(period.occurrences) || period.occurrences < 1) {
+        throw new OcpValidationError(conditionPath(index, 'trigger.period.occurrences'), 'Occurrences must be >= 1', {
+          receivedValue: period.occurrences,
+          code: OcpErrorCodes.OUT_OF_RANGE,
+        });
+      }
+      const cliff = period.cliff_installment;
+      if (cliff !== undefined && (!Number.isInteger(cliff) || cliff < 1 || cliff > period.occurrences)) {
+        throw new OcpValidationError(
+          conditionPath(index, 'trigger.period.cliff_installment'),
+          'Cliff installment must be between 1 and the number of occurrences',
+          { receivedValue: cliff, code: OcpErrorCodes.OUT_OF_RANGE }
+        );
+      }
+    }
+  });
+
+  return byId;
+}
+
+/**
+ * Spread each condition's amount over its installments and apply the allocation type to the combined, date-ordered
+ * installment list. Returns integer-scaled tranche amounts aligned with `installments`.
+ */
+function allocate(installments: Installment[], allocationType: AllocationType): bigint[] {
+  if (installments.length === 0) return [];
+
+  if (
+    allocationType === 'FRACTIONAL' ||
+    allocationType === 'CUMULATIVE_ROUNDING' ||
+    allocationType === 'CUMULATIVE_ROUND_DOWN'
+  ) {
+    // Round the running total and take differences so rounding never accumulates drift
+    const unit = allocationType === 'FRACTIONAL' ? 1n : WHOLE_UNIT;
+    let exactTotal = rational(0n);
+    let previous = 0n;
+    return installments.map((installment) => {
+      exactTotal = addRational(exactTotal, installment.exact);
+      const rounded =
+        allocationType === 'CUMULATIVE_ROUND_DOWN' ? floorTo(exactTotal, unit) : roundTo(exactTotal, unit);
+      const amount = rounded - previous;
+      previous = rounded;
+      return amount;
+    });
+  }
+
+  // Loaded modes: every installment gets its whole-share floor, then the whole-share remainder is spread one share at
+  // a time (FRONT_LOADED / BACK_LOADED) or in one block (…_TO_SINGLE_TRANCHE) at the front or back.
+  const amounts = installments.map((installment) => floorTo(installment.exact, WHOLE_UNIT));
+  const exactTotal = installments.reduce((total, installment) => addRational(total, installment.exact), rational(0n));
+  const floorSum = amounts.reduce((total, amount) => total + amount, 0n);
+  const wholeRemainder = floorTo(exactTotal, WHOLE_UNIT) - floorSum;
+  const fractionalRemainder = roundTo(subtractRational(exactTotal, rational(floorTo(exactTotal, WHOLE_UNIT))), 1n);
+  const fromBack = allocationType === 'BACK_LOADED' || allocationType === 'BACK_LOADED_TO_SINGLE_TRANCHE';
+  const order = installments.map((_, index) => (fromBack ? installments.length - 1 - index : index));
+
+  if (allocationType === 'FRONT_LOADED_TO_SINGLE_TRANCHE' || allocationType === 'BACK_LOADED_TO_SINGLE_TRANCHE') {
+    amounts[order[0]] += wholeRemainder;
+  } else {
+    const shares = wholeRemainder / WHOLE_UNIT;
+    for (let i = 0n; i < shares; i++) {
+      amounts[order[Number(i % BigInt(order.length))]] += WHOLE_UNIT;
+    }
+  }
+  // Fractional grants keep their sub-share remainder on the final installment
+  amounts[amounts.length - 1] += fractionalRemainder;
+  return amounts;
+}
+
+// ===== Schedule =====
+
+/**
+ * Compute the dated tranche schedule of a grant under OCF vesting terms.
+ *
+ * Every {@link AllocationType} is supported. Amounts are allocated over the combined, date-ordered list of
+ * installments of all triggered conditions:
+ * - `CUMULATIVE_ROUNDING` / `CUMULATIVE_ROUND_DOWN`: the running total is rounded (half up / down) to whole shares and
+ *   each tranche is the difference from the previous running total.
+ * - `FRONT_LOADED` / `BACK_LOADED`: each installment gets its whole-share floor and the remaining shares are added one
+ *   at a time to the earliest / latest installments.
+ * - `FRONT_LOADED_TO_SINGLE_TRANCHE` / `BACK_LOADED_TO_SINGLE_TRANCHE`: the whole remainder goes to the first / last
+ *   installment.
+ * - `FRACTIONAL`: exact amounts, rounded only at the 10-digit DAML scale.
+ *
+ * Conditions with a `portion` vest that fraction of the grant (of the quantity not yet allocated to earlier conditions
+ * when `remainder` is true); conditions with a `quantity` vest that fixed amount; conditions with neither vest nothing
+ * and only gate their successors. Accelerations vest their quantity on the acceleration date, and scheduled tranches
+ * are trimmed so the cumulative total never exceeds the grant.
+ *
+ * @param params - Vesting terms, grant quantity, start date and vesting transactions
+ * @returns Tranches in date order plus the conditions still waiting on a start date or event
+ * @throws OcpValidationError if the condition graph is invalid (duplicate or unknown ids, cycles, bad periods) or a
+ *   date or quantity is malformed
+ *
+ * @example
+ * ```typescript
+ * const schedule = computeVestingSchedule({
+ *   vestingTerms, // 48 monthly installments with a 12-month cliff
+ *   quantity: '4800',
+ *   vestingStartDate: '2024-01-15',
+ * });
+ * schedule.tranches[0]; // { date: '2025-01-15', amount: '1200', ... }
+ * computeVestedQuantity(schedule, '2025-06-30').vested; // '1700'
+ * ```
+ */
+export function computeVestingSchedule(params: ComputeVestingScheduleParams): VestingSchedule {
+  const { vestingTerms } = params;
+  const total = parseDecimal(params.quantity, 'quantity');
+  const conditions = validateConditionGraph(vestingTerms.vesting_conditions);
+  const transactions = (params.transactions ?? []).filter(isRecord);
+
+  if (params.vestingStartDate !== undefined) validateRequiredDate(params.vestingStartDate, 'vestingStartDate');
+  const startTransactions = transactions
+    .filter((tx) => tx.object_type === 'TX_VESTING_START' && typeof tx.date === 'string')
+    .sort((a, b) => String(a.date).localeCompare(String(b.date)));
+  const defaultStartDate = params.vestingStartDate ?? (startTransactions[0]?.date as string | undefined) ?? null;
+  const vestingStartDay = defaultStartDate ? parseDay(defaultStartDate).day : 1;
+
+  const eventDates = new Map<string, string>();
+  for (const tx of transactions) {
+    const conditionId = readString(tx.vesting_condition_id);
+    if (!conditionId || typeof tx.date !== 'string') continue;
+    if (tx.object_type === 'TX_VESTING_EVENT' || tx.object_type === 'TX_VESTING_START') {
+      const existing = eventDates.get(conditionId);
+      if (!existing || tx.date < existing) eventDates.set(conditionId, tx.date.slice(0, 10));
+    }
+  }
+
+  const predecessors = new Map<string, string[]>();
+  for (const condition of conditions.values()) {
+    for (const nextId of condition.next_condition_ids) {
+      predecessors.set(nextId, [...(predecessors.get(nextId) ?? []), condition.id]);
+    }
+  }
+
+  // ── Resolve trigger and completion dates (memoized, with cycle detection) ──
+  const resolved = new Map<string, { triggered: boolean; dates: string[] }>();
+  const resolving = new Set<string>();
+  const pending = new Set<string>();
+
+  const resolve = (id: string): { triggered: boolean; dates: string[] } => {
+    const cached = resolved.get(id);
+    if (cached) return cached;
+    const condition = conditions.get(id) as VestingCondition;
+    if (resolving.has(id)) {
+      throw new OcpValidationError(
+        `vestingTerms.vesting_conditions.${id}`,
+        `Vesting condition graph contains a cycle through '${id}'`,
+        { receivedValue: id, code: OcpErrorCodes.INVALID_FORMAT }
+      );
+    }
+    resolving.add(id);
+
+    const preds = predecessors.get(id) ?? [];
+    const predecessorDates = preds.map(resolve).filter((state) => state.triggered);
+    const reachable = preds.length === 0 || predecessorDates.length > 0;
+    let dates: string[] = [];
+
+    if (reachable) {
+      const { trigger } = condition;
+      switch (trigger.type) {
+        case 'VESTING_START_DATE': {
+          const date = eventDates.get(id) ?? defaultStartDate;
+          if (date) dates = [date];
+          break;
+        }
+        case 'VESTING_SCHEDULE_ABSOLUTE':
+          dates = [trigger.date.slice(0, 10)];
+          break;
+        case 'VESTING_EVENT': {
+          const date = eventDates.get(id);
+          if (date) dates = [date];
+          break;
+        }
+        case 'VESTING_SCHEDULE_RELATIVE': {
+          const base = resolve(trigger.relative_to_condition_id);
+          const baseDate = base.dates[base.dates.length - 1];
+          if (base.triggered && baseDate) {
+            dates = Array.from({ length: trigger.period.occurrences }, (_, index) =>
+              installmentDate(baseDate, trigger.period, index + 1, vestingStartDay)
+            );
+          }
+          break;
+        }
+      }
+      if (dates.length === 0) pending.add(id);
+    }
+
+    resolving.delete(id);
+    const state = { triggered: dates.length > 0, dates };
+    resolved.set(id, state);
+    return state;
+  };
+
+  // ── Amounts per triggered condition, in trigger order ──
+  const triggered = [...conditions.values()]
+    .map((condition, index) => ({ condition, index, state: resolve(condition.id) }))
+    .filter(({ state }) => state.triggered)
+    .sort((a, b) => a.state.dates[0].localeCompare(b.state.dates[0]) || a.index - b.index);
+
+  const installments: Installment[] = [];
+  let allocated = rational(0n);
+  for (const { condition, index, state } of triggered) {
+    let amount = rational(0n);
+    if (condition.quantity !== undefined) {
+      amount = rational(parseDecimal(condition.quantity, conditionPath(index, 'quantity')));
+    } else if (condition.portion) {
+      const numerator = parseDecimal(condition.portion.numerator, conditionPath(index, 'portion.numerator'));
+      const denominator = parseDecimal(condition.portion.denominator, conditionPath(index, 'portion.denominator'));
+      if (denominator === 0n) {
+        throw new OcpValidationError(
+          conditionPath(index, 'portion.denominator'),
+          'Portion denominator cannot be zero',
+          {
+            receivedValue: condition.portion.denominator,
+            code: OcpErrorCodes.OUT_OF_RANGE,
+          }
+        );
+      }
+      const base = condition.portion.remainder ? subtractRational(rational(total), allocated) : rational(total);
+      amount = rational(base.n * numerator, base.d * denominator);
+    }
+    allocated = addRational(allocated, amount);
+    // Conditions without an amount only gate their successors
+    if (amount.n === 0n) continue;
+
+    const { trigger } = condition;
+    const cliff = trigger.type === 'VESTING_SCHEDULE_RELATIVE' ? trigger.period.cliff_installment : undefined;
+    const cliffDate = cliff ? state.dates[cliff - 1] : null;
+    state.dates.forEach((date, installmentIndex) => {
+      installments.push({
+        date,
+        conditionId: condition.id,
+        exact: rational(amount.n, amount.d * BigInt(state.dates.length)),
+        cliffDate: cliff && installmentIndex < cliff ? cliffDate : null,
+      });
+    });
+  }
+
+  const ordered = installments
+    .map((installment, order) => ({ installment, order }))
+    .sort((a, b) => a.installment.date.localeCompare(b.installment.date) || a.order - b.order)
+    .map(({ installment }) => installment);
+  const amounts = allocate(ordered, vestingTerms.allocation_type);
+
+  // ── Fold cliffs, add accelerations, cap at the grant ──
+  const raw: Array<{ date: string; sourceId: string; kind: VestingTranche['kind']; amount: bigint }> = [];
+  ordered.forEach((installment, index) => {
+    const date = installment.cliffDate ?? installment.date;
+    const existing = installment.cliffDate
+      ? raw.find((entry) => entry.sourceId === installment.conditionId && entry.date === date)
+      : undefined;
+    if (existing) {
+      existing.amount += amounts[index];
+    } else {
+      raw.push({ date, sourceId: installment.conditionId, kind: 'SCHEDULED', amount: amounts[index] });
+    }
+  });
+  transactions.forEach((tx, index) => {
+    if (tx.object_type !== 'TX_VESTING_ACCELERATION' || typeof tx.date !== 'string') return;
+    raw.push({
+      date: tx.date.slice(0, 10),
+      sourceId: readString(tx.id) ?? `acceleration-${index}`,
+      kind: 'ACCELERATION',
+      amount: parseDecimal(readString(tx.quantity) ?? '0', `transactions.${index}.quantity`),
+    });
+  });
+
+  const tranches: VestingTranche[] = [];
+  let cumulative = 0n;
+  const sorted = raw
+    .map((entry, order) => ({ entry, order }))
+    .sort((a, b) => a.entry.date.localeCompare(b.entry.date) || a.order - b.order);
+  for (const { entry } of sorted) {
+    const amount = entry.amount > total - cumulative ? total - cumulative : entry.amount;
+    if (amount <= 0n) continue;
+    cumulative += amount;
+    tranches.push({
+      date: entry.date,
+      sourceId: entry.sourceId,
+      kind: entry.kind,
+      amount: formatDecimal(amount),
+      cumulative: formatDecimal(cumulative),
+    });
+  }
+
+  return {
+    quantity: formatDecimal(total),
+    allocationType: vestingTerms.allocation_type,
+    tranches,
+    pendingConditionIds: [...pending],
+    totalScheduled: formatDecimal(cumulative),
+  };
+}
+
+/**
+ * Vested and unvested quantities of a schedule at the end of a date.
+ *
+ * @param schedule - Schedule produced by {@link computeVestingSchedule}
+ * @param asOfDate - Date (YYYY-MM-DD); tranches dated on that day count as vested
+ */
+export function computeVestedQuantity(schedule: VestingSchedule, asOfDate: string): VestedQuantity {
+  validateRequiredDate(asOfDate, 'asOfDate');
+  const vested = schedule.tranches
+    .filter((tranche) => tranche.date <= asOfDate)
+    .reduce((total, tranche) => total + parseDecimal(tranche.amount), 0n);
+  return {
+    asOfDate,
+    vested: formatDecimal(vested),
+    unvested: formatDecimal(parseDecimal(schedule.quantity) - vested),
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * Minimal ZIP archive reader and writer.
+ *
+ * Writes deflated entries with UTF-8 names and no ZIP64 extensions, so archives are limited to 65535 entries of less
+ * than 4 GiB each; reads stored and deflated entries of unencrypted archives within the same limits. That covers OCF
+ * bundles without pulling in an archive dependency.
+ *
+ * @module zipArchive
+ */
+
+import { Readable } from 'stream';
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { OcpErrorCodes } from '../errors/codes';
+import { OcpValidationError } from '../errors/OcpValidationError';
+
+// ===== Types =====
+
+/** A file to store in an archive. */
+export interface ZipEntry {
+  /** Path inside the archive, with `/` separators */
+  name: string;
+  data: Buffer;
+}
+
+// ===== Helpers =====
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20;
+const UTF8_NAMES_FLAG = 0x0800;
+const STORED_METHOD = 0;
+const DEFLATE_METHOD = 8;
+const ENCRYPTED_FLAG = 0x0001;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS time and date fields of a timestamp (local time, 2-second precision, 1980 at the earliest). */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/** Fields shared by the local and central headers of an entry, from "version needed" to "extra field length". */
+function entryFields(fields: {
+  crc: number;
+  compressedSize: number;
+  size: number;
+  nameLength: number;
+  modified: { time: number; date: number };
+}): Buffer {
+  const buffer = Buffer.alloc(26);
+  buffer.writeUInt16LE(ZIP_VERSION, 0);
+  buffer.writeUInt16LE(UTF8_NAMES_FLAG, 2);
+  buffer.writeUInt16LE(DEFLATE_METHOD, 4);
+  buffer.writeUInt16LE(fields.modified.time, 6);
+  buffer.writeUInt16LE(fields.modified.date, 8);
+  buffer.writeUInt32LE(fields.crc, 10);
+  buffer.writeUInt32LE(fields.compressedSize, 14);
+  buffer.writeUInt32LE(fields.size, 18);
+  buffer.writeUInt16LE(fields.nameLength, 22);
+  buffer.writeUInt16LE(0, 24);
+  return buffer;
+}
+
+function* zipChunks(entries: readonly ZipEntry[], modifiedAt: Date): Generator<Buffer> {
+  const modified = dosDateTime(modifiedAt);
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const fields = entryFields({
+      crc: crc32(entry.data),
+      compressedSize: compressed.length,
+      size: entry.data.length,
+      nameLength: name.length,
+      modified,
+    });
+
+    const localSignature = Buffer.alloc(4);
+    localSignature.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    yield Buffer.concat([localSignature, fields, name]);
+    yield compressed;
+
+    const centralPrefix = Buffer.alloc(6);
+    centralPrefix.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    centralPrefix.writeUInt16LE(ZIP_VERSION, 4);
+    // Comment length, disk number, internal and external attributes, then the local header offset
+    const centralSuffix = Buffer.alloc(14);
+    centralSuffix.writeUInt32LE(offset, 10);
+    centralDirectory.push(Buffer.concat([centralPrefix, fields, centralSuffix, name]));
+
+    offset += 4 + fields.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  yield directory;
+  yield end;
+}
+
+function invalidArchive(message: string): OcpValidationError {
+  return new OcpValidationError('zip', message, { code: OcpErrorCodes.INVALID_FORMAT });
+}
+
+/** Offset of the end of central directory record, which may be followed by a comment of up to 64 KiB. */
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const earliest = Math.max(0, archive.length - END_OF_CENTRAL_DIRECTORY_SIZE - 0xffff);
+  for (let offset = archive.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return offset;
+  }
+  throw invalidArchive('Not a ZIP archive: end of central directory not found');
+}
+
+// ===== ZIP Reader =====
+
+/**
+ * Read every file of a ZIP archive.
+ *
+ * Directory entries are skipped. Entry contents are checked against their CRC-32.
+ *
+ * @param archive - Archive bytes
+ * @returns Files in central directory order
+ * @throws OcpValidationError (`INVALID_FORMAT`) if the archive is malformed, encrypted, uses ZIP64 or a compression
+ *   method other than stored or deflate, or an entry fails its CRC check
+ *
+ * @example
+ * ```typescript
+ * const entries = readZipArchive(await fs.readFile('bundle.zip'));
+ * for (const entry of entries) console.log(entry.name, entry.data.length);
+ * ```
+ */
+export function readZipArchive(archive: Buffer): ZipEntry[] {
+  const end = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) throw invalidArchive('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw invalidArchive(`Central directory entry ${i} is corrupt`);
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const crc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & ENCRYPTED_FLAG) throw invalidArchive(`Entry '${name}' is encrypted`);
+    if (compressedSize === 0xffffffff || size === 0xffffffff || localOffset === 0xffffffff) {
+      throw invalidArchive('ZIP64 archives are not supported');
+    }
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw invalidArchive(`Local header of entry '${name}' is corrupt`);
+    }
+    const dataStart =
+      localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+    if (raw.length !== compressedSize) throw invalidArchive(`Entry '${name}' is truncated`);
+
+    let data: Buffer;
+    if (method === STORED_METHOD) {
+      data = raw;
+    } else if (method === DEFLATE_METHOD) {
+      try {
+        data = inflateRawSync(raw);
+      } catch {
+        throw invalidArchive(`Entry '${name}' cannot be inflated`);
+      }
+    } else {
+      throw invalidArchive(`Entry '${name}' uses unsupported compression method ${method}`);
+    }
+    if (data.length !== size || crc32(data) !== crc) throw invalidArchive(`Entry '${name}' fails its CRC check`);
+    entries.push({ name, data });
+  }
+  return entries;
+}
+
+// ===== ZIP Writer =====
+
+/**
+ * Stream a ZIP archive of files.
+ *
+ * Entries are compressed one at a time as the stream is read.
+ *
+ * @param entries - Files to store, in archive order
+ * @param modifiedAt - Modification time recorded for every entry (default: now)
+ * @returns Readable stream of the archive bytes
+ * @throws OcpValidationError (`OUT_OF_RANGE`) if there are more entries, or larger entries, than an archive without
+ *   ZIP64 can hold
+ *
+ * @example
+ * ```typescript
+ * const zip = createZipStream([{ name: 'hello.txt', data: Buffer.from('Hello') }]);
+ * await pipeline(zip, fs.createWriteStream('hello.zip'));
+ * ```
+ */
+export function createZipStream(entries: readonly ZipEntry[], modifiedAt: Date = new Date()): Readable {
+  if (entries.length > 0xffff) {
+    throw new OcpValidationError('entries', `Too many ZIP entries: ${entries.length}`, {
+      code: OcpErrorCodes.OUT_OF_RANGE,
+    });
+  }
+  const oversized = entries.find((entry) => entry.data.length > 0xffffffff);
+  if (oversized) {
+    throw new OcpValidationError('entries', `ZIP entry '${oversized.name}' is larger than 4 GiB`, {
+      code: OcpErrorCodes.OUT_OF_RANGE,
+    });
+  }
+  return Readable.from(zipChunks(entries, modifiedAt), { objectMode: false });
+}
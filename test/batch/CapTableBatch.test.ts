@@ -1,14 +1,24 @@
 /** Unit tests for CapTableBatch fluent builder. */
 
+import type { LedgerJsonApiClient } from '@fairmint/canton-node-sdk';
 import { CapTable } from '@fairmint/open-captable-protocol-daml-js/lib/Fairmint/OpenCapTable/CapTable/module';
 import { OcpErrorCodes, OcpValidationError } from '../../src/errors';
 import { buildUpdateCapTableCommand, CapTableBatch, ENTITY_TAG_MAP } from '../../src/functions/OpenCapTable/capTable';
+import type { OcfEntityType } from '../../src/functions/OpenCapTable/capTable/entityTypes';
 import type {
+  OcfEquityCompensationIssuance,
   OcfStakeholder,
   OcfStockClass,
   OcfStockClassConversionRatioAdjustment,
   OcfStockClassSplit,
+  OcfStockIssuance,
 } from '../../src/types';
+import { ValidationRuleRegistry } from '../../src/utils/validationRules';
+
+/** Hand a mock exposing only the submission endpoint to the batch as a ledger client. */
+function ledgerClient(mock: Pick<LedgerJsonApiClient, 'submitAndWaitForTransactionTree'>): LedgerJsonApiClient {
+  return mock as LedgerJsonApiClient;
+}
 
 describe('CapTableBatch', () => {
   describe('fluent builder API', () => {
@@ -405,7 +415,7 @@ describe('CapTableBatch', () => {
           capTableContractId: 'cap-table-123',
           actAs: ['party-1'],
         },
-        mockClient as never
+        ledgerClient(mockClient)
       );
 
       batch.create('stakeholder', {
@@ -429,7 +439,7 @@ describe('CapTableBatch', () => {
           capTableContractId: 'cap-table-123',
           actAs: ['party-1'],
         },
-        mockClient as never
+        ledgerClient(mockClient)
       );
 
       batch
@@ -483,7 +493,7 @@ describe('CapTableBatch', () => {
           commandId: 'retry-safe-command-1',
           actAs: ['party-1'],
         },
-        mockClient as never
+        ledgerClient(mockClient)
       );
 
       batch.delete('document', 'doc-123');
@@ -545,7 +555,7 @@ describe('CapTableBatch', () => {
           logger,
           metrics,
         },
-        mockClient as never
+        ledgerClient(mockClient)
       );
 
       batch.delete('document', 'doc-123');
@@ -604,7 +614,7 @@ describe('CapTableBatch', () => {
           defaultContext: { commandId: 'default-command-1' },
           context: { commandId: 'context-command-1' },
         },
-        mockClient as never
+        ledgerClient(mockClient)
       );
 
       batch.delete('document', 'doc-123');
@@ -641,7 +651,7 @@ describe('CapTableBatch', () => {
           capTableContractId: 'cap-table-123',
           actAs: ['party-1'],
         },
-        mockClient as never
+        ledgerClient(mockClient)
       );
 
       batch.delete('stakeholder', 'sh-123');
@@ -661,7 +671,7 @@ describe('CapTableBatch', () => {
           capTableContractId: 'cap-table-123',
           actAs: ['party-1'],
         },
-        mockClient as never
+        ledgerClient(mockClient)
       );
 
       batch.delete('document', 'doc-123');
@@ -676,6 +686,404 @@ describe('CapTableBatch', () => {
   });
 });
 
+/** Mirrors production/stockIssuance/founders-stock.json. */
+const foundersStock: OcfStockIssuance = {
+  object_type: 'TX_STOCK_ISSUANCE',
+  id: 'test-stock-issuance-founders-001',
+  date: '2024-01-15',
+  security_id: 'test-security-founders-001',
+  custom_id: 'CS-001',
+  stakeholder_id: 'test-stakeholder-individual-001',
+  stock_class_id: 'test-stock-class-common-001',
+  quantity: '5000000',
+  share_price: { amount: '0.0001', currency: 'USD' },
+  cost_basis: { amount: '500', currency: 'USD' },
+  issuance_type: 'FOUNDERS_STOCK',
+  stock_legend_ids: ['test-legend-001'],
+  consideration_text: 'Cash payment of $500.00',
+  security_law_exemptions: [{ description: 'Securities Act of 1933, Section 4(a)(2)', jurisdiction: 'US' }],
+  comments: [],
+};
+
+/** Mirrors production/equityCompensationIssuance/option-iso.json. */
+const optionGrant: OcfEquityCompensationIssuance = {
+  object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+  id: 'test-equity-comp-iso-001',
+  date: '2024-07-01',
+  security_id: 'test-security-option-iso-001',
+  custom_id: 'OPT-001',
+  stakeholder_id: 'test-stakeholder-individual-001',
+  stock_plan_id: 'test-stock-plan-001',
+  stock_class_id: 'test-stock-class-common-001',
+  compensation_type: 'OPTION_ISO',
+  option_grant_type: 'ISO',
+  quantity: '50000',
+  exercise_price: { amount: '1.00', currency: 'USD' },
+  expiration_date: '2034-07-01',
+  vesting_terms_id: 'test-vesting-terms-001',
+  termination_exercise_windows: [
+    { reason: 'INVOLUNTARY_WITH_CAUSE', period: 1, period_type: 'DAYS' },
+    { reason: 'INVOLUNTARY_OTHER', period: 90, period_type: 'DAYS' },
+    { reason: 'VOLUNTARY_GOOD_CAUSE', period: 90, period_type: 'DAYS' },
+  ],
+  security_law_exemptions: [{ description: 'SEC Rule 701', jurisdiction: 'US' }],
+  comments: [],
+};
+
+describe('stock plan pool pre-flight', () => {
+  const manifest = {
+    issuer: null,
+    stockClasses: [],
+    stockPlans: [{ id: 'test-stock-plan-001', plan_name: '2024 Plan', initial_shares_reserved: '40000' }],
+    transactions: [],
+  };
+
+  it('should report pending grants that exceed the plan pool', () => {
+    const batch = new CapTableBatch({ capTableContractId: 'cap-table-123', actAs: ['party-1'] });
+    batch.create('equityCompensationIssuance', optionGrant);
+
+    expect(batch.checkStockPlanPools(manifest)).toEqual([
+      {
+        stockPlanId: 'test-stock-plan-001',
+        planName: '2024 Plan',
+        availableBefore: '40000',
+        availableAfter: '-10000',
+        requested: '50000',
+        securityIds: ['test-security-option-iso-001'],
+      },
+    ]);
+    expect(batch.clear().checkStockPlanPools(manifest)).toEqual([]);
+  });
+
+  it('should warn through the logger before executing an over-granting batch', async () => {
+    const mockClient = {
+      submitAndWaitForTransactionTree: jest.fn().mockRejectedValue(new Error('stop after pre-flight')),
+    };
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const batch = new CapTableBatch(
+      { capTableContractId: 'cap-table-123', actAs: ['party-1'], logger, preflightManifest: manifest },
+      ledgerClient(mockClient)
+    );
+    batch.create('equityCompensationIssuance', optionGrant);
+
+    await expect(batch.execute()).rejects.toThrow('stop after pre-flight');
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Batch would over-grant stock plan '2024 Plan': 50000 requested, 40000 available",
+      expect.objectContaining({ stockPlanId: 'test-stock-plan-001', availableAfter: '-10000' })
+    );
+  });
+
+  it('should log and skip the pool check when the manifest history is inconsistent', async () => {
+    const mockClient = {
+      submitAndWaitForTransactionTree: jest.fn().mockRejectedValue(new Error('stop after pre-flight')),
+    };
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const inconsistent = {
+      ...manifest,
+      transactions: [
+        {
+          object_type: 'TX_EQUITY_COMPENSATION_CANCELLATION',
+          id: 'tx-cancel',
+          date: '2024-01-01',
+          security_id: 'never-issued',
+          quantity: '1',
+        },
+      ],
+    };
+    const batch = new CapTableBatch(
+      { capTableContractId: 'cap-table-123', actAs: ['party-1'], logger, preflightManifest: inconsistent },
+      ledgerClient(mockClient)
+    );
+    batch.create('equityCompensationIssuance', optionGrant);
+
+    await expect(batch.execute()).rejects.toThrow('stop after pre-flight');
+    expect(mockClient.submitAndWaitForTransactionTree).toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Skipped the stock plan pool pre-flight check'),
+      expect.objectContaining({ code: 'UNKNOWN_SECURITY' })
+    );
+  });
+});
+
+describe('ISO limit pre-flight', () => {
+  const isoGrant: OcfEquityCompensationIssuance = { ...optionGrant, quantity: '150000', vesting_terms_id: undefined };
+  const manifest = { issuer: null, stockClasses: [], stockPlans: [], transactions: [] };
+
+  it('should report pending ISO grants above the annual limit', () => {
+    const batch = new CapTableBatch({ capTableContractId: 'cap-table-123', actAs: ['party-1'] });
+    batch.create('equityCompensationIssuance', isoGrant);
+
+    expect(batch.checkIsoLimits(manifest)).toEqual([
+      expect.objectContaining({
+        stakeholderId: 'test-stakeholder-individual-001',
+        year: 2024,
+        exercisableValue: '150000',
+        excess: '50000',
+      }),
+    ]);
+    expect(batch.clear().checkIsoLimits(manifest)).toEqual([]);
+  });
+
+  it('should warn through the logger before executing a batch above the limit', async () => {
+    const mockClient = {
+      submitAndWaitForTransactionTree: jest.fn().mockRejectedValue(new Error('stop after pre-flight')),
+    };
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const batch = new CapTableBatch(
+      { capTableContractId: 'cap-table-123', actAs: ['party-1'], logger, preflightManifest: manifest },
+      ledgerClient(mockClient)
+    );
+    batch.create('equityCompensationIssuance', isoGrant);
+
+    await expect(batch.execute()).rejects.toThrow('stop after pre-flight');
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Batch would exceed the ISO limit of stakeholder 'test-stakeholder-individual-001' in 2024: " +
+        '50000 of 150000 first exercisable must be treated as NSO',
+      expect.objectContaining({ year: 2024, excess: '50000' })
+    );
+  });
+
+  it('should log and skip the ISO check when vesting terms are invalid', async () => {
+    const mockClient = {
+      submitAndWaitForTransactionTree: jest.fn().mockRejectedValue(new Error('stop after pre-flight')),
+    };
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const start = { id: 'start', trigger: { type: 'VESTING_START_DATE' }, next_condition_ids: [] };
+    const batch = new CapTableBatch(
+      {
+        capTableContractId: 'cap-table-123',
+        actAs: ['party-1'],
+        logger,
+        preflightManifest: {
+          ...manifest,
+          vestingTerms: [{ id: 'broken', allocation_type: 'CUMULATIVE_ROUNDING', vesting_conditions: [start, start] }],
+        },
+      },
+      ledgerClient(mockClient)
+    );
+    batch.create('equityCompensationIssuance', { ...isoGrant, vesting_terms_id: 'broken' });
+
+    await expect(batch.execute()).rejects.toThrow('stop after pre-flight');
+    expect(mockClient.submitAndWaitForTransactionTree).toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Skipped the ISO limit pre-flight check'),
+      expect.objectContaining({ fieldPath: expect.stringContaining('vesting_conditions') })
+    );
+  });
+});
+
+describe('authorized shares pre-flight', () => {
+  const manifest = {
+    issuer: { id: 'issuer', initial_shares_authorized: '10000000' },
+    stockClasses: [{ id: 'test-stock-class-common-001', name: 'Common', initial_shares_authorized: '4000000' }],
+    stockPlans: [],
+    transactions: [],
+  };
+
+  it('should reject pending issuances that exceed the stock class authorization', () => {
+    const batch = new CapTableBatch({ capTableContractId: 'cap-table-123', actAs: ['party-1'] });
+    batch.create('stockIssuance', foundersStock);
+
+    expect(() => batch.checkAuthorizedShares(manifest)).toThrow(
+      "Stock class 'Common' (test-stock-class-common-001) would exceed its authorized shares"
+    );
+    expect(() =>
+      batch.checkAuthorizedShares({
+        ...manifest,
+        stockClasses: [{ ...manifest.stockClasses[0], initial_shares_authorized: 'UNLIMITED' }],
+      })
+    ).not.toThrow();
+  });
+
+  it('should only enforce the check in execute() when enabled', async () => {
+    const mockClient = {
+      submitAndWaitForTransactionTree: jest.fn().mockRejectedValue(new Error('submitted')),
+    };
+    const params = { capTableContractId: 'cap-table-123', actAs: ['party-1'], preflightManifest: manifest };
+
+    const lenient = new CapTableBatch(params, ledgerClient(mockClient)).create('stockIssuance', foundersStock);
+    await expect(lenient.execute()).rejects.toThrow('submitted');
+
+    const strict = new CapTableBatch({ ...params, enforceAuthorizedShares: true }, ledgerClient(mockClient)).create(
+      'stockIssuance',
+      foundersStock
+    );
+    await expect(strict.execute()).rejects.toThrow(OcpValidationError);
+    expect(mockClient.submitAndWaitForTransactionTree).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('security lifecycle pre-flight', () => {
+  const manifest = {
+    issuer: null,
+    stockClasses: [],
+    stockPlans: [],
+    transactions: [
+      { ...foundersStock },
+      {
+        object_type: 'TX_STOCK_CANCELLATION',
+        id: 'tx-cancel',
+        date: '2024-06-01',
+        security_id: 'test-security-founders-001',
+        quantity: '5000000',
+      },
+    ],
+  };
+
+  it('should report pending transactions on consumed securities', () => {
+    const batch = new CapTableBatch({ capTableContractId: 'cap-table-123', actAs: ['party-1'] }).create(
+      'stockIssuance',
+      { ...foundersStock, id: 'tx-duplicate', date: '2024-07-01' }
+    );
+
+    expect(
+      batch.checkSecurityLifecycle(manifest).map((violation) => [violation.transactionId, violation.code])
+    ).toEqual([['tx-duplicate', OcpErrorCodes.INVALID_SECURITY_STATE]]);
+    expect(batch.clear().checkSecurityLifecycle(manifest)).toEqual([]);
+  });
+
+  it('should only reject lifecycle violations in execute() when enabled', async () => {
+    const mockClient = {
+      submitAndWaitForTransactionTree: jest.fn().mockRejectedValue(new Error('submitted')),
+    };
+    const params = { capTableContractId: 'cap-table-123', actAs: ['party-1'], preflightManifest: manifest };
+    const duplicate = { ...foundersStock, id: 'tx-duplicate', date: '2024-07-01' };
+
+    const lenient = new CapTableBatch(params, ledgerClient(mockClient)).create('stockIssuance', duplicate);
+    await expect(lenient.execute()).rejects.toThrow('submitted');
+
+    const strict = new CapTableBatch({ ...params, enforceSecurityLifecycle: true }, ledgerClient(mockClient)).create(
+      'stockIssuance',
+      duplicate
+    );
+    await expect(strict.execute()).rejects.toMatchObject({ code: OcpErrorCodes.INVALID_SECURITY_STATE });
+    expect(mockClient.submitAndWaitForTransactionTree).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('temporal consistency pre-flight', () => {
+  const manifest = {
+    issuer: { object_type: 'ISSUER', id: 'issuer', formation_date: '2030-01-01' },
+    stockClasses: [],
+    stockPlans: [],
+    transactions: [],
+  };
+
+  it('should warn about inconsistent dates and only reject them when enabled', async () => {
+    const mockClient = {
+      submitAndWaitForTransactionTree: jest.fn().mockRejectedValue(new Error('submitted')),
+    };
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const params = { capTableContractId: 'cap-table-123', actAs: ['party-1'], preflightManifest: manifest, logger };
+
+    const lenient = new CapTableBatch(params, ledgerClient(mockClient)).create('stockIssuance', foundersStock);
+    expect(lenient.checkTemporalConsistency(manifest).map((issue) => [issue.fieldPath, issue.code])).toEqual([
+      ['date', OcpErrorCodes.OUT_OF_RANGE],
+    ]);
+    await expect(lenient.execute()).rejects.toThrow('submitted');
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("before the issuer's formation date 2030-01-01"),
+      expect.objectContaining({ entityType: 'stockIssuance' })
+    );
+
+    logger.warn.mockClear();
+    const strict = new CapTableBatch({ ...params, enforceTemporalConsistency: true }, ledgerClient(mockClient)).create(
+      'stockIssuance',
+      foundersStock
+    );
+    await expect(strict.execute()).rejects.toMatchObject({
+      fieldPath: 'stockIssuance.date',
+      code: OcpErrorCodes.OUT_OF_RANGE,
+    });
+    expect(mockClient.submitAndWaitForTransactionTree).toHaveBeenCalledTimes(1);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+});
+
+describe('referential integrity pre-flight', () => {
+  const state = {
+    entities: new Map<OcfEntityType, Set<string>>([
+      ['stakeholder', new Set(['test-stakeholder-individual-001'])],
+      ['stockClass', new Set(['test-stock-class-common-001'])],
+    ]),
+    securityIds: new Map<OcfEntityType, Set<string>>(),
+  };
+
+  it('should report references that do not resolve once the batch is applied', () => {
+    const batch = new CapTableBatch({ capTableContractId: 'cap-table-123', actAs: ['party-1'] })
+      .create('stockIssuance', foundersStock)
+      .delete('stakeholder', 'test-stakeholder-individual-001');
+
+    expect(batch.checkReferences(state).map((ref) => [ref.entityType, ref.fieldPath, ref.targetId])).toEqual([
+      ['stockIssuance', 'stakeholder_id', 'test-stakeholder-individual-001'],
+      ['stockIssuance', 'stock_legend_ids[0]', 'test-legend-001'],
+    ]);
+  });
+
+  it('should reject dangling references in execute() before submitting', async () => {
+    const mockClient = { submitAndWaitForTransactionTree: jest.fn() };
+    const batch = new CapTableBatch(
+      { capTableContractId: 'cap-table-123', actAs: ['party-1'], preflightState: state },
+      ledgerClient(mockClient)
+    ).create('stockIssuance', foundersStock);
+
+    await expect(batch.execute()).rejects.toMatchObject({
+      fieldPath: 'stockIssuance.stock_legend_ids[0]',
+      code: OcpErrorCodes.UNKNOWN_REFERENCE,
+    });
+    expect(mockClient.submitAndWaitForTransactionTree).not.toHaveBeenCalled();
+  });
+});
+
+describe('custom validation rules', () => {
+  const params = { capTableContractId: 'cap-table-123', actAs: ['party-1'] };
+  const protectedClasses = () =>
+    new ValidationRuleRegistry().addBatchRule({
+      name: 'keep-common',
+      validate: (operations) =>
+        (operations.deletes ?? [])
+          .filter((operation) => operation.id === 'common')
+          .map(() => ({ fieldPath: 'deletes', message: 'The common stock class cannot be deleted' })),
+    });
+
+  it('should reject rule errors in build()', () => {
+    const batch = new CapTableBatch({ ...params, validationRules: protectedClasses() }).delete('stockClass', 'common');
+
+    expect(() => batch.build()).toThrow("1 validation rule error(s); first: rule 'keep-common'");
+    expect(() => batch.clear().delete('stockClass', 'preferred').build()).not.toThrow();
+  });
+
+  it('should await async rules in execute() and log warnings', async () => {
+    const mockClient = { submitAndWaitForTransactionTree: jest.fn().mockRejectedValue(new Error('submitted')) };
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const rules = new ValidationRuleRegistry().addBatchRule({
+      name: 'review-deletes',
+      validate: async (operations) =>
+        Promise.resolve(
+          (operations.deletes ?? []).map((operation) => ({
+            fieldPath: 'deletes',
+            message: `Deletes ${operation.id}`,
+            severity: operation.id === 'common' ? ('error' as const) : ('warning' as const),
+          }))
+        ),
+    });
+
+    const batch = new CapTableBatch({ ...params, validationRules: rules, logger }, ledgerClient(mockClient));
+    expect(() => batch.delete('stockClass', 'preferred').build()).toThrow("Rule 'review-deletes' is async");
+    await expect(batch.execute()).rejects.toThrow('submitted');
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Validation rule 'review-deletes' warning on deletes: Deletes preferred",
+      expect.objectContaining({ rule: 'review-deletes' })
+    );
+
+    await expect(batch.delete('stockClass', 'common').execute()).rejects.toMatchObject({
+      fieldPath: 'batch.deletes',
+      code: OcpErrorCodes.RULE_VIOLATION,
+    });
+    expect(mockClient.submitAndWaitForTransactionTree).toHaveBeenCalledTimes(1);
+  });
+});
+
 describe('JSON-safety guard', () => {
   it('should throw OcpValidationError when converter output contains undefined', () => {
     const batch = new CapTableBatch({
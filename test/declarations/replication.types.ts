@@ -8,93 +8,252 @@
  */
 
 import {
+  analyzeGrantValuations,
+  applyJsonPatch,
+  applyOcfJsonPatch,
+  applyStockSplits,
   archiveCapTable,
+  assertAuthorizedSharesHeadroom,
   buildCantonOcfDataMap,
+  buildSecurityLineage,
   classifyIssuerCapTables,
+  computeAuthorizedShares,
+  computeCapitalization,
+  computeCapTablePositions,
+  computeCapTableSnapshot,
+  computeExitScenarios,
+  computeIsoLimits,
+  computeLiquidationWaterfall,
   computeReplicationDiff,
+  computeStakeholderStatement,
+  computeStockPlanPools,
+  computeVestedQuantity,
+  computeVestingSchedule,
+  convertMonetary,
   countManifestObjects,
+  createConvertibleLedgerCsvStream,
   createFactory,
+  createOcfBundleZipStream,
+  createOcfJsonPatch,
   createOcfMismatchError,
+  createOptionLedgerCsvStream,
+  createReplicationEditPatches,
+  createStakeholderCsvStream,
+  createStockLedgerCsvStream,
+  createValidationReport,
+  createWarrantLedgerCsvStream,
+  CURRENT_OCF_VERSION,
   DEFAULT_DEPRECATED_FIELDS,
   DEFAULT_INTERNAL_FIELDS,
+  DEFAULT_OCF_MIGRATIONS,
   diffOcfObjects,
   ENTITY_OBJECT_TYPE_MAP,
+  exportOcfBundle,
   extractCantonOcfManifest,
   FIELD_TO_ENTITY_TYPE,
+  findIsoLimitViolations,
+  findPendingDanglingReferences,
+  findSecurityLifecycleViolations,
+  findStockPlanPoolOverages,
+  findTemporalConsistencyIssues,
   getCapTableState,
   getEntityTypeLabel,
   getOcfSchema,
   getOcfTypeLabel,
+  getSecurityAncestors,
+  getSecurityDescendants,
   getSystemOperatorPartyId,
+  importCapTableCsv,
+  importOcfBundle,
+  isAuthorizedSharesSentinel,
+  isIso4217CurrencyCode,
   isOcfMismatchError,
   mapCategorizedTypeToEntityType,
   matchesTemplateIdentity,
+  migrateOcfObjects,
+  modelConvertibleConversions,
   normalizeEntityType,
   normalizeObjectType,
   normalizeOcfData,
+  OCF_VERSIONS,
   ocfCompare,
   ocfDeepEqual,
+  OcfMigrationRegistry,
+  parseOcfBundle,
   parseOcfEntityInput,
   parseOcfObject,
+  renderStakeholderStatementHtml,
   SECURITY_ID_FIELD_TO_ENTITY_TYPE,
   sortTransactions,
   stripInternalFields,
+  sumMonetary,
   TRANSACTION_SUBTYPE_MAP,
+  validateCapTableBatchOperations,
+  validateCurrencyCode,
+  validateCurrencyConsistency,
+  validateOcfEntityInput,
+  validateOcfFile,
+  validateOcfManifest,
+  validateReferentialIntegrity,
+  validateSecurityLifecycle,
+  validateTemporalConsistency,
+  ValidationRuleRegistry,
+  writeOcfBundle,
+  type AuthorizedSharesReport,
+  type BatchValidationRule,
   type CantonOcfDataMap,
+  type CapitalizationSummary,
+  type CapTablePositions,
+  type CapTableSnapshot,
   type ComputeReplicationDiffOptions,
+  type ConvertibleConversionModelResult,
   type CreateFactoryParams,
   type CreateFactoryResult,
+  type CsvExportOptions,
+  type CsvImportResult,
+  type CsvRowIssue,
+  type DanglingReference,
+  type EntityValidationRule,
+  type ExportOcfBundleOptions,
   type ExtractCantonOcfOptions,
+  type FxRate,
+  type GrantValuationReport,
+  type IsoLimitReport,
+  type IsoLimitYear,
+  type JsonPatchOperation,
+  type LineageStep,
+  type LiquidationWaterfall,
+  type OcfBundle,
   type OcfComparisonOptions,
   type OcfComparisonResult,
   type OcfManifest,
+  type OcfMigrationReport,
+  type OcfMigrationStep,
   type OcfMismatchError,
+  type OcfVersion,
+  type OptionLedgerRow,
+  type ReferentialIntegrityReport,
   type ReplicationDiff,
+  type ReplicationEditPatch,
   type ReplicationItem,
+  type ReportingCurrencyOptions,
   type SecurityIdConflict,
+  type SecurityLifecycleReport,
+  type SecurityLifecycleViolation,
+  type SecurityLineageGraph,
+  type SecurityPosition,
+  type SkippedWaterfallSecurity,
   type SourceReplicationItem,
+  type StakeholderStatement,
+  type StockLedgerRow,
+  type StockPlanPool,
+  type StockPlanPoolOverage,
+  type StockSplitResult,
+  type ValidationIssue,
+  type ValidationReport,
+  type ValidationRuleFinding,
+  type VestingSchedule,
 } from '../../dist/replication';
 
 // Root barrel types used in replication consumer signatures — imported from root, not from this subpath.
-import type { CapTableState, OcfEntityType } from '../../dist';
+import type { CapTableState, OcfCreateOperation, OcfEntityType, OcfStakeholder } from '../../dist';
 
 type Assert<T extends true> = T;
 type IsAssignableTo<A, B> = A extends B ? true : false;
 
 // ── Runtime values are callable/accessible ──────────────────────────────────
 
+void analyzeGrantValuations;
+void applyJsonPatch;
+void applyOcfJsonPatch;
+void applyStockSplits;
 void archiveCapTable;
+void assertAuthorizedSharesHeadroom;
 void buildCantonOcfDataMap;
+void buildSecurityLineage;
 void classifyIssuerCapTables;
+void computeAuthorizedShares;
+void computeCapTablePositions;
+void computeCapTableSnapshot;
+void computeCapitalization;
+void computeExitScenarios;
+void computeIsoLimits;
+void computeLiquidationWaterfall;
 void computeReplicationDiff;
+void computeStakeholderStatement;
+void computeStockPlanPools;
+void computeVestedQuantity;
+void computeVestingSchedule;
+void convertMonetary;
 void countManifestObjects;
+void createConvertibleLedgerCsvStream;
 void createFactory;
+void createOcfBundleZipStream;
+void createOcfJsonPatch;
 void createOcfMismatchError;
+void createOptionLedgerCsvStream;
+void createReplicationEditPatches;
+void createStakeholderCsvStream;
+void createStockLedgerCsvStream;
+void createValidationReport;
+void createWarrantLedgerCsvStream;
+void CURRENT_OCF_VERSION;
 void DEFAULT_DEPRECATED_FIELDS;
 void DEFAULT_INTERNAL_FIELDS;
+void DEFAULT_OCF_MIGRATIONS;
 void diffOcfObjects;
 void ENTITY_OBJECT_TYPE_MAP;
+void exportOcfBundle;
 void extractCantonOcfManifest;
+void findIsoLimitViolations;
+void findPendingDanglingReferences;
+void findSecurityLifecycleViolations;
+void findStockPlanPoolOverages;
+void findTemporalConsistencyIssues;
 void FIELD_TO_ENTITY_TYPE;
 void getCapTableState;
 void getEntityTypeLabel;
 void getOcfSchema;
 void getOcfTypeLabel;
+void getSecurityAncestors;
+void getSecurityDescendants;
 void getSystemOperatorPartyId;
+void importCapTableCsv;
+void importOcfBundle;
+void isAuthorizedSharesSentinel;
+void isIso4217CurrencyCode;
 void isOcfMismatchError;
 void mapCategorizedTypeToEntityType;
 void matchesTemplateIdentity;
+void migrateOcfObjects;
+void modelConvertibleConversions;
 void normalizeEntityType;
 void normalizeObjectType;
 void normalizeOcfData;
+void OCF_VERSIONS;
 void ocfCompare;
 void ocfDeepEqual;
+void OcfMigrationRegistry;
+void parseOcfBundle;
 void parseOcfEntityInput;
 void parseOcfObject;
+void renderStakeholderStatementHtml;
 void SECURITY_ID_FIELD_TO_ENTITY_TYPE;
 void sortTransactions;
 void stripInternalFields;
+void sumMonetary;
 void TRANSACTION_SUBTYPE_MAP;
+void validateCapTableBatchOperations;
+void validateCurrencyCode;
+void validateCurrencyConsistency;
+void validateOcfEntityInput;
+void validateOcfFile;
+void validateOcfManifest;
+void validateReferentialIntegrity;
+void validateSecurityLifecycle;
+void validateTemporalConsistency;
+void ValidationRuleRegistry;
+void writeOcfBundle;
 
 // ── Key type contracts ──────────────────────────────────────────────────────
 
@@ -201,6 +360,240 @@ declare const ocfManifest: OcfManifest;
 const _issuerCount: number = countManifestObjects(ocfManifest);
 void _issuerCount;
 
+// computeCapTablePositions replays a manifest into per-security positions
+const positions: CapTablePositions = computeCapTablePositions(ocfManifest);
+const outstandingPositions: SecurityPosition[] = positions.outstanding;
+void outstandingPositions;
+
+// computeCapitalization summarizes share counts from the same manifest
+const capitalization: CapitalizationSummary = computeCapitalization(ocfManifest);
+const fullyDiluted: string = capitalization.totals.fullyDiluted;
+void fullyDiluted;
+
+// computeCapTableSnapshot rebuilds the cap table as of a date
+const snapshot: CapTableSnapshot = computeCapTableSnapshot(ocfManifest, '2024-06-30');
+const snapshotHoldings: SecurityPosition[] = snapshot.holdings;
+void snapshotHoldings;
+
+// computeAuthorizedShares reports authorized vs issued headroom
+const authorized: AuthorizedSharesReport = computeAuthorizedShares(ocfManifest);
+const classHeadroom: string | null = authorized.stockClasses[0].headroom;
+void classHeadroom;
+assertAuthorizedSharesHeadroom(ocfManifest, { transactions: [] });
+
+// modelConvertibleConversions drafts SAFE and note conversions for a priced round
+const conversionModel: ConvertibleConversionModelResult = modelConvertibleConversions(ocfManifest, {
+  date: '2025-03-01',
+  stockClassId: 'series-a',
+  pricePerShare: { amount: '1.25', currency: 'USD' },
+  preMoneyValuation: { amount: '20000000', currency: 'USD' },
+  newMoney: { amount: '5000000', currency: 'USD' },
+});
+const conversionShares: string | undefined = conversionModel.conversions[0]?.shares;
+void conversionShares;
+
+// computeLiquidationWaterfall and computeExitScenarios distribute exit values across the cap table
+const waterfall: LiquidationWaterfall = computeLiquidationWaterfall(ocfManifest, '50000000');
+const classPayout: string | undefined = waterfall.classes[0]?.total;
+const skippedSecurities: SkippedWaterfallSecurity[] = waterfall.skipped;
+const scenarios: LiquidationWaterfall[] = computeExitScenarios(ocfManifest, { from: '0', to: '100000000', points: 11 });
+void classPayout;
+void skippedSecurities;
+void scenarios;
+
+// buildSecurityLineage traces securities across transfers, conversions and exercises
+const lineage: SecurityLineageGraph = buildSecurityLineage(ocfManifest);
+const ancestors: LineageStep[] = getSecurityAncestors(lineage, 'cs-1');
+const descendants: LineageStep[] = getSecurityDescendants(lineage, 'cs-1');
+const lineageCycles: string[][] = lineage.cycles;
+void ancestors;
+void descendants;
+void lineageCycles;
+
+// computeStakeholderStatement builds a shareable holdings statement for one stakeholder
+const statement: StakeholderStatement = computeStakeholderStatement(ocfManifest, 'sh-1', '2024-12-31');
+const statementHtml: string = renderStakeholderStatementHtml(statement);
+void statementHtml;
+
+// analyzeGrantValuations matches option grants to the 409A valuation in effect
+const grantValuations: GrantValuationReport = analyzeGrantValuations(ocfManifest, { validityMonths: 12 });
+const grantIssues: string[] = grantValuations.flagged.flatMap((grant) => grant.issues);
+void grantIssues;
+
+// computeIsoLimits and findIsoLimitViolations check the ISO $100,000 annual limit
+const isoLimits: IsoLimitReport = computeIsoLimits(ocfManifest, { limit: '100000', currency: 'USD' });
+const isoViolations: IsoLimitYear[] = findIsoLimitViolations(ocfManifest, { transactions: [] });
+const isoExcess: string[] = isoLimits.violations.map((year) => year.excess);
+void isoViolations;
+void isoExcess;
+
+// validateReferentialIntegrity and findPendingDanglingReferences list references to missing objects
+const integrity: ReferentialIntegrityReport = validateReferentialIntegrity(ocfManifest);
+const pendingDangling: DanglingReference[] = findPendingDanglingReferences(fakeState, {
+  creates: [],
+  edits: [],
+  deletes: [{ entityType: 'stakeholder', id: 'sh-1' }],
+});
+const danglingPaths: string[] = integrity.danglingReferences.map((ref) => ref.fieldPath);
+void pendingDangling;
+void danglingPaths;
+
+// validateSecurityLifecycle and findSecurityLifecycleViolations collect coded lifecycle violations
+const lifecycle: SecurityLifecycleReport = validateSecurityLifecycle(ocfManifest);
+const lifecycleViolations: SecurityLifecycleViolation[] = findSecurityLifecycleViolations(ocfManifest, {
+  transactions: [],
+});
+const lifecycleCodes: string[] = lifecycle.violations.map((violation) => violation.code);
+void lifecycleViolations;
+void lifecycleCodes;
+
+// validateTemporalConsistency and findTemporalConsistencyIssues check that OCF dates agree
+const temporal: ValidationReport = validateTemporalConsistency(ocfManifest);
+const pendingDateIssues: ValidationIssue[] = findTemporalConsistencyIssues(ocfManifest, { transactions: [] });
+void temporal;
+void pendingDateIssues;
+
+// validateOcfManifest, validateOcfEntityInput and validateCapTableBatchOperations collect every issue
+const manifestReport: ValidationReport = validateOcfManifest(ocfManifest);
+const entityReport: ValidationReport = validateOcfEntityInput('stakeholder', { object_type: 'STAKEHOLDER' });
+const batchReport: ValidationReport = validateCapTableBatchOperations({
+  deletes: [{ type: 'stakeholder', id: 'sh-1' }],
+});
+const reportIssues: ValidationIssue[] = manifestReport.issues.filter((issue) => issue.severity === 'error');
+void entityReport;
+void batchReport;
+void reportIssues;
+
+// ValidationRuleRegistry runs custom entity and batch rules, sync or async
+const taxIdRule: EntityValidationRule<'stakeholder'> = {
+  name: 'stakeholder-tax-id',
+  entityType: 'stakeholder',
+  validate: (stakeholder) => (stakeholder.tax_ids?.length ? [] : [{ fieldPath: 'tax_ids', message: 'Required' }]),
+};
+const batchRule: BatchValidationRule = {
+  name: 'no-deletes',
+  validate: async (operations, context): Promise<ValidationRuleFinding[]> =>
+    Promise.resolve(
+      (operations.deletes ?? []).length > 0 && context.state ? [{ fieldPath: 'deletes', message: 'No deletes' }] : []
+    ),
+};
+const rules = new ValidationRuleRegistry().addEntityRule(taxIdRule).addBatchRule(batchRule);
+const rulesReport: Promise<ValidationReport> = rules.validateReplicationDiff(
+  { creates: [], edits: [], deletes: [] },
+  fakeState
+);
+const mergedReport: ValidationReport = createValidationReport([...manifestReport.issues, ...batchReport.issues]);
+void rulesReport;
+void mergedReport;
+
+// exportOcfBundle builds the standard OCF file bundle, written to a directory or streamed as a zip
+const bundleOptions: ExportOcfBundleOptions = { asOfDate: '2024-12-31' };
+const bundle: OcfBundle = exportOcfBundle(ocfManifest, bundleOptions);
+const bundlePaths: Promise<string[]> = writeOcfBundle(bundle, './ocf');
+const bundleZip: NodeJS.ReadableStream = createOcfBundleZipStream(bundle);
+const bundleFilePath: string = bundle.files[0].filepath;
+void bundlePaths;
+void bundleZip;
+void bundleFilePath;
+
+// importOcfBundle and parseOcfBundle read a bundle back into replication source items
+const importedItems: Promise<SourceReplicationItem[]> = importOcfBundle('./ocf');
+const parsedItems: SourceReplicationItem[] = parseOcfBundle(new Map([['Manifest.ocf.json', '{}']]));
+void importedItems;
+void parsedItems;
+
+// CSV exporters stream the stakeholder list and security ledgers with configurable columns
+const ledgerOptions: CsvExportOptions<StockLedgerRow> = {
+  columns: ['securityId', 'stakeholderName', { header: 'Shares', value: (row) => row.outstandingQuantity }],
+};
+const stockLedgerCsv: NodeJS.ReadableStream = createStockLedgerCsvStream(ocfManifest, ledgerOptions);
+const optionColumns: CsvExportOptions<OptionLedgerRow> = { columns: ['compensationType'], includeHeader: false };
+void stockLedgerCsv;
+void createOptionLedgerCsvStream(ocfManifest, optionColumns);
+void createStakeholderCsvStream(ocfManifest, { columns: ['name', 'email'] });
+
+// importCapTableCsv maps spreadsheet columns to OCF objects and create operations, with a row-level report
+const csvImport: CsvImportResult = importCapTableCsv(
+  { stakeholders: { csv: 'Name\r\nJane Doe\r\n', mapping: { 'name.legal_name': 'Name' } } },
+  { generateId: () => 'generated-id' }
+);
+const csvRowIssues: CsvRowIssue[] = csvImport.report.issues;
+void csvRowIssues;
+const csvOperations: OcfCreateOperation[] = csvImport.operations;
+void csvOperations;
+
+// createOcfJsonPatch and applyOcfJsonPatch turn comparisons into RFC 6902 patches and apply them with validation
+const jsonPatch: JsonPatchOperation[] = createOcfJsonPatch(
+  { id: 'a' },
+  { id: 'b' },
+  { ignoredFields: DEFAULT_INTERNAL_FIELDS }
+);
+declare const stakeholderToPatch: OcfStakeholder;
+const patchedStakeholder: OcfStakeholder = applyOcfJsonPatch('stakeholder', stakeholderToPatch, jsonPatch);
+const patchedDocument: unknown = applyJsonPatch({}, [{ op: 'add', path: '/id', value: 'a' }]);
+const editPatches: ReplicationEditPatch[] = createReplicationEditPatches(diff, cantonDataMap);
+void patchedStakeholder;
+void patchedDocument;
+void editPatches;
+
+// OcfMigrationRegistry upgrades stored objects to the current OCF version, or downgrades them, with a change report
+const pinnedVersion: OcfVersion = '1.0.0';
+const customMigration: OcfMigrationStep = {
+  name: 'custom-field',
+  from: '1.1.0',
+  to: '1.2.0',
+  objectTypes: ['STAKEHOLDER'],
+  upgrade: () => [],
+  downgrade: () => [],
+};
+const migrationRegistry = new OcfMigrationRegistry(DEFAULT_OCF_MIGRATIONS).register(customMigration);
+const migrationReport: OcfMigrationReport = migrationRegistry.migrate([], {
+  from: CURRENT_OCF_VERSION,
+  to: pinnedVersion,
+}).report;
+const upgradedObjects: Array<Record<string, unknown>> = migrateOcfObjects([], { from: pinnedVersion }).objects;
+void migrationReport;
+void upgradedObjects;
+
+// validateCurrencyConsistency flags mixed currencies; sumMonetary and convertMonetary normalize with dated FX rates
+const fxRates: FxRate[] = [{ date: '2024-01-01', from: 'EUR', to: 'USD', rate: '1.1' }];
+const reporting: ReportingCurrencyOptions = { currency: 'USD', rates: fxRates, date: '2024-06-30' };
+const currencyReport: ValidationReport = validateCurrencyConsistency(ocfManifest);
+const convertedAmount: { amount: string; currency: string } = convertMonetary(
+  { amount: '1', currency: 'EUR' },
+  reporting
+);
+const reportingTotal: string | undefined = computeCapitalization(ocfManifest, { reportingCurrency: reporting }).totals
+  .convertiblesInReportingCurrency?.amount;
+const knownCurrency: boolean = isIso4217CurrencyCode('USD');
+void currencyReport;
+void convertedAmount;
+void reportingTotal;
+void knownCurrency;
+void sumMonetary([], reporting).amount;
+
+// computeStockPlanPools and findStockPlanPoolOverages track plan pool availability
+const pools: StockPlanPool[] = computeStockPlanPools(ocfManifest);
+const overages: StockPlanPoolOverage[] = findStockPlanPoolOverages(ocfManifest, { transactions: [] });
+void pools;
+void overages;
+
+// applyStockSplits rescales positions, prices and conversion ratios for stock class splits
+const splitResult: StockSplitResult = applyStockSplits(ocfManifest, { rounding: 'FLOOR' });
+const splitChanges: string[] = splitResult.changedSecurityIds;
+const splitQuantity: string | null = splitResult.positions.splits[0].changes[0].after;
+void splitChanges;
+void splitQuantity;
+
+// computeVestingSchedule expands vesting terms into dated tranches
+const vestingSchedule: VestingSchedule = computeVestingSchedule({
+  vestingTerms: { allocation_type: 'CUMULATIVE_ROUND_DOWN', vesting_conditions: [] },
+  quantity: '4800',
+  vestingStartDate: '2024-01-15',
+});
+const vestedOnBoardDate: string = computeVestedQuantity(vestingSchedule, '2024-06-30').vested;
+void vestedOnBoardDate;
+
 // Assert<true> usage to keep unused-import linter happy for type-only verifications
 type _Assert = Assert<true>;
 void (undefined as unknown as _Assert);
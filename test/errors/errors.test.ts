@@ -263,6 +263,9 @@ describe('OcpErrorCodes', () => {
     expect(OcpErrorCodes.INVALID_TYPE).toBe('INVALID_TYPE');
     expect(OcpErrorCodes.INVALID_FORMAT).toBe('INVALID_FORMAT');
     expect(OcpErrorCodes.OUT_OF_RANGE).toBe('OUT_OF_RANGE');
+    expect(OcpErrorCodes.DEPRECATED_FIELD).toBe('DEPRECATED_FIELD');
+    expect(OcpErrorCodes.RULE_VIOLATION).toBe('RULE_VIOLATION');
+    expect(OcpErrorCodes.CURRENCY_MISMATCH).toBe('CURRENCY_MISMATCH');
 
     // Contract errors
     expect(OcpErrorCodes.CONTRACT_NOT_FOUND).toBe('CONTRACT_NOT_FOUND');
@@ -3,38 +3,97 @@ import * as replication from '../../src/replication';
 describe('replication subpath exports', () => {
   it('exposes only the curated replication/verification runtime surface', () => {
     expect(Object.keys(replication).sort()).toEqual([
+      'CURRENT_OCF_VERSION',
       'DEFAULT_DEPRECATED_FIELDS',
       'DEFAULT_INTERNAL_FIELDS',
+      'DEFAULT_OCF_MIGRATIONS',
       'ENTITY_OBJECT_TYPE_MAP',
       'FIELD_TO_ENTITY_TYPE',
+      'OCF_VERSIONS',
+      'OcfMigrationRegistry',
       'SECURITY_ID_FIELD_TO_ENTITY_TYPE',
       'TRANSACTION_SUBTYPE_MAP',
+      'ValidationRuleRegistry',
+      'analyzeGrantValuations',
+      'applyJsonPatch',
+      'applyOcfJsonPatch',
+      'applyStockSplits',
       'archiveCapTable',
+      'assertAuthorizedSharesHeadroom',
       'buildCantonOcfDataMap',
+      'buildSecurityLineage',
       'classifyIssuerCapTables',
+      'computeAuthorizedShares',
+      'computeCapTablePositions',
+      'computeCapTableSnapshot',
+      'computeCapitalization',
+      'computeExitScenarios',
+      'computeIsoLimits',
+      'computeLiquidationWaterfall',
       'computeReplicationDiff',
+      'computeStakeholderStatement',
+      'computeStockPlanPools',
+      'computeVestedQuantity',
+      'computeVestingSchedule',
+      'convertMonetary',
       'countManifestObjects',
+      'createConvertibleLedgerCsvStream',
       'createFactory',
+      'createOcfBundleZipStream',
+      'createOcfJsonPatch',
       'createOcfMismatchError',
+      'createOptionLedgerCsvStream',
+      'createReplicationEditPatches',
+      'createStakeholderCsvStream',
+      'createStockLedgerCsvStream',
+      'createValidationReport',
+      'createWarrantLedgerCsvStream',
       'diffOcfObjects',
+      'exportOcfBundle',
       'extractCantonOcfManifest',
+      'findIsoLimitViolations',
+      'findPendingDanglingReferences',
+      'findSecurityLifecycleViolations',
+      'findStockPlanPoolOverages',
+      'findTemporalConsistencyIssues',
       'getCapTableState',
       'getEntityTypeLabel',
       'getOcfSchema',
       'getOcfTypeLabel',
+      'getSecurityAncestors',
+      'getSecurityDescendants',
       'getSystemOperatorPartyId',
+      'importCapTableCsv',
+      'importOcfBundle',
+      'isAuthorizedSharesSentinel',
+      'isIso4217CurrencyCode',
       'isOcfMismatchError',
       'mapCategorizedTypeToEntityType',
       'matchesTemplateIdentity',
+      'migrateOcfObjects',
+      'modelConvertibleConversions',
       'normalizeEntityType',
       'normalizeObjectType',
       'normalizeOcfData',
       'ocfCompare',
       'ocfDeepEqual',
+      'parseOcfBundle',
       'parseOcfEntityInput',
       'parseOcfObject',
+      'renderStakeholderStatementHtml',
       'sortTransactions',
       'stripInternalFields',
+      'sumMonetary',
+      'validateCapTableBatchOperations',
+      'validateCurrencyCode',
+      'validateCurrencyConsistency',
+      'validateOcfEntityInput',
+      'validateOcfFile',
+      'validateOcfManifest',
+      'validateReferentialIntegrity',
+      'validateSecurityLifecycle',
+      'validateTemporalConsistency',
+      'writeOcfBundle',
     ]);
   });
 });
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for authorized shares headroom.
+ */
+
+import { OcpErrorCodes } from '../../src/errors/codes';
+import { OcpValidationError } from '../../src/errors/OcpValidationError';
+import {
+  assertAuthorizedSharesHeadroom,
+  computeAuthorizedShares,
+  isAuthorizedSharesSentinel,
+} from '../../src/utils/authorizedShares';
+import { buildManifest, stockIssuance } from './manifestFixtures';
+
+const issuer = { id: 'issuer', initial_shares_authorized: '10000000' };
+
+const stockClasses = [
+  { id: 'common', name: 'Common', initial_shares_authorized: '5000000' },
+  { id: 'founder', name: 'Founder Preferred', initial_shares_authorized: 'NOT APPLICABLE' },
+];
+
+const split = {
+  object_type: 'TX_STOCK_CLASS_SPLIT',
+  id: 'tx-split',
+  date: '2024-03-01',
+  stock_class_id: 'common',
+  split_ratio: { numerator: '2', denominator: '1' },
+};
+
+describe('computeAuthorizedShares', () => {
+  it('applies authorized share adjustments and splits', () => {
+    const report = computeAuthorizedShares(
+      buildManifest({
+        issuer,
+        stockClasses,
+        transactions: [
+          stockIssuance('cs-1', '1000000', { date: '2024-01-01', stakeholder_id: 'holder', stock_class_id: 'common' }),
+          {
+            object_type: 'TX_STOCK_CLASS_AUTHORIZED_SHARES_ADJUSTMENT',
+            id: 'tx-class-auth',
+            date: '2024-02-01',
+            stock_class_id: 'common',
+            new_shares_authorized: '6000000',
+          },
+          split,
+          stockIssuance('cs-2', '500000', { date: '2024-04-01', stakeholder_id: 'holder', stock_class_id: 'common' }),
+          stockIssuance('fp-1', '100000', { date: '2024-04-01', stakeholder_id: 'holder', stock_class_id: 'founder' }),
+          {
+            object_type: 'TX_ISSUER_AUTHORIZED_SHARES_ADJUSTMENT',
+            id: 'tx-issuer-auth',
+            date: '2024-05-01',
+            issuer_id: 'issuer',
+            new_shares_authorized: '20000000',
+          },
+        ],
+      })
+    );
+
+    expect(report).toEqual({
+      issuer: { authorized: '20000000', issued: '2600000', headroom: '17400000', exceeded: false },
+      stockClasses: [
+        {
+          stockClassId: 'common',
+          name: 'Common',
+          authorized: '12000000',
+          issued: '2500000',
+          headroom: '9500000',
+          exceeded: false,
+        },
+        {
+          stockClassId: 'founder',
+          name: 'Founder Preferred',
+          authorized: 'NOT APPLICABLE',
+          issued: '100000',
+          headroom: null,
+          exceeded: false,
+        },
+      ],
+    });
+  });
+
+  it('does not scale stock reissued after a split', () => {
+    const report = computeAuthorizedShares(
+      buildManifest({
+        issuer,
+        stockClasses,
+        transactions: [
+          stockIssuance('cs-1', '1000000', { date: '2024-01-01', stakeholder_id: 'holder', stock_class_id: 'common' }),
+          split,
+          {
+            object_type: 'TX_STOCK_REISSUANCE',
+            id: 'tx-reissue',
+            date: '2024-03-01',
+            security_id: 'cs-1',
+            resulting_security_ids: ['cs-3'],
+            split_transaction_id: 'tx-split',
+          },
+          stockIssuance('cs-3', '2000000', { date: '2024-03-01', stakeholder_id: 'holder', stock_class_id: 'common' }),
+        ],
+      })
+    );
+    expect(report.stockClasses[0]).toMatchObject({ issued: '2000000', headroom: '8000000' });
+  });
+
+  it('counts repurchased shares and flags over-issued classes', () => {
+    const report = computeAuthorizedShares(
+      buildManifest({
+        issuer,
+        stockClasses,
+        transactions: [
+          stockIssuance('cs-1', '4000000', { date: '2024-01-01', stakeholder_id: 'holder', stock_class_id: 'common' }),
+          stockIssuance('cs-2', '2000000', { date: '2024-01-02', stakeholder_id: 'holder', stock_class_id: 'common' }),
+          {
+            object_type: 'TX_STOCK_REPURCHASE',
+            id: 'tx-rep',
+            date: '2024-02-01',
+            security_id: 'cs-2',
+            quantity: '2000000',
+          },
+        ],
+      })
+    );
+    expect(report.stockClasses[0]).toMatchObject({ issued: '6000000', headroom: '-1000000', exceeded: true });
+  });
+
+  it('recognizes the OCF sentinels', () => {
+    expect(isAuthorizedSharesSentinel('UNLIMITED')).toBe(true);
+    expect(isAuthorizedSharesSentinel('NOT APPLICABLE')).toBe(true);
+    expect(isAuthorizedSharesSentinel('1000')).toBe(false);
+  });
+});
+
+describe('assertAuthorizedSharesHeadroom', () => {
+  const manifest = buildManifest({
+    issuer,
+    stockClasses,
+    transactions: [
+      stockIssuance('cs-1', '4500000', { date: '2024-01-01', stakeholder_id: 'holder', stock_class_id: 'common' }),
+    ],
+  });
+
+  it('names the stock class that would be exceeded', () => {
+    try {
+      assertAuthorizedSharesHeadroom(manifest, {
+        transactions: [
+          stockIssuance('cs-2', '600000', { date: '2024-06-01', stakeholder_id: 'holder', stock_class_id: 'common' }),
+        ],
+      });
+      throw new Error('Expected assertAuthorizedSharesHeadroom to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(OcpValidationError);
+      expect((error as OcpValidationError).fieldPath).toBe('stockClasses.common');
+      expect((error as OcpValidationError).code).toBe(OcpErrorCodes.OUT_OF_RANGE);
+      expect((error as OcpValidationError).message).toContain("Stock class 'Common' (common)");
+    }
+  });
+
+  it('accepts issuances covered by a pending authorized share adjustment', () => {
+    expect(() =>
+      assertAuthorizedSharesHeadroom(manifest, {
+        transactions: [
+          {
+            object_type: 'TX_STOCK_CLASS_AUTHORIZED_SHARES_ADJUSTMENT',
+            id: 'tx-class-auth',
+            date: '2024-06-01',
+            stock_class_id: 'common',
+            new_shares_authorized: '6000000',
+          },
+          stockIssuance('cs-2', '600000', { date: '2024-06-01', stakeholder_id: 'holder', stock_class_id: 'common' }),
+        ],
+      })
+    ).not.toThrow();
+  });
+
+  it('rejects issuances that exceed the issuer authorization', () => {
+    expect(() =>
+      assertAuthorizedSharesHeadroom(manifest, {
+        transactions: [
+          stockIssuance('fp-1', '6000000', { date: '2024-06-01', stakeholder_id: 'holder', stock_class_id: 'founder' }),
+        ],
+      })
+    ).toThrow('Issuer would exceed its authorized shares');
+  });
+});
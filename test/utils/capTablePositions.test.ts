@@ -0,0 +1,535 @@
+/**
+ * Unit tests for the cap table position engine.
+ */
+
+import { OcpErrorCodes } from '../../src/errors/codes';
+import { OcpValidationError } from '../../src/errors/OcpValidationError';
+import { computeCapTablePositions } from '../../src/utils/capTablePositions';
+
+function stockIssuance(id: string, securityId: string, stakeholderId: string, quantity: string, date = '2024-01-01') {
+  return {
+    object_type: 'TX_STOCK_ISSUANCE',
+    id,
+    date,
+    security_id: securityId,
+    stakeholder_id: stakeholderId,
+    stock_class_id: 'common',
+    quantity,
+    share_price: { amount: '0.001', currency: 'USD' },
+  };
+}
+
+function expectValidationError(fn: () => unknown, code: string, fieldPath: string): void {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(OcpValidationError);
+    expect((error as OcpValidationError).code).toBe(code);
+    expect((error as OcpValidationError).fieldPath).toBe(fieldPath);
+    return;
+  }
+  throw new Error('Expected OcpValidationError to be thrown');
+}
+
+describe('computeCapTablePositions', () => {
+  it('opens an outstanding position for each issuance', () => {
+    const { securities, outstanding } = computeCapTablePositions({
+      transactions: [
+        stockIssuance('tx-1', 'sec-1', 'alice', '1000000.0000000000'),
+        {
+          object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+          id: 'tx-2',
+          date: '2024-02-01',
+          security_id: 'sec-2',
+          stakeholder_id: 'bob',
+          stock_plan_id: 'plan-1',
+          compensation_type: 'OPTION_ISO',
+          quantity: '5000',
+        },
+        {
+          object_type: 'TX_CONVERTIBLE_ISSUANCE',
+          id: 'tx-3',
+          date: '2024-03-01',
+          security_id: 'sec-3',
+          stakeholder_id: 'carol',
+          investment_amount: { amount: '250000', currency: 'USD' },
+        },
+        {
+          object_type: 'TX_WARRANT_ISSUANCE',
+          id: 'tx-4',
+          date: '2024-04-01',
+          security_id: 'sec-4',
+          stakeholder_id: 'dave',
+          exercise_triggers: [
+            {
+              type: 'ELECTIVE_AT_WILL',
+              trigger_id: 'trigger-1',
+              conversion_right: { type: 'WARRANT_CONVERSION_RIGHT', converts_to_stock_class_id: 'preferred' },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(outstanding.map((p) => p.securityId)).toEqual(['sec-1', 'sec-2', 'sec-3', 'sec-4']);
+    expect(securities.get('sec-1')).toMatchObject({
+      kind: 'STOCK',
+      stakeholderId: 'alice',
+      stockClassId: 'common',
+      quantity: '1000000',
+      outstandingQuantity: '1000000',
+      status: 'OUTSTANDING',
+      issuedBy: 'tx-1',
+      consumedBy: null,
+    });
+    expect(securities.get('sec-2')).toMatchObject({ kind: 'EQUITY_COMPENSATION', stockPlanId: 'plan-1' });
+    expect(securities.get('sec-3')).toMatchObject({ kind: 'CONVERTIBLE', quantity: '250000', currency: 'USD' });
+    expect(securities.get('sec-4')).toMatchObject({
+      kind: 'WARRANT',
+      stockClassId: 'preferred',
+      quantity: null,
+      outstandingQuantity: null,
+    });
+  });
+
+  it('consumes the source of a transfer and links the resulting and balance securities', () => {
+    const { securities, outstanding } = computeCapTablePositions({
+      transactions: [
+        // Deliberately out of order: the engine sorts by date and intra-day weight
+        {
+          object_type: 'TX_STOCK_TRANSFER',
+          id: 'tx-transfer',
+          date: '2024-06-01',
+          security_id: 'sec-1',
+          quantity: '400',
+          resulting_security_ids: ['sec-2'],
+          balance_security_id: 'sec-3',
+        },
+        stockIssuance('tx-2', 'sec-2', 'bob', '400', '2024-06-01'),
+        stockIssuance('tx-3', 'sec-3', 'alice', '600', '2024-06-01'),
+        stockIssuance('tx-1', 'sec-1', 'alice', '1000'),
+      ],
+    });
+
+    expect(securities.get('sec-1')).toMatchObject({
+      status: 'TRANSFERRED',
+      outstandingQuantity: '0',
+      consumedQuantity: '400',
+      consumedBy: 'tx-transfer',
+      consumedDate: '2024-06-01',
+      resultingSecurityIds: ['sec-2'],
+      balanceSecurityId: 'sec-3',
+    });
+    expect(securities.get('sec-2')?.sourceSecurityId).toBe('sec-1');
+    expect(securities.get('sec-3')?.sourceSecurityId).toBe('sec-1');
+    expect(outstanding.map((p) => p.securityId).sort()).toEqual(['sec-2', 'sec-3']);
+  });
+
+  it.each([
+    ['TX_STOCK_CANCELLATION', 'CANCELLED', { quantity: '10' }],
+    ['TX_STOCK_REPURCHASE', 'REPURCHASED', { quantity: '10', price: { amount: '1', currency: 'USD' } }],
+    ['TX_STOCK_CONVERSION', 'CONVERTED', { quantity_converted: '10', resulting_security_ids: [] }],
+    ['TX_STOCK_RETRACTION', 'RETRACTED', { reason_text: 'void' }],
+    ['TX_STOCK_REISSUANCE', 'REISSUED', { resulting_security_ids: [] }],
+  ])('marks stock consumed by %s as %s', (objectType, status, fields) => {
+    const { securities, outstanding } = computeCapTablePositions({
+      transactions: [
+        stockIssuance('tx-1', 'sec-1', 'alice', '10'),
+        { object_type: objectType, id: 'tx-2', date: '2024-02-01', security_id: 'sec-1', ...fields },
+      ],
+    });
+
+    expect(securities.get('sec-1')).toMatchObject({ status, consumedBy: 'tx-2' });
+    expect(outstanding).toHaveLength(0);
+  });
+
+  it('handles exercises, releases and plan security aliases for equity compensation', () => {
+    const { securities } = computeCapTablePositions({
+      transactions: [
+        {
+          object_type: 'TX_PLAN_SECURITY_ISSUANCE',
+          id: 'tx-1',
+          date: '2024-01-01',
+          security_id: 'opt-1',
+          stakeholder_id: 'alice',
+          quantity: '100',
+        },
+        {
+          object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+          id: 'tx-2',
+          date: '2024-01-01',
+          security_id: 'rsu-1',
+          stakeholder_id: 'bob',
+          quantity: '50',
+        },
+        { object_type: 'TX_PLAN_SECURITY_ACCEPTANCE', id: 'tx-3', date: '2024-01-02', security_id: 'opt-1' },
+        {
+          object_type: 'TX_EQUITY_COMPENSATION_EXERCISE',
+          id: 'tx-4',
+          date: '2025-01-01',
+          security_id: 'opt-1',
+          quantity: '100',
+          resulting_security_ids: ['stock-1'],
+        },
+        stockIssuance('tx-5', 'stock-1', 'alice', '100', '2025-01-01'),
+        {
+          object_type: 'TX_EQUITY_COMPENSATION_RELEASE',
+          id: 'tx-6',
+          date: '2025-01-01',
+          security_id: 'rsu-1',
+          quantity: '50',
+          resulting_security_ids: [],
+        },
+      ],
+    });
+
+    expect(securities.get('opt-1')).toMatchObject({ status: 'EXERCISED', accepted: true, consumedBy: 'tx-4' });
+    expect(securities.get('stock-1')).toMatchObject({ status: 'OUTSTANDING', sourceSecurityId: 'opt-1' });
+    expect(securities.get('rsu-1')).toMatchObject({ status: 'RELEASED', consumedBy: 'tx-6' });
+  });
+
+  it('consumes every source security of a consolidation', () => {
+    const { securities, outstanding } = computeCapTablePositions({
+      transactions: [
+        stockIssuance('tx-1', 'sec-1', 'alice', '10'),
+        stockIssuance('tx-2', 'sec-2', 'alice', '20'),
+        {
+          object_type: 'TX_STOCK_CONSOLIDATION',
+          id: 'tx-3',
+          date: '2024-05-01',
+          security_ids: ['sec-1', 'sec-2'],
+          resulting_security_id: 'sec-3',
+        },
+        stockIssuance('tx-4', 'sec-3', 'alice', '30', '2024-05-01'),
+      ],
+    });
+
+    expect(securities.get('sec-1')).toMatchObject({ status: 'CONSOLIDATED', resultingSecurityIds: ['sec-3'] });
+    expect(securities.get('sec-2')).toMatchObject({ status: 'CONSOLIDATED', resultingSecurityIds: ['sec-3'] });
+    expect(outstanding.map((p) => p.securityId)).toEqual(['sec-3']);
+  });
+
+  it('consumes convertibles by amount', () => {
+    const { securities } = computeCapTablePositions({
+      transactions: [
+        {
+          object_type: 'TX_CONVERTIBLE_ISSUANCE',
+          id: 'tx-1',
+          date: '2024-01-01',
+          security_id: 'safe-1',
+          stakeholder_id: 'carol',
+          investment_amount: { amount: '100000', currency: 'USD' },
+        },
+        {
+          object_type: 'TX_CONVERTIBLE_CANCELLATION',
+          id: 'tx-2',
+          date: '2024-02-01',
+          security_id: 'safe-1',
+          amount: { amount: '100000', currency: 'USD' },
+        },
+      ],
+    });
+
+    expect(securities.get('safe-1')).toMatchObject({ status: 'CANCELLED', outstandingQuantity: '0' });
+  });
+
+  it('ignores class-level and stakeholder transactions', () => {
+    const { outstanding } = computeCapTablePositions({
+      transactions: [
+        stockIssuance('tx-1', 'sec-1', 'alice', '10'),
+        { object_type: 'TX_STOCK_CLASS_AUTHORIZED_SHARES_ADJUSTMENT', id: 'tx-2', date: '2024-01-01' },
+        { object_type: 'CE_STAKEHOLDER_STATUS', id: 'tx-3', date: '2024-01-02', stakeholder_id: 'alice' },
+      ],
+    });
+
+    expect(outstanding).toHaveLength(1);
+  });
+
+  it('rescales positions outstanding when a stock class split takes effect', () => {
+    const { securities, splits } = computeCapTablePositions(
+      {
+        transactions: [
+          stockIssuance('tx-1', 'sec-1', 'alice', '1001'),
+          stockIssuance('tx-2', 'sec-2', 'bob', '10'),
+          {
+            object_type: 'TX_STOCK_CANCELLATION',
+            id: 'tx-3',
+            date: '2024-02-01',
+            security_id: 'sec-2',
+            quantity: '10',
+          },
+          {
+            object_type: 'TX_STOCK_CLASS_SPLIT',
+            id: 'tx-split',
+            date: '2024-03-01',
+            stock_class_id: 'common',
+            split_ratio: { numerator: '3', denominator: '2' },
+          },
+          // Post-split quantities are checked against the rescaled holding
+          {
+            object_type: 'TX_STOCK_TRANSFER',
+            id: 'tx-transfer',
+            date: '2024-04-01',
+            security_id: 'sec-1',
+            quantity: '1501',
+            resulting_security_ids: ['sec-3'],
+          },
+          stockIssuance('tx-4', 'sec-3', 'carol', '1501', '2024-04-01'),
+        ],
+      },
+      { splitRounding: 'FLOOR' }
+    );
+
+    expect(splits).toEqual([
+      {
+        transactionId: 'tx-split',
+        date: '2024-03-01',
+        stockClassId: 'common',
+        ratio: { numerator: '3', denominator: '2' },
+        changes: [{ securityId: 'sec-1', before: '1001', after: '1501' }],
+      },
+    ]);
+    expect(securities.get('sec-1')).toMatchObject({
+      quantity: '1501',
+      status: 'TRANSFERRED',
+      consumedQuantity: '1501',
+    });
+    expect(securities.get('sec-2')).toMatchObject({ quantity: '10', status: 'CANCELLED' });
+    expect(securities.get('sec-3')?.quantity).toBe('1501');
+  });
+
+  it('rounds split-adjusted quantities to whole shares only once', () => {
+    // 3 × 5 / 6.0000000001 = 2.49999999995…, which rounds up to 2.5 at 10 digits but down to 2 directly
+    const { securities } = computeCapTablePositions(
+      {
+        transactions: [
+          stockIssuance('tx-1', 'sec-1', 'alice', '3'),
+          {
+            object_type: 'TX_STOCK_CLASS_SPLIT',
+            id: 'tx-split',
+            date: '2024-03-01',
+            stock_class_id: 'common',
+            split_ratio: { numerator: '5', denominator: '6.0000000001' },
+          },
+        ],
+      },
+      { splitRounding: 'NORMAL' }
+    );
+
+    expect(securities.get('sec-1')?.quantity).toBe('2');
+  });
+
+  it('does not rescale securities reissued for a split', () => {
+    const { securities } = computeCapTablePositions({
+      transactions: [
+        stockIssuance('tx-1', 'sec-1', 'alice', '100'),
+        {
+          object_type: 'TX_STOCK_CLASS_SPLIT',
+          id: 'tx-split',
+          date: '2024-03-01',
+          stock_class_id: 'common',
+          split_ratio_numerator: '2',
+          split_ratio_denominator: '1',
+        },
+        {
+          object_type: 'TX_STOCK_REISSUANCE',
+          id: 'tx-reissue',
+          date: '2024-03-01',
+          security_id: 'sec-1',
+          resulting_security_ids: ['sec-2'],
+          split_transaction_id: 'tx-split',
+        },
+        stockIssuance('tx-2', 'sec-2', 'alice', '200', '2024-03-01'),
+      ],
+    });
+
+    expect(securities.get('sec-1')).toMatchObject({ status: 'REISSUED', consumedQuantity: '100' });
+    expect(securities.get('sec-2')).toMatchObject({ status: 'OUTSTANDING', quantity: '200' });
+  });
+
+  describe('errors', () => {
+    it('fails when a transaction references a security that was never issued', () => {
+      expectValidationError(
+        () =>
+          computeCapTablePositions({
+            transactions: [
+              {
+                object_type: 'TX_STOCK_CANCELLATION',
+                id: 'tx-9',
+                date: '2024-01-01',
+                security_id: 'ghost',
+                quantity: '1',
+              },
+            ],
+          }),
+        OcpErrorCodes.UNKNOWN_SECURITY,
+        'transactions.tx-9.security_id'
+      );
+    });
+
+    it('fails when a security is issued after the transaction that consumes it', () => {
+      expect(() =>
+        computeCapTablePositions({
+          transactions: [
+            { object_type: 'TX_STOCK_RETRACTION', id: 'tx-1', date: '2024-01-01', security_id: 'sec-1' },
+            stockIssuance('tx-2', 'sec-1', 'alice', '10', '2024-02-01'),
+          ],
+        })
+      ).toThrow(/references security 'sec-1' which was never issued/);
+    });
+
+    it('fails when vesting references an unknown security', () => {
+      expectValidationError(
+        () =>
+          computeCapTablePositions({
+            transactions: [{ object_type: 'TX_VESTING_START', id: 'tx-1', date: '2024-01-01', security_id: 'ghost' }],
+          }),
+        OcpErrorCodes.UNKNOWN_SECURITY,
+        'transactions.tx-1.security_id'
+      );
+    });
+
+    it('fails when a resulting security is never issued', () => {
+      expectValidationError(
+        () =>
+          computeCapTablePositions({
+            transactions: [
+              stockIssuance('tx-1', 'sec-1', 'alice', '10'),
+              {
+                object_type: 'TX_STOCK_TRANSFER',
+                id: 'tx-2',
+                date: '2024-02-01',
+                security_id: 'sec-1',
+                quantity: '10',
+                resulting_security_ids: ['missing'],
+              },
+            ],
+          }),
+        OcpErrorCodes.UNKNOWN_SECURITY,
+        'transactions.tx-2.resulting_security_ids'
+      );
+    });
+
+    it('fails when a security is consumed twice', () => {
+      expectValidationError(
+        () =>
+          computeCapTablePositions({
+            transactions: [
+              stockIssuance('tx-1', 'sec-1', 'alice', '10'),
+              {
+                object_type: 'TX_STOCK_CANCELLATION',
+                id: 'tx-2',
+                date: '2024-02-01',
+                security_id: 'sec-1',
+                quantity: '10',
+              },
+              {
+                object_type: 'TX_STOCK_CANCELLATION',
+                id: 'tx-3',
+                date: '2024-03-01',
+                security_id: 'sec-1',
+                quantity: '10',
+              },
+            ],
+          }),
+        OcpErrorCodes.INVALID_SECURITY_STATE,
+        'transactions.tx-3.security_id'
+      );
+    });
+
+    it('fails when a security id is issued twice', () => {
+      expectValidationError(
+        () =>
+          computeCapTablePositions({
+            transactions: [stockIssuance('tx-1', 'sec-1', 'alice', '10'), stockIssuance('tx-2', 'sec-1', 'bob', '5')],
+          }),
+        OcpErrorCodes.INVALID_SECURITY_STATE,
+        'transactions.tx-2.security_id'
+      );
+    });
+
+    it('fails when a transaction targets a different security kind', () => {
+      expectValidationError(
+        () =>
+          computeCapTablePositions({
+            transactions: [
+              stockIssuance('tx-1', 'sec-1', 'alice', '10'),
+              {
+                object_type: 'TX_WARRANT_EXERCISE',
+                id: 'tx-2',
+                date: '2024-02-01',
+                security_id: 'sec-1',
+                resulting_security_ids: [],
+              },
+            ],
+          }),
+        OcpErrorCodes.INVALID_SECURITY_STATE,
+        'transactions.tx-2.security_id'
+      );
+    });
+
+    it('fails when a retracted security is accepted', () => {
+      expectValidationError(
+        () =>
+          computeCapTablePositions({
+            transactions: [
+              stockIssuance('tx-1', 'sec-1', 'alice', '10'),
+              { object_type: 'TX_STOCK_RETRACTION', id: 'tx-2', date: '2024-02-01', security_id: 'sec-1' },
+              { object_type: 'TX_STOCK_ACCEPTANCE', id: 'tx-3', date: '2024-03-01', security_id: 'sec-1' },
+            ],
+          }),
+        OcpErrorCodes.INVALID_SECURITY_STATE,
+        'transactions.tx-3.security_id'
+      );
+    });
+
+    it('fails when a split has no usable ratio', () => {
+      expectValidationError(
+        () =>
+          computeCapTablePositions({
+            transactions: [
+              { object_type: 'TX_STOCK_CLASS_SPLIT', id: 'tx-1', date: '2024-01-01', stock_class_id: 'common' },
+            ],
+          }),
+        OcpErrorCodes.REQUIRED_FIELD_MISSING,
+        'transactions.tx-1.split_ratio'
+      );
+      expectValidationError(
+        () =>
+          computeCapTablePositions({
+            transactions: [
+              {
+                object_type: 'TX_STOCK_CLASS_SPLIT',
+                id: 'tx-1',
+                date: '2024-01-01',
+                stock_class_id: 'common',
+                split_ratio: { numerator: '2', denominator: '0' },
+              },
+            ],
+          }),
+        OcpErrorCodes.OUT_OF_RANGE,
+        'transactions.tx-1.split_ratio'
+      );
+    });
+
+    it('fails when a transaction consumes more than the security holds', () => {
+      expectValidationError(
+        () =>
+          computeCapTablePositions({
+            transactions: [
+              stockIssuance('tx-1', 'sec-1', 'alice', '10'),
+              {
+                object_type: 'TX_STOCK_CANCELLATION',
+                id: 'tx-2',
+                date: '2024-02-01',
+                security_id: 'sec-1',
+                quantity: '11',
+              },
+            ],
+          }),
+        OcpErrorCodes.OUT_OF_RANGE,
+        'transactions.tx-2.security_id'
+      );
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for point-in-time cap table snapshots.
+ */
+
+import { OcpValidationError } from '../../src/errors/OcpValidationError';
+import type { OcfManifest } from '../../src/utils/cantonOcfExtractor';
+import { computeCapTableSnapshot } from '../../src/utils/capTableSnapshot';
+import { buildManifest } from './manifestFixtures';
+
+function snapshotManifest(): OcfManifest {
+  return buildManifest({
+    issuer: { id: 'issuer', object_type: 'ISSUER', initial_shares_authorized: '10000000' },
+    stakeholders: [
+      {
+        id: 'alice',
+        name: { legal_name: 'Alice' },
+        current_relationships: ['EX_EMPLOYEE'],
+        current_status: 'TERMINATION_VOLUNTARY_OTHER',
+      },
+      { id: 'bob', name: { legal_name: 'Bob' }, current_relationships: ['INVESTOR'] },
+    ],
+    stockClasses: [{ id: 'common', name: 'Common', class_type: 'COMMON', initial_shares_authorized: '5000000' }],
+    transactions: [
+      {
+        object_type: 'TX_STOCK_ISSUANCE',
+        id: 'tx-alice',
+        date: '2024-01-01',
+        security_id: 'cs-1',
+        stakeholder_id: 'alice',
+        stock_class_id: 'common',
+        quantity: '4000',
+        vestings: [
+          { date: '2024-01-01', amount: '1000' },
+          { date: '2025-01-01', amount: '1000' },
+          { date: '2026-01-01', amount: '2000' },
+        ],
+      },
+      {
+        object_type: 'TX_VESTING_START',
+        id: 'tx-start',
+        date: '2024-01-01',
+        security_id: 'cs-1',
+        vesting_condition_id: 'c1',
+      },
+      {
+        object_type: 'TX_STOCK_ISSUANCE',
+        id: 'tx-bob',
+        date: '2024-06-01',
+        security_id: 'cs-2',
+        stakeholder_id: 'bob',
+        stock_class_id: 'common',
+        quantity: '1000',
+      },
+      {
+        object_type: 'TX_STOCK_CLASS_AUTHORIZED_SHARES_ADJUSTMENT',
+        id: 'tx-auth',
+        date: '2024-06-01',
+        stock_class_id: 'common',
+        new_shares_authorized: '8000000',
+      },
+      {
+        object_type: 'TX_VESTING_ACCELERATION',
+        id: 'tx-accel',
+        date: '2025-03-01',
+        security_id: 'cs-1',
+        quantity: '500',
+        reason_text: 'Board approval',
+      },
+      {
+        object_type: 'CE_STAKEHOLDER_RELATIONSHIP',
+        id: 'ce-1',
+        date: '2025-06-01',
+        stakeholder_id: 'alice',
+        relationship_ended: 'EMPLOYEE',
+        relationship_started: 'EX_EMPLOYEE',
+      },
+      {
+        object_type: 'CE_STAKEHOLDER_STATUS',
+        id: 'ce-2',
+        date: '2025-06-01',
+        stakeholder_id: 'alice',
+        new_status: 'TERMINATION_VOLUNTARY_OTHER',
+      },
+      {
+        object_type: 'TX_STOCK_REPURCHASE',
+        id: 'tx-repurchase',
+        date: '2025-06-01',
+        security_id: 'cs-1',
+        quantity: '4000',
+      },
+    ],
+  });
+}
+
+describe('computeCapTableSnapshot', () => {
+  it('only replays transactions effective on or before the date', () => {
+    const snapshot = computeCapTableSnapshot(snapshotManifest(), '2024-03-31');
+
+    expect(snapshot.transactions.map((tx) => tx.id)).toEqual(['tx-alice', 'tx-start']);
+    expect(snapshot.holdings.map((p) => p.securityId)).toEqual(['cs-1']);
+    expect(snapshot.capitalization.totals.outstanding).toBe('4000');
+    expect(snapshot.authorizedShares).toEqual({
+      issuer: '10000000',
+      stockClasses: [{ stockClassId: 'common', name: 'Common', authorized: '5000000' }],
+    });
+  });
+
+  it('includes transactions dated exactly on the snapshot date', () => {
+    const snapshot = computeCapTableSnapshot(snapshotManifest(), '2024-06-01');
+
+    expect(snapshot.holdings.map((p) => p.securityId)).toEqual(['cs-1', 'cs-2']);
+    expect(snapshot.authorizedShares.stockClasses[0].authorized).toBe('8000000');
+  });
+
+  it('reports vesting status from inline vestings and accelerations', () => {
+    const early = computeCapTableSnapshot(snapshotManifest(), '2024-12-31');
+    expect(early.vesting.find((v) => v.securityId === 'cs-1')).toEqual({
+      securityId: 'cs-1',
+      stakeholderId: 'alice',
+      quantity: '4000',
+      source: 'VESTINGS',
+      vested: '1000',
+      unvested: '3000',
+      accelerated: '0',
+      vestingStarted: true,
+      satisfiedConditionIds: ['c1'],
+    });
+    expect(early.vesting.find((v) => v.securityId === 'cs-2')).toMatchObject({ source: 'NONE', vested: '1000' });
+
+    const accelerated = computeCapTableSnapshot(snapshotManifest(), '2025-03-01');
+    expect(accelerated.vesting.find((v) => v.securityId === 'cs-1')).toMatchObject({
+      vested: '2500',
+      unvested: '1500',
+      accelerated: '500',
+    });
+  });
+
+  it('evaluates vesting terms referenced by the issuance', () => {
+    const manifest = snapshotManifest();
+    manifest.vestingTerms = [
+      {
+        id: 'monthly-12',
+        object_type: 'VESTING_TERMS',
+        allocation_type: 'CUMULATIVE_ROUND_DOWN',
+        vesting_conditions: [
+          { id: 'start', trigger: { type: 'VESTING_START_DATE' }, next_condition_ids: ['monthly'] },
+          {
+            id: 'monthly',
+            portion: { numerator: '1', denominator: '1' },
+            trigger: {
+              type: 'VESTING_SCHEDULE_RELATIVE',
+              relative_to_condition_id: 'start',
+              period: { type: 'MONTHS', length: 1, occurrences: 10, day_of_month: '01' },
+            },
+            next_condition_ids: [],
+          },
+        ],
+      },
+    ];
+    manifest.transactions.push(
+      { ...manifest.transactions[2], id: 'tx-carol', security_id: 'cs-3', vesting_terms_id: 'monthly-12' },
+      {
+        object_type: 'TX_VESTING_START',
+        id: 'tx-start-3',
+        date: '2024-06-01',
+        security_id: 'cs-3',
+        vesting_condition_id: 'start',
+      },
+      { ...manifest.transactions[2], id: 'tx-dave', security_id: 'cs-4', vesting_terms_id: 'missing' }
+    );
+
+    const snapshot = computeCapTableSnapshot(manifest, '2024-09-15');
+    expect(snapshot.vesting.find((v) => v.securityId === 'cs-3')).toMatchObject({
+      source: 'VESTING_TERMS',
+      vested: '300',
+      unvested: '700',
+      vestingStarted: true,
+    });
+    expect(snapshot.vesting.find((v) => v.securityId === 'cs-4')).toMatchObject({ vested: null, unvested: null });
+  });
+
+  it('derives stakeholder relationships and status as of the date', () => {
+    const before = computeCapTableSnapshot(snapshotManifest(), '2025-01-01');
+    expect(before.stakeholders.find((s) => s.stakeholderId === 'alice')).toEqual({
+      stakeholderId: 'alice',
+      name: 'Alice',
+      relationships: ['EMPLOYEE'],
+      status: null,
+    });
+    expect(before.stakeholders.find((s) => s.stakeholderId === 'bob')).toMatchObject({
+      relationships: ['INVESTOR'],
+      status: null,
+    });
+
+    const after = computeCapTableSnapshot(snapshotManifest(), '2025-12-31');
+    expect(after.stakeholders.find((s) => s.stakeholderId === 'alice')).toMatchObject({
+      relationships: ['EX_EMPLOYEE'],
+      status: 'TERMINATION_VOLUNTARY_OTHER',
+    });
+    expect(after.holdings.map((p) => p.securityId)).toEqual(['cs-2']);
+  });
+
+  it('rejects an invalid snapshot date', () => {
+    expect(() => computeCapTableSnapshot(snapshotManifest(), '06/30/2024')).toThrow(OcpValidationError);
+  });
+});
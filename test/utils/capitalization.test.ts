@@ -0,0 +1,262 @@
+/**
+ * Unit tests for the capitalization summary.
+ */
+
+import { computeCapitalization } from '../../src/utils/capitalization';
+import { buildManifest } from './manifestFixtures';
+
+const stakeholders = [
+  { id: 'founder', name: { legal_name: 'Founder' } },
+  { id: 'investor', name: { legal_name: 'Investor LLC' } },
+  { id: 'employee', name: { legal_name: 'Employee' } },
+];
+
+const stockClasses = [
+  { id: 'common', name: 'Common', class_type: 'COMMON', initial_shares_authorized: '10000000' },
+  { id: 'series-a', name: 'Series A Preferred', class_type: 'PREFERRED', initial_shares_authorized: '2000000' },
+];
+
+const stockPlans = [
+  { id: 'plan', plan_name: '2024 Plan', initial_shares_reserved: '1000000', stock_class_ids: ['common'] },
+];
+
+const baseTransactions: Array<Record<string, unknown>> = [
+  {
+    object_type: 'TX_STOCK_ISSUANCE',
+    id: 'tx-founder',
+    date: '2024-01-01',
+    security_id: 'cs-1',
+    stakeholder_id: 'founder',
+    stock_class_id: 'common',
+    quantity: '6000000',
+  },
+  {
+    object_type: 'TX_STOCK_ISSUANCE',
+    id: 'tx-investor',
+    date: '2024-03-01',
+    security_id: 'pa-1',
+    stakeholder_id: 'investor',
+    stock_class_id: 'series-a',
+    quantity: '2000000',
+  },
+  {
+    object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+    id: 'tx-option',
+    date: '2024-04-01',
+    security_id: 'opt-1',
+    stakeholder_id: 'employee',
+    stock_plan_id: 'plan',
+    compensation_type: 'OPTION_ISO',
+    quantity: '500000',
+  },
+  {
+    object_type: 'TX_WARRANT_ISSUANCE',
+    id: 'tx-warrant',
+    date: '2024-05-01',
+    security_id: 'w-1',
+    stakeholder_id: 'investor',
+    quantity: '100000',
+    exercise_triggers: [
+      {
+        type: 'ELECTIVE_AT_WILL',
+        trigger_id: 't1',
+        conversion_right: { type: 'WARRANT_CONVERSION_RIGHT', converts_to_stock_class_id: 'series-a' },
+      },
+    ],
+  },
+  {
+    object_type: 'TX_CONVERTIBLE_ISSUANCE',
+    id: 'tx-safe',
+    date: '2024-06-01',
+    security_id: 'safe-1',
+    stakeholder_id: 'investor',
+    investment_amount: { amount: '250000', currency: 'USD' },
+  },
+];
+
+describe('computeCapitalization', () => {
+  it('computes class, plan and stakeholder counts', () => {
+    const summary = computeCapitalization(
+      buildManifest({ stakeholders, stockClasses, stockPlans, transactions: baseTransactions })
+    );
+
+    expect(summary.totals).toEqual({
+      issued: '8000000',
+      outstanding: '8000000',
+      equityCompensation: '500000',
+      warrants: '100000',
+      availablePool: '500000',
+      fullyDiluted: '9100000',
+      convertibles: [{ amount: '250000', currency: 'USD' }],
+    });
+
+    const common = summary.stockClasses.find((c) => c.stockClassId === 'common');
+    expect(common).toMatchObject({
+      outstanding: '6000000',
+      equityCompensation: '500000',
+      availablePool: '500000',
+      fullyDiluted: '7000000',
+      outstandingPercentage: '75',
+    });
+    const seriesA = summary.stockClasses.find((c) => c.stockClassId === 'series-a');
+    expect(seriesA).toMatchObject({ classType: 'PREFERRED', warrants: '100000', fullyDiluted: '2100000' });
+
+    expect(summary.stockPlans).toEqual([
+      {
+        stockPlanId: 'plan',
+        planName: '2024 Plan',
+        stockClassIds: ['common'],
+        reserved: '1000000',
+        granted: '500000',
+        issued: '0',
+        returnedToPool: '0',
+        available: '500000',
+      },
+    ]);
+
+    const investor = summary.stakeholders.find((s) => s.stakeholderId === 'investor');
+    expect(investor).toMatchObject({
+      name: 'Investor LLC',
+      common: '0',
+      preferred: '2000000',
+      warrants: '100000',
+      convertibles: [{ amount: '250000', currency: 'USD' }],
+      outstanding: '2000000',
+      fullyDiluted: '2100000',
+      outstandingPercentage: '25',
+    });
+    expect(investor?.fullyDilutedPercentage).toBe('23.0769230769');
+
+    const employee = summary.stakeholders.find((s) => s.stakeholderId === 'employee');
+    expect(employee).toMatchObject({ options: '500000', outstanding: '0', outstandingPercentage: '0' });
+  });
+
+  it('reflects exercises, repurchases and pool adjustments', () => {
+    const summary = computeCapitalization(
+      buildManifest({
+        stakeholders,
+        stockClasses,
+        stockPlans,
+        transactions: [
+          ...baseTransactions,
+          {
+            object_type: 'TX_STOCK_PLAN_POOL_ADJUSTMENT',
+            id: 'tx-pool',
+            date: '2024-07-01',
+            stock_plan_id: 'plan',
+            shares_reserved: '1500000',
+          },
+          {
+            object_type: 'TX_EQUITY_COMPENSATION_EXERCISE',
+            id: 'tx-exercise',
+            date: '2024-08-01',
+            security_id: 'opt-1',
+            quantity: '200000',
+            resulting_security_ids: ['cs-2'],
+            balance_security_id: 'opt-2',
+          },
+          {
+            object_type: 'TX_STOCK_ISSUANCE',
+            id: 'tx-cs-2',
+            date: '2024-08-01',
+            security_id: 'cs-2',
+            stakeholder_id: 'employee',
+            stock_class_id: 'common',
+            stock_plan_id: 'plan',
+            quantity: '200000',
+          },
+          {
+            object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+            id: 'tx-opt-2',
+            date: '2024-08-01',
+            security_id: 'opt-2',
+            stakeholder_id: 'employee',
+            stock_plan_id: 'plan',
+            quantity: '300000',
+          },
+          {
+            object_type: 'TX_STOCK_REPURCHASE',
+            id: 'tx-repurchase',
+            date: '2024-09-01',
+            security_id: 'cs-1',
+            quantity: '6000000',
+          },
+        ],
+      })
+    );
+
+    expect(summary.stockPlans[0]).toMatchObject({
+      reserved: '1500000',
+      granted: '300000',
+      issued: '200000',
+      available: '1000000',
+    });
+    const common = summary.stockClasses.find((c) => c.stockClassId === 'common');
+    expect(common).toMatchObject({ issued: '6200000', outstanding: '200000', equityCompensation: '300000' });
+    expect(summary.totals.outstanding).toBe('2200000');
+    expect(summary.stakeholders.find((s) => s.stakeholderId === 'founder')?.outstanding).toBe('0');
+  });
+
+  it('returns zero percentages for an empty cap table', () => {
+    const summary = computeCapitalization(buildManifest({ stakeholders, stockClasses, stockPlans }));
+    expect(summary.totals.fullyDiluted).toBe('1000000');
+    expect(summary.stakeholders.every((s) => s.fullyDilutedPercentage === '0')).toBe(true);
+    expect(summary.stockClasses.find((c) => c.stockClassId === 'series-a')?.fullyDilutedPercentage).toBe('0');
+  });
+
+  it('totals convertibles in a reporting currency', () => {
+    const manifest = buildManifest({
+      stakeholders,
+      stockClasses,
+      stockPlans,
+      transactions: [
+        ...baseTransactions,
+        {
+          object_type: 'TX_CONVERTIBLE_ISSUANCE',
+          id: 'tx-safe-eur',
+          date: '2024-07-01',
+          security_id: 'safe-2',
+          stakeholder_id: 'investor',
+          investment_amount: { amount: '100000', currency: 'EUR' },
+        },
+      ],
+    });
+    const rates = [
+      { date: '2024-01-01', from: 'EUR', to: 'USD', rate: '1.1' },
+      { date: '2024-07-01', from: 'USD', to: 'EUR', rate: '0.8' },
+    ];
+
+    expect(computeCapitalization(manifest).totals.convertiblesInReportingCurrency).toBeUndefined();
+    expect(
+      computeCapitalization(manifest, { reportingCurrency: { currency: 'USD', rates, date: '2024-06-30' } }).totals
+        .convertiblesInReportingCurrency
+    ).toEqual({ amount: '360000', currency: 'USD' });
+    expect(
+      computeCapitalization(manifest, { reportingCurrency: { currency: 'USD', rates } }).totals
+        .convertiblesInReportingCurrency
+    ).toEqual({ amount: '375000', currency: 'USD' });
+  });
+
+  it('fails when stock references a class missing from the manifest', () => {
+    expect(() =>
+      computeCapitalization(
+        buildManifest({
+          stakeholders,
+          stockClasses,
+          stockPlans,
+          transactions: [
+            {
+              object_type: 'TX_STOCK_ISSUANCE',
+              id: 'tx-1',
+              date: '2024-01-01',
+              security_id: 'cs-1',
+              stakeholder_id: 'founder',
+              stock_class_id: 'missing',
+              quantity: '1',
+            },
+          ],
+        })
+      )
+    ).toThrow(expect.objectContaining({ fieldPath: 'transactions.tx-1.stock_class_id', code: 'UNKNOWN_REFERENCE' }));
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Unit tests for SAFE and convertible note conversion modeling.
+ */
+
+import { OcpValidationError } from '../../src/errors/OcpValidationError';
+import { modelConvertibleConversions, type PricedRound } from '../../src/utils/convertibleConversion';
+import { buildManifest, equityCompensationIssuance, securityTransaction, stockIssuance, usd } from './manifestFixtures';
+
+const convertible = (securityId: string, amount: string, mechanism: Record<string, unknown>, date = '2024-01-01') =>
+  securityTransaction('TX_CONVERTIBLE_ISSUANCE', securityId, {
+    date,
+    stakeholder_id: `holder-${securityId}`,
+    investment_amount: usd(amount),
+    convertible_type: mechanism.type === 'CONVERTIBLE_NOTE_CONVERSION' ? 'NOTE' : 'SAFE',
+    seniority: 1,
+    conversion_triggers: [
+      {
+        type: 'AUTOMATIC_ON_CONDITION',
+        trigger_id: `trigger-${securityId}`,
+        conversion_right: {
+          type: 'CONVERTIBLE_CONVERSION_RIGHT',
+          conversion_mechanism: mechanism,
+          converts_to_future_round: true,
+        },
+      },
+    ],
+  });
+
+const stockPlans = [{ id: 'plan', plan_name: 'Plan', initial_shares_reserved: '1000000' }];
+
+const outstanding = [
+  stockIssuance('cs-1', '8000000', {
+    id: 'tx-common',
+    date: '2023-01-01',
+    stakeholder_id: 'founder',
+    stock_class_id: 'common',
+  }),
+  equityCompensationIssuance('opt-1', '500000', {
+    id: 'tx-option',
+    date: '2023-06-01',
+    stakeholder_id: 'employee',
+    stock_plan_id: 'plan',
+  }),
+];
+
+const round: PricedRound = {
+  date: '2025-01-01',
+  stockClassId: 'series-a',
+  pricePerShare: usd('2.00'),
+  preMoneyValuation: usd('20000000'),
+  newMoney: usd('5000000'),
+};
+
+const preMoneySafe = convertible('safe-pre', '900000', {
+  type: 'SAFE_CONVERSION',
+  conversion_mfn: false,
+  conversion_discount: '0.20',
+  conversion_valuation_cap: usd('9000000'),
+  conversion_timing: 'PRE_MONEY',
+});
+
+const note = convertible('note-1', '100000', {
+  type: 'CONVERTIBLE_NOTE_CONVERSION',
+  interest_rates: [{ rate: '0.08', accrual_start_date: '2024-01-01' }],
+  day_count_convention: 'ACTUAL_365',
+  interest_payout: 'DEFERRED',
+  compounding_type: 'SIMPLE',
+  conversion_discount: '0.20',
+});
+
+describe('modelConvertibleConversions', () => {
+  it('converts a pre-money SAFE at the lower of its cap and discount prices', () => {
+    const model = modelConvertibleConversions(
+      buildManifest({ stockPlans, transactions: [...outstanding, preMoneySafe] }),
+      round
+    );
+
+    expect(model.postMoneyValuation).toBe('25000000');
+    expect(model.newMoneyShares).toBe('2500000');
+    expect(model.conversions).toHaveLength(1);
+    expect(model.conversions[0]).toMatchObject({
+      securityId: 'safe-pre',
+      stockClassId: 'series-a',
+      discountPrice: '1.6',
+      capitalization: '9000000',
+      capPrice: '1',
+      conversionPrice: '1',
+      priceBasis: 'CAP',
+      shares: '900000',
+    });
+  });
+
+  it('accrues note interest and applies the discount', () => {
+    const [conversion] = modelConvertibleConversions(
+      buildManifest({ stockPlans, transactions: [...outstanding, note] }),
+      round
+    ).conversions;
+
+    // 2024 is a leap year: 366 days of 8% simple interest on an ACTUAL_365 basis
+    expect(conversion).toMatchObject({
+      principal: '100000',
+      accruedInterest: '8021.917808',
+      conversionAmount: '108021.917808',
+      capPrice: null,
+      conversionPrice: '1.6',
+      priceBasis: 'DISCOUNT',
+      shares: '67513',
+    });
+  });
+
+  it('compounds note interest per accrual period and skips interest paid in cash', () => {
+    const compounding = {
+      type: 'CONVERTIBLE_NOTE_CONVERSION',
+      interest_rates: [{ rate: '0.10', accrual_start_date: '2023-01-01' }],
+      day_count_convention: '30_360',
+      interest_accrual_period: 'ANNUAL',
+      compounding_type: 'COMPOUNDING',
+    };
+    const accrued = (mechanism: Record<string, unknown>) =>
+      modelConvertibleConversions(
+        buildManifest({
+          stockPlans,
+          transactions: [...outstanding, convertible('note-2', '100000', mechanism, '2023-01-01')],
+        }),
+        round
+      ).conversions[0].accruedInterest;
+
+    expect(accrued(compounding)).toBe('21000');
+    expect(accrued({ ...compounding, interest_payout: 'CASH' })).toBe('0');
+  });
+
+  it('solves post-money SAFE caps against the other converting securities', () => {
+    const postMoneySafe = convertible('safe-post', '1000000', {
+      type: 'SAFE_CONVERSION',
+      conversion_mfn: false,
+      conversion_valuation_cap: usd('10000000'),
+      conversion_timing: 'POST_MONEY',
+    });
+    const model = modelConvertibleConversions(
+      buildManifest({ stockPlans, transactions: [...outstanding, preMoneySafe, note, postMoneySafe] }),
+      round
+    );
+    const post = model.conversions.find((conversion) => conversion.securityId === 'safe-post');
+
+    expect(post?.priceBasis).toBe('CAP');
+    expect(post?.capitalizationRules).toMatchObject({
+      include_this_security: true,
+      include_other_converting_securities: true,
+    });
+    // The holder ends up with 10% of the post-money capitalization: $1M on a $10M post-money cap
+    const others = model.conversions
+      .filter((conversion) => conversion.securityId !== 'safe-post')
+      .reduce((total, conversion) => total + Number(conversion.shares), 0);
+    expect(Number(post?.capitalization)).toBe(9000000 + others + Number(post?.shares));
+    expect(Number(post?.shares) / Number(post?.capitalization)).toBeCloseTo(0.1, 6);
+  });
+
+  it('rejects post-money SAFEs whose cap prices never settle', () => {
+    // Together the SAFEs invest more than their caps allow, so each pass claims more shares than the last
+    const overCap = ['safe-a', 'safe-b'].map((securityId) =>
+      convertible(securityId, '6000000', {
+        type: 'SAFE_CONVERSION',
+        conversion_mfn: false,
+        conversion_valuation_cap: usd('10000000'),
+        conversion_timing: 'POST_MONEY',
+      })
+    );
+
+    expect(() =>
+      modelConvertibleConversions(buildManifest({ stockPlans, transactions: [...outstanding, ...overCap] }), round)
+    ).toThrow(
+      expect.objectContaining({
+        fieldPath: 'round',
+        code: 'OUT_OF_RANGE',
+        receivedValue: ['safe-a', 'safe-b'],
+      })
+    );
+  });
+
+  it('honors explicit capitalization definition rules', () => {
+    const safe = convertible('safe-rules', '900000', {
+      type: 'SAFE_CONVERSION',
+      conversion_mfn: false,
+      conversion_valuation_cap: usd('9000000'),
+      capitalization_definition_rules: { include_outstanding_unissued_options: false, include_new_money: true },
+    });
+    const [conversion] = modelConvertibleConversions(
+      buildManifest({ stockPlans, transactions: [...outstanding, safe] }),
+      round
+    ).conversions;
+
+    expect(conversion.capitalization).toBe('11000000');
+  });
+
+  it('builds draft conversion and stock issuance transactions', () => {
+    const model = modelConvertibleConversions(
+      buildManifest({ stockPlans, transactions: [...outstanding, preMoneySafe] }),
+      round,
+      { idPrefix: 'series-a' }
+    );
+
+    expect(model.drafts).toEqual([
+      expect.objectContaining({
+        object_type: 'TX_CONVERTIBLE_CONVERSION',
+        id: 'series-a-conversion-safe-pre',
+        date: '2025-01-01',
+        security_id: 'safe-pre',
+        resulting_security_ids: ['series-a-stock-safe-pre'],
+        trigger_id: 'trigger-safe-pre',
+        quantity_converted: '900000',
+      }),
+      expect.objectContaining({
+        object_type: 'TX_STOCK_ISSUANCE',
+        id: 'series-a-issuance-safe-pre',
+        security_id: 'series-a-stock-safe-pre',
+        stakeholder_id: 'holder-safe-pre',
+        stock_class_id: 'series-a',
+        share_price: usd('1'),
+        quantity: '900000',
+        cost_basis: usd('900000'),
+      }),
+    ]);
+  });
+
+  it('skips convertibles it cannot model', () => {
+    const model = modelConvertibleConversions(
+      buildManifest({
+        stockPlans,
+        transactions: [
+          ...outstanding,
+          convertible('fixed', '50000', { type: 'FIXED_AMOUNT_CONVERSION', converts_to_quantity: '1000' }),
+          {
+            ...preMoneySafe,
+            id: 'tx-eur',
+            security_id: 'safe-eur',
+            investment_amount: { amount: '1', currency: 'EUR' },
+          },
+        ],
+      }),
+      round
+    );
+
+    expect(model.conversions).toEqual([]);
+    expect(model.skipped).toEqual([
+      { securityId: 'fixed', reason: "Unsupported conversion mechanism 'FIXED_AMOUNT_CONVERSION'" },
+      { securityId: 'safe-eur', reason: 'Investment currency EUR differs from the round currency USD' },
+    ]);
+  });
+
+  it('rejects an invalid round', () => {
+    expect(() =>
+      modelConvertibleConversions(buildManifest({ stockPlans, transactions: outstanding }), {
+        ...round,
+        pricePerShare: usd('0'),
+      })
+    ).toThrow(OcpValidationError);
+    expect(() =>
+      modelConvertibleConversions(buildManifest({ stockPlans, transactions: outstanding }), {
+        ...round,
+        newMoney: { amount: '1', currency: 'EUR' },
+      })
+    ).toThrow('round.newMoney must be in USD');
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for CSV exports of the stakeholder list and security ledgers.
+ */
+
+import type { Readable } from 'stream';
+import { OcpParseError } from '../../src/errors';
+import type { OcfManifest } from '../../src/utils/cantonOcfExtractor';
+import {
+  createConvertibleLedgerCsvStream,
+  createOptionLedgerCsvStream,
+  createStakeholderCsvStream,
+  createStockLedgerCsvStream,
+  createWarrantLedgerCsvStream,
+} from '../../src/utils/csvExport';
+import { buildManifest, usd } from './manifestFixtures';
+
+async function readCsv(stream: Readable): Promise<string> {
+  let csv = '';
+  for await (const chunk of stream) csv += String(chunk);
+  return csv;
+}
+
+function ledgerManifest(): OcfManifest {
+  return buildManifest({
+    issuer: { id: 'issuer', object_type: 'ISSUER', legal_name: 'Acme Inc.' },
+    stakeholders: [
+      {
+        id: 'jane',
+        name: { legal_name: 'Jane "JD" Doe' },
+        stakeholder_type: 'INDIVIDUAL',
+        current_relationships: ['EMPLOYEE', 'BOARD_MEMBER'],
+        current_status: 'TERMINATION_VOLUNTARY_GOOD_CAUSE',
+        contact_info: { emails: [{ email_type: 'BUSINESS', email_address: 'jane@acme.test' }] },
+      },
+      {
+        id: 'fund',
+        name: { legal_name: 'Seed Fund, L.P.\nFund I' },
+        stakeholder_type: 'INSTITUTION',
+        current_relationship: 'NON_US_EMPLOYEE',
+      },
+    ],
+    stockClasses: [{ id: 'common', name: 'Common', class_type: 'COMMON' }],
+    stockPlans: [{ id: 'plan', plan_name: '2024 Equity Plan', initial_shares_reserved: '1000000' }],
+    transactions: [
+      {
+        object_type: 'TX_STOCK_ISSUANCE',
+        id: 'tx-fund',
+        date: '2024-01-01',
+        security_id: 'cs-fund',
+        stakeholder_id: 'fund',
+        stock_class_id: 'common',
+        quantity: '5000',
+        share_price: usd('0.10'),
+        cost_basis: usd('500'),
+      },
+      {
+        object_type: 'TX_STOCK_TRANSFER',
+        id: 'tx-transfer',
+        date: '2024-02-01',
+        security_id: 'cs-fund',
+        quantity: '5000',
+        resulting_security_ids: ['cs-jane'],
+      },
+      {
+        object_type: 'TX_STOCK_ISSUANCE',
+        id: 'tx-jane-stock',
+        date: '2024-02-01',
+        security_id: 'cs-jane',
+        stakeholder_id: 'jane',
+        stock_class_id: 'common',
+        quantity: '5000',
+        share_price: usd('0.10'),
+      },
+      {
+        object_type: 'TX_PLAN_SECURITY_ISSUANCE',
+        id: 'tx-jane-option',
+        date: '2024-03-01',
+        security_id: 'opt-jane',
+        stakeholder_id: 'jane',
+        stock_plan_id: 'plan',
+        stock_class_id: 'common',
+        compensation_type: 'OPTION_ISO',
+        quantity: '4800',
+        exercise_price: usd('1.00'),
+        expiration_date: '2034-03-01',
+      },
+      {
+        object_type: 'TX_WARRANT_ISSUANCE',
+        id: 'tx-fund-warrant',
+        date: '2024-04-01',
+        security_id: 'w-fund',
+        stakeholder_id: 'fund',
+        quantity: '1000',
+        exercise_price: usd('0.50'),
+        purchase_price: usd('100'),
+        exercise_triggers: [
+          {
+            type: 'ELECTIVE_AT_WILL',
+            trigger_id: 'trigger-1',
+            conversion_right: { type: 'WARRANT_CONVERSION_RIGHT', converts_to_stock_class_id: 'common' },
+          },
+        ],
+      },
+      {
+        object_type: 'TX_CONVERTIBLE_ISSUANCE',
+        id: 'tx-fund-safe',
+        date: '2024-05-01',
+        security_id: 'safe-fund',
+        stakeholder_id: 'fund',
+        investment_amount: usd('25000'),
+        convertible_type: 'SAFE',
+        conversion_triggers: [],
+        seniority: 1,
+      },
+    ],
+  });
+}
+
+describe('createStakeholderCsvStream', () => {
+  it('writes human labels and escapes fields as described in RFC 4180', async () => {
+    const csv = await readCsv(createStakeholderCsvStream(ledgerManifest()));
+
+    expect(csv).toBe(
+      'Stakeholder ID,Name,Type,Issuer assigned ID,Relationships,Status,Email,Phone\r\n' +
+        'jane,"Jane ""JD"" Doe",Individual,,Employee; Board Member,Termination Voluntary Good Cause,jane@acme.test,\r\n' +
+        'fund,"Seed Fund, L.P.\nFund I",Institution,,Non-US Employee,,,\r\n'
+    );
+  });
+
+  it('rejects enum values OCF does not define', async () => {
+    const manifest = ledgerManifest();
+    manifest.stakeholders[0].stakeholder_type = 'ROBOT';
+
+    await expect(readCsv(createStakeholderCsvStream(manifest))).rejects.toThrow(OcpParseError);
+  });
+});
+
+describe('security ledger CSV streams', () => {
+  it('writes one record per stock security with its closing transaction', async () => {
+    const csv = await readCsv(
+      createStockLedgerCsvStream(ledgerManifest(), {
+        columns: ['securityId', 'stakeholderName', 'outstandingQuantity', 'status', 'consumedByType', 'sharePrice'],
+      })
+    );
+
+    expect(csv.split('\r\n')).toEqual([
+      'Security ID,Stakeholder,Outstanding quantity,Status,Closing transaction,Share price',
+      'cs-fund,"Seed Fund, L.P.\nFund I",0,Transferred,Stock Transfer,0.1',
+      'cs-jane,"Jane ""JD"" Doe",5000,Outstanding,,0.1',
+      '',
+    ]);
+  });
+
+  it('accepts computed columns and can leave out the header', async () => {
+    const csv = await readCsv(
+      createOptionLedgerCsvStream(ledgerManifest(), {
+        columns: [
+          'compensationType',
+          'stockPlanName',
+          { header: 'Exercise price', value: (row) => `${row.exercisePrice} ${row.exercisePriceCurrency}` },
+        ],
+        includeHeader: false,
+      })
+    );
+
+    expect(csv).toBe('Option ISO,2024 Equity Plan,1 USD\r\n');
+  });
+
+  it('exports warrants and convertibles with their own columns', async () => {
+    const warrants = await readCsv(
+      createWarrantLedgerCsvStream(ledgerManifest(), { columns: ['securityId', 'stockClassName', 'purchasePrice'] })
+    );
+    const convertibles = await readCsv(
+      createConvertibleLedgerCsvStream(ledgerManifest(), { columns: ['convertibleType', 'quantity', 'currency'] })
+    );
+
+    expect(warrants).toBe('Security ID,Stock class,Purchase price\r\nw-fund,Common,100\r\n');
+    expect(convertibles).toBe('Convertible type,Investment amount,Currency\r\nSAFE,25000,USD\r\n');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for CSV import of stakeholders and issuances.
+ */
+
+import { OcpErrorCodes, OcpParseError } from '../../src/errors';
+import { importCapTableCsv, type CsvColumnMapping } from '../../src/utils/csvImport';
+
+const stakeholderMapping: CsvColumnMapping = {
+  id: 'ID',
+  'name.legal_name': 'Full name',
+  stakeholder_type: { column: 'Type', values: { Person: 'INDIVIDUAL', Company: 'INSTITUTION' } },
+  'contact_info.emails.0.email_address': 'Email',
+  'contact_info.emails.0.email_type': { value: 'BUSINESS' },
+};
+
+const stakeholderCsv =
+  'ID,Full name,Type,Email\r\n' +
+  'sh-jane,"Doe, Jane",person,jane@acme.test\r\n' +
+  ',Seed Fund,Company,ir@seed.test\r\n' +
+  ',,,\r\n' +
+  'sh-bad,Robot,Android,\r\n';
+
+const stockMapping: CsvColumnMapping = {
+  stakeholder_id: 'Holder',
+  stock_class_id: { value: 'common' },
+  date: 'Issue date',
+  quantity: 'Shares',
+  'share_price.amount': 'Price',
+  'share_price.currency': { value: 'USD' },
+  custom_id: 'Certificate',
+};
+
+function sequentialIds(): () => string {
+  let next = 0;
+  return () => `generated-${++next}`;
+}
+
+describe('importCapTableCsv', () => {
+  it('maps rows to native OCF objects and create operations', () => {
+    const result = importCapTableCsv(
+      {
+        stakeholders: { csv: stakeholderCsv, mapping: stakeholderMapping },
+        stockIssuances: {
+          csv: 'Holder,Issue date,Shares,Price,Certificate\n' + 'JANE@ACME.TEST,2024-01-15,1000,0.01,CS-1\n',
+          mapping: stockMapping,
+        },
+        equityCompensationIssuances: {
+          csv: '\uFEFFHolder,Date,Options,Type\r\nseed fund,2024-02-01,500,ISO\r\n',
+          mapping: {
+            stakeholder_id: 'Holder',
+            date: 'Date',
+            quantity: 'Options',
+            compensation_type: { column: 'Type', values: { ISO: 'OPTION_ISO', NSO: 'OPTION_NSO' } },
+          },
+        },
+      },
+      { generateId: sequentialIds() }
+    );
+
+    expect(result.stakeholders).toEqual([
+      {
+        object_type: 'STAKEHOLDER',
+        id: 'sh-jane',
+        name: { legal_name: 'Doe, Jane' },
+        stakeholder_type: 'INDIVIDUAL',
+        contact_info: { emails: [{ email_address: 'jane@acme.test', email_type: 'BUSINESS' }] },
+      },
+      {
+        object_type: 'STAKEHOLDER',
+        id: 'generated-1',
+        name: { legal_name: 'Seed Fund' },
+        stakeholder_type: 'INSTITUTION',
+        contact_info: { emails: [{ email_address: 'ir@seed.test', email_type: 'BUSINESS' }] },
+      },
+    ]);
+    expect(result.stockIssuances).toEqual([
+      expect.objectContaining({
+        object_type: 'TX_STOCK_ISSUANCE',
+        id: 'generated-2',
+        security_id: 'generated-3',
+        custom_id: 'CS-1',
+        stakeholder_id: 'sh-jane',
+        share_price: { amount: '0.01', currency: 'USD' },
+        security_law_exemptions: [],
+        stock_legend_ids: [],
+      }),
+    ]);
+    expect(result.equityCompensationIssuances).toEqual([
+      expect.objectContaining({
+        id: 'generated-4',
+        custom_id: 'generated-5',
+        security_id: 'generated-5',
+        stakeholder_id: 'generated-1',
+        compensation_type: 'OPTION_ISO',
+        expiration_date: null,
+      }),
+    ]);
+    expect(result.operations.map((operation) => [operation.type, operation.data.id])).toEqual([
+      ['stakeholder', 'sh-jane'],
+      ['stakeholder', 'generated-1'],
+      ['stockIssuance', 'generated-2'],
+      ['equityCompensationIssuance', 'generated-4'],
+    ]);
+  });
+
+  it('reports the sheet, row and column of every row left out', () => {
+    const { stakeholders, stockIssuances, report } = importCapTableCsv(
+      {
+        stakeholders: { csv: stakeholderCsv, mapping: stakeholderMapping },
+        stockIssuances: {
+          csv:
+            'Holder,Issue date,Shares,Price,Certificate\r\n' +
+            'Nobody,2024-01-15,1000,0.01,CS-1\r\n' +
+            'sh-jane,2024-01-15,"1,000",0.01,CS-2\r\n',
+          mapping: stockMapping,
+        },
+      },
+      {
+        existingStakeholders: [
+          {
+            object_type: 'STAKEHOLDER',
+            id: 'sh-jane-2',
+            name: { legal_name: 'Nobody' },
+            stakeholder_type: 'INDIVIDUAL',
+          },
+          {
+            object_type: 'STAKEHOLDER',
+            id: 'sh-jane-3',
+            name: { legal_name: 'nobody' },
+            stakeholder_type: 'INDIVIDUAL',
+          },
+        ],
+      }
+    );
+
+    expect(stakeholders).toHaveLength(2);
+    expect(stockIssuances).toEqual([]);
+    expect(report).toMatchObject({ valid: false, errorCount: 3, warningCount: 0 });
+    expect(report.issues.map((issue) => [issue.sheet, issue.row, issue.column, issue.fieldPath, issue.code])).toEqual([
+      ['stakeholders', 5, 'Type', 'stakeholder_type', OcpErrorCodes.UNKNOWN_ENUM_VALUE],
+      ['stockIssuances', 2, 'Holder', 'stakeholder_id', OcpErrorCodes.INVALID_FORMAT],
+      ['stockIssuances', 3, 'Shares', 'quantity', OcpErrorCodes.INVALID_FORMAT],
+    ]);
+    expect(report.issues[0]).toMatchObject({ entityType: 'stakeholder', entityId: 'sh-bad', severity: 'error' });
+    expect(report.issues[1].message).toBe("'Nobody' matches several stakeholders: sh-jane-2, sh-jane-3");
+  });
+
+  it('skips sheets whose header lacks a mapped column and rejects malformed CSV', () => {
+    const { stakeholders, report } = importCapTableCsv({
+      stakeholders: { csv: 'Full name\r\nJane Doe\r\n', mapping: stakeholderMapping },
+    });
+
+    expect(stakeholders).toEqual([]);
+    expect(report.issues.map((issue) => [issue.row, issue.column, issue.code])).toEqual([
+      [1, 'ID', OcpErrorCodes.REQUIRED_FIELD_MISSING],
+      [1, 'Type', OcpErrorCodes.REQUIRED_FIELD_MISSING],
+      [1, 'Email', OcpErrorCodes.REQUIRED_FIELD_MISSING],
+    ]);
+    expect(() =>
+      importCapTableCsv({ stakeholders: { csv: 'Full name\r\n"Jane Doe\r\n', mapping: stakeholderMapping } })
+    ).toThrow(OcpParseError);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for currency validation and FX normalization.
+ */
+
+import { OcpErrorCodes, OcpValidationError } from '../../src/errors';
+import {
+  convertMonetary,
+  isIso4217CurrencyCode,
+  sumMonetary,
+  validateCurrencyCode,
+  validateCurrencyConsistency,
+} from '../../src/utils/currency';
+import { buildManifest, usd } from './manifestFixtures';
+
+const eur = (amount: string) => ({ amount, currency: 'EUR' });
+
+const rates = [
+  { date: '2024-01-01', from: 'EUR', to: 'USD', rate: '1.1' },
+  { date: '2024-06-01', from: 'USD', to: 'EUR', rate: '0.8' },
+];
+
+describe('validateCurrencyCode', () => {
+  it('accepts ISO 4217 codes only', () => {
+    expect(isIso4217CurrencyCode('USD')).toBe(true);
+    expect(isIso4217CurrencyCode('usd')).toBe(false);
+    expect(isIso4217CurrencyCode('XYZ')).toBe(false);
+    expect(() => validateCurrencyCode('EUR', 'price.currency')).not.toThrow();
+    expect(() => validateCurrencyCode('EURO', 'price.currency')).toThrow(
+      expect.objectContaining({ fieldPath: 'price.currency', code: OcpErrorCodes.INVALID_FORMAT })
+    );
+    expect(() => validateCurrencyCode(840, 'price.currency')).toThrow(
+      expect.objectContaining({ code: OcpErrorCodes.INVALID_TYPE })
+    );
+  });
+});
+
+describe('validateCurrencyConsistency', () => {
+  it('flags invalid codes and currencies that differ within a stock class', () => {
+    const report = validateCurrencyConsistency(
+      buildManifest({
+        issuer: { object_type: 'ISSUER', id: 'issuer' },
+        stockClasses: [
+          { object_type: 'STOCK_CLASS', id: 'common', price_per_share: usd('0.01') },
+          { object_type: 'STOCK_CLASS', id: 'series-a', price_per_share: eur('1') },
+        ],
+        valuations: [
+          {
+            object_type: 'VALUATION',
+            id: 'val-1',
+            stock_class_id: 'common',
+            price_per_share: { amount: '1', currency: 'US$' },
+          },
+        ],
+        transactions: [
+          {
+            object_type: 'TX_STOCK_ISSUANCE',
+            id: 'tx-1',
+            security_id: 'cs-1',
+            stock_class_id: 'common',
+            share_price: usd('0.01'),
+            cost_basis: usd('10'),
+          },
+          {
+            object_type: 'TX_STOCK_ISSUANCE',
+            id: 'tx-2',
+            security_id: 'pa-1',
+            stock_class_id: 'series-a',
+            share_price: eur('1'),
+          },
+          { object_type: 'TX_STOCK_REPURCHASE', id: 'tx-3', security_id: 'cs-1', price: eur('0.02') },
+          { object_type: 'TX_STOCK_REPURCHASE', id: 'tx-4', security_id: 'pa-1', price: eur('1') },
+        ],
+      })
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map((issue) => [issue.entityId, issue.fieldPath, issue.code])).toEqual([
+      ['val-1', 'price_per_share.currency', OcpErrorCodes.INVALID_FORMAT],
+      ['tx-3', 'price.currency', OcpErrorCodes.CURRENCY_MISMATCH],
+    ]);
+    expect(report.issues[1]).toMatchObject({
+      entityType: 'stockRepurchase',
+      severity: 'error',
+      message: "Currency EUR differs from USD used by stock class 'common'",
+    });
+  });
+});
+
+describe('convertMonetary', () => {
+  it('uses the latest rate on or before the date, in either direction', () => {
+    expect(convertMonetary(eur('100'), { currency: 'USD', rates, date: '2024-05-31' })).toEqual(usd('110'));
+    expect(convertMonetary(eur('100'), { currency: 'USD', rates, date: '2024-06-01' })).toEqual(usd('125'));
+    expect(convertMonetary(eur('100'), { currency: 'USD', rates })).toEqual(usd('125'));
+    expect(convertMonetary(usd('5'), { currency: 'USD', rates: [] })).toEqual(usd('5'));
+  });
+
+  it('fails without an applicable rate', () => {
+    expect(() => convertMonetary(eur('1'), { currency: 'USD', rates, date: '2023-12-31' })).toThrow(
+      'No FX rate from EUR to USD on or before 2023-12-31'
+    );
+    expect(() => convertMonetary({ amount: '1', currency: 'GBP' }, { currency: 'USD', rates })).toThrow(
+      OcpValidationError
+    );
+  });
+});
+
+describe('sumMonetary', () => {
+  it('refuses to add up different currencies without a reporting currency', () => {
+    expect(sumMonetary([usd('1'), usd('2.5')])).toEqual(usd('3.5'));
+    expect(sumMonetary([])).toBeNull();
+    expect(() => sumMonetary([usd('1'), eur('1')])).toThrow('Cannot total USD and EUR amounts');
+    expect(() => sumMonetary([usd('1'), eur('1')])).toThrow(
+      expect.objectContaining({ code: OcpErrorCodes.CURRENCY_MISMATCH })
+    );
+  });
+
+  it('converts every amount to the reporting currency', () => {
+    expect(sumMonetary([usd('1'), eur('10')], { currency: 'USD', rates, date: '2024-01-15' })).toEqual(usd('12'));
+    expect(sumMonetary([], { currency: 'EUR', rates })).toEqual(eur('0'));
+  });
+});
@@ -0,0 +1,94 @@
+import { OcpErrorCodes } from '../../src/errors/codes';
+import { OcpValidationError } from '../../src/errors/OcpValidationError';
+import {
+  addDecimals,
+  compareDecimals,
+  divideDecimals,
+  formatDecimal,
+  multiplyDecimals,
+  parseDecimal,
+  roundDecimal,
+  subtractDecimals,
+  sumDecimals,
+} from '../../src/utils/decimalMath';
+
+describe('parseDecimal / formatDecimal', () => {
+  it('round-trips integers and fractions', () => {
+    expect(formatDecimal(parseDecimal('1500000'))).toBe('1500000');
+    expect(formatDecimal(parseDecimal('0.25'))).toBe('0.25');
+    expect(formatDecimal(parseDecimal('-12.5'))).toBe('-12.5');
+  });
+
+  it('normalizes DAML-style trailing zeros', () => {
+    expect(formatDecimal(parseDecimal('5000000.0000000000'))).toBe('5000000');
+    expect(formatDecimal(parseDecimal('1.1000'))).toBe('1.1');
+  });
+
+  it('accepts finite numbers', () => {
+    expect(formatDecimal(parseDecimal(42))).toBe('42');
+  });
+
+  it('rejects non-decimal input with the field path', () => {
+    expect(() => parseDecimal('1e5', 'tx.quantity')).toThrow(OcpValidationError);
+    try {
+      parseDecimal('abc', 'tx.quantity');
+    } catch (error) {
+      expect((error as OcpValidationError).fieldPath).toBe('tx.quantity');
+      expect((error as OcpValidationError).code).toBe(OcpErrorCodes.INVALID_FORMAT);
+    }
+  });
+
+  it('rejects more than 10 significant fractional digits', () => {
+    expect(() => parseDecimal('0.00000000001')).toThrow(OcpValidationError);
+    expect(formatDecimal(parseDecimal('0.10000000000'))).toBe('0.1');
+  });
+});
+
+describe('decimal arithmetic', () => {
+  it('adds and subtracts without floating point drift', () => {
+    expect(addDecimals('0.1', '0.2')).toBe('0.3');
+    expect(subtractDecimals('100', '0.0000000001')).toBe('99.9999999999');
+  });
+
+  it('sums large share counts exactly', () => {
+    expect(sumDecimals(['9007199254740993', '1'])).toBe('9007199254740994');
+    expect(sumDecimals([])).toBe('0');
+  });
+
+  it('compares numerically rather than lexically', () => {
+    expect(compareDecimals('9', '10')).toBe(-1);
+    expect(compareDecimals('10.0', '10')).toBe(0);
+    expect(compareDecimals('-1', '-2')).toBe(1);
+  });
+});
+
+describe('multiplyDecimals / divideDecimals / roundDecimal', () => {
+  it('multiplies and divides at DAML scale', () => {
+    expect(multiplyDecimals('1.5', '2000000')).toBe('3000000');
+    expect(divideDecimals('1', '3')).toBe('0.3333333333');
+    expect(divideDecimals('2', '3')).toBe('0.6666666667');
+  });
+
+  it('applies OCF rounding types to the last digit', () => {
+    expect(divideDecimals('2', '3', 'FLOOR')).toBe('0.6666666666');
+    expect(divideDecimals('1', '3', 'CEILING')).toBe('0.3333333334');
+    expect(divideDecimals('-1', '3', 'FLOOR')).toBe('-0.3333333334');
+  });
+
+  it('rounds quotients once to fewer fractional digits', () => {
+    expect(divideDecimals('15', '6.0000000001', 'NORMAL', 0)).toBe('2');
+    expect(divideDecimals('7', '2', 'FLOOR', 0)).toBe('3');
+    expect(divideDecimals('1', '3', 'NORMAL', 2)).toBe('0.33');
+  });
+
+  it('rejects division by zero', () => {
+    expect(() => divideDecimals('1', '0')).toThrow(OcpValidationError);
+  });
+
+  it('rounds to whole units or fixed fractional digits', () => {
+    expect(roundDecimal('1234.5', 0)).toBe('1235');
+    expect(roundDecimal('1234.5', 0, 'FLOOR')).toBe('1234');
+    expect(roundDecimal('1234.1', 0, 'CEILING')).toBe('1235');
+    expect(roundDecimal('0.125', 2)).toBe('0.13');
+  });
+});
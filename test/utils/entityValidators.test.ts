@@ -8,6 +8,7 @@ import {
   validateContactInfoWithoutName,
   validateDocumentData,
   validateEmail,
+  validateEquityCompensationIssuanceData,
   validateIssuerData,
   validateMonetaryObject,
   validateName,
@@ -472,6 +473,50 @@ describe('Entity Validators', () => {
     });
   });
 
+  describe('validateEquityCompensationIssuanceData', () => {
+    const validGrant = {
+      id: 'grant-1',
+      date: '2024-01-01',
+      security_id: 'sec-1',
+      custom_id: 'EC-001',
+      stakeholder_id: 'stakeholder-1',
+      compensation_type: 'OPTION_ISO',
+      quantity: '1000',
+      exercise_price: { amount: '1.00', currency: 'USD' },
+      expiration_date: null,
+      security_law_exemptions: [],
+      termination_exercise_windows: [{ reason: 'VOLUNTARY_OTHER', period: 3, period_type: 'MONTHS' }],
+    };
+
+    it('passes for valid equity compensation issuance data', () => {
+      expect(() => validateEquityCompensationIssuanceData(validGrant, 'grant')).not.toThrow();
+    });
+
+    it('throws for missing stakeholder_id', () => {
+      expect(() => validateEquityCompensationIssuanceData({ ...validGrant, stakeholder_id: '' }, 'grant')).toThrow(
+        OcpValidationError
+      );
+    });
+
+    it('throws for invalid compensation_type', () => {
+      expect(() =>
+        validateEquityCompensationIssuanceData({ ...validGrant, compensation_type: 'PHANTOM' }, 'grant')
+      ).toThrow(expect.objectContaining({ fieldPath: 'grant.compensation_type' }));
+    });
+
+    it('throws for invalid termination windows', () => {
+      expect(() =>
+        validateEquityCompensationIssuanceData(
+          {
+            ...validGrant,
+            termination_exercise_windows: [{ reason: 'VOLUNTARY_OTHER', period: '3', period_type: 'MONTHS' }],
+          },
+          'grant'
+        )
+      ).toThrow(expect.objectContaining({ fieldPath: 'grant.termination_exercise_windows[0].period' }));
+    });
+  });
+
   describe('validateValuationData', () => {
     const validValuation = {
       id: 'valuation-1',
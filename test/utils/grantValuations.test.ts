@@ -0,0 +1,132 @@
+/**
+ * Unit tests for 409A valuation matching of option grants.
+ */
+
+import { OcpValidationError } from '../../src/errors/OcpValidationError';
+import { analyzeGrantValuations } from '../../src/utils/grantValuations';
+import { buildManifest, equityCompensationIssuance, usd } from './manifestFixtures';
+
+const valuation = (id: string, effectiveDate: string, price: string, extra: Record<string, unknown> = {}) => ({
+  object_type: 'VALUATION',
+  id,
+  stock_class_id: 'common',
+  price_per_share: usd(price),
+  effective_date: effectiveDate,
+  valuation_type: '409A',
+  ...extra,
+});
+
+const grant = (securityId: string, date: string, price: string | null, extra: Record<string, unknown> = {}) =>
+  equityCompensationIssuance(securityId, '1000', {
+    date,
+    stakeholder_id: 'employee',
+    stock_plan_id: 'plan',
+    compensation_type: price === null ? 'RSU' : 'OPTION_ISO',
+    ...(price === null ? {} : { exercise_price: usd(price) }),
+    ...extra,
+  });
+
+const valuations = [
+  valuation('val-2023', '2023-03-01', '0.50'),
+  valuation('val-2024', '2024-03-01', '0.80'),
+  valuation('val-preferred', '2024-03-01', '5.00', { stock_class_id: 'series-a' }),
+];
+
+const stockPlans = [{ id: 'plan', plan_name: 'Plan', stock_class_ids: ['common'], initial_shares_reserved: '100000' }];
+
+describe('analyzeGrantValuations', () => {
+  it('matches each grant to the valuation in effect for its class', () => {
+    const report = analyzeGrantValuations(
+      buildManifest({
+        valuations,
+        stockPlans,
+        transactions: [grant('opt-1', '2023-06-01', '0.50'), grant('opt-2', '2024-03-01', '0.90')],
+      })
+    );
+
+    expect(report.grants.map((match) => [match.securityId, match.valuation?.valuationId, match.discount])).toEqual([
+      ['opt-1', 'val-2023', '0'],
+      ['opt-2', 'val-2024', '-0.1'],
+    ]);
+    expect(report.grants[0]).toMatchObject({
+      stockClassId: 'common',
+      valuation: { effectiveDate: '2023-03-01', expirationDate: '2024-02-29', pricePerShare: usd('0.5') },
+      issues: [],
+    });
+    expect(report.flagged).toEqual([]);
+  });
+
+  it('flags grants below FMV, without a valuation, or after the valuation expired', () => {
+    const report = analyzeGrantValuations(
+      buildManifest({
+        valuations,
+        stockPlans,
+        transactions: [
+          grant('opt-cheap', '2024-04-01', '0.60'),
+          grant('opt-early', '2023-01-01', '0.50'),
+          grant('opt-stale', '2025-03-01', '1.00'),
+          grant('rsu', '2024-04-01', null),
+        ],
+      })
+    );
+
+    expect(report.grants.map((match) => match.securityId)).toEqual(['opt-early', 'opt-cheap', 'opt-stale']);
+    expect(report.flagged.map((match) => [match.securityId, match.issues])).toEqual([
+      ['opt-early', ['NO_VALUATION']],
+      ['opt-cheap', ['BELOW_FMV']],
+      ['opt-stale', ['VALUATION_EXPIRED']],
+    ]);
+    expect(report.flagged[1].discount).toBe('0.2');
+  });
+
+  it('honors recorded expiration dates and the validity window option', () => {
+    const manifest = buildManifest({
+      valuations: [
+        valuation('val-2023', '2023-03-01', '0.50', { expiration_date: '2023-09-01' }),
+        ...valuations.slice(1),
+      ],
+      stockPlans,
+      transactions: [grant('opt-1', '2023-10-01', '0.50')],
+    });
+
+    expect(analyzeGrantValuations(manifest).flagged[0].issues).toEqual(['VALUATION_EXPIRED']);
+    expect(
+      analyzeGrantValuations(
+        buildManifest({ valuations, stockPlans, transactions: [grant('opt-1', '2023-10-01', '0.50')] }),
+        { validityMonths: 6 }
+      ).flagged[0].valuation?.expirationDate
+    ).toBe('2023-08-31');
+  });
+
+  it('reports currency mismatches instead of comparing prices', () => {
+    const report = analyzeGrantValuations(
+      buildManifest({
+        valuations,
+        stockPlans,
+        transactions: [grant('opt-eur', '2024-04-01', '0.10', { exercise_price: { amount: '0.10', currency: 'EUR' } })],
+      })
+    );
+
+    expect(report.flagged[0]).toMatchObject({ discount: null, issues: ['CURRENCY_MISMATCH'] });
+  });
+
+  it('skips grants and valuations whose price is not a decimal amount', () => {
+    const report = analyzeGrantValuations(
+      buildManifest({
+        valuations: [...valuations, valuation('val-draft', '2024-04-01', 'TBD')],
+        stockPlans,
+        transactions: [grant('opt-1', '2024-05-01', '0.80'), grant('opt-draft', '2024-05-01', 'n/a')],
+      })
+    );
+
+    expect(report.grants.map((match) => [match.securityId, match.valuation?.valuationId])).toEqual([
+      ['opt-1', 'val-2024'],
+    ]);
+  });
+
+  it('rejects an invalid validity window', () => {
+    expect(() => analyzeGrantValuations(buildManifest({ valuations, stockPlans }), { validityMonths: 0 })).toThrow(
+      OcpValidationError
+    );
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for the ISO $100,000 annual limit checker.
+ */
+
+import { computeIsoLimits, findIsoLimitViolations } from '../../src/utils/isoLimit';
+import { buildManifest, equityCompensationIssuance, usd } from './manifestFixtures';
+
+const grant = (securityId: string, date: string, quantity: string, extra: Record<string, unknown> = {}) =>
+  equityCompensationIssuance(securityId, quantity, {
+    date,
+    stakeholder_id: 'jane',
+    stock_plan_id: 'plan',
+    compensation_type: 'OPTION_ISO',
+    exercise_price: usd('2.00'),
+    ...extra,
+  });
+
+const yearly = {
+  id: 'yearly',
+  allocation_type: 'CUMULATIVE_ROUND_DOWN',
+  vesting_conditions: [
+    { id: 'start', trigger: { type: 'VESTING_START_DATE' }, next_condition_ids: ['annual'] },
+    {
+      id: 'annual',
+      portion: { numerator: '1', denominator: '1' },
+      trigger: {
+        type: 'VESTING_SCHEDULE_RELATIVE',
+        relative_to_condition_id: 'start',
+        period: { type: 'MONTHS', length: 12, occurrences: 2, day_of_month: 'VESTING_START_DAY_OR_LAST_DAY_OF_MONTH' },
+      },
+      next_condition_ids: [],
+    },
+  ],
+};
+
+describe('computeIsoLimits', () => {
+  it('counts value by the year it first becomes exercisable', () => {
+    const report = computeIsoLimits(
+      buildManifest({
+        vestingTerms: [yearly],
+        transactions: [
+          grant('opt-1', '2024-01-01', '80000', {
+            vestings: [
+              { date: '2024-06-01', amount: '40000' },
+              { date: '2025-06-01', amount: '40000' },
+            ],
+          }),
+        ],
+      })
+    );
+
+    expect(report.years.map((year) => [year.year, year.exercisableValue, year.excess])).toEqual([
+      [2024, '80000', '0'],
+      [2025, '80000', '0'],
+    ]);
+    expect(report).toMatchObject({ valid: true, violations: [], skipped: [] });
+  });
+
+  it('allocates the limit to grants in the order they were granted', () => {
+    const report = computeIsoLimits(
+      buildManifest({
+        vestingTerms: [yearly],
+        transactions: [
+          grant('opt-2', '2024-03-01', '20000', { early_exercisable: true }),
+          grant('opt-1', '2024-01-01', '40000'),
+          grant('nso', '2024-01-01', '90000', { compensation_type: 'OPTION_NSO' }),
+        ],
+      })
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.violations).toEqual([
+      {
+        stakeholderId: 'jane',
+        year: 2024,
+        exercisableValue: '120000',
+        limit: '100000',
+        excess: '20000',
+        grants: [
+          {
+            securityId: 'opt-1',
+            transactionId: 'tx-opt-1',
+            grantDate: '2024-01-01',
+            exercisePrice: '2',
+            shares: '40000',
+            value: '80000',
+            isoValue: '80000',
+            nsoValue: '0',
+            nsoShares: '0',
+          },
+          {
+            securityId: 'opt-2',
+            transactionId: 'tx-opt-2',
+            grantDate: '2024-03-01',
+            exercisePrice: '2',
+            shares: '20000',
+            value: '40000',
+            isoValue: '20000',
+            nsoValue: '20000',
+            nsoShares: '10000',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('derives exercisability from vesting terms', () => {
+    const report = computeIsoLimits(
+      buildManifest({
+        vestingTerms: [yearly],
+        transactions: [
+          grant('opt-1', '2024-01-01', '120000', { vesting_terms_id: 'yearly' }),
+          { object_type: 'TX_VESTING_START', id: 'tx-start', date: '2024-01-01', security_id: 'opt-1' },
+        ],
+      })
+    );
+
+    expect(report.years.map((year) => [year.year, year.exercisableValue, year.excess])).toEqual([
+      [2025, '120000', '20000'],
+      [2026, '120000', '20000'],
+    ]);
+  });
+
+  it('skips grants it cannot value and honors a custom limit', () => {
+    const report = computeIsoLimits(
+      buildManifest({
+        vestingTerms: [yearly],
+        transactions: [
+          grant('opt-eur', '2024-01-01', '1000', { exercise_price: { amount: '2.00', currency: 'EUR' } }),
+          grant('opt-missing', '2024-01-01', '1000', { vesting_terms_id: 'unknown' }),
+          grant('opt-1', '2024-01-01', '1000'),
+        ],
+      }),
+      { limit: '1000' }
+    );
+
+    expect(report.skipped).toEqual([
+      { securityId: 'opt-eur', reason: 'Exercise price currency EUR is not USD' },
+      { securityId: 'opt-missing', reason: "Vesting terms 'unknown' are not in the manifest" },
+    ]);
+    expect(report.violations.map((year) => year.excess)).toEqual(['1000']);
+  });
+});
+
+describe('findIsoLimitViolations', () => {
+  it('only reports years a pending grant pushes above the limit', () => {
+    const manifest = buildManifest({
+      vestingTerms: [yearly],
+      transactions: [grant('opt-1', '2023-01-01', '60000'), grant('opt-2', '2024-01-01', '20000')],
+    });
+
+    expect(findIsoLimitViolations(manifest, { transactions: [grant('opt-3', '2024-06-01', '10000')] })).toEqual([]);
+
+    const violations = findIsoLimitViolations(manifest, { transactions: [grant('opt-3', '2023-06-01', '10000')] });
+    expect(violations.map((year) => [year.year, year.excess])).toEqual([[2023, '40000']]);
+  });
+
+  it('replays pending vesting terms and vesting transactions', () => {
+    const manifest = { transactions: [grant('opt-1', '2024-01-01', '120000', { vesting_terms_id: 'yearly' })] };
+
+    expect(computeIsoLimits(manifest).skipped).toHaveLength(1);
+    expect(
+      findIsoLimitViolations(manifest, {
+        vestingTerms: [yearly],
+        transactions: [{ object_type: 'TX_VESTING_START', id: 'tx-start', date: '2024-01-01', security_id: 'opt-1' }],
+      }).map((year) => year.year)
+    ).toEqual([2025, 2026]);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Unit tests for the liquidation waterfall.
+ */
+
+import { OcpValidationError } from '../../src/errors/OcpValidationError';
+import type { OcfManifest } from '../../src/utils/cantonOcfExtractor';
+import { computeExitScenarios, computeLiquidationWaterfall } from '../../src/utils/liquidationWaterfall';
+import { buildManifest, equityCompensationIssuance, stockIssuance, usd } from './manifestFixtures';
+
+const stock = (securityId: string, stakeholderId: string, stockClassId: string, quantity: string) =>
+  stockIssuance(securityId, quantity, { stakeholder_id: stakeholderId, stock_class_id: stockClassId });
+
+const preferred = (id: string, price: string, terms: Record<string, unknown> = {}) => ({
+  id,
+  name: id,
+  class_type: 'PREFERRED',
+  price_per_share: usd(price),
+  seniority: '1',
+  ...terms,
+});
+
+const common = { id: 'common', name: 'Common', class_type: 'COMMON', seniority: '0' };
+
+/** 1M common, 500k Series A at $2 (1x non-participating) and 100k options at $0.50. */
+function seriesAManifest(transactions: Array<Record<string, unknown>> = []): OcfManifest {
+  return buildManifest({
+    stockClasses: [
+      common,
+      preferred('series-a', '2.00', {
+        liquidation_preference_multiple: '1',
+        conversion_rights: [
+          {
+            type: 'STOCK_CLASS_CONVERSION_RIGHT',
+            conversion_mechanism: { type: 'RATIO_CONVERSION', ratio: { numerator: '1', denominator: '1' } },
+            converts_to_stock_class_id: 'common',
+          },
+        ],
+      }),
+    ],
+    transactions: [
+      stock('cs-1', 'founder', 'common', '1000000'),
+      stock('pa-1', 'investor', 'series-a', '500000'),
+      {
+        object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+        id: 'tx-opt-1',
+        date: '2024-02-01',
+        security_id: 'opt-1',
+        stakeholder_id: 'employee',
+        stock_class_id: 'common',
+        compensation_type: 'OPTION_ISO',
+        quantity: '100000',
+        exercise_price: usd('0.50'),
+      },
+      ...transactions,
+    ],
+  });
+}
+
+const classTotals = (waterfall: ReturnType<typeof computeLiquidationWaterfall>) =>
+  Object.fromEntries(waterfall.classes.map((payout) => [payout.stockClassId, payout.total]));
+
+describe('computeLiquidationWaterfall', () => {
+  it('pays the preference first when the exit is below it', () => {
+    const waterfall = computeLiquidationWaterfall(seriesAManifest(), '500000');
+
+    expect(classTotals(waterfall)).toEqual({ common: '0', 'series-a': '500000' });
+    expect(waterfall.classes[1]).toMatchObject({ converted: false, preference: '500000', participatingShares: '0' });
+    expect(waterfall.securities.find((security) => security.securityId === 'opt-1')).toMatchObject({
+      exercised: false,
+      payout: '0',
+    });
+  });
+
+  it('shares the remainder with exercised options while the preference beats converting', () => {
+    const waterfall = computeLiquidationWaterfall(seriesAManifest(), '2000000');
+
+    expect(waterfall.exerciseProceeds).toBe('50000');
+    expect(waterfall.commonPricePerShare).toBe('0.9545454545');
+    expect(waterfall.classes[0]).toMatchObject({ shares: '1100000', participatingShares: '1100000' });
+    expect(waterfall.classes[1]).toMatchObject({ converted: false, total: '1000000' });
+    expect(waterfall.stakeholders).toEqual([
+      { stakeholderId: 'founder', payout: '954545.4545' },
+      { stakeholderId: 'investor', payout: '1000000' },
+      { stakeholderId: 'employee', payout: '45454.54545' },
+    ]);
+  });
+
+  it('converts preferred to common when that pays more', () => {
+    const waterfall = computeLiquidationWaterfall(seriesAManifest(), '10000000');
+
+    expect(waterfall.classes[1]).toMatchObject({
+      converted: true,
+      preference: '0',
+      participation: '3140625',
+      perShare: '6.28125',
+    });
+    expect(waterfall.commonPricePerShare).toBe('6.28125');
+    expect(waterfall.securities.map((security) => [security.securityId, security.payout])).toEqual([
+      ['cs-1', '6281250'],
+      ['pa-1', '3140625'],
+      ['opt-1', '578125'],
+    ]);
+  });
+
+  it('caps participating preferred and compares the cap with converting', () => {
+    const manifest = (capMultiple: string) =>
+      buildManifest({
+        stockClasses: [common, preferred('series-a', '1.00', { participation_cap_multiple: capMultiple })],
+        transactions: [stock('cs-1', 'founder', 'common', '1000000'), stock('pa-1', 'investor', 'series-a', '1000000')],
+      });
+
+    const capped = computeLiquidationWaterfall(manifest('2'), '3500000');
+    expect(capped.classes[1]).toMatchObject({ converted: false, preference: '1000000', participation: '1000000' });
+    expect(capped.classes[0].total).toBe('1500000');
+
+    expect(computeLiquidationWaterfall(manifest('2'), '5000000').classes[1]).toMatchObject({
+      converted: true,
+      total: '2500000',
+    });
+  });
+
+  it('treats a zero participation cap as non-participating', () => {
+    const manifest = (fields: Record<string, unknown>) =>
+      buildManifest({
+        stockClasses: [common, preferred('series-a', '1.00', fields)],
+        transactions: [stock('cs-1', 'founder', 'common', '1000000'), stock('pa-1', 'investor', 'series-a', '1000000')],
+      });
+
+    const waterfall = computeLiquidationWaterfall(manifest({ participation_cap_multiple: '0' }), '3500000');
+
+    expect(waterfall.classes[1]).toMatchObject({ converted: true, total: '1750000' });
+    expect(waterfall).toEqual(computeLiquidationWaterfall(manifest({}), '3500000'));
+  });
+
+  it('pays senior classes first and equal seniority pro rata', () => {
+    const waterfall = computeLiquidationWaterfall(
+      buildManifest({
+        stockClasses: [
+          common,
+          preferred('seed', '1.00'),
+          preferred('series-a', '2.00'),
+          preferred('series-b', '4.00', { seniority: '2', liquidation_preference_multiple: '1.5' }),
+        ],
+        transactions: [
+          stock('cs-1', 'founder', 'common', '1000000'),
+          stock('seed-1', 'angel', 'seed', '1000000'),
+          stock('pa-1', 'fund-a', 'series-a', '1000000'),
+          stock('pb-1', 'fund-b', 'series-b', '500000'),
+        ],
+      }),
+      '4500000'
+    );
+
+    expect(classTotals(waterfall)).toEqual({
+      common: '0',
+      seed: '500000',
+      'series-a': '1000000',
+      'series-b': '3000000',
+    });
+  });
+
+  it('uses split-adjusted exercise prices and conversion ratios', () => {
+    const waterfall = computeLiquidationWaterfall(
+      seriesAManifest([
+        {
+          object_type: 'TX_STOCK_CLASS_SPLIT',
+          id: 'tx-split',
+          date: '2024-06-01',
+          stock_class_id: 'common',
+          split_ratio: { numerator: '2', denominator: '1' },
+        },
+      ]),
+      '10000000'
+    );
+
+    expect(waterfall.securities.find((security) => security.securityId === 'opt-1')).toMatchObject({
+      quantity: '200000',
+      exercisePrice: '0.25',
+    });
+    expect(waterfall.exerciseProceeds).toBe('50000');
+    expect(waterfall.classes[1]).toMatchObject({ converted: true, participatingShares: '1000000' });
+  });
+
+  it('exercises every grant at an in-the-money strike and none above it', () => {
+    const option = (securityId: string, strike: string) => ({
+      object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+      id: `tx-${securityId}`,
+      date: '2024-03-01',
+      security_id: securityId,
+      stakeholder_id: 'employee',
+      stock_class_id: 'common',
+      compensation_type: 'OPTION_NSO',
+      quantity: '10000',
+      exercise_price: usd(strike),
+    });
+    const waterfall = computeLiquidationWaterfall(
+      seriesAManifest([option('opt-2', '0.50'), option('opt-3', '0.90'), option('opt-4', '5.00')]),
+      '2000000'
+    );
+
+    expect(
+      Object.fromEntries(waterfall.securities.map((security) => [security.securityId, security.exercised]))
+    ).toMatchObject({ 'opt-1': true, 'opt-2': true, 'opt-3': true, 'opt-4': false });
+    expect(waterfall.exerciseProceeds).toBe('64000');
+  });
+
+  it('resolves option classes through their stock plan and reports securities of unknown classes', () => {
+    const manifest = seriesAManifest([
+      equityCompensationIssuance('opt-plan', '100000', {
+        stakeholder_id: 'employee',
+        stock_plan_id: 'plan',
+        exercise_price: usd('0.50'),
+      }),
+      equityCompensationIssuance('opt-orphan', '50000', { stakeholder_id: 'employee', exercise_price: usd('0.50') }),
+      stock('cs-orphan', 'founder', 'series-z', '10000'),
+    ]);
+    const waterfall = computeLiquidationWaterfall(
+      {
+        ...manifest,
+        stockPlans: [{ id: 'plan', plan_name: 'Plan', initial_shares_reserved: '100000', stock_class_ids: ['common'] }],
+      },
+      '2000000'
+    );
+
+    expect(waterfall.securities.find((security) => security.securityId === 'opt-plan')).toMatchObject({
+      stockClassId: 'common',
+      exercised: true,
+    });
+    expect(waterfall.skipped).toEqual([
+      { securityId: 'cs-orphan', stakeholderId: 'founder', reason: "Stock class 'series-z' is not in the manifest" },
+      {
+        securityId: 'opt-orphan',
+        stakeholderId: 'employee',
+        reason: 'No stock class, directly or through a stock plan',
+      },
+    ]);
+    const paid = waterfall.securities.reduce((total, security) => total + Number(security.payout), 0);
+    expect(paid + Number(waterfall.unallocated)).toBeCloseTo(2000000, 4);
+  });
+
+  it('rejects a negative exit value', () => {
+    expect(() => computeLiquidationWaterfall(seriesAManifest(), '-1')).toThrow(OcpValidationError);
+  });
+});
+
+describe('computeExitScenarios', () => {
+  it('runs the waterfall across evenly spaced exit values', () => {
+    const scenarios = computeExitScenarios(seriesAManifest(), { from: '0', to: '10000000', points: 5 });
+
+    expect(scenarios.map((scenario) => scenario.exitValue)).toEqual(['0', '2500000', '5000000', '7500000', '10000000']);
+    expect(scenarios[0].classes.every((payout) => payout.total === '0')).toBe(true);
+    expect(scenarios[4].classes[1].converted).toBe(true);
+  });
+
+  it('rejects an invalid range', () => {
+    expect(() => computeExitScenarios(seriesAManifest(), { from: '10', to: '0', points: 3 })).toThrow(
+      OcpValidationError
+    );
+    expect(() => computeExitScenarios(seriesAManifest(), { from: '0', to: '10', points: 1 })).toThrow('at least 2');
+  });
+});
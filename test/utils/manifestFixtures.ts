@@ -0,0 +1,60 @@
+/**
+ * Builders for in-memory OCF manifests and transactions shared by the cap table analytics tests.
+ *
+ * Each builder fills in the fields every test needs and takes the rest as overrides, so a test only spells out the
+ * fields it is about.
+ */
+
+import type { OcfManifest } from '../../src/utils/cantonOcfExtractor';
+
+type OcfRecord = Record<string, unknown>;
+
+/** Monetary amount in US dollars. */
+export function usd(amount: string): { amount: string; currency: string } {
+  return { amount, currency: 'USD' };
+}
+
+/**
+ * Build a manifest whose sections are empty unless given.
+ *
+ * @example
+ * ```typescript
+ * const manifest = buildManifest({ stockClasses: [common], transactions: [stockIssuance('cs-1', { quantity: '100' })] });
+ * ```
+ */
+export function buildManifest(sections: Partial<OcfManifest> = {}): OcfManifest {
+  return {
+    issuer: null,
+    stakeholders: [],
+    stockClasses: [],
+    stockPlans: [],
+    vestingTerms: [],
+    valuations: [],
+    documents: [],
+    financings: [],
+    stockLegendTemplates: [],
+    transactions: [],
+    ...sections,
+  };
+}
+
+/**
+ * Build a transaction on one security, with its ID derived from the security ID (`tx-<securityId>`).
+ *
+ * @param objectType - OCF transaction object type, e.g. `TX_STOCK_CANCELLATION`
+ * @param securityId - Security the transaction applies to
+ * @param fields - Remaining fields, which may override the defaults
+ */
+export function securityTransaction(objectType: string, securityId: string, fields: OcfRecord = {}): OcfRecord {
+  return { object_type: objectType, id: `tx-${securityId}`, date: '2024-01-01', security_id: securityId, ...fields };
+}
+
+/** Build a stock issuance of `quantity` shares; see {@link securityTransaction}. */
+export function stockIssuance(securityId: string, quantity: string, fields: OcfRecord = {}): OcfRecord {
+  return securityTransaction('TX_STOCK_ISSUANCE', securityId, { quantity, ...fields });
+}
+
+/** Build an equity compensation issuance of `quantity` units; see {@link securityTransaction}. */
+export function equityCompensationIssuance(securityId: string, quantity: string, fields: OcfRecord = {}): OcfRecord {
+  return securityTransaction('TX_EQUITY_COMPENSATION_ISSUANCE', securityId, { quantity, ...fields });
+}
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for OCF file bundle export and import.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OcpParseError, OcpValidationError } from '../../src/errors';
+import type { OcfManifest } from '../../src/utils/cantonOcfExtractor';
+import {
+  createOcfBundleZipStream,
+  exportOcfBundle,
+  importOcfBundle,
+  parseOcfBundle,
+  writeOcfBundle,
+  type OcfBundle,
+} from '../../src/utils/ocfBundle';
+import { resolveOcfSchemaDir } from '../../src/utils/ocfZodSchemas';
+import { buildManifest } from './manifestFixtures';
+import { loadProductionFixture, stripSourceMetadata } from './productionFixtures';
+
+const schemaAvailabilityError = (() => {
+  try {
+    resolveOcfSchemaDir();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+})();
+
+function load(type: string, variant?: string): Record<string, unknown> {
+  return stripSourceMetadata(loadProductionFixture<Record<string, unknown>>(type, variant));
+}
+
+function bundleManifest(overrides: Partial<OcfManifest> = {}): OcfManifest {
+  return buildManifest({
+    issuer: load('issuer', 'basic'),
+    stakeholders: [load('stakeholder', 'individual')],
+    stockClasses: [load('stockClass', 'common')],
+    ...overrides,
+  });
+}
+
+function toContents(bundle: OcfBundle, prefix = ''): Map<string, string> {
+  return new Map(bundle.files.map((file) => [`${prefix}${file.filepath}`, file.content]));
+}
+
+describe('exportOcfBundle', () => {
+  beforeAll(() => {
+    if (schemaAvailabilityError) {
+      throw schemaAvailabilityError;
+    }
+  });
+
+  it('builds a manifest file listing one schema-valid file per non-empty section', () => {
+    const bundle = exportOcfBundle(bundleManifest(), {
+      generatedAt: '2024-12-31T12:00:00.000Z',
+      comments: ['Exported from Canton'],
+    });
+
+    expect(bundle.files.map((file) => [file.filepath, file.fileType])).toEqual([
+      ['Manifest.ocf.json', 'OCF_MANIFEST_FILE'],
+      ['StockClasses.ocf.json', 'OCF_STOCK_CLASSES_FILE'],
+      ['Stakeholders.ocf.json', 'OCF_STAKEHOLDERS_FILE'],
+    ]);
+    const manifestFile = JSON.parse(bundle.files[0].content) as Record<string, unknown>;
+    expect(manifestFile).toMatchObject({
+      ocf_version: '1.2.0',
+      file_type: 'OCF_MANIFEST_FILE',
+      as_of_date: '2024-12-31',
+      generated_at: '2024-12-31T12:00:00.000Z',
+      comments: ['Exported from Canton'],
+      transactions_files: [],
+      stakeholders_files: [{ filepath: 'Stakeholders.ocf.json', md5: bundle.files[2].md5 }],
+    });
+    expect(bundle.files[2].md5).toBe(createHash('md5').update(bundle.files[2].content).digest('hex'));
+    expect(JSON.parse(bundle.files[2].content)).toEqual({
+      ocf_version: '1.2.0',
+      file_type: 'OCF_STAKEHOLDERS_FILE',
+      items: [load('stakeholder', 'individual')],
+    });
+  });
+
+  it('rejects manifests without an issuer or with objects that do not match the schemas', () => {
+    expect(() => exportOcfBundle(bundleManifest({ issuer: null }))).toThrow(OcpValidationError);
+
+    const { name: _name, ...nameless } = load('stakeholder', 'individual');
+    expect(() => exportOcfBundle(bundleManifest({ stakeholders: [nameless] }))).toThrow(
+      expect.objectContaining({ fieldPath: 'Stakeholders.ocf.json.items.0.name', code: 'INVALID_FORMAT' })
+    );
+  });
+
+  it('writes the bundle to a directory and streams it as a zip', async () => {
+    const bundle = exportOcfBundle(bundleManifest());
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ocf-bundle-'));
+    try {
+      const written = await writeOcfBundle(bundle, path.join(directory, 'acme'));
+
+      expect(written.map((file) => path.basename(file))).toEqual(bundle.files.map((file) => file.filepath));
+      expect(fs.readFileSync(written[1], 'utf8')).toBe(bundle.files[1].content);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of createOcfBundleZipStream(bundle)) chunks.push(chunk as Buffer);
+    const zip = Buffer.concat(chunks);
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    expect(zip.includes(Buffer.from('Manifest.ocf.json'))).toBe(true);
+  });
+});
+
+describe('importOcfBundle', () => {
+  beforeAll(() => {
+    if (schemaAvailabilityError) {
+      throw schemaAvailabilityError;
+    }
+  });
+
+  const planSecurityGrant = {
+    ...load('equityCompensationIssuance', 'option-iso'),
+    object_type: 'TX_PLAN_SECURITY_ISSUANCE',
+  };
+
+  it('reads a zipped bundle into replication items with plan security aliases normalized', async () => {
+    const chunks: Buffer[] = [];
+    const bundle = exportOcfBundle(bundleManifest({ transactions: [planSecurityGrant] }));
+    for await (const chunk of createOcfBundleZipStream(bundle)) chunks.push(chunk as Buffer);
+
+    const items = await importOcfBundle(Buffer.concat(chunks));
+
+    expect(items.map((item) => item.entityType)).toEqual([
+      'issuer',
+      'stakeholder',
+      'stockClass',
+      'equityCompensationIssuance',
+    ]);
+    expect(items[1].data).toEqual(load('stakeholder', 'individual'));
+    expect(items[3].data).toMatchObject({ object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE' });
+  });
+
+  it('resolves files relative to the manifest file and reads directories', async () => {
+    const bundle = exportOcfBundle(bundleManifest());
+    expect(parseOcfBundle(toContents(bundle, 'acme/'))).toHaveLength(3);
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ocf-bundle-'));
+    try {
+      await writeOcfBundle(bundle, directory);
+      expect(await importOcfBundle(directory)).toEqual(parseOcfBundle(toContents(bundle)));
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('ignores stray malformed JSON files and reports malformed listed files', () => {
+    const contents = toContents(exportOcfBundle(bundleManifest()));
+    contents.set('notes.json', '{ "draft": ');
+    expect(parseOcfBundle(contents)).toHaveLength(3);
+
+    const manifestFile = JSON.parse(contents.get('Manifest.ocf.json') ?? '{}') as Record<string, unknown>;
+    contents.set(
+      'Manifest.ocf.json',
+      JSON.stringify({ ...manifestFile, stakeholders_files: [{ filepath: 'Stakeholders.ocf.json' }] })
+    );
+    contents.set('Stakeholders.ocf.json', '{ "items": ');
+    expect(() => parseOcfBundle(contents)).toThrow(
+      expect.objectContaining({ source: 'Stakeholders.ocf.json', code: 'INVALID_FORMAT' })
+    );
+    expect(() => parseOcfBundle(contents)).toThrow(/^Stakeholders\.ocf\.json: Invalid JSON/);
+  });
+
+  it('reports the file name and JSON path of invalid objects', () => {
+    const contents = toContents(exportOcfBundle(bundleManifest()));
+    const { name: _name, ...nameless } = load('stakeholder', 'individual');
+    contents.set(
+      'Stakeholders.ocf.json',
+      JSON.stringify({ ocf_version: '1.2.0', file_type: 'OCF_STAKEHOLDERS_FILE', items: [nameless] })
+    );
+
+    expect(() => parseOcfBundle(contents)).toThrow(OcpParseError);
+    expect(() => parseOcfBundle(contents)).toThrow(
+      expect.objectContaining({ source: 'Stakeholders.ocf.json', code: 'INVALID_FORMAT' })
+    );
+    expect(() => parseOcfBundle(contents)).toThrow(/^Stakeholders\.ocf\.json: MD5 /);
+
+    const manifestFile = JSON.parse(contents.get('Manifest.ocf.json') ?? '{}') as Record<string, unknown>;
+    contents.set(
+      'Manifest.ocf.json',
+      JSON.stringify({ ...manifestFile, stakeholders_files: [{ filepath: 'Stakeholders.ocf.json' }] })
+    );
+    expect(() => parseOcfBundle(contents)).toThrow(
+      expect.objectContaining({ context: expect.objectContaining({ jsonPath: '$.items[0].name' }) })
+    );
+  });
+});
@@ -1,6 +1,14 @@
 /** Tests for OCF comparison utilities */
 
-import { diffOcfObjects, ocfCompare, ocfDeepEqual } from '../../src/utils/ocfComparison';
+import {
+  createOcfJsonPatch,
+  DEFAULT_DEPRECATED_FIELDS,
+  DEFAULT_INTERNAL_FIELDS,
+  diffOcfObjects,
+  ocfCompare,
+  ocfDeepEqual,
+} from '../../src/utils/ocfComparison';
+import { applyJsonPatch } from '../../src/utils/ocfJsonPatch';
 
 describe('ocfDeepEqual', () => {
   test('returns true for identical objects', () => {
@@ -222,3 +230,84 @@ describe('diffOcfObjects', () => {
     expect(diffs).toHaveLength(0);
   });
 });
+
+describe('createOcfJsonPatch', () => {
+  test('returns no operations for semantically equal objects', () => {
+    const a = {
+      amount: 22500,
+      date: '2024-08-14T00:00:00.000Z',
+      comments: [],
+      vesting_conditions: [{ portion: { numerator: '1', denominator: '4' } }],
+    };
+    const b = {
+      amount: '22500.00',
+      date: '2024-08-14',
+      vesting_conditions: [{ portion: { numerator: '1', denominator: '4', remainder: false } }],
+    };
+    expect(createOcfJsonPatch(a, b)).toEqual([]);
+  });
+
+  test('adds, replaces and removes members with escaped pointers', () => {
+    const a = { id: 'sh-1', name: { legal_name: 'Jane' }, comments: ['old'], 'a/b~c': '1', tax_ids: null };
+    const b = {
+      id: 'sh-1',
+      name: { legal_name: 'Jane Doe' },
+      comments: [],
+      'a/b~c': '2',
+      tax_ids: [{ tax_id: '1' }],
+      email: 'j@x.test',
+    };
+
+    const patch = createOcfJsonPatch(a, b);
+
+    expect(patch).toEqual([
+      { op: 'replace', path: '/name/legal_name', value: 'Jane Doe' },
+      { op: 'replace', path: '/comments', value: [] },
+      { op: 'replace', path: '/a~1b~0c', value: '2' },
+      { op: 'replace', path: '/tax_ids', value: [{ tax_id: '1' }] },
+      { op: 'add', path: '/email', value: 'j@x.test' },
+    ]);
+    expect(ocfDeepEqual(applyJsonPatch(a, patch), b)).toBe(true);
+  });
+
+  test('replaces fields the target empties and removes fields it leaves out', () => {
+    const a = { stock_legend_ids: ['l1'], comments: ['old'], board_approval_date: '2024-01-01' };
+    const b = { stock_legend_ids: [], comments: undefined, name: {} };
+
+    const patch = createOcfJsonPatch({ ...a, name: { legal_name: 'Jane' } }, b);
+
+    expect(patch).toEqual([
+      { op: 'replace', path: '/stock_legend_ids', value: [] },
+      { op: 'remove', path: '/comments' },
+      { op: 'remove', path: '/board_approval_date' },
+      { op: 'replace', path: '/name', value: {} },
+    ]);
+    expect(applyJsonPatch({ ...a, name: { legal_name: 'Jane' } }, patch)).toEqual({ stock_legend_ids: [], name: {} });
+  });
+
+  test('writes array holes in the target as null', () => {
+    const patch = createOcfJsonPatch({ ids: ['a', 'b'] }, { ids: ['a', undefined] });
+
+    expect(patch).toEqual([{ op: 'replace', path: '/ids/1', value: null }]);
+    expect(patch.every((operation) => !('value' in operation) || operation.value !== undefined)).toBe(true);
+  });
+
+  test('patches arrays element by element and replaces arrays whose length changes', () => {
+    const a = { relationships: ['EMPLOYEE', 'ADVISOR'], ids: ['a'] };
+    const b = { relationships: ['EMPLOYEE', 'FOUNDER'], ids: ['a', 'b'] };
+
+    expect(createOcfJsonPatch(a, b)).toEqual([
+      { op: 'replace', path: '/relationships/1', value: 'FOUNDER' },
+      { op: 'replace', path: '/ids', value: ['a', 'b'] },
+    ]);
+  });
+
+  test('leaves internal and deprecated fields alone', () => {
+    const a = { id: 'sp-1', _id: 'x', stock_class_id: 'common', plan_name: 'Plan' };
+    const b = { id: 'sp-1', stock_class_ids: ['common'], plan_name: 'Plan' };
+
+    expect(
+      createOcfJsonPatch(a, b, { ignoredFields: DEFAULT_INTERNAL_FIELDS, deprecatedFields: DEFAULT_DEPRECATED_FIELDS })
+    ).toEqual([{ op: 'add', path: '/stock_class_ids', value: ['common'] }]);
+  });
+});
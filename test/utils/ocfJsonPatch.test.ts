@@ -0,0 +1,178 @@
+/**
+ * Unit tests for applying RFC 6902 JSON Patches to OCF objects.
+ */
+
+import { OcpValidationError } from '../../src/errors';
+import type { CapTableState } from '../../src/functions/OpenCapTable/capTable/getCapTableState';
+import type { OcfStakeholder } from '../../src/types/native';
+import type { JsonPatchOperation } from '../../src/utils/ocfComparison';
+import { applyJsonPatch, applyOcfJsonPatch, createReplicationEditPatches } from '../../src/utils/ocfJsonPatch';
+import { resolveOcfSchemaDir } from '../../src/utils/ocfZodSchemas';
+import { computeReplicationDiff, type CantonOcfDataMap } from '../../src/utils/replicationHelpers';
+import { loadProductionFixture, stripSourceMetadata } from './productionFixtures';
+
+const schemaAvailabilityError = (() => {
+  try {
+    resolveOcfSchemaDir();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+})();
+
+describe('applyJsonPatch', () => {
+  it('applies every RFC 6902 operation in order without modifying the input', () => {
+    const document = { id: 'sh-1', relationships: ['EMPLOYEE'], name: { legal_name: 'Jane' } };
+    const patch: JsonPatchOperation[] = [
+      { op: 'test', path: '/name', value: { legal_name: 'Jane' } },
+      { op: 'add', path: '/relationships/0', value: 'FOUNDER' },
+      { op: 'add', path: '/relationships/-', value: 'ADVISOR' },
+      { op: 'replace', path: '/name/legal_name', value: 'Jane Doe' },
+      { op: 'copy', from: '/name', path: '/previous_name' },
+      { op: 'move', from: '/previous_name/legal_name', path: '/comment' },
+      { op: 'remove', path: '/relationships/1' },
+    ];
+
+    expect(applyJsonPatch(document, patch)).toEqual({
+      id: 'sh-1',
+      relationships: ['FOUNDER', 'ADVISOR'],
+      name: { legal_name: 'Jane Doe' },
+      previous_name: {},
+      comment: 'Jane Doe',
+    });
+    expect(document).toEqual({ id: 'sh-1', relationships: ['EMPLOYEE'], name: { legal_name: 'Jane' } });
+  });
+
+  it('names the failing operation', () => {
+    const document = { id: 'sh-1', relationships: ['EMPLOYEE'] };
+
+    expect(() =>
+      applyJsonPatch(document, [
+        { op: 'remove', path: '/id' },
+        { op: 'remove', path: '/name' },
+      ])
+    ).toThrow(expect.objectContaining({ fieldPath: 'patch[1]', code: 'INVALID_FORMAT' }));
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: '/relationships/2', value: 'X' }])).toThrow(
+      expect.objectContaining({ fieldPath: 'patch[0]', code: 'OUT_OF_RANGE' })
+    );
+    expect(() => applyJsonPatch(document, [{ op: 'test', path: '/id', value: 'sh-2' }])).toThrow(/Test failed/);
+    expect(() => applyJsonPatch(document, [{ op: 'replace', path: 'id', value: 'sh-2' }])).toThrow(OcpValidationError);
+  });
+});
+
+describe('applyOcfJsonPatch', () => {
+  beforeAll(() => {
+    if (schemaAvailabilityError) {
+      throw schemaAvailabilityError;
+    }
+  });
+
+  const stakeholder = stripSourceMetadata(
+    loadProductionFixture<Record<string, unknown>>('stakeholder', 'individual')
+  ) as unknown as OcfStakeholder;
+
+  it('returns the patched object once it passes validation', () => {
+    const patched = applyOcfJsonPatch('stakeholder', stakeholder, [
+      { op: 'replace', path: '/name/legal_name', value: 'Jane Q. Doe' },
+    ]);
+
+    expect(patched.name.legal_name).toBe('Jane Q. Doe');
+    expect(stakeholder.name.legal_name).not.toBe('Jane Q. Doe');
+  });
+
+  it('rejects patches that leave an invalid object', () => {
+    expect(() => applyOcfJsonPatch('stakeholder', stakeholder, [{ op: 'remove', path: '/name' }])).toThrow(
+      OcpValidationError
+    );
+  });
+});
+
+describe('createReplicationEditPatches', () => {
+  const cantonState: CapTableState = {
+    capTableContractId: 'captable::test',
+    issuerContractId: 'issuer::test',
+    entities: new Map([['stakeholder', new Set(['sh-1', 'sh-2'])]]),
+    contractIds: new Map(),
+    securityIds: new Map(),
+  };
+
+  it('builds the patch from the Canton data to the source data of each edit', () => {
+    const cantonStakeholder = {
+      object_type: 'STAKEHOLDER',
+      id: 'sh-1',
+      name: { legal_name: 'Jane' },
+      stakeholder_type: 'INDIVIDUAL',
+      current_relationships: ['EMPLOYEE'],
+    };
+    const sourceStakeholder = {
+      ...cantonStakeholder,
+      _id: 'db-1',
+      name: { legal_name: 'Jane Doe' },
+      current_relationship: 'EMPLOYEE',
+      current_relationships: undefined,
+    };
+    const unchanged = {
+      object_type: 'STAKEHOLDER',
+      id: 'sh-2',
+      name: { legal_name: 'Sam' },
+      stakeholder_type: 'INSTITUTION',
+    };
+    const cantonOcfData: CantonOcfDataMap = new Map([
+      [
+        'stakeholder',
+        new Map([
+          ['sh-1', cantonStakeholder],
+          ['sh-2', unchanged],
+        ]),
+      ],
+    ]);
+    const diff = computeReplicationDiff(
+      [
+        { entityType: 'stakeholder', data: sourceStakeholder },
+        { entityType: 'stakeholder', data: { ...unchanged } },
+      ],
+      cantonState,
+      { cantonOcfData }
+    );
+
+    const patches = createReplicationEditPatches(diff, cantonOcfData);
+
+    expect(patches).toEqual([
+      {
+        id: 'sh-1',
+        entityType: 'stakeholder',
+        patch: [{ op: 'replace', path: '/name/legal_name', value: 'Jane Doe' }],
+      },
+    ]);
+    expect(applyJsonPatch(cantonStakeholder, patches[0].patch)).toEqual({
+      ...cantonStakeholder,
+      name: { legal_name: 'Jane Doe' },
+    });
+    expect(() => createReplicationEditPatches(diff, new Map())).toThrow(/Missing Canton OCF data/);
+    expect(() => createReplicationEditPatches(diff, new Map())).toThrow(
+      expect.objectContaining({ fieldPath: 'cantonOcfData.stakeholder', code: 'REQUIRED_FIELD_MISSING' })
+    );
+  });
+
+  it('builds patches that apply to Canton data stored in a legacy shape', () => {
+    const cantonPlan = {
+      object_type: 'STOCK_PLAN',
+      id: 'plan',
+      plan_name: 'Plan',
+      initial_shares_reserved: '1000',
+      stock_class_id: 'common',
+    };
+    const sourcePlan = { ...cantonPlan, stock_class_id: undefined, stock_class_ids: ['common', 'preferred'] };
+    const cantonOcfData: CantonOcfDataMap = new Map([['stockPlan', new Map([['plan', cantonPlan]])]]);
+    const diff = computeReplicationDiff(
+      [{ entityType: 'stockPlan', data: sourcePlan }],
+      { ...cantonState, entities: new Map([['stockPlan', new Set(['plan'])]]) },
+      { cantonOcfData }
+    );
+
+    const [{ patch }] = createReplicationEditPatches(diff, cantonOcfData);
+
+    expect(patch).toEqual([{ op: 'add', path: '/stock_class_ids', value: ['common', 'preferred'] }]);
+    expect(applyJsonPatch(cantonPlan, patch)).toEqual({ ...cantonPlan, stock_class_ids: ['common', 'preferred'] });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Unit tests for OCF schema version migrations.
+ */
+
+import { OcpValidationError } from '../../src/errors';
+import {
+  CURRENT_OCF_VERSION,
+  DEFAULT_OCF_MIGRATIONS,
+  migrateOcfObjects,
+  OcfMigrationRegistry,
+  type OcfMigrationStep,
+  type OcfVersion,
+} from '../../src/utils/ocfMigrations';
+
+interface StepCase {
+  step: string;
+  legacy: Record<string, unknown>;
+  current: Record<string, unknown>;
+}
+
+const STEP_CASES: StepCase[] = [
+  {
+    step: 'stakeholder-current-relationships',
+    legacy: { object_type: 'STAKEHOLDER', id: 'jane', current_relationship: 'EMPLOYEE' },
+    current: { object_type: 'STAKEHOLDER', id: 'jane', current_relationships: ['EMPLOYEE'] },
+  },
+  {
+    step: 'stock-plan-stock-class-ids',
+    legacy: { object_type: 'STOCK_PLAN', id: 'plan', stock_class_id: 'common' },
+    current: { object_type: 'STOCK_PLAN', id: 'plan', stock_class_ids: ['common'] },
+  },
+  {
+    step: 'equity-compensation-option-grant-type',
+    legacy: { object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE', id: 'grant', option_grant_type: 'NSO' },
+    current: { object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE', id: 'grant', compensation_type: 'OPTION_NSO' },
+  },
+  {
+    step: 'stock-consolidation-resulting-security-id',
+    legacy: { object_type: 'TX_STOCK_CONSOLIDATION', id: 'merge', resulting_security_ids: ['cs-3'] },
+    current: { object_type: 'TX_STOCK_CONSOLIDATION', id: 'merge', resulting_security_id: 'cs-3' },
+  },
+  {
+    step: 'stock-conversion-quantity-converted',
+    legacy: { object_type: 'TX_STOCK_CONVERSION', id: 'convert', quantity: '100' },
+    current: { object_type: 'TX_STOCK_CONVERSION', id: 'convert', quantity_converted: '100' },
+  },
+  {
+    step: 'stock-class-split-ratio',
+    legacy: {
+      object_type: 'TX_STOCK_CLASS_SPLIT',
+      id: 'split',
+      split_ratio_numerator: '2',
+      split_ratio_denominator: '1',
+    },
+    current: { object_type: 'TX_STOCK_CLASS_SPLIT', id: 'split', split_ratio: { numerator: '2', denominator: '1' } },
+  },
+];
+
+/** Every version before the current one. */
+const OLDER_VERSIONS = ['1.0.0', '1.1.0'] as const;
+
+describe('DEFAULT_OCF_MIGRATIONS', () => {
+  it('registers one step per case below, all leading to the current version', () => {
+    expect(DEFAULT_OCF_MIGRATIONS.map((step) => step.name)).toEqual(STEP_CASES.map(({ step }) => step));
+    expect(new OcfMigrationRegistry(DEFAULT_OCF_MIGRATIONS).steps).toEqual(DEFAULT_OCF_MIGRATIONS);
+    expect(DEFAULT_OCF_MIGRATIONS.map((step) => [step.from, step.to])).toEqual(
+      STEP_CASES.map(() => ['1.1.0', CURRENT_OCF_VERSION])
+    );
+  });
+
+  it.each(STEP_CASES)('$step upgrades objects of every older version', ({ step, legacy, current }) => {
+    for (const from of OLDER_VERSIONS) {
+      const { objects, report } = migrateOcfObjects([legacy], { from });
+
+      expect(objects).toEqual([current]);
+      expect(report.changedCount).toBe(1);
+      expect(report.objects[0].changes).toEqual([expect.objectContaining({ step, to: CURRENT_OCF_VERSION })]);
+    }
+  });
+
+  it.each(STEP_CASES)('$step downgrades to the previous version', ({ step, legacy, current }) => {
+    const { objects, report } = migrateOcfObjects([current], { from: CURRENT_OCF_VERSION, to: '1.1.0' });
+
+    // The option grant downgrade adds option_grant_type next to compensation_type
+    expect(objects).toEqual([step === 'equity-compensation-option-grant-type' ? { ...current, ...legacy } : legacy]);
+    expect(report.objects[0].changes).toEqual([expect.objectContaining({ step })]);
+  });
+});
+
+describe('migrateOcfObjects', () => {
+  it('runs every step to the current version and reports the changes per object', () => {
+    const planSecurityGrant = { object_type: 'TX_PLAN_SECURITY_ISSUANCE', id: 'grant', option_grant_type: 'ISO' };
+    const issuer = { object_type: 'ISSUER', id: 'issuer', legal_name: 'Acme Inc.' };
+
+    const legacyObjects = [...STEP_CASES.map(({ legacy }) => legacy), planSecurityGrant, issuer];
+
+    const { objects, report } = migrateOcfObjects(legacyObjects, { from: '1.0.0' });
+
+    expect(objects).toEqual([
+      ...STEP_CASES.map(({ current }) => current),
+      { object_type: 'TX_PLAN_SECURITY_ISSUANCE', id: 'grant', compensation_type: 'OPTION_ISO' },
+      issuer,
+    ]);
+    expect(objects[7]).toBe(issuer);
+    expect(report).toMatchObject({ from: '1.0.0', to: CURRENT_OCF_VERSION, changedCount: 7 });
+    expect(report.objects[6]).toEqual({
+      index: 6,
+      id: 'grant',
+      objectType: 'TX_PLAN_SECURITY_ISSUANCE',
+      changes: [
+        {
+          step: 'equity-compensation-option-grant-type',
+          from: '1.1.0',
+          to: CURRENT_OCF_VERSION,
+          fieldPath: 'compensation_type',
+          message: 'Set compensation_type to OPTION_ISO from option_grant_type',
+        },
+      ],
+    });
+    expect(report.objects[7].changes).toEqual([]);
+  });
+
+  it('upgrades deprecated fields still present on objects of an intermediate version', () => {
+    const stakeholder = { object_type: 'STAKEHOLDER', id: 'jane', current_relationship: 'EMPLOYEE' };
+
+    const { objects, report } = migrateOcfObjects([stakeholder], { from: '1.1.0' });
+
+    expect(objects).toEqual([{ object_type: 'STAKEHOLDER', id: 'jane', current_relationships: ['EMPLOYEE'] }]);
+    expect(report.objects[0].changes).toEqual([
+      expect.objectContaining({ step: 'stakeholder-current-relationships', fieldPath: 'current_relationships' }),
+    ]);
+  });
+
+  it('keeps the first value of lists a downgrade cannot hold and reports what it dropped', () => {
+    const stakeholder = { object_type: 'STAKEHOLDER', id: 'jane', current_relationships: ['EMPLOYEE', 'FOUNDER'] };
+
+    const { objects, report } = migrateOcfObjects([stakeholder], { from: CURRENT_OCF_VERSION, to: '1.0.0' });
+
+    expect(objects).toEqual([{ object_type: 'STAKEHOLDER', id: 'jane', current_relationship: 'EMPLOYEE' }]);
+    expect(report.objects[0].changes.map((change) => change.message)).toEqual([
+      'Moved the first entry of current_relationships into current_relationship; dropped FOUNDER',
+    ]);
+    expect(stakeholder.current_relationships).toEqual(['EMPLOYEE', 'FOUNDER']);
+  });
+
+  it('rejects data a step cannot migrate', () => {
+    const consolidation = { object_type: 'TX_STOCK_CONSOLIDATION', id: 'merge', resulting_security_ids: ['a', 'b'] };
+    const conflictingGrant = {
+      object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+      option_grant_type: 'ISO',
+      compensation_type: 'RSU',
+    };
+
+    expect(() => migrateOcfObjects([consolidation], { from: '1.1.0' })).toThrow(
+      expect.objectContaining({ fieldPath: 'objects[0].resulting_security_ids', code: 'INVALID_FORMAT' })
+    );
+    expect(() => migrateOcfObjects([{}, conflictingGrant], { from: '1.0.0' })).toThrow(
+      expect.objectContaining({ fieldPath: 'objects[1].option_grant_type' })
+    );
+    expect(() => migrateOcfObjects([], { from: '0.9.0' as OcfVersion })).toThrow(OcpValidationError);
+  });
+});
+
+describe('OcfMigrationRegistry', () => {
+  const step: OcfMigrationStep = {
+    name: 'issuer-dba',
+    from: '1.1.0',
+    to: '1.2.0',
+    objectTypes: ['ISSUER'],
+    upgrade: (object) => {
+      if (object.doing_business_as === undefined) return [];
+      object.dba = object.doing_business_as;
+      delete object.doing_business_as;
+      return [{ fieldPath: 'dba', message: 'Renamed doing_business_as to dba' }];
+    },
+    downgrade: () => [],
+  };
+
+  it('runs custom steps alongside the built-in ones', () => {
+    const registry = new OcfMigrationRegistry(DEFAULT_OCF_MIGRATIONS).register(step);
+
+    const { objects, report } = registry.migrate([{ object_type: 'ISSUER', doing_business_as: 'Acme' }], {
+      from: '1.0.0',
+    });
+
+    expect(objects).toEqual([{ object_type: 'ISSUER', dba: 'Acme' }]);
+    expect(report.objects[0].changes).toEqual([expect.objectContaining({ step: 'issuer-dba', fieldPath: 'dba' })]);
+  });
+
+  it('rejects duplicate names and steps that skip a version', () => {
+    const registry = new OcfMigrationRegistry([step]);
+
+    expect(() => registry.register(step)).toThrow(/already registered/);
+    expect(() => registry.register({ ...step, name: 'skip', from: '1.0.0' })).toThrow(
+      expect.objectContaining({ fieldPath: 'migrations.skip', code: 'INVALID_FORMAT' })
+    );
+    expect(registry.steps).toHaveLength(1);
+  });
+});
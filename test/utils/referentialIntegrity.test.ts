@@ -0,0 +1,157 @@
+/**
+ * Unit tests for cross-entity referential integrity checks.
+ */
+
+import type { OcfEntityType } from '../../src/functions/OpenCapTable/capTable/entityTypes';
+import type { OcfManifest } from '../../src/utils/cantonOcfExtractor';
+import {
+  danglingReferenceCode,
+  findPendingDanglingReferences,
+  validateReferentialIntegrity,
+} from '../../src/utils/referentialIntegrity';
+import { buildManifest } from './manifestFixtures';
+
+function linkedManifest(): OcfManifest {
+  return buildManifest({
+    issuer: { object_type: 'ISSUER', id: 'issuer' },
+    stakeholders: [{ object_type: 'STAKEHOLDER', id: 'jane' }],
+    stockClasses: [{ object_type: 'STOCK_CLASS', id: 'common' }],
+    stockPlans: [{ object_type: 'STOCK_PLAN', id: 'plan', stock_class_ids: ['common'] }],
+    vestingTerms: [{ object_type: 'VESTING_TERMS', id: 'four-year' }],
+    valuations: [{ object_type: 'VALUATION', id: 'val', stock_class_id: 'common' }],
+    documents: [
+      {
+        object_type: 'DOCUMENT',
+        id: 'doc',
+        related_objects: [{ object_type: 'TX_STOCK_ISSUANCE', object_id: 'tx-stock' }],
+      },
+    ],
+    stockLegendTemplates: [{ object_type: 'STOCK_LEGEND_TEMPLATE', id: 'legend' }],
+    transactions: [
+      {
+        object_type: 'TX_STOCK_ISSUANCE',
+        id: 'tx-stock',
+        security_id: 'cs-1',
+        stakeholder_id: 'jane',
+        stock_class_id: 'common',
+        stock_legend_ids: ['legend'],
+      },
+      {
+        object_type: 'TX_PLAN_SECURITY_ISSUANCE',
+        id: 'tx-option',
+        security_id: 'opt-1',
+        stakeholder_id: 'jane',
+        stock_plan_id: 'plan',
+        vesting_terms_id: 'four-year',
+      },
+      { object_type: 'TX_STOCK_CANCELLATION', id: 'tx-cancel', security_id: 'cs-1' },
+      { object_type: 'TX_PLAN_SECURITY_EXERCISE', id: 'tx-exercise', security_id: 'opt-1' },
+    ],
+  });
+}
+
+describe('validateReferentialIntegrity', () => {
+  it('accepts a manifest whose references all resolve', () => {
+    expect(validateReferentialIntegrity(linkedManifest())).toEqual({ valid: true, danglingReferences: [] });
+  });
+
+  it('lists every dangling reference with its entity type, id and field path', () => {
+    const manifest = linkedManifest();
+    manifest.stockPlans[0].stock_class_ids = ['common', 'preferred'];
+    manifest.documents[0].related_objects = [{ object_type: 'STAKEHOLDER', object_id: 'john' }];
+    manifest.transactions[0].stock_legend_ids = ['legend', 'missing-legend'];
+    manifest.transactions[1].vesting_terms_id = 'missing-terms';
+    manifest.transactions[2].security_id = 'cs-unknown';
+
+    const report = validateReferentialIntegrity(manifest);
+
+    expect(report.valid).toBe(false);
+    expect(report.danglingReferences).toEqual([
+      {
+        entityType: 'stockPlan',
+        objectType: 'STOCK_PLAN',
+        id: 'plan',
+        fieldPath: 'stock_class_ids[1]',
+        targetType: 'STOCK_CLASS',
+        targetId: 'preferred',
+      },
+      {
+        entityType: 'document',
+        objectType: 'DOCUMENT',
+        id: 'doc',
+        fieldPath: 'related_objects[0].object_id',
+        targetType: 'STAKEHOLDER',
+        targetId: 'john',
+      },
+      {
+        entityType: 'stockIssuance',
+        objectType: 'TX_STOCK_ISSUANCE',
+        id: 'tx-stock',
+        fieldPath: 'stock_legend_ids[1]',
+        targetType: 'STOCK_LEGEND_TEMPLATE',
+        targetId: 'missing-legend',
+      },
+      {
+        entityType: 'equityCompensationIssuance',
+        objectType: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+        id: 'tx-option',
+        fieldPath: 'vesting_terms_id',
+        targetType: 'VESTING_TERMS',
+        targetId: 'missing-terms',
+      },
+      {
+        entityType: 'stockCancellation',
+        objectType: 'TX_STOCK_CANCELLATION',
+        id: 'tx-cancel',
+        fieldPath: 'security_id',
+        targetType: 'SECURITY',
+        targetId: 'cs-unknown',
+      },
+    ]);
+  });
+});
+
+describe('findPendingDanglingReferences', () => {
+  const state = {
+    entities: new Map<OcfEntityType, Set<string>>([
+      ['stakeholder', new Set(['jane', 'john'])],
+      ['stockClass', new Set(['common'])],
+    ]),
+    securityIds: new Map<OcfEntityType, Set<string>>([['stockIssuance', new Set(['cs-1'])]]),
+  };
+
+  it('resolves references against the state and pending creates', () => {
+    expect(
+      findPendingDanglingReferences(state, {
+        creates: [
+          { object_type: 'STOCK_PLAN', id: 'plan', stock_class_ids: ['common'] },
+          { object_type: 'TX_PLAN_SECURITY_ISSUANCE', id: 'tx-option', security_id: 'opt-1', stock_plan_id: 'plan' },
+          { object_type: 'TX_EQUITY_COMPENSATION_EXERCISE', id: 'tx-exercise', security_id: 'opt-1' },
+          { object_type: 'TX_STOCK_TRANSFER', id: 'tx-transfer', security_id: 'cs-1' },
+        ],
+        edits: [],
+        deletes: [],
+      })
+    ).toEqual([]);
+  });
+
+  it('reports references to deleted or unknown objects', () => {
+    const dangling = findPendingDanglingReferences(state, {
+      creates: [{ object_type: 'TX_STOCK_ISSUANCE', id: 'tx-stock', security_id: 'cs-2', stakeholder_id: 'john' }],
+      edits: [{ object_type: 'TX_STOCK_CANCELLATION', id: 'tx-cancel', security_id: 'cs-9' }],
+      deletes: [{ entityType: 'stakeholder', id: 'john' }],
+    });
+
+    expect(dangling.map((ref) => [ref.entityType, ref.id, ref.fieldPath, ref.targetId])).toEqual([
+      ['stockIssuance', 'tx-stock', 'stakeholder_id', 'john'],
+      ['stockCancellation', 'tx-cancel', 'security_id', 'cs-9'],
+    ]);
+  });
+});
+
+describe('danglingReferenceCode', () => {
+  it('codes unknown securities and other unknown objects apart', () => {
+    expect(danglingReferenceCode({ targetType: 'SECURITY' })).toBe('UNKNOWN_SECURITY');
+    expect(danglingReferenceCode({ targetType: 'STOCK_LEGEND_TEMPLATE' })).toBe('UNKNOWN_REFERENCE');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for security lifecycle validation.
+ */
+
+import { OcpErrorCodes } from '../../src/errors/codes';
+import { OcpValidationError } from '../../src/errors/OcpValidationError';
+import { findSecurityLifecycleViolations, validateSecurityLifecycle } from '../../src/utils/securityLifecycle';
+
+const option = {
+  object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+  id: 'tx-option',
+  date: '2024-01-01',
+  security_id: 'opt-1',
+  stakeholder_id: 'jane',
+  compensation_type: 'OPTION_ISO',
+  quantity: '1000',
+};
+
+const stock = {
+  object_type: 'TX_STOCK_ISSUANCE',
+  id: 'tx-stock',
+  date: '2024-01-01',
+  security_id: 'cs-1',
+  stakeholder_id: 'jane',
+  stock_class_id: 'common',
+  quantity: '500',
+};
+
+const tx = (objectType: string, id: string, date: string, securityId: string, extra: Record<string, unknown> = {}) => ({
+  object_type: objectType,
+  id,
+  date,
+  security_id: securityId,
+  ...extra,
+});
+
+describe('validateSecurityLifecycle', () => {
+  it('accepts legal sequences', () => {
+    expect(
+      validateSecurityLifecycle({
+        transactions: [
+          option,
+          stock,
+          tx('TX_STOCK_ACCEPTANCE', 'tx-accept', '2024-01-02', 'cs-1'),
+          tx('TX_EQUITY_COMPENSATION_EXERCISE', 'tx-exercise', '2024-06-01', 'opt-1', { quantity: '1000' }),
+        ],
+      })
+    ).toEqual({ valid: true, violations: [] });
+  });
+
+  it('collects every violation with its code', () => {
+    const report = validateSecurityLifecycle({
+      transactions: [
+        option,
+        stock,
+        tx('TX_EQUITY_COMPENSATION_CANCELLATION', 'tx-cancel', '2024-02-01', 'opt-1', { quantity: '1000' }),
+        tx('TX_EQUITY_COMPENSATION_EXERCISE', 'tx-exercise', '2024-03-01', 'opt-1', { quantity: '1000' }),
+        tx('TX_STOCK_TRANSFER', 'tx-transfer', '2024-03-15', 'cs-1', { quantity: '600' }),
+        tx('TX_STOCK_RETRACTION', 'tx-retract', '2024-04-01', 'cs-1'),
+        tx('TX_STOCK_ACCEPTANCE', 'tx-accept', '2024-05-01', 'cs-1'),
+        tx('TX_WARRANT_EXERCISE', 'tx-warrant', '2024-05-01', 'ghost'),
+      ],
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.violations.map((violation) => [violation.transactionId, violation.code])).toEqual([
+      ['tx-exercise', OcpErrorCodes.INVALID_SECURITY_STATE],
+      ['tx-transfer', OcpErrorCodes.OUT_OF_RANGE],
+      ['tx-accept', OcpErrorCodes.INVALID_SECURITY_STATE],
+      ['tx-warrant', OcpErrorCodes.UNKNOWN_SECURITY],
+    ]);
+    expect(report.violations[0]).toMatchObject({
+      objectType: 'TX_EQUITY_COMPENSATION_EXERCISE',
+      securityId: 'opt-1',
+      fieldPath: 'transactions.tx-exercise.security_id',
+    });
+    expect(report.violations[0].message).toContain("already cancelled by 'tx-cancel'");
+    expect(report.violations[0].error).toBeInstanceOf(OcpValidationError);
+  });
+
+  it('reports double conversions of a convertible', () => {
+    const report = validateSecurityLifecycle({
+      transactions: [
+        tx('TX_CONVERTIBLE_ISSUANCE', 'tx-safe', '2024-01-01', 'safe-1', {
+          stakeholder_id: 'fund',
+          investment_amount: { amount: '100000', currency: 'USD' },
+        }),
+        tx('TX_CONVERTIBLE_CONVERSION', 'tx-convert-1', '2024-06-01', 'safe-1', { resulting_security_ids: [] }),
+        tx('TX_CONVERTIBLE_CONVERSION', 'tx-convert-2', '2024-07-01', 'safe-1', { resulting_security_ids: [] }),
+      ],
+    });
+
+    expect(report.violations.map((violation) => violation.transactionId)).toEqual(['tx-convert-2']);
+  });
+});
+
+describe('findSecurityLifecycleViolations', () => {
+  const manifest = {
+    transactions: [
+      option,
+      tx('TX_EQUITY_COMPENSATION_EXERCISE', 'tx-exercise', '2024-06-01', 'opt-1', { quantity: '1000' }),
+      tx('TX_STOCK_CANCELLATION', 'tx-ghost', '2024-06-01', 'ghost', { quantity: '1' }),
+    ],
+  };
+
+  it('leaves out violations the manifest already has', () => {
+    expect(
+      findSecurityLifecycleViolations(manifest, {
+        transactions: [stock, tx('TX_STOCK_TRANSFER', 'tx-transfer', '2024-02-01', 'cs-1', { quantity: '500' })],
+      })
+    ).toEqual([]);
+  });
+
+  it('reports pending transactions and the existing ones they invalidate', () => {
+    const violations = findSecurityLifecycleViolations(manifest, {
+      transactions: [
+        tx('TX_EQUITY_COMPENSATION_CANCELLATION', 'tx-cancel', '2024-03-01', 'opt-1', { quantity: '1000' }),
+        tx('TX_EQUITY_COMPENSATION_RELEASE', 'tx-release', '2024-07-01', 'opt-1', { quantity: '1000' }),
+      ],
+    });
+
+    expect(violations.map((violation) => violation.transactionId)).toEqual(['tx-exercise', 'tx-release']);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the security lineage graph.
+ */
+
+import { buildSecurityLineage, getSecurityAncestors, getSecurityDescendants } from '../../src/utils/securityLineage';
+
+const issuance = (securityId: string, date: string, objectType = 'TX_STOCK_ISSUANCE') => ({
+  object_type: objectType,
+  id: `tx-${securityId}`,
+  date,
+  security_id: securityId,
+  stakeholder_id: `holder-${securityId}`,
+  stock_class_id: 'common',
+  quantity: '100',
+});
+
+/** cs-1 is partly transferred to cs-2 (balance cs-3); cs-2 is later consolidated with cs-4 into cs-5. */
+const transactions = [
+  issuance('cs-1', '2024-01-01'),
+  issuance('cs-2', '2024-02-01'),
+  issuance('cs-3', '2024-02-01'),
+  issuance('cs-4', '2024-01-15'),
+  issuance('cs-5', '2024-03-01'),
+  {
+    object_type: 'TX_STOCK_TRANSFER',
+    id: 'tx-transfer',
+    date: '2024-02-01',
+    security_id: 'cs-1',
+    quantity: '60',
+    resulting_security_ids: ['cs-2'],
+    balance_security_id: 'cs-3',
+  },
+  {
+    object_type: 'TX_STOCK_CONSOLIDATION',
+    id: 'tx-consolidation',
+    date: '2024-03-01',
+    security_ids: ['cs-2', 'cs-4'],
+    resulting_security_id: 'cs-5',
+  },
+];
+
+describe('buildSecurityLineage', () => {
+  it('links consumed securities to the securities they produced', () => {
+    const graph = buildSecurityLineage({ transactions });
+
+    expect([...graph.nodes.keys()]).toEqual(['cs-1', 'cs-4', 'cs-2', 'cs-3', 'cs-5']);
+    expect(graph.nodes.get('cs-1')).toEqual({
+      securityId: 'cs-1',
+      kind: 'STOCK',
+      stakeholderId: 'holder-cs-1',
+      issuedBy: 'tx-cs-1',
+      issueDate: '2024-01-01',
+    });
+    expect(graph.edges.map((edge) => [edge.fromSecurityId, edge.toSecurityId, edge.relation])).toEqual([
+      ['cs-1', 'cs-2', 'RESULT'],
+      ['cs-1', 'cs-3', 'BALANCE'],
+      ['cs-2', 'cs-5', 'RESULT'],
+      ['cs-4', 'cs-5', 'RESULT'],
+    ]);
+    expect(graph.brokenLinks).toEqual([]);
+    expect(graph.cycles).toEqual([]);
+  });
+
+  it('answers where a security came from and what it became', () => {
+    const graph = buildSecurityLineage({ transactions });
+
+    expect(
+      getSecurityAncestors(graph, 'cs-5').map(({ edge, depth }) => [edge.fromSecurityId, edge.transactionId, depth])
+    ).toEqual([
+      ['cs-2', 'tx-consolidation', 1],
+      ['cs-4', 'tx-consolidation', 1],
+      ['cs-1', 'tx-transfer', 2],
+    ]);
+    expect(getSecurityDescendants(graph, 'cs-1').map(({ edge, depth }) => [edge.toSecurityId, depth])).toEqual([
+      ['cs-2', 1],
+      ['cs-3', 1],
+      ['cs-5', 2],
+    ]);
+    expect(getSecurityDescendants(graph, 'cs-5')).toEqual([]);
+  });
+
+  it('reports references to securities that were never issued', () => {
+    const graph = buildSecurityLineage({
+      transactions: [
+        issuance('opt-1', '2024-01-01', 'TX_EQUITY_COMPENSATION_ISSUANCE'),
+        {
+          object_type: 'TX_EQUITY_COMPENSATION_EXERCISE',
+          id: 'tx-exercise',
+          date: '2024-06-01',
+          security_id: 'opt-1',
+          quantity: '100',
+          resulting_security_ids: ['cs-missing'],
+        },
+        { object_type: 'TX_STOCK_CANCELLATION', id: 'tx-cancel', date: '2024-07-01', security_id: 'cs-ghost' },
+      ],
+    });
+
+    expect(graph.brokenLinks).toEqual([
+      {
+        transactionId: 'tx-exercise',
+        objectType: 'TX_EQUITY_COMPENSATION_EXERCISE',
+        field: 'resulting_security_ids.0',
+        securityId: 'cs-missing',
+      },
+      { transactionId: 'tx-cancel', objectType: 'TX_STOCK_CANCELLATION', field: 'security_id', securityId: 'cs-ghost' },
+    ]);
+    expect(getSecurityDescendants(graph, 'opt-1').map(({ edge }) => edge.toSecurityId)).toEqual(['cs-missing']);
+  });
+
+  it('detects cycles and still terminates walks through them', () => {
+    const graph = buildSecurityLineage({
+      transactions: [
+        issuance('cs-1', '2024-01-01'),
+        issuance('cs-2', '2024-01-02'),
+        issuance('cs-3', '2024-01-03'),
+        {
+          object_type: 'TX_STOCK_TRANSFER',
+          id: 'tx-a',
+          date: '2024-02-01',
+          security_id: 'cs-2',
+          resulting_security_ids: ['cs-3'],
+        },
+        {
+          object_type: 'TX_STOCK_TRANSFER',
+          id: 'tx-b',
+          date: '2024-03-01',
+          security_id: 'cs-3',
+          resulting_security_ids: ['cs-1'],
+        },
+        {
+          object_type: 'TX_STOCK_REISSUANCE',
+          id: 'tx-c',
+          date: '2024-04-01',
+          security_id: 'cs-1',
+          resulting_security_ids: ['cs-2'],
+        },
+      ],
+    });
+
+    expect(graph.cycles).toEqual([['cs-1', 'cs-2', 'cs-3']]);
+    expect(getSecurityAncestors(graph, 'cs-1').map(({ edge }) => edge.transactionId)).toEqual(['tx-b', 'tx-a', 'tx-c']);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for per-stakeholder holdings statements.
+ */
+
+import type { OcfManifest } from '../../src/utils/cantonOcfExtractor';
+import { computeStakeholderStatement, renderStakeholderStatementHtml } from '../../src/utils/stakeholderStatement';
+import { buildManifest, usd } from './manifestFixtures';
+
+function statementManifest(): OcfManifest {
+  return buildManifest({
+    issuer: { id: 'issuer', object_type: 'ISSUER', legal_name: 'Acme <Labs> Inc.' },
+    stakeholders: [
+      { id: 'jane', name: { legal_name: 'Jane Doe' }, current_relationships: ['EMPLOYEE'] },
+      { id: 'fund', name: { legal_name: 'Seed Fund' }, current_relationships: ['INVESTOR'] },
+    ],
+    stockClasses: [{ id: 'common', name: 'Common', class_type: 'COMMON' }],
+    stockPlans: [{ id: 'plan', plan_name: '2024 Equity Plan', initial_shares_reserved: '1000000' }],
+    transactions: [
+      {
+        object_type: 'TX_STOCK_ISSUANCE',
+        id: 'tx-fund',
+        date: '2024-01-01',
+        security_id: 'cs-fund',
+        stakeholder_id: 'fund',
+        stock_class_id: 'common',
+        quantity: '5000',
+      },
+      {
+        object_type: 'TX_STOCK_TRANSFER',
+        id: 'tx-transfer',
+        date: '2024-02-01',
+        security_id: 'cs-fund',
+        quantity: '1000',
+        resulting_security_ids: ['cs-jane'],
+        balance_security_id: 'cs-fund-balance',
+      },
+      {
+        object_type: 'TX_STOCK_ISSUANCE',
+        id: 'tx-jane-stock',
+        date: '2024-02-01',
+        security_id: 'cs-jane',
+        stakeholder_id: 'jane',
+        stock_class_id: 'common',
+        quantity: '1000',
+      },
+      {
+        object_type: 'TX_STOCK_ISSUANCE',
+        id: 'tx-fund-balance',
+        date: '2024-02-01',
+        security_id: 'cs-fund-balance',
+        stakeholder_id: 'fund',
+        stock_class_id: 'common',
+        quantity: '4000',
+      },
+      {
+        object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+        id: 'tx-jane-option',
+        date: '2024-03-01',
+        security_id: 'opt-jane',
+        stakeholder_id: 'jane',
+        stock_plan_id: 'plan',
+        stock_class_id: 'common',
+        compensation_type: 'OPTION_ISO',
+        quantity: '4800',
+        exercise_price: usd('1.00'),
+        expiration_date: '2034-03-01',
+        vestings: [
+          { date: '2024-03-01', amount: '1200' },
+          { date: '2025-03-01', amount: '3600' },
+        ],
+      },
+      {
+        object_type: 'TX_EQUITY_COMPENSATION_REPRICING',
+        id: 'tx-reprice',
+        date: '2024-06-01',
+        security_id: 'opt-jane',
+        new_exercise_price: usd('0.80'),
+      },
+      {
+        object_type: 'TX_CONVERTIBLE_ISSUANCE',
+        id: 'tx-jane-safe',
+        date: '2024-04-01',
+        security_id: 'safe-jane',
+        stakeholder_id: 'jane',
+        investment_amount: usd('25000'),
+        convertible_type: 'SAFE',
+        conversion_triggers: [],
+        seniority: 1,
+      },
+    ],
+  });
+}
+
+describe('computeStakeholderStatement', () => {
+  it('lists the outstanding holdings of one stakeholder', () => {
+    const statement = computeStakeholderStatement(statementManifest(), 'jane', '2024-12-31');
+
+    expect(statement.issuerName).toBe('Acme <Labs> Inc.');
+    expect(statement.stakeholder).toMatchObject({ stakeholderId: 'jane', name: 'Jane Doe' });
+    expect(statement.holdings.map((holding) => holding.securityId)).toEqual(['cs-jane', 'opt-jane', 'safe-jane']);
+    expect(statement.holdings[1]).toEqual({
+      securityId: 'opt-jane',
+      kind: 'EQUITY_COMPENSATION',
+      issueDate: '2024-03-01',
+      stockClassId: 'common',
+      stockClassName: 'Common',
+      stockPlanId: 'plan',
+      stockPlanName: '2024 Equity Plan',
+      quantity: '4800',
+      outstandingQuantity: '4800',
+      currency: null,
+      exercisePrice: usd('0.8'),
+      expirationDate: '2034-03-01',
+      vesting: { source: 'VESTINGS', vested: '1200', unvested: '3600' },
+      accepted: false,
+    });
+    expect(statement.holdings[2]).toMatchObject({
+      kind: 'CONVERTIBLE',
+      quantity: '25000',
+      currency: 'USD',
+      vesting: null,
+    });
+    expect(statement.totals).toEqual({
+      shares: '1000',
+      options: '4800',
+      warrants: '0',
+      convertibles: [usd('25000')],
+    });
+  });
+
+  it('leaves out data about other stakeholders', () => {
+    const json = JSON.stringify(computeStakeholderStatement(statementManifest(), 'jane', '2024-12-31'));
+
+    expect(json).not.toContain('fund');
+    expect(json).not.toContain('Seed Fund');
+  });
+
+  it('totals convertibles in a reporting currency with the rates in effect on the statement date', () => {
+    const rates = [
+      { date: '2024-01-01', from: 'EUR', to: 'USD', rate: '1.25' },
+      { date: '2025-01-01', from: 'EUR', to: 'USD', rate: '1.6' },
+    ];
+
+    const statement = computeStakeholderStatement(statementManifest(), 'jane', '2024-12-31', {
+      reportingCurrency: { currency: 'EUR', rates },
+    });
+
+    expect(statement.totals.convertibles).toEqual([usd('25000')]);
+    expect(statement.totals.convertiblesInReportingCurrency).toEqual({ amount: '20000', currency: 'EUR' });
+    expect(renderStakeholderStatementHtml(statement)).toContain(
+      '<tr><th>Convertibles (total)</th><td>20000 EUR</td></tr>'
+    );
+  });
+
+  it('rejects stakeholders that are not in the manifest', () => {
+    expect(() => computeStakeholderStatement(statementManifest(), 'nobody', '2024-12-31')).toThrow(
+      expect.objectContaining({ fieldPath: 'stakeholderId', code: 'UNKNOWN_REFERENCE' })
+    );
+  });
+});
+
+describe('renderStakeholderStatementHtml', () => {
+  it('renders an escaped, printable HTML page', () => {
+    const html = renderStakeholderStatementHtml(computeStakeholderStatement(statementManifest(), 'jane', '2024-12-31'));
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Holdings statement for Jane Doe as of 2024-12-31</title>');
+    expect(html).toContain('<h1>Acme &lt;Labs&gt; Inc.</h1>');
+    expect(html).toContain(
+      '<tr><td>opt-jane</td><td>Equity compensation</td><td>Common / 2024 Equity Plan</td><td>2024-03-01</td>' +
+        '<td>4800</td><td>4800</td><td>0.8 USD</td><td>2034-03-01</td><td>1200</td><td>3600</td></tr>'
+    );
+    expect(html).toContain('<tr><th>Convertibles</th><td>25000 USD</td></tr>');
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for stock plan pool availability.
+ */
+
+import { computeStockPlanPools, findStockPlanPoolOverages } from '../../src/utils/stockPlanPool';
+import { buildManifest, equityCompensationIssuance } from './manifestFixtures';
+
+const plan = (cancellationBehavior?: string): Record<string, unknown> => ({
+  id: 'plan',
+  plan_name: '2024 Plan',
+  initial_shares_reserved: '1000',
+  stock_class_ids: ['common'],
+  ...(cancellationBehavior ? { default_cancellation_behavior: cancellationBehavior } : {}),
+});
+
+const poolGrant = { date: '2024-02-01', stakeholder_id: 'employee', stock_plan_id: 'plan' };
+
+const cancelWithBalance: Array<Record<string, unknown>> = [
+  equityCompensationIssuance('opt-1', '400', poolGrant),
+  {
+    object_type: 'TX_EQUITY_COMPENSATION_CANCELLATION',
+    id: 'tx-cancel',
+    date: '2024-06-01',
+    security_id: 'opt-1',
+    quantity: '100',
+    balance_security_id: 'opt-2',
+  },
+  equityCompensationIssuance('opt-2', '300', { ...poolGrant, date: '2024-06-01' }),
+];
+
+describe('computeStockPlanPools', () => {
+  it('draws grants from the reservation and applies pool adjustments', () => {
+    const [pool] = computeStockPlanPools(
+      buildManifest({
+        stockPlans: [plan()],
+        transactions: [
+          equityCompensationIssuance('opt-1', '400', poolGrant),
+          {
+            object_type: 'TX_STOCK_PLAN_POOL_ADJUSTMENT',
+            id: 'tx-pool',
+            date: '2024-03-01',
+            stock_plan_id: 'plan',
+            shares_reserved: '1500',
+          },
+        ],
+      })
+    );
+
+    expect(pool).toEqual({
+      stockPlanId: 'plan',
+      planName: '2024 Plan',
+      stockClassIds: ['common'],
+      cancellationBehavior: 'RETURN_TO_POOL',
+      reserved: '1500',
+      allocated: '400',
+      granted: '400',
+      issued: '0',
+      cancelled: '0',
+      returnedToPool: '0',
+      available: '1100',
+    });
+  });
+
+  it('returns cancelled quantities to the pool for RETURN_TO_POOL plans', () => {
+    const [pool] = computeStockPlanPools(
+      buildManifest({ stockPlans: [plan('RETURN_TO_POOL')], transactions: cancelWithBalance })
+    );
+    expect(pool).toMatchObject({ granted: '300', cancelled: '100', returnedToPool: '100', available: '700' });
+  });
+
+  it('keeps cancelled quantities out of the pool for RETIRE and HOLD_AS_CAPITAL_STOCK plans', () => {
+    for (const behavior of ['RETIRE', 'HOLD_AS_CAPITAL_STOCK']) {
+      const [pool] = computeStockPlanPools(
+        buildManifest({ stockPlans: [plan(behavior)], transactions: cancelWithBalance })
+      );
+      expect(pool).toMatchObject({ cancelled: '100', returnedToPool: '0', available: '600' });
+    }
+  });
+
+  it('only refills DEFINED_PER_PLAN_SECURITY plans through explicit return-to-pool transactions', () => {
+    const returnToPool = {
+      object_type: 'TX_STOCK_PLAN_RETURN_TO_POOL',
+      id: 'tx-return',
+      date: '2024-06-02',
+      security_id: 'opt-1',
+      stock_plan_id: 'plan',
+      quantity: '60',
+    };
+
+    const [perSecurity] = computeStockPlanPools(
+      buildManifest({
+        stockPlans: [plan('DEFINED_PER_PLAN_SECURITY')],
+        transactions: [...cancelWithBalance, returnToPool],
+      })
+    );
+    expect(perSecurity).toMatchObject({ returnedToPool: '60', available: '660' });
+
+    // The cancellation already returned opt-1 to the pool, so the explicit transaction is not counted again
+    const [automatic] = computeStockPlanPools(
+      buildManifest({ stockPlans: [plan('RETURN_TO_POOL')], transactions: [...cancelWithBalance, returnToPool] })
+    );
+    expect(automatic).toMatchObject({ returnedToPool: '100', available: '700' });
+  });
+
+  it('restores the reservation of retracted grants regardless of the cancellation behavior', () => {
+    const [pool] = computeStockPlanPools(
+      buildManifest({
+        stockPlans: [plan('RETIRE')],
+        transactions: [
+          equityCompensationIssuance('opt-1', '400', poolGrant),
+          {
+            object_type: 'TX_EQUITY_COMPENSATION_RETRACTION',
+            id: 'tx-retract',
+            date: '2024-02-15',
+            security_id: 'opt-1',
+            reason_text: 'Issued in error',
+          },
+        ],
+      })
+    );
+    expect(pool).toMatchObject({ allocated: '400', returnedToPool: '400', available: '1000' });
+  });
+
+  it('counts exercised shares once', () => {
+    const [pool] = computeStockPlanPools(
+      buildManifest({
+        stockPlans: [plan()],
+        transactions: [
+          equityCompensationIssuance('opt-1', '400', poolGrant),
+          {
+            object_type: 'TX_EQUITY_COMPENSATION_EXERCISE',
+            id: 'tx-exercise',
+            date: '2024-08-01',
+            security_id: 'opt-1',
+            quantity: '400',
+            resulting_security_ids: ['cs-1'],
+          },
+          {
+            object_type: 'TX_STOCK_ISSUANCE',
+            id: 'tx-cs-1',
+            date: '2024-08-01',
+            security_id: 'cs-1',
+            stakeholder_id: 'employee',
+            stock_class_id: 'common',
+            stock_plan_id: 'plan',
+            quantity: '400',
+          },
+        ],
+      })
+    );
+    expect(pool).toMatchObject({ allocated: '400', granted: '0', issued: '400', available: '600' });
+  });
+});
+
+describe('findStockPlanPoolOverages', () => {
+  const manifest = buildManifest({
+    stockPlans: [plan()],
+    transactions: [equityCompensationIssuance('opt-1', '800', poolGrant)],
+  });
+
+  it('reports pending grants that exceed the pool', () => {
+    expect(
+      findStockPlanPoolOverages(manifest, {
+        transactions: [
+          equityCompensationIssuance('opt-2', '150', poolGrant),
+          equityCompensationIssuance('opt-3', '100', poolGrant),
+        ],
+      })
+    ).toEqual([
+      {
+        stockPlanId: 'plan',
+        planName: '2024 Plan',
+        availableBefore: '200',
+        availableAfter: '-50',
+        requested: '250',
+        securityIds: ['opt-2', 'opt-3'],
+      },
+    ]);
+  });
+
+  it('accounts for pending pool adjustments and accepts grants that fit', () => {
+    expect(
+      findStockPlanPoolOverages(manifest, { transactions: [equityCompensationIssuance('opt-2', '200', poolGrant)] })
+    ).toEqual([]);
+    expect(
+      findStockPlanPoolOverages(manifest, {
+        transactions: [
+          {
+            object_type: 'TX_STOCK_PLAN_POOL_ADJUSTMENT',
+            id: 'tx-pool',
+            date: '2024-03-01',
+            stock_plan_id: 'plan',
+            shares_reserved: '2000',
+          },
+          equityCompensationIssuance('opt-2', '500', { ...poolGrant, date: '2024-03-02' }),
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it('checks grants against stock plans created alongside them', () => {
+    const overages = findStockPlanPoolOverages(
+      { stockPlans: [], transactions: [] },
+      {
+        stockPlans: [{ id: 'plan', plan_name: 'New Plan', initial_shares_reserved: '100' }],
+        transactions: [equityCompensationIssuance('opt-1', '150', poolGrant)],
+      }
+    );
+    expect(overages).toMatchObject([{ stockPlanId: 'plan', availableBefore: '0', availableAfter: '-50' }]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for stock class split adjustments.
+ */
+
+import { applyStockSplits } from '../../src/utils/stockSplits';
+import { buildManifest, usd } from './manifestFixtures';
+
+const split = (id: string, date: string, stockClassId: string, numerator: string, denominator: string) => ({
+  object_type: 'TX_STOCK_CLASS_SPLIT',
+  id,
+  date,
+  stock_class_id: stockClassId,
+  split_ratio: { numerator, denominator },
+});
+
+const stockClasses = [
+  { id: 'common', name: 'Common', class_type: 'COMMON', price_per_share: usd('0.01') },
+  {
+    id: 'series-a',
+    name: 'Series A Preferred',
+    class_type: 'PREFERRED',
+    price_per_share: usd('2.00'),
+    conversion_rights: [
+      {
+        type: 'STOCK_CLASS_CONVERSION_RIGHT',
+        conversion_mechanism: {
+          type: 'RATIO_CONVERSION',
+          ratio: { numerator: '1', denominator: '1' },
+          conversion_price: usd('2.00'),
+          rounding_type: 'NORMAL',
+        },
+        converts_to_stock_class_id: 'common',
+      },
+    ],
+  },
+];
+
+const outstanding = [
+  {
+    object_type: 'TX_STOCK_ISSUANCE',
+    id: 'tx-founder',
+    date: '2024-01-01',
+    security_id: 'cs-1',
+    stakeholder_id: 'founder',
+    stock_class_id: 'common',
+    quantity: '1000',
+    share_price: usd('0.01'),
+  },
+  {
+    object_type: 'TX_EQUITY_COMPENSATION_ISSUANCE',
+    id: 'tx-option',
+    date: '2024-01-15',
+    security_id: 'opt-1',
+    stakeholder_id: 'employee',
+    stock_class_id: 'common',
+    compensation_type: 'OPTION_ISO',
+    quantity: '300',
+    exercise_price: usd('0.30'),
+  },
+  {
+    object_type: 'TX_STOCK_ISSUANCE',
+    id: 'tx-pref',
+    date: '2024-02-01',
+    security_id: 'pa-1',
+    stakeholder_id: 'investor',
+    stock_class_id: 'series-a',
+    quantity: '500',
+    share_price: usd('2.00'),
+  },
+];
+
+describe('applyStockSplits', () => {
+  it('rescales quantities, prices and conversion terms of a forward split', () => {
+    const result = applyStockSplits(
+      buildManifest({
+        stockClasses,
+        transactions: [...outstanding, split('tx-split', '2024-06-01', 'common', '2', '1')],
+      })
+    );
+
+    expect(result.positions.securities.get('cs-1')?.quantity).toBe('2000');
+    expect(result.positions.securities.get('opt-1')?.quantity).toBe('600');
+    expect(result.positions.securities.get('pa-1')?.quantity).toBe('500');
+    expect(result.changedSecurityIds).toEqual(['cs-1', 'opt-1']);
+
+    expect(
+      result.adjustments.map(({ targetId, field, before, after }) => ({ targetId, field, before, after }))
+    ).toEqual([
+      { targetId: 'cs-1', field: 'quantity', before: '1000', after: '2000' },
+      { targetId: 'cs-1', field: 'share_price', before: '0.01', after: '0.005' },
+      { targetId: 'opt-1', field: 'quantity', before: '300', after: '600' },
+      { targetId: 'opt-1', field: 'exercise_price', before: '0.3', after: '0.15' },
+      { targetId: 'common', field: 'price_per_share', before: '0.01', after: '0.005' },
+      { targetId: 'series-a', field: 'conversion_ratio', before: '1/1', after: '2/1' },
+      { targetId: 'series-a', field: 'conversion_price', before: '2', after: '1' },
+    ]);
+    expect(result.adjustments[0]).toMatchObject({
+      splitTransactionId: 'tx-split',
+      date: '2024-06-01',
+      targetType: 'SECURITY',
+    });
+
+    const [common, seriesA] = result.stockClasses;
+    expect(common.price_per_share).toEqual(usd('0.005'));
+    expect(seriesA.conversion_rights).toEqual([
+      expect.objectContaining({
+        conversion_mechanism: {
+          type: 'RATIO_CONVERSION',
+          ratio: { numerator: '2', denominator: '1' },
+          conversion_price: usd('1'),
+          rounding_type: 'NORMAL',
+        },
+      }),
+    ]);
+  });
+
+  it('leaves the manifest untouched', () => {
+    const manifest = buildManifest({
+      stockClasses,
+      transactions: [...outstanding, split('tx-split', '2024-06-01', 'common', '2', '1')],
+    });
+    const before = JSON.stringify(manifest);
+    applyStockSplits(manifest);
+    expect(JSON.stringify(manifest)).toBe(before);
+  });
+
+  it('rounds reverse split quantities with the requested rounding type', () => {
+    const manifest = buildManifest({
+      stockClasses,
+      transactions: [...outstanding, split('tx-reverse', '2024-06-01', 'common', '1', '3')],
+    });
+
+    expect(applyStockSplits(manifest, { rounding: 'FLOOR' }).positions.securities.get('cs-1')?.quantity).toBe('333');
+    expect(applyStockSplits(manifest, { rounding: 'CEILING' }).positions.securities.get('opt-1')?.quantity).toBe('100');
+    expect(applyStockSplits(manifest).positions.securities.get('cs-1')?.quantity).toBe('333.3333333333');
+    expect(applyStockSplits(manifest).adjustments.find((adjustment) => adjustment.field === 'share_price')?.after).toBe(
+      '0.03'
+    );
+  });
+
+  it('scales conversion ratios out of a split preferred class', () => {
+    const result = applyStockSplits(
+      buildManifest({
+        stockClasses,
+        transactions: [...outstanding, split('tx-split', '2024-06-01', 'series-a', '4', '1')],
+      })
+    );
+
+    expect(result.changedSecurityIds).toEqual(['pa-1']);
+    expect(result.positions.securities.get('pa-1')?.quantity).toBe('2000');
+    expect(result.adjustments.filter((adjustment) => adjustment.targetType === 'STOCK_CLASS')).toEqual([
+      expect.objectContaining({ targetId: 'series-a', field: 'price_per_share', before: '2', after: '0.5' }),
+      expect.objectContaining({ targetId: 'series-a', field: 'conversion_ratio', before: '1/1', after: '1/4' }),
+    ]);
+  });
+
+  it('applies splits to repriced options and skips securities issued after the split', () => {
+    const result = applyStockSplits(
+      buildManifest({
+        stockClasses,
+        transactions: [
+          ...outstanding,
+          {
+            object_type: 'TX_EQUITY_COMPENSATION_REPRICING',
+            id: 'tx-reprice',
+            date: '2024-03-01',
+            security_id: 'opt-1',
+            new_exercise_price: usd('0.20'),
+          },
+          split('tx-split', '2024-06-01', 'common', '2', '1'),
+          {
+            object_type: 'TX_STOCK_ISSUANCE',
+            id: 'tx-late',
+            date: '2024-07-01',
+            security_id: 'cs-2',
+            stakeholder_id: 'advisor',
+            stock_class_id: 'common',
+            quantity: '100',
+            share_price: usd('0.005'),
+          },
+        ],
+      })
+    );
+
+    expect(result.adjustments).toContainEqual(
+      expect.objectContaining({ targetId: 'opt-1', field: 'exercise_price', before: '0.2', after: '0.1' })
+    );
+    expect(result.changedSecurityIds).not.toContain('cs-2');
+    expect(result.positions.securities.get('cs-2')?.quantity).toBe('100');
+  });
+
+  it('compounds successive splits', () => {
+    const result = applyStockSplits(
+      buildManifest({
+        stockClasses,
+        transactions: [
+          ...outstanding,
+          split('tx-split-1', '2024-06-01', 'common', '2', '1'),
+          split('tx-split-2', '2024-09-01', 'common', '3', '1'),
+        ],
+      })
+    );
+
+    expect(result.positions.securities.get('cs-1')?.quantity).toBe('6000');
+    expect(
+      result.adjustments
+        .filter((adjustment) => adjustment.targetId === 'series-a' && adjustment.field === 'conversion_ratio')
+        .map((adjustment) => adjustment.after)
+    ).toEqual(['2/1', '6/1']);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for temporal consistency checks.
+ */
+
+import { findTemporalConsistencyIssues, validateTemporalConsistency } from '../../src/utils/temporalConsistency';
+import { buildManifest } from './manifestFixtures';
+
+const issuer = { object_type: 'ISSUER', id: 'issuer', formation_date: '2020-01-15' };
+
+const stockIssuance = {
+  object_type: 'TX_STOCK_ISSUANCE',
+  id: 'tx-stock',
+  date: '2021-03-01',
+  security_id: 'cs-1',
+  board_approval_date: '2021-02-15',
+};
+
+const optionGrant = {
+  object_type: 'TX_PLAN_SECURITY_ISSUANCE',
+  id: 'tx-option',
+  date: '2021-06-01T00:00:00.000Z',
+  security_id: 'opt-1',
+  expiration_date: '2031-06-01',
+};
+
+describe('validateTemporalConsistency', () => {
+  it('accepts dates that agree with each other', () => {
+    const report = validateTemporalConsistency(
+      buildManifest({
+        issuer,
+        transactions: [
+          stockIssuance,
+          optionGrant,
+          { object_type: 'TX_VESTING_START', id: 'tx-start', date: '2021-06-01', security_id: 'opt-1' },
+          { object_type: 'TX_STOCK_TRANSFER', id: 'tx-transfer', date: '2021-03-01', security_id: 'cs-1' },
+        ],
+      })
+    );
+
+    expect(report).toEqual({ valid: true, errorCount: 0, warningCount: 0, issues: [] });
+  });
+
+  it('reports every inconsistent date', () => {
+    const report = validateTemporalConsistency(
+      buildManifest({
+        issuer,
+        transactions: [
+          { ...stockIssuance, date: '2019-12-31', board_approval_date: '2020-02-01' },
+          { ...optionGrant, expiration_date: '2021-05-31' },
+          { object_type: 'TX_VESTING_START', id: 'tx-start', date: '2021-01-01', security_id: 'opt-1' },
+          {
+            object_type: 'TX_EQUITY_COMPENSATION_EXERCISE',
+            id: 'tx-exercise',
+            date: '2021-05-01',
+            security_id: 'opt-1',
+          },
+          { object_type: 'TX_STOCK_CANCELLATION', id: 'tx-cancel', date: '2021-13-01', security_id: 'cs-1' },
+        ],
+      })
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map((issue) => [issue.entityId, issue.fieldPath, issue.code, issue.severity])).toEqual([
+      ['tx-cancel', 'date', 'INVALID_FORMAT', 'error'],
+      ['tx-stock', 'date', 'OUT_OF_RANGE', 'error'],
+      ['tx-stock', 'board_approval_date', 'OUT_OF_RANGE', 'error'],
+      ['tx-option', 'expiration_date', 'OUT_OF_RANGE', 'error'],
+      ['tx-start', 'date', 'OUT_OF_RANGE', 'warning'],
+      ['tx-exercise', 'date', 'OUT_OF_RANGE', 'error'],
+    ]);
+    expect(report.issues[1]).toEqual({
+      entityId: 'tx-stock',
+      entityType: 'stockIssuance',
+      fieldPath: 'date',
+      code: 'OUT_OF_RANGE',
+      severity: 'error',
+      message: "Dated 2019-12-31, before the issuer's formation date 2020-01-15",
+    });
+    expect(report.issues[5].message).toBe("Dated 2021-05-01, before security 'opt-1' is issued on 2021-06-01");
+  });
+});
+
+describe('findTemporalConsistencyIssues', () => {
+  it('only reports inconsistencies introduced by pending changes', () => {
+    const manifest = buildManifest({
+      issuer,
+      transactions: [{ ...stockIssuance, board_approval_date: '2021-04-01' }, optionGrant],
+    });
+
+    expect(
+      findTemporalConsistencyIssues(manifest, {
+        transactions: [
+          { object_type: 'TX_STOCK_TRANSFER', id: 'tx-transfer', date: '2021-04-01', security_id: 'cs-1' },
+        ],
+      })
+    ).toEqual([]);
+
+    const issues = findTemporalConsistencyIssues(manifest, {
+      issuer: { object_type: 'ISSUER', id: 'issuer', formation_date: '2021-04-01' },
+      transactions: [{ object_type: 'TX_STOCK_TRANSFER', id: 'tx-transfer', date: '2021-02-01', security_id: 'cs-1' }],
+    });
+    expect(issues.map((issue) => [issue.entityId, issue.message])).toEqual([
+      ['tx-stock', "Dated 2021-03-01, before the issuer's formation date 2021-04-01"],
+      ['tx-transfer', "Dated 2021-02-01, before the issuer's formation date 2021-04-01"],
+      ['tx-transfer', "Dated 2021-02-01, before security 'cs-1' is issued on 2021-03-01"],
+    ]);
+  });
+});
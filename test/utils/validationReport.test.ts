@@ -0,0 +1,157 @@
+/**
+ * Unit tests for collect-all validation reports.
+ */
+
+import { OcpErrorCodes, OcpValidationError } from '../../src/errors';
+import type { OcfCreateOperation, OcfEditOperation } from '../../src/functions/OpenCapTable/capTable/entityTypes';
+import * as ocfToDaml from '../../src/functions/OpenCapTable/capTable/ocfToDaml';
+import { resolveOcfSchemaDir } from '../../src/utils/ocfZodSchemas';
+import {
+  validateCapTableBatchOperations,
+  validateOcfEntityInput,
+  validateOcfManifest,
+} from '../../src/utils/validationReport';
+import { buildManifest } from './manifestFixtures';
+import { loadProductionFixture, stripSourceMetadata } from './productionFixtures';
+
+const schemaAvailabilityError = (() => {
+  try {
+    resolveOcfSchemaDir();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+})();
+
+function loadStakeholder(): Record<string, unknown> {
+  return stripSourceMetadata(loadProductionFixture<Record<string, unknown>>('stakeholder', 'individual'));
+}
+
+/** A stakeholder missing two required fields and still using a deprecated one. */
+function brokenStakeholder(): Record<string, unknown> {
+  const { name: _name, stakeholder_type: _type, ...rest } = loadStakeholder();
+  return { ...rest, current_relationship: 'EMPLOYEE' };
+}
+
+describe('validationReport', () => {
+  beforeAll(() => {
+    if (schemaAvailabilityError) {
+      throw schemaAvailabilityError;
+    }
+  });
+
+  describe('validateOcfEntityInput', () => {
+    it('reports a valid entity without issues', () => {
+      expect(validateOcfEntityInput('stakeholder', loadStakeholder())).toEqual({
+        valid: true,
+        errorCount: 0,
+        warningCount: 0,
+        issues: [],
+      });
+    });
+
+    it('collects every schema error and warns about deprecated fields', () => {
+      const report = validateOcfEntityInput('stakeholder', brokenStakeholder());
+
+      expect(report.valid).toBe(false);
+      expect(report.errorCount).toBeGreaterThanOrEqual(2);
+      expect(report.warningCount).toBe(1);
+      expect(report.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            entityId: 'test-stakeholder-individual-001',
+            entityType: 'stakeholder',
+            fieldPath: 'name',
+            code: 'INVALID_FORMAT',
+            severity: 'error',
+          }),
+          expect.objectContaining({ fieldPath: 'stakeholder_type', code: 'INVALID_FORMAT', severity: 'error' }),
+          expect.objectContaining({ fieldPath: 'current_relationship', code: 'DEPRECATED_FIELD', severity: 'warning' }),
+        ])
+      );
+    });
+
+    it('reports only the first error of the entity validator', () => {
+      const semanticError = new OcpValidationError('stakeholder.name.legal_name', 'Required field is missing', {
+        code: OcpErrorCodes.REQUIRED_FIELD_MISSING,
+      });
+      const convertSpy = jest.spyOn(ocfToDaml, 'convertInputToDaml').mockImplementation(() => {
+        throw semanticError;
+      });
+
+      try {
+        const report = validateOcfEntityInput('stakeholder', {
+          ...loadStakeholder(),
+          current_relationship: 'EMPLOYEE',
+        });
+
+        expect(report.errorCount).toBe(1);
+        expect(report.issues).toEqual([
+          expect.objectContaining({ fieldPath: 'stakeholder.name.legal_name', code: 'REQUIRED_FIELD_MISSING' }),
+          expect.objectContaining({ fieldPath: 'current_relationship', code: 'DEPRECATED_FIELD', severity: 'warning' }),
+        ]);
+      } finally {
+        convertSpy.mockRestore();
+      }
+    });
+
+    it('reports a mismatched object type as a single issue', () => {
+      const report = validateOcfEntityInput('stockClass', loadStakeholder());
+
+      expect(report.issues).toEqual([
+        expect.objectContaining({ entityType: 'stockClass', fieldPath: 'object_type', code: 'INVALID_FORMAT' }),
+      ]);
+    });
+  });
+
+  describe('validateCapTableBatchOperations', () => {
+    it('collects issues across creates, edits and deletes', () => {
+      const report = validateCapTableBatchOperations({
+        creates: [{ type: 'stakeholder', data: brokenStakeholder() } as unknown as OcfCreateOperation],
+        edits: [{ type: 'stakeholder', data: loadStakeholder() } as unknown as OcfEditOperation],
+        deletes: [{ type: 'stockClass', id: '' }],
+      });
+
+      expect(report.valid).toBe(false);
+      expect(report.issues.filter((issue) => issue.fieldPath === 'current_relationship')).toHaveLength(1);
+      expect(report.issues[report.issues.length - 1]).toEqual({
+        entityId: null,
+        entityType: 'stockClass',
+        fieldPath: 'id',
+        code: 'REQUIRED_FIELD_MISSING',
+        severity: 'error',
+        message: 'Required field is missing or invalid',
+      });
+    });
+  });
+
+  describe('validateOcfManifest', () => {
+    it('adds dangling references and lifecycle violations to per-object issues', () => {
+      const cancellation = loadProductionFixture<Record<string, unknown>>('stockCancellation');
+      const report = validateOcfManifest(
+        buildManifest({ stakeholders: [brokenStakeholder()], transactions: [cancellation] })
+      );
+
+      expect(report.valid).toBe(false);
+      expect(report.warningCount).toBe(1);
+      expect(report.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ entityType: 'stakeholder', fieldPath: 'name', severity: 'error' }),
+          {
+            entityId: 'test-stock-cancellation-001',
+            entityType: 'stockCancellation',
+            fieldPath: 'security_id',
+            code: 'UNKNOWN_SECURITY',
+            severity: 'error',
+            message: "References unknown SECURITY 'test-security-cancel-001'",
+          },
+          expect.objectContaining({
+            entityId: 'test-stock-cancellation-001',
+            fieldPath: 'security_id',
+            code: 'UNKNOWN_SECURITY',
+          }),
+        ])
+      );
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for the custom validation rule registry.
+ */
+
+import { OcpErrorCodes, OcpValidationError } from '../../src/errors';
+import type { CapTableBatchOperations, OcfEntityType } from '../../src/functions/OpenCapTable/capTable/entityTypes';
+import type { OcfStakeholder, OcfStockIssuance } from '../../src/types/native';
+import { validateRequiredString } from '../../src/utils/validation';
+import { ValidationRuleRegistry, type EntityValidationRule } from '../../src/utils/validationRules';
+
+const stakeholder = (id: string, extra: Partial<OcfStakeholder> = {}) =>
+  ({ object_type: 'STAKEHOLDER', id, ...extra }) as unknown as OcfStakeholder;
+
+const issuance = (id: string, stakeholderId: string) =>
+  ({ object_type: 'TX_STOCK_ISSUANCE', id, stakeholder_id: stakeholderId }) as unknown as OcfStockIssuance;
+
+/** Every stakeholder receiving an issuance in the batch needs a tax id. */
+const taxIdBeforeIssuance: EntityValidationRule<'stockIssuance'> = {
+  name: 'tax-id-before-issuance',
+  entityType: 'stockIssuance',
+  validate: (data, { operations }) => {
+    const holder = (operations.creates ?? []).find(
+      (operation) => operation.type === 'stakeholder' && operation.data.id === data.stakeholder_id
+    );
+    const taxIds = holder?.type === 'stakeholder' ? (holder.data.tax_ids ?? []) : [];
+    return taxIds.length > 0
+      ? []
+      : [{ fieldPath: 'stakeholder_id', message: `Stakeholder '${data.stakeholder_id}' has no tax id` }];
+  },
+};
+
+describe('ValidationRuleRegistry', () => {
+  const operations: CapTableBatchOperations = {
+    creates: [
+      { type: 'stakeholder', data: stakeholder('jane', { tax_ids: [{ tax_id: '123', country: 'US' }] }) },
+      { type: 'stakeholder', data: stakeholder('john') },
+      { type: 'stockIssuance', data: issuance('tx-jane', 'jane') },
+      { type: 'stockIssuance', data: issuance('tx-john', 'john') },
+    ],
+    deletes: [{ type: 'stockClass', id: 'common' }],
+  };
+
+  it('runs entity rules per operation and batch rules once, with the state', async () => {
+    const state = { entities: new Map<OcfEntityType, Set<string>>(), securityIds: new Map() };
+    const seenStates: unknown[] = [];
+    const rules = new ValidationRuleRegistry().addEntityRule(taxIdBeforeIssuance).addBatchRule({
+      name: 'no-deletes',
+      validate: async (ops, context) => {
+        seenStates.push(context.state);
+        return Promise.resolve(
+          (ops.deletes ?? []).map((op) => ({
+            fieldPath: 'deletes',
+            message: `Deletes ${op.type} '${op.id}'`,
+            severity: 'warning' as const,
+          }))
+        );
+      },
+    });
+
+    const report = await rules.validate(operations, state);
+
+    expect(rules.size).toBe(2);
+    expect(seenStates).toEqual([state]);
+    expect(report).toEqual({
+      valid: false,
+      errorCount: 1,
+      warningCount: 1,
+      issues: [
+        {
+          entityId: 'tx-john',
+          entityType: 'stockIssuance',
+          fieldPath: 'stakeholder_id',
+          code: OcpErrorCodes.RULE_VIOLATION,
+          severity: 'error',
+          message: "Stakeholder 'john' has no tax id",
+          rule: 'tax-id-before-issuance',
+        },
+        {
+          entityId: null,
+          entityType: null,
+          fieldPath: 'deletes',
+          code: OcpErrorCodes.RULE_VIOLATION,
+          severity: 'warning',
+          message: "Deletes stockClass 'common'",
+          rule: 'no-deletes',
+        },
+      ],
+    });
+  });
+
+  it('reports validation errors thrown by a rule and rethrows other errors', async () => {
+    const rules = new ValidationRuleRegistry().addEntityRule({
+      name: 'issuer-assigned-id',
+      entityType: 'stakeholder',
+      validate: (data) => {
+        validateRequiredString(data.issuer_assigned_id, 'issuer_assigned_id');
+        return [];
+      },
+    });
+
+    const report = rules.validateSync({ creates: [{ type: 'stakeholder', data: stakeholder('jane') }] });
+    expect(report.issues.map((issue) => [issue.entityId, issue.fieldPath, issue.code, issue.rule])).toEqual([
+      ['jane', 'issuer_assigned_id', OcpErrorCodes.INVALID_TYPE, 'issuer-assigned-id'],
+    ]);
+
+    rules.addBatchRule({
+      name: 'broken',
+      validate: () => {
+        throw new Error('boom');
+      },
+    });
+    await expect(rules.validate({})).rejects.toThrow('boom');
+  });
+
+  it('rejects async rules in validateSync and duplicate rule names', () => {
+    const rules = new ValidationRuleRegistry().addBatchRule({
+      name: 'lookup',
+      validate: async () => Promise.resolve([]),
+    });
+
+    expect(() => rules.validateSync({})).toThrow(OcpValidationError);
+    expect(() => rules.validateSync({})).toThrow("Rule 'lookup' is async; use validate()");
+    expect(() => rules.addBatchRule({ name: 'lookup', validate: () => [] })).toThrow(
+      "A validation rule named 'lookup' is already registered"
+    );
+  });
+
+  it('observes the promise of an async rule rejected by validateSync', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    try {
+      const rules = new ValidationRuleRegistry().addBatchRule({
+        name: 'failing-lookup',
+        validate: async () => Promise.reject(new Error('lookup failed')),
+      });
+
+      expect(() => rules.validateSync({})).toThrow("Rule 'failing-lookup' is async; use validate()");
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
+  it('validates the operations of a replication diff', async () => {
+    const rules = new ValidationRuleRegistry().addEntityRule(taxIdBeforeIssuance);
+
+    const report = await rules.validateReplicationDiff({
+      creates: [{ id: 'tx-john', entityType: 'stockIssuance', operation: 'create', data: issuance('tx-john', 'john') }],
+      edits: [],
+      deletes: [],
+    });
+
+    expect(report.issues.map((issue) => issue.entityId)).toEqual(['tx-john']);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Unit tests for the vesting schedule calculator.
+ */
+
+import { OcpValidationError } from '../../src/errors/OcpValidationError';
+import type { AllocationType, VestingCondition, VestingDayOfMonth } from '../../src/types/native';
+import { computeVestedQuantity, computeVestingSchedule } from '../../src/utils/vestingSchedule';
+
+function monthlyConditions(
+  occurrences: number,
+  options: { cliff?: number; dayOfMonth?: VestingDayOfMonth } = {}
+): VestingCondition[] {
+  return [
+    { id: 'start', trigger: { type: 'VESTING_START_DATE' }, next_condition_ids: ['monthly'] },
+    {
+      id: 'monthly',
+      portion: { numerator: '1', denominator: '1' },
+      trigger: {
+        type: 'VESTING_SCHEDULE_RELATIVE',
+        relative_to_condition_id: 'start',
+        period: {
+          type: 'MONTHS',
+          length: 1,
+          occurrences,
+          day_of_month: options.dayOfMonth ?? 'VESTING_START_DAY_OR_LAST_DAY_OF_MONTH',
+          ...(options.cliff ? { cliff_installment: options.cliff } : {}),
+        },
+      },
+      next_condition_ids: [],
+    },
+  ];
+}
+
+function trancheAmounts(allocationType: AllocationType, quantity: string): string[] {
+  const schedule = computeVestingSchedule({
+    vestingTerms: { allocation_type: allocationType, vesting_conditions: monthlyConditions(3) },
+    quantity,
+    vestingStartDate: '2024-01-01',
+  });
+  return schedule.tranches.map((tranche) => tranche.amount);
+}
+
+describe('computeVestingSchedule', () => {
+  it('builds a four-year monthly schedule with a one-year cliff', () => {
+    const schedule = computeVestingSchedule({
+      vestingTerms: {
+        allocation_type: 'CUMULATIVE_ROUND_DOWN',
+        vesting_conditions: monthlyConditions(48, { cliff: 12 }),
+      },
+      quantity: '4800',
+      vestingStartDate: '2024-01-15',
+    });
+
+    expect(schedule.tranches).toHaveLength(37);
+    expect(schedule.tranches[0]).toEqual({
+      date: '2025-01-15',
+      sourceId: 'monthly',
+      kind: 'SCHEDULED',
+      amount: '1200',
+      cumulative: '1200',
+    });
+    expect(schedule.tranches[1]).toMatchObject({ date: '2025-02-15', amount: '100', cumulative: '1300' });
+    expect(schedule.tranches[36]).toMatchObject({ date: '2028-01-15', cumulative: '4800' });
+    expect(schedule.totalScheduled).toBe('4800');
+    expect(schedule.pendingConditionIds).toEqual([]);
+
+    expect(computeVestedQuantity(schedule, '2025-01-14')).toEqual({
+      asOfDate: '2025-01-14',
+      vested: '0',
+      unvested: '4800',
+    });
+    expect(computeVestedQuantity(schedule, '2025-06-30').vested).toBe('1700');
+  });
+
+  it('honors every allocation type', () => {
+    expect(trancheAmounts('CUMULATIVE_ROUNDING', '11')).toEqual(['4', '3', '4']);
+    expect(trancheAmounts('CUMULATIVE_ROUND_DOWN', '11')).toEqual(['3', '4', '4']);
+    expect(trancheAmounts('FRONT_LOADED', '11')).toEqual(['4', '4', '3']);
+    expect(trancheAmounts('BACK_LOADED', '11')).toEqual(['3', '4', '4']);
+    expect(trancheAmounts('FRONT_LOADED_TO_SINGLE_TRANCHE', '11')).toEqual(['5', '3', '3']);
+    expect(trancheAmounts('BACK_LOADED_TO_SINGLE_TRANCHE', '11')).toEqual(['3', '3', '5']);
+    expect(trancheAmounts('FRACTIONAL', '11')).toEqual(['3.6666666667', '3.6666666666', '3.6666666667']);
+  });
+
+  it('keeps a fractional grant remainder on the last tranche for loaded allocations', () => {
+    expect(trancheAmounts('FRONT_LOADED', '10.5')).toEqual(['4', '3', '3.5']);
+  });
+
+  it('applies day-of-month rules with last-day fallbacks', () => {
+    const dates = (dayOfMonth: VestingDayOfMonth, start: string) =>
+      computeVestingSchedule({
+        vestingTerms: { allocation_type: 'FRACTIONAL', vesting_conditions: monthlyConditions(3, { dayOfMonth }) },
+        quantity: '3',
+        vestingStartDate: start,
+      }).tranches.map((tranche) => tranche.date);
+
+    expect(dates('VESTING_START_DAY_OR_LAST_DAY_OF_MONTH', '2024-01-31')).toEqual([
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+    ]);
+    expect(dates('29_OR_LAST_DAY_OF_MONTH', '2023-01-31')).toEqual(['2023-02-28', '2023-03-29', '2023-04-29']);
+    expect(dates('30_OR_LAST_DAY_OF_MONTH', '2024-01-31')).toEqual(['2024-02-29', '2024-03-30', '2024-04-30']);
+    expect(dates('15', '2024-11-30')).toEqual(['2024-12-15', '2025-01-15', '2025-02-15']);
+  });
+
+  it('supports day-based periods, absolute dates and remainder portions', () => {
+    const schedule = computeVestingSchedule({
+      vestingTerms: {
+        allocation_type: 'CUMULATIVE_ROUND_DOWN',
+        vesting_conditions: [
+          {
+            id: 'signing',
+            portion: { numerator: '1', denominator: '4' },
+            trigger: { type: 'VESTING_SCHEDULE_ABSOLUTE', date: '2024-01-01' },
+            next_condition_ids: ['quarterly'],
+          },
+          {
+            id: 'quarterly',
+            portion: { numerator: '1', denominator: '1', remainder: true },
+            trigger: {
+              type: 'VESTING_SCHEDULE_RELATIVE',
+              relative_to_condition_id: 'signing',
+              period: { type: 'DAYS', length: 90, occurrences: 3 },
+            },
+            next_condition_ids: [],
+          },
+        ],
+      },
+      quantity: '1200',
+    });
+
+    expect(schedule.tranches.map(({ date, amount }) => ({ date, amount }))).toEqual([
+      { date: '2024-01-01', amount: '300' },
+      { date: '2024-03-31', amount: '300' },
+      { date: '2024-06-29', amount: '300' },
+      { date: '2024-09-27', amount: '300' },
+    ]);
+  });
+
+  it('reads the start date from vesting start transactions and waits for vesting events', () => {
+    const vestingTerms = {
+      allocation_type: 'CUMULATIVE_ROUND_DOWN' as const,
+      vesting_conditions: [
+        {
+          id: 'start',
+          portion: { numerator: '1', denominator: '2' },
+          trigger: { type: 'VESTING_START_DATE' as const },
+          next_condition_ids: ['milestone'],
+        },
+        {
+          id: 'milestone',
+          portion: { numerator: '1', denominator: '2' },
+          trigger: { type: 'VESTING_EVENT' as const },
+          next_condition_ids: [],
+        },
+      ],
+    };
+    const start = {
+      object_type: 'TX_VESTING_START',
+      id: 'tx-start',
+      date: '2024-02-01',
+      vesting_condition_id: 'start',
+    };
+
+    const waiting = computeVestingSchedule({ vestingTerms, quantity: '1000', transactions: [start] });
+    expect(waiting.tranches.map((tranche) => tranche.amount)).toEqual(['500']);
+    expect(waiting.pendingConditionIds).toEqual(['milestone']);
+
+    const done = computeVestingSchedule({
+      vestingTerms,
+      quantity: '1000',
+      transactions: [
+        start,
+        { object_type: 'TX_VESTING_EVENT', id: 'tx-event', date: '2024-09-01', vesting_condition_id: 'milestone' },
+      ],
+    });
+    expect(done.tranches.map(({ date, cumulative }) => ({ date, cumulative }))).toEqual([
+      { date: '2024-02-01', cumulative: '500' },
+      { date: '2024-09-01', cumulative: '1000' },
+    ]);
+    expect(done.pendingConditionIds).toEqual([]);
+  });
+
+  it('marks conditions pending until a vesting start date is known', () => {
+    const schedule = computeVestingSchedule({
+      vestingTerms: { allocation_type: 'CUMULATIVE_ROUND_DOWN', vesting_conditions: monthlyConditions(12) },
+      quantity: '1200',
+    });
+    expect(schedule.tranches).toEqual([]);
+    expect(schedule.pendingConditionIds).toEqual(['start']);
+  });
+
+  it('adds accelerations and caps the schedule at the grant quantity', () => {
+    const schedule = computeVestingSchedule({
+      vestingTerms: { allocation_type: 'CUMULATIVE_ROUND_DOWN', vesting_conditions: monthlyConditions(4) },
+      quantity: '400',
+      vestingStartDate: '2024-01-01',
+      transactions: [{ object_type: 'TX_VESTING_ACCELERATION', id: 'tx-accel', date: '2024-03-15', quantity: '150' }],
+    });
+
+    expect(schedule.tranches.map(({ date, kind, amount }) => ({ date, kind, amount }))).toEqual([
+      { date: '2024-02-01', kind: 'SCHEDULED', amount: '100' },
+      { date: '2024-03-01', kind: 'SCHEDULED', amount: '100' },
+      { date: '2024-03-15', kind: 'ACCELERATION', amount: '150' },
+      { date: '2024-04-01', kind: 'SCHEDULED', amount: '50' },
+    ]);
+    expect(computeVestedQuantity(schedule, '2024-12-31').unvested).toBe('0');
+  });
+
+  it('rejects invalid condition graphs', () => {
+    const [start, monthly] = monthlyConditions(12);
+    expect(() =>
+      computeVestingSchedule({
+        vestingTerms: {
+          allocation_type: 'FRACTIONAL',
+          vesting_conditions: [
+            start,
+            {
+              ...monthly,
+              trigger: { ...monthly.trigger, relative_to_condition_id: 'missing' } as typeof monthly.trigger,
+            },
+          ],
+        },
+        quantity: '100',
+        vestingStartDate: '2024-01-01',
+      })
+    ).toThrow(OcpValidationError);
+
+    expect(() =>
+      computeVestingSchedule({
+        vestingTerms: {
+          allocation_type: 'FRACTIONAL',
+          vesting_conditions: [
+            { ...start, next_condition_ids: ['monthly'] },
+            { ...monthly, next_condition_ids: ['start'] },
+          ],
+        },
+        quantity: '100',
+        vestingStartDate: '2024-01-01',
+      })
+    ).toThrow(/cycle/);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the ZIP archive reader and writer.
+ */
+
+import { inflateRawSync } from 'zlib';
+import { OcpValidationError } from '../../src/errors';
+import { createZipStream, readZipArchive } from '../../src/utils/zipArchive';
+
+async function collect(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+/** Read the entries listed in the central directory of an archive. */
+function readEntries(zip: Buffer): Array<{ name: string; crc: number; data: Buffer }> {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const entries = [];
+  let offset = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    expect(zip.readUInt32LE(offset)).toBe(0x02014b50);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const local = zip.readUInt32LE(offset + 42);
+    expect(zip.readUInt32LE(local)).toBe(0x04034b50);
+    const dataStart = local + 30 + zip.readUInt16LE(local + 26);
+    const data = inflateRawSync(zip.subarray(dataStart, dataStart + zip.readUInt32LE(offset + 20)));
+    expect(data.length).toBe(zip.readUInt32LE(offset + 24));
+    entries.push({ name, crc: zip.readUInt32LE(offset + 16), data });
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZipStream', () => {
+  it('writes deflated entries listed in the central directory', async () => {
+    const zip = await collect(
+      createZipStream(
+        [
+          { name: 'Manifest.ocf.json', data: Buffer.from('{"items":[]}\n') },
+          { name: 'dir/Stakeholders – ünïcode.json', data: Buffer.from('x'.repeat(10_000)) },
+          { name: 'empty.txt', data: Buffer.alloc(0) },
+        ],
+        new Date(2024, 11, 31, 12, 30, 10)
+      )
+    );
+
+    const entries = readEntries(zip);
+    expect(entries.map((entry) => [entry.name, entry.data.toString()])).toEqual([
+      ['Manifest.ocf.json', '{"items":[]}\n'],
+      ['dir/Stakeholders – ünïcode.json', 'x'.repeat(10_000)],
+      ['empty.txt', ''],
+    ]);
+    // Standard CRC-32 of the first entry
+    expect(entries[0].crc).toBe(0x513b2955);
+    expect(zip.length).toBeLessThan(1_000);
+  });
+
+  it('rejects archives that need ZIP64', () => {
+    const entries = Array.from({ length: 0x10000 }, (_, i) => ({ name: `${i}`, data: Buffer.alloc(0) }));
+    expect(() => createZipStream(entries)).toThrow(OcpValidationError);
+  });
+});
+
+describe('readZipArchive', () => {
+  it('reads back the entries written by createZipStream', async () => {
+    const entries = [
+      { name: 'Manifest.ocf.json', data: Buffer.from('{"items":[]}\n') },
+      { name: 'dir/Stakeholders – ünïcode.json', data: Buffer.from('x'.repeat(10_000)) },
+      { name: 'empty.txt', data: Buffer.alloc(0) },
+    ];
+
+    expect(readZipArchive(await collect(createZipStream(entries)))).toEqual(entries);
+  });
+
+  it('skips directory entries', async () => {
+    const zip = await collect(
+      createZipStream([
+        { name: 'bundle/', data: Buffer.alloc(0) },
+        { name: 'bundle/a.txt', data: Buffer.from('hello') },
+      ])
+    );
+
+    expect(readZipArchive(zip)).toEqual([{ name: 'bundle/a.txt', data: Buffer.from('hello') }]);
+  });
+
+  it('rejects corrupt archives', async () => {
+    const zip = await collect(createZipStream([{ name: 'a.txt', data: Buffer.from('hello world') }]));
+    const corrupt = Buffer.from(zip);
+    corrupt[30 + 'a.txt'.length] ^= 0xff;
+
+    expect(() => readZipArchive(Buffer.from('not a zip file at all, just some text'))).toThrow(
+      'end of central directory not found'
+    );
+    expect(() => readZipArchive(corrupt)).toThrow(OcpValidationError);
+  });
+});